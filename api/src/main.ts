@@ -1,9 +1,12 @@
 import { NestFactory } from '@nestjs/core'
+import { WsAdapter } from '@nestjs/platform-ws'
 import { AppModule } from './modules/app.module'
 
 async function bootstrap() {
 	const app = await NestFactory.create(AppModule)
 	app.enableCors()
+	app.enableShutdownHooks()
+	app.useWebSocketAdapter(new WsAdapter(app))
 	await app.listen(3001)
 }
 
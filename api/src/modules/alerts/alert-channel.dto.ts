@@ -0,0 +1,25 @@
+export type AlertChannelType = 'webhook' | 'slack' | 'smtp'
+
+export interface AlertChannelDto {
+	id: string
+	type: AlertChannelType
+	target: string
+}
+
+/**
+ * One entry of ALERT_CHANNELS / ALERT_CHANNELS_FILE. `url` is used by webhook
+ * and slack channels, the remaining fields by smtp channels.
+ */
+export interface AlertChannelConfig {
+	id: string
+	type: AlertChannelType
+	url?: string
+	headers?: Record<string, string>
+	host?: string
+	port?: number
+	secure?: boolean
+	username?: string
+	password?: string
+	from?: string
+	to?: string[]
+}
@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common'
+import { readFileSync } from 'fs'
+import * as nodemailer from 'nodemailer'
+import { AlertChannelConfig, AlertChannelDto } from './alert-channel.dto'
+import { AlertNotificationDto } from './alert.dto'
+
+const NOTIFY_TIMEOUT_MS = 10000
+
+const readChannelsConfig = (): AlertChannelConfig[] => {
+	const file = process.env.ALERT_CHANNELS_FILE?.trim()
+	const raw = file ? readFileSync(file, 'utf8') : process.env.ALERT_CHANNELS
+
+	if (!raw || raw.trim().length === 0) {
+		return []
+	}
+
+	const parsed = JSON.parse(raw) as AlertChannelConfig[]
+	if (!Array.isArray(parsed)) {
+		throw new Error('ALERT_CHANNELS must be a JSON array')
+	}
+
+	return parsed
+}
+
+/** Delivers alert notifications to the channels configured at startup. */
+@Injectable()
+export class AlertNotifierService {
+	private readonly channels = new Map<string, AlertChannelConfig>()
+
+	constructor() {
+		for (const config of readChannelsConfig()) {
+			const id = config.id?.trim()
+			if (!id) {
+				throw new Error('Every alert channel needs an id')
+			}
+
+			if (!['webhook', 'slack', 'smtp'].includes(config.type)) {
+				throw new Error(`Unknown alert channel type: ${config.type}`)
+			}
+
+			this.channels.set(id, { ...config, id })
+		}
+	}
+
+	has(id: string): boolean {
+		return this.channels.has(id)
+	}
+
+	list(): AlertChannelDto[] {
+		return [...this.channels.values()].map(config => ({
+			id: config.id,
+			type: config.type,
+			target: this.describeTarget(config),
+		}))
+	}
+
+	async notify(channelIds: string[], notification: AlertNotificationDto) {
+		await Promise.all(
+			channelIds.map(async id => {
+				const channel = this.channels.get(id)
+				if (!channel) {
+					return
+				}
+
+				try {
+					await this.send(channel, notification)
+				} catch (error) {
+					console.error(`Alert notification via ${id} failed:`, error)
+				}
+			}),
+		)
+	}
+
+	private async send(
+		channel: AlertChannelConfig,
+		notification: AlertNotificationDto,
+	) {
+		if (channel.type === 'smtp') {
+			const transport = nodemailer.createTransport({
+				host: channel.host,
+				port: channel.port ?? 587,
+				secure: channel.secure ?? false,
+				auth: channel.username
+					? { user: channel.username, pass: channel.password }
+					: undefined,
+			})
+
+			await transport.sendMail({
+				from: channel.from,
+				to: channel.to,
+				subject: this.formatSummary(notification),
+				text: this.formatDetails(notification),
+			})
+			return
+		}
+
+		const body =
+			channel.type === 'slack'
+				? {
+						text: `${this.formatSummary(notification)}\n${this.formatDetails(notification)}`,
+					}
+				: notification
+
+		const response = await fetch(channel.url ?? '', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json', ...channel.headers },
+			body: JSON.stringify(body),
+			signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+		})
+
+		if (!response.ok) {
+			throw new Error(`Webhook responded with ${response.status}`)
+		}
+	}
+
+	private formatSummary({ status, alert }: AlertNotificationDto): string {
+		const label = status === 'firing' ? 'FIRING' : 'RESOLVED'
+		return `[${label}] [${alert.severity}] ${alert.ruleName}: ${alert.subject}`
+	}
+
+	private formatDetails({ alert, timestamp }: AlertNotificationDto): string {
+		return [
+			`${alert.metric} = ${alert.value} (threshold ${alert.threshold})`,
+			alert.host ? `Docker host: ${alert.host}` : null,
+			`Pending since: ${alert.pendingSince}`,
+			`At: ${timestamp}`,
+		]
+			.filter(line => line !== null)
+			.join('\n')
+	}
+
+	// Webhook URLs often embed tokens, so only the origin is exposed.
+	private describeTarget(config: AlertChannelConfig): string {
+		if (config.type === 'smtp') {
+			return (config.to ?? []).join(', ')
+		}
+
+		try {
+			return new URL(config.url ?? '').origin
+		} catch {
+			return 'invalid url'
+		}
+	}
+}
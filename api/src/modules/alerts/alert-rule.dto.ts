@@ -0,0 +1,51 @@
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+
+export type AlertOperator = '>' | '>=' | '<' | '<=' | '==' | '!='
+
+export type ContainerAlertMetric =
+	| 'container.state'
+	| 'container.health'
+	| 'container.restarts'
+	| 'container.cpuPercent'
+	| 'container.memUsageBytes'
+	| 'container.memPercent'
+	| 'container.pids'
+
+export type HostAlertMetric =
+	| 'host.cpuPercent'
+	| 'host.usedMemBytes'
+	| 'host.usedMemPercent'
+	| 'host.freeMemBytes'
+
+export type AlertMetric = ContainerAlertMetric | HostAlertMetric
+
+/** Narrows a container rule; every given field must match. */
+export interface AlertSelectorDto {
+	host?: string
+	name?: string
+	cluster?: string
+}
+
+export interface AlertRuleDto {
+	id: string
+	name: string
+	metric: AlertMetric
+	operator: AlertOperator
+	value: number | string
+	forSeconds: number
+	severity: AlertSeverity
+	enabled: boolean
+	selector: AlertSelectorDto | null
+	channels: string[]
+	silencedUntil: string | null
+}
+
+export type AlertRuleInputDto = Partial<Omit<AlertRuleDto, 'silencedUntil'>> & {
+	name: string
+	metric: AlertMetric
+	value: number | string
+}
+
+export interface AlertSilenceDto {
+	minutes?: number
+}
@@ -0,0 +1,243 @@
+import {
+	BadRequestException,
+	Injectable,
+	NotFoundException,
+	OnModuleInit,
+} from '@nestjs/common'
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { AlertNotifierService } from './alert-notifier.service'
+import {
+	AlertMetric,
+	AlertOperator,
+	AlertRuleDto,
+	AlertRuleInputDto,
+	AlertSeverity,
+} from './alert-rule.dto'
+
+const ALERT_RULES_PATH = path.resolve(
+	process.env.ALERT_RULES_PATH?.trim() || 'data/alert-rules.json',
+)
+
+const MAX_SILENCE_MINUTES = 7 * 24 * 60
+
+const STRING_METRICS = new Set<AlertMetric>([
+	'container.state',
+	'container.health',
+])
+
+const NUMERIC_METRICS = new Set<AlertMetric>([
+	'container.restarts',
+	'container.cpuPercent',
+	'container.memUsageBytes',
+	'container.memPercent',
+	'container.pids',
+	'host.cpuPercent',
+	'host.usedMemBytes',
+	'host.usedMemPercent',
+	'host.freeMemBytes',
+])
+
+const OPERATORS = new Set<AlertOperator>(['>', '>=', '<', '<=', '==', '!='])
+const SEVERITIES = new Set<AlertSeverity>(['info', 'warning', 'critical'])
+
+// Seeded on first start so the panel is useful before anyone writes rules.
+const DEFAULT_RULES: AlertRuleInputDto[] = [
+	{
+		name: 'Host memory above 90%',
+		metric: 'host.usedMemPercent',
+		operator: '>',
+		value: 90,
+		forSeconds: 120,
+		severity: 'critical',
+	},
+	{
+		name: 'Container unhealthy',
+		metric: 'container.health',
+		operator: '==',
+		value: 'unhealthy',
+		forSeconds: 60,
+		severity: 'warning',
+	},
+	{
+		name: 'Container restart loop',
+		metric: 'container.restarts',
+		operator: '>=',
+		value: 3,
+		forSeconds: 0,
+		severity: 'critical',
+	},
+]
+
+@Injectable()
+export class AlertRulesService implements OnModuleInit {
+	private rules: AlertRuleDto[] = []
+	private writeQueue: Promise<void> = Promise.resolve()
+
+	constructor(private readonly notifier: AlertNotifierService) {}
+
+	async onModuleInit() {
+		await fs.mkdir(path.dirname(ALERT_RULES_PATH), { recursive: true })
+
+		let content: string | null = null
+		try {
+			content = await fs.readFile(ALERT_RULES_PATH, 'utf8')
+		} catch {
+			content = null
+		}
+
+		if (content === null) {
+			this.rules = DEFAULT_RULES.map(input => this.toRule(input, null))
+			await this.persist()
+			return
+		}
+
+		this.rules = JSON.parse(content) as AlertRuleDto[]
+	}
+
+	list(): AlertRuleDto[] {
+		return this.rules
+	}
+
+	get(id: string): AlertRuleDto {
+		const rule = this.rules.find(item => item.id === id)
+		if (!rule) {
+			throw new NotFoundException(`Alert rule not found: ${id}`)
+		}
+
+		return rule
+	}
+
+	/** Creates a rule, or replaces the one with the same id. */
+	async save(input: AlertRuleInputDto): Promise<AlertRuleDto> {
+		const existing = input.id
+			? this.rules.find(item => item.id === input.id)
+			: undefined
+		const rule = this.toRule(input, existing?.silencedUntil ?? null)
+
+		this.rules = existing
+			? this.rules.map(item => (item.id === rule.id ? rule : item))
+			: [...this.rules, rule]
+		await this.persist()
+
+		return rule
+	}
+
+	async remove(id: string): Promise<{ id: string }> {
+		this.get(id)
+		this.rules = this.rules.filter(item => item.id !== id)
+		await this.persist()
+
+		return { id }
+	}
+
+	async silence(id: string, minutes = 60): Promise<AlertRuleDto> {
+		const rule = this.get(id)
+		if (!Number.isFinite(minutes) || minutes < 0) {
+			throw new BadRequestException('minutes must be zero or positive')
+		}
+
+		const duration = Math.min(minutes, MAX_SILENCE_MINUTES)
+		const updated: AlertRuleDto = {
+			...rule,
+			silencedUntil:
+				duration === 0
+					? null
+					: new Date(Date.now() + duration * 60_000).toISOString(),
+		}
+
+		this.rules = this.rules.map(item => (item.id === id ? updated : item))
+		await this.persist()
+
+		return updated
+	}
+
+	isSilenced(rule: AlertRuleDto, now = Date.now()): boolean {
+		return rule.silencedUntil !== null && Date.parse(rule.silencedUntil) > now
+	}
+
+	private toRule(
+		input: AlertRuleInputDto,
+		silencedUntil: string | null,
+	): AlertRuleDto {
+		const name = input.name?.trim()
+		if (!name) {
+			throw new BadRequestException('name is required')
+		}
+
+		const metric = input.metric
+		const isStringMetric = STRING_METRICS.has(metric)
+		if (!isStringMetric && !NUMERIC_METRICS.has(metric)) {
+			throw new BadRequestException(`Unknown metric: ${metric}`)
+		}
+
+		const operator = input.operator ?? (isStringMetric ? '==' : '>')
+		if (!OPERATORS.has(operator)) {
+			throw new BadRequestException(`Unknown operator: ${operator}`)
+		}
+
+		if (isStringMetric && operator !== '==' && operator !== '!=') {
+			throw new BadRequestException(`${metric} only supports == and !=`)
+		}
+
+		const value = isStringMetric
+			? String(input.value).trim().toLowerCase()
+			: Number(input.value)
+		if (typeof value === 'number' && !Number.isFinite(value)) {
+			throw new BadRequestException(`${metric} needs a numeric value`)
+		}
+
+		const forSeconds = Number(input.forSeconds ?? 0)
+		if (!Number.isFinite(forSeconds) || forSeconds < 0) {
+			throw new BadRequestException('forSeconds must be zero or positive')
+		}
+
+		const severity = input.severity ?? 'warning'
+		if (!SEVERITIES.has(severity)) {
+			throw new BadRequestException(`Unknown severity: ${severity}`)
+		}
+
+		const channels = input.channels ?? []
+		const unknownChannel = channels.find(id => !this.notifier.has(id))
+		if (unknownChannel) {
+			throw new BadRequestException(`Unknown channel: ${unknownChannel}`)
+		}
+
+		if (metric.startsWith('host.') && input.selector) {
+			throw new BadRequestException('Host metrics do not take a selector')
+		}
+
+		const selector = input.selector
+			? {
+					host: input.selector.host?.trim() || undefined,
+					name: input.selector.name?.trim() || undefined,
+					cluster: input.selector.cluster?.trim() || undefined,
+				}
+			: null
+
+		return {
+			id: input.id?.trim() || randomUUID(),
+			name,
+			metric,
+			operator,
+			value,
+			forSeconds: Math.round(forSeconds),
+			severity,
+			enabled: input.enabled ?? true,
+			selector,
+			channels,
+			silencedUntil,
+		}
+	}
+
+	private async persist() {
+		const content = `${JSON.stringify(this.rules, null, 2)}\n`
+		this.writeQueue = this.writeQueue
+			.then(() => fs.writeFile(ALERT_RULES_PATH, content))
+			.catch(error => {
+				console.error('Alert rules write failed:', error)
+			})
+		await this.writeQueue
+	}
+}
@@ -0,0 +1,25 @@
+import { AlertMetric, AlertSeverity } from './alert-rule.dto'
+
+export type AlertStatus = 'firing' | 'resolved'
+
+export interface ActiveAlertDto {
+	id: string
+	ruleId: string
+	ruleName: string
+	severity: AlertSeverity
+	metric: AlertMetric
+	subject: string
+	host: string | null
+	containerId: string | null
+	value: number | string
+	threshold: number | string
+	pendingSince: string
+	firingSince: string | null
+	silenced: boolean
+}
+
+export interface AlertNotificationDto {
+	status: AlertStatus
+	alert: ActiveAlertDto
+	timestamp: string
+}
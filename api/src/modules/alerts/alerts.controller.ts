@@ -0,0 +1,48 @@
+import { Body, Controller, Delete, Get, Param, Post } from '@nestjs/common'
+import { Roles } from '../auth/auth.decorators'
+import { AlertNotifierService } from './alert-notifier.service'
+import { AlertRuleInputDto, AlertSilenceDto } from './alert-rule.dto'
+import { AlertRulesService } from './alert-rules.service'
+import { AlertsService } from './alerts.service'
+
+@Controller('alerts')
+export class AlertsController {
+	constructor(
+		private readonly alertsService: AlertsService,
+		private readonly alertRulesService: AlertRulesService,
+		private readonly alertNotifierService: AlertNotifierService,
+	) {}
+
+	@Get('active')
+	getActive() {
+		return this.alertsService.getActive()
+	}
+
+	@Get('rules')
+	getRules() {
+		return this.alertRulesService.list()
+	}
+
+	@Roles('operator')
+	@Post('rules')
+	saveRule(@Body() input: AlertRuleInputDto) {
+		return this.alertRulesService.save(input)
+	}
+
+	@Roles('operator')
+	@Delete('rules/:id')
+	removeRule(@Param('id') id: string) {
+		return this.alertRulesService.remove(id)
+	}
+
+	@Roles('operator')
+	@Post('rules/:id/silence')
+	silenceRule(@Param('id') id: string, @Body() input: AlertSilenceDto) {
+		return this.alertRulesService.silence(id, input?.minutes ?? 60)
+	}
+
+	@Get('channels')
+	getChannels() {
+		return this.alertNotifierService.list()
+	}
+}
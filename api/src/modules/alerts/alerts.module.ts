@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { ContainersModule } from '../containers/containers.module'
+import { StatsModule } from '../stats/stats.module'
+import { AlertNotifierService } from './alert-notifier.service'
+import { AlertRulesService } from './alert-rules.service'
+import { AlertsController } from './alerts.controller'
+import { AlertsService } from './alerts.service'
+
+@Module({
+	imports: [ContainersModule, StatsModule],
+	controllers: [AlertsController],
+	providers: [AlertNotifierService, AlertRulesService, AlertsService],
+})
+export class AlertsModule {}
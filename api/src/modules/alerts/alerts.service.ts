@@ -0,0 +1,370 @@
+import {
+	Injectable,
+	OnApplicationBootstrap,
+	OnModuleDestroy,
+} from '@nestjs/common'
+import { ContainerDto } from '../containers/container.dto'
+import { ContainerEventsService } from '../containers/container-events.service'
+import { HostStatsDto } from '../stats/host-stats.dto'
+import {
+	containerMetricsTarget,
+	METRICS_SAMPLE_INTERVAL_MS,
+	MetricsStoreService,
+} from '../stats/metrics-store.service'
+import { StatsService } from '../stats/stats.service'
+import { AlertNotifierService } from './alert-notifier.service'
+import { AlertOperator, AlertRuleDto, HostAlertMetric } from './alert-rule.dto'
+import { ActiveAlertDto, AlertStatus } from './alert.dto'
+import { AlertRulesService } from './alert-rules.service'
+
+const EVALUATION_INTERVAL_MS =
+	Math.max(Number(process.env.ALERTS_EVALUATION_INTERVAL_SECONDS) || 15, 1) *
+	1000
+// container.restarts counts restarts observed within this window.
+const RESTART_WINDOW_MS = 15 * 60_000
+const STALE_SAMPLE_MS = METRICS_SAMPLE_INTERVAL_MS * 3
+
+type HostMetricField = HostAlertMetric extends `host.${infer Field}`
+	? Field
+	: never
+
+interface AlertSubject {
+	key: string
+	label: string
+	host: string | null
+	containerId: string | null
+	value: number | string | null
+}
+
+interface AlertState {
+	alert: ActiveAlertDto
+	isFiring: boolean
+}
+
+/**
+ * Evaluates alert rules on a fixed interval. A rule's condition must hold for
+ * `forSeconds` before the alert fires; firing and resolution are sent to the
+ * rule's channels unless the rule is silenced.
+ */
+@Injectable()
+export class AlertsService implements OnApplicationBootstrap, OnModuleDestroy {
+	private readonly states = new Map<string, AlertState>()
+	private readonly restartHistory = new Map<string, Array<[number, number]>>()
+	private timer: NodeJS.Timeout | null = null
+	private isEvaluating = false
+
+	constructor(
+		private readonly rulesService: AlertRulesService,
+		private readonly notifier: AlertNotifierService,
+		private readonly statsService: StatsService,
+		private readonly metricsStore: MetricsStoreService,
+		private readonly containerEventsService: ContainerEventsService,
+	) {}
+
+	onApplicationBootstrap() {
+		this.timer = setInterval(() => {
+			void this.evaluate()
+		}, EVALUATION_INTERVAL_MS)
+	}
+
+	onModuleDestroy() {
+		if (this.timer) {
+			clearInterval(this.timer)
+		}
+	}
+
+	getActive(): ActiveAlertDto[] {
+		const now = Date.now()
+		const rules = this.rulesService.list()
+
+		return [...this.states.values()]
+			.filter(state => state.isFiring)
+			.map(state => {
+				const rule = rules.find(item => item.id === state.alert.ruleId)
+				return {
+					...state.alert,
+					silenced: rule ? this.rulesService.isSilenced(rule, now) : false,
+				}
+			})
+	}
+
+	private async evaluate() {
+		if (this.isEvaluating) {
+			return
+		}
+
+		this.isEvaluating = true
+		try {
+			const rules = this.rulesService.list().filter(rule => rule.enabled)
+			const needsHost = rules.some(rule => rule.metric.startsWith('host.'))
+			const needsContainers = rules.some(rule =>
+				rule.metric.startsWith('container.'),
+			)
+			const needsRestarts = rules.some(
+				rule => rule.metric === 'container.restarts',
+			)
+
+			const [hostStats, containers] = await Promise.all([
+				needsHost ? this.readHostStats() : Promise.resolve(null),
+				needsContainers
+					? this.containerEventsService.getContainers()
+					: Promise.resolve([]),
+			])
+			const restarts = needsRestarts
+				? await this.readRestarts(containers)
+				: new Map<string, number>()
+
+			const seen = new Set<string>()
+			for (const rule of rules) {
+				const subjects = rule.metric.startsWith('host.')
+					? this.hostSubjects(rule, hostStats)
+					: containers
+							.filter(container => this.matchesSelector(rule, container))
+							.map(container =>
+								this.containerSubject(rule, container, restarts),
+							)
+
+				for (const subject of subjects) {
+					const key = `${rule.id}:${subject.key}`
+					seen.add(key)
+					await this.updateState(key, rule, subject)
+				}
+			}
+
+			// Rules that were deleted or disabled, and containers that vanished,
+			// resolve whatever they had firing.
+			for (const [key, state] of this.states) {
+				if (!seen.has(key)) {
+					await this.resolve(key, state)
+				}
+			}
+		} catch (error) {
+			console.error('Alert evaluation failed:', error)
+		} finally {
+			this.isEvaluating = false
+		}
+	}
+
+	private async updateState(
+		key: string,
+		rule: AlertRuleDto,
+		subject: AlertSubject,
+	) {
+		const now = Date.now()
+		const existing = this.states.get(key)
+		const matches =
+			subject.value !== null &&
+			this.compare(subject.value, rule.operator, rule.value)
+
+		if (!matches) {
+			if (existing) {
+				await this.resolve(key, existing)
+			}
+			return
+		}
+
+		const state: AlertState = existing ?? {
+			isFiring: false,
+			alert: {
+				id: key,
+				ruleId: rule.id,
+				ruleName: rule.name,
+				severity: rule.severity,
+				metric: rule.metric,
+				subject: subject.label,
+				host: subject.host,
+				containerId: subject.containerId,
+				value: subject.value ?? '',
+				threshold: rule.value,
+				pendingSince: new Date(now).toISOString(),
+				firingSince: null,
+				silenced: false,
+			},
+		}
+		state.alert.value = subject.value ?? ''
+		state.alert.threshold = rule.value
+		this.states.set(key, state)
+
+		const pendingMs = now - Date.parse(state.alert.pendingSince)
+		if (!state.isFiring && pendingMs >= rule.forSeconds * 1000) {
+			state.isFiring = true
+			state.alert.firingSince = new Date(now).toISOString()
+			await this.notify(rule, 'firing', state.alert)
+		}
+	}
+
+	private async resolve(key: string, state: AlertState) {
+		this.states.delete(key)
+
+		if (!state.isFiring) {
+			return
+		}
+
+		const rule = this.rulesService
+			.list()
+			.find(item => item.id === state.alert.ruleId)
+		if (rule) {
+			await this.notify(rule, 'resolved', state.alert)
+		}
+	}
+
+	private async notify(
+		rule: AlertRuleDto,
+		status: AlertStatus,
+		alert: ActiveAlertDto,
+	) {
+		if (rule.channels.length === 0 || this.rulesService.isSilenced(rule)) {
+			return
+		}
+
+		await this.notifier.notify(rule.channels, {
+			status,
+			alert,
+			timestamp: new Date().toISOString(),
+		})
+	}
+
+	private hostSubjects(
+		rule: AlertRuleDto,
+		stats: HostStatsDto | null,
+	): AlertSubject[] {
+		const field = rule.metric.slice('host.'.length) as HostMetricField
+
+		return [
+			{
+				key: 'host',
+				label: 'host',
+				host: null,
+				containerId: null,
+				value: stats ? Math.round(stats[field] * 100) / 100 : null,
+			},
+		]
+	}
+
+	private containerSubject(
+		rule: AlertRuleDto,
+		container: ContainerDto,
+		restarts: Map<string, number>,
+	): AlertSubject {
+		const key = containerMetricsTarget(container.host, container.id)
+		const subject = {
+			key,
+			label: container.name,
+			host: container.host,
+			containerId: container.id,
+		}
+
+		if (rule.metric === 'container.state') {
+			return { ...subject, value: container.state.toLowerCase() }
+		}
+
+		if (rule.metric === 'container.health') {
+			return { ...subject, value: container.health.status ?? 'none' }
+		}
+
+		if (rule.metric === 'container.restarts') {
+			return { ...subject, value: restarts.get(key) ?? null }
+		}
+
+		const sample =
+			container.state === 'running'
+				? this.metricsStore.latest(key, STALE_SAMPLE_MS)
+				: null
+		const field = rule.metric.slice('container.'.length) as
+			'cpuPercent' | 'memUsageBytes' | 'memPercent' | 'pids'
+		const value = sample?.[field] ?? null
+
+		return {
+			...subject,
+			value: value === null ? null : Math.round(value * 100) / 100,
+		}
+	}
+
+	private matchesSelector(rule: AlertRuleDto, container: ContainerDto) {
+		const selector = rule.selector
+		if (!selector) {
+			return true
+		}
+
+		return (
+			(!selector.host || selector.host === container.host) &&
+			(!selector.name ||
+				container.name.toLowerCase().includes(selector.name.toLowerCase())) &&
+			(!selector.cluster ||
+				(container.cluster ?? '').toLowerCase() ===
+					selector.cluster.toLowerCase())
+		)
+	}
+
+	private async readHostStats(): Promise<HostStatsDto | null> {
+		try {
+			return await this.statsService.getHostStats()
+		} catch {
+			return null
+		}
+	}
+
+	private async readRestarts(
+		containers: ContainerDto[],
+	): Promise<Map<string, number>> {
+		const now = Date.now()
+		const result = new Map<string, number>()
+		const current = new Set<string>()
+
+		await Promise.all(
+			containers.map(async container => {
+				const key = containerMetricsTarget(container.host, container.id)
+				current.add(key)
+
+				try {
+					const count = await this.containerEventsService.getRestartCount(
+						container.host,
+						container.id,
+					)
+					const history = (this.restartHistory.get(key) ?? []).filter(
+						([timestamp]) => now - timestamp <= RESTART_WINDOW_MS,
+					)
+					history.push([now, count])
+					this.restartHistory.set(key, history)
+					result.set(key, count - history[0][1])
+				} catch {
+					return
+				}
+			}),
+		)
+
+		for (const key of this.restartHistory.keys()) {
+			if (!current.has(key)) {
+				this.restartHistory.delete(key)
+			}
+		}
+
+		return result
+	}
+
+	private compare(
+		actual: number | string,
+		operator: AlertOperator,
+		expected: number | string,
+	): boolean {
+		if (typeof actual === 'string' || typeof expected === 'string') {
+			const matches = String(actual) === String(expected)
+			return operator === '!=' ? !matches : operator === '==' && matches
+		}
+
+		switch (operator) {
+			case '>':
+				return actual > expected
+			case '>=':
+				return actual >= expected
+			case '<':
+				return actual < expected
+			case '<=':
+				return actual <= expected
+			case '==':
+				return actual === expected
+			case '!=':
+				return actual !== expected
+		}
+	}
+}
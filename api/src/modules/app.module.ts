@@ -1,9 +1,33 @@
 import { Module } from '@nestjs/common'
+import { AlertsModule } from './alerts/alerts.module'
+import { AuditModule } from './audit/audit.module'
+import { AuthModule } from './auth/auth.module'
 import { ContainersModule } from './containers/containers.module'
 import { HealthModule } from './health/health.module'
+import { HostsModule } from './hosts/hosts.module'
+import { ImagesModule } from './images/images.module'
+import { JobsModule } from './jobs/jobs.module'
+import { NetworksModule } from './networks/networks.module'
+import { PrometheusModule } from './prometheus/prometheus.module'
+import { StacksModule } from './stacks/stacks.module'
 import { StatsModule } from './stats/stats.module'
+import { VolumesModule } from './volumes/volumes.module'
 
 @Module({
-	imports: [HealthModule, ContainersModule, StatsModule],
+	imports: [
+		AuthModule,
+		AuditModule,
+		HealthModule,
+		HostsModule,
+		ContainersModule,
+		ImagesModule,
+		VolumesModule,
+		NetworksModule,
+		StacksModule,
+		JobsModule,
+		StatsModule,
+		AlertsModule,
+		PrometheusModule,
+	],
 })
 export class AppModule {}
@@ -0,0 +1,48 @@
+import { BulkActionFailureDto } from '../containers/bulk-action.dto'
+
+export type AuditResult = 'success' | 'partial' | 'failure'
+
+export interface AuditTargetDto {
+	id: string
+	name: string
+}
+
+export interface AuditChangeDto {
+	field: string
+	from: string | null
+	to: string | null
+}
+
+export interface AuditEntryDto {
+	id: string
+	timestamp: string
+	actor: string
+	host: string
+	action: string
+	targets: AuditTargetDto[]
+	cluster: string | null
+	result: AuditResult
+	failed: BulkActionFailureDto[]
+	/** Settings an action changed, such as updated resource limits. */
+	changes?: AuditChangeDto[]
+}
+
+export interface AuditQueryDto {
+	actor?: string
+	host?: string
+	action?: string
+	target?: string
+	cluster?: string
+	result?: string
+	from?: string
+	to?: string
+	limit?: string
+	offset?: string
+}
+
+export interface AuditPageDto {
+	total: number
+	limit: number
+	offset: number
+	entries: AuditEntryDto[]
+}
@@ -0,0 +1,13 @@
+import { Controller, Get, Query } from '@nestjs/common'
+import { AuditQueryDto } from './audit-entry.dto'
+import { AuditService } from './audit.service'
+
+@Controller('audit')
+export class AuditController {
+	constructor(private readonly auditService: AuditService) {}
+
+	@Get()
+	getEntries(@Query() query: AuditQueryDto) {
+		return this.auditService.query(query)
+	}
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { TelemetryModule } from '../telemetry/telemetry.module'
+import { AuditController } from './audit.controller'
+import { AuditService } from './audit.service'
+
+@Module({
+	imports: [TelemetryModule],
+	controllers: [AuditController],
+	providers: [AuditService],
+	exports: [AuditService],
+})
+export class AuditModule {}
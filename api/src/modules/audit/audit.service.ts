@@ -0,0 +1,178 @@
+import { BadRequestException, Injectable, OnModuleInit } from '@nestjs/common'
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { TelemetryService } from '../telemetry/telemetry.service'
+import {
+	AuditEntryDto,
+	AuditPageDto,
+	AuditQueryDto,
+	AuditResult,
+} from './audit-entry.dto'
+
+const AUDIT_LOG_PATH = path.resolve(
+	process.env.AUDIT_LOG_PATH?.trim() || 'data/audit.jsonl',
+)
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 500
+
+export type AuditRecordInput = Omit<
+	AuditEntryDto,
+	'id' | 'timestamp' | 'result'
+>
+
+@Injectable()
+export class AuditService implements OnModuleInit {
+	private writeQueue: Promise<void> = Promise.resolve()
+
+	constructor(private readonly telemetry: TelemetryService) {}
+
+	async onModuleInit() {
+		await fs.mkdir(path.dirname(AUDIT_LOG_PATH), { recursive: true })
+	}
+
+	/** Counts the action in telemetry and appends it to the audit log. */
+	async recordAction(input: AuditRecordInput): Promise<AuditEntryDto> {
+		this.telemetry.recordAction(
+			input.action,
+			input.targets.length,
+			input.failed.length,
+		)
+
+		return this.record(input)
+	}
+
+	async query(input: AuditQueryDto): Promise<AuditPageDto> {
+		const limit = this.parseInteger(
+			input.limit,
+			DEFAULT_PAGE_SIZE,
+			1,
+			MAX_PAGE_SIZE,
+		)
+		const offset = this.parseInteger(
+			input.offset,
+			0,
+			0,
+			Number.MAX_SAFE_INTEGER,
+		)
+		const from = this.parseDate(input.from, 'from')
+		const to = this.parseDate(input.to, 'to')
+
+		const actor = input.actor?.trim().toLowerCase()
+		const host = input.host?.trim().toLowerCase()
+		const action = input.action?.trim().toLowerCase()
+		const target = input.target?.trim().toLowerCase()
+		const cluster = input.cluster?.trim().toLowerCase()
+		const result = input.result?.trim().toLowerCase()
+
+		const entries = (await this.readEntries()).filter(entry => {
+			const timestamp = Date.parse(entry.timestamp)
+
+			return (
+				(!actor || entry.actor.toLowerCase() === actor) &&
+				(!host || entry.host?.toLowerCase() === host) &&
+				(!action ||
+					entry.action === action ||
+					entry.action.endsWith(`.${action}`)) &&
+				(!target ||
+					entry.targets.some(
+						item =>
+							item.id.startsWith(target) ||
+							item.name.toLowerCase().includes(target),
+					)) &&
+				(!cluster || entry.cluster?.toLowerCase() === cluster) &&
+				(!result || entry.result === result) &&
+				(from === null || timestamp >= from) &&
+				(to === null || timestamp <= to)
+			)
+		})
+
+		entries.reverse()
+
+		return {
+			total: entries.length,
+			limit,
+			offset,
+			entries: entries.slice(offset, offset + limit),
+		}
+	}
+
+	private async record(input: AuditRecordInput): Promise<AuditEntryDto> {
+		const entry: AuditEntryDto = {
+			id: randomUUID(),
+			timestamp: new Date().toISOString(),
+			...input,
+			result: this.resolveResult(input),
+		}
+
+		// Appends are chained so concurrent actions never interleave lines.
+		this.writeQueue = this.writeQueue
+			.then(() => fs.appendFile(AUDIT_LOG_PATH, `${JSON.stringify(entry)}\n`))
+			.catch(error => {
+				console.error('Audit log write failed:', error)
+			})
+		await this.writeQueue
+
+		return entry
+	}
+
+	private async readEntries(): Promise<AuditEntryDto[]> {
+		await this.writeQueue
+
+		let content: string
+		try {
+			content = await fs.readFile(AUDIT_LOG_PATH, 'utf8')
+		} catch {
+			return []
+		}
+
+		const entries: AuditEntryDto[] = []
+		for (const line of content.split('\n')) {
+			if (line.trim().length === 0) {
+				continue
+			}
+
+			try {
+				entries.push(JSON.parse(line) as AuditEntryDto)
+			} catch {
+				continue
+			}
+		}
+
+		return entries
+	}
+
+	private resolveResult(input: AuditRecordInput): AuditResult {
+		if (input.failed.length === 0) {
+			return 'success'
+		}
+
+		return input.failed.length >= input.targets.length ? 'failure' : 'partial'
+	}
+
+	private parseInteger(
+		value: string | undefined,
+		fallback: number,
+		min: number,
+		max: number,
+	): number {
+		const parsed = value ? Number.parseInt(value, 10) : fallback
+		return Number.isFinite(parsed)
+			? Math.max(min, Math.min(max, parsed))
+			: fallback
+	}
+
+	private parseDate(value: string | undefined, field: string): number | null {
+		if (!value) {
+			return null
+		}
+
+		const parsed = Date.parse(value)
+		if (Number.isNaN(parsed)) {
+			throw new BadRequestException(`Invalid ${field} date: ${value}`)
+		}
+
+		return parsed
+	}
+}
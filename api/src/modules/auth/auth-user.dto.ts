@@ -0,0 +1,6 @@
+export type Role = 'viewer' | 'operator' | 'admin'
+
+export interface AuthUserDto {
+	username: string
+	role: Role
+}
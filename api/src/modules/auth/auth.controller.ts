@@ -0,0 +1,22 @@
+import { Body, Controller, Get, HttpCode, Post } from '@nestjs/common'
+import { AuthUserDto } from './auth-user.dto'
+import { CurrentUser, Public } from './auth.decorators'
+import { AuthService } from './auth.service'
+import { LoginDto } from './login.dto'
+
+@Controller('auth')
+export class AuthController {
+	constructor(private readonly authService: AuthService) {}
+
+	@Public()
+	@Post('login')
+	@HttpCode(200)
+	login(@Body() input: LoginDto) {
+		return this.authService.login(input)
+	}
+
+	@Get('me')
+	getCurrentUser(@CurrentUser() user: AuthUserDto) {
+		return user
+	}
+}
@@ -0,0 +1,27 @@
+import {
+	createParamDecorator,
+	ExecutionContext,
+	SetMetadata,
+} from '@nestjs/common'
+import { Request } from 'express'
+import { AuthUserDto, Role } from './auth-user.dto'
+
+export const IS_PUBLIC_KEY = 'kz:isPublic'
+export const REQUIRED_ROLE_KEY = 'kz:requiredRole'
+
+export interface AuthenticatedRequest extends Request {
+	user?: AuthUserDto
+}
+
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true)
+
+/**
+ * Minimum role needed for a route. Roles are ranked, so `operator` also
+ * admits `admin`. Routes without this decorator only require a valid session.
+ */
+export const Roles = (role: Role) => SetMetadata(REQUIRED_ROLE_KEY, role)
+
+export const CurrentUser = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): AuthUserDto | undefined =>
+		context.switchToHttp().getRequest<AuthenticatedRequest>().user,
+)
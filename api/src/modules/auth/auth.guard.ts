@@ -0,0 +1,62 @@
+import {
+	CanActivate,
+	ExecutionContext,
+	ForbiddenException,
+	Injectable,
+	UnauthorizedException,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { Role } from './auth-user.dto'
+import {
+	AuthenticatedRequest,
+	IS_PUBLIC_KEY,
+	REQUIRED_ROLE_KEY,
+} from './auth.decorators'
+import { AuthService } from './auth.service'
+
+@Injectable()
+export class AuthGuard implements CanActivate {
+	constructor(
+		private readonly reflector: Reflector,
+		private readonly authService: AuthService,
+	) {}
+
+	async canActivate(context: ExecutionContext): Promise<boolean> {
+		const targets = [context.getHandler(), context.getClass()]
+
+		if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+			return true
+		}
+
+		const request = context.switchToHttp().getRequest<AuthenticatedRequest>()
+		const token = this.extractToken(request)
+		if (!token) {
+			throw new UnauthorizedException('Missing session token')
+		}
+
+		const user = await this.authService.verifyToken(token)
+		request.user = user
+
+		const requiredRole = this.reflector.getAllAndOverride<Role | undefined>(
+			REQUIRED_ROLE_KEY,
+			targets,
+		)
+
+		if (requiredRole && !this.authService.hasRole(user, requiredRole)) {
+			throw new ForbiddenException(`Requires ${requiredRole} role`)
+		}
+
+		return true
+	}
+
+	private extractToken(request: AuthenticatedRequest): string | null {
+		const header = request.headers.authorization ?? ''
+		const [scheme, token] = header.split(' ')
+
+		if (scheme?.toLowerCase() !== 'bearer' || !token) {
+			return null
+		}
+
+		return token.trim()
+	}
+}
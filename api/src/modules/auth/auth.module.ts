@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common'
+import { APP_GUARD } from '@nestjs/core'
+import { JwtModule } from '@nestjs/jwt'
+import { AuthController } from './auth.controller'
+import { AuthGuard } from './auth.guard'
+import { AuthService, JWT_EXPIRES_IN } from './auth.service'
+
+@Module({
+	imports: [
+		JwtModule.register({
+			secret: process.env.JWT_SECRET,
+			signOptions: { expiresIn: JWT_EXPIRES_IN },
+		}),
+	],
+	controllers: [AuthController],
+	providers: [AuthService, { provide: APP_GUARD, useClass: AuthGuard }],
+	exports: [AuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,104 @@
+import { Injectable, OnModuleInit, UnauthorizedException } from '@nestjs/common'
+import { JwtService } from '@nestjs/jwt'
+import { createHash, timingSafeEqual } from 'crypto'
+import { AuthUserDto, Role } from './auth-user.dto'
+import { LoginDto, LoginResultDto } from './login.dto'
+
+export const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN?.trim() || '8h'
+
+const ROLE_RANK: Record<Role, number> = {
+	viewer: 0,
+	operator: 1,
+	admin: 2,
+}
+
+interface ConfiguredUser extends AuthUserDto {
+	password: string
+}
+
+interface SessionPayload {
+	sub: string
+	role: Role
+}
+
+const isRole = (value: string): value is Role => value in ROLE_RANK
+
+// AUTH_USERS=alice:secret:operator,bob:secret2:viewer
+const configuredUsers: ConfiguredUser[] =
+	process.env.AUTH_USERS?.split(',')
+		.map(entry => entry.trim())
+		.filter(entry => entry.length > 0)
+		.map(entry => {
+			const [username = '', password = '', role = 'viewer'] = entry.split(':')
+			return {
+				username: username.trim(),
+				password,
+				role: role.trim().toLowerCase(),
+			}
+		})
+		.filter(
+			(user): user is ConfiguredUser =>
+				user.username.length > 0 &&
+				user.password.length > 0 &&
+				isRole(user.role),
+		) ?? []
+
+@Injectable()
+export class AuthService implements OnModuleInit {
+	private readonly users = new Map(
+		configuredUsers.map(user => [user.username.toLowerCase(), user]),
+	)
+
+	constructor(private readonly jwtService: JwtService) {}
+
+	onModuleInit() {
+		if (!process.env.JWT_SECRET) {
+			throw new Error('JWT_SECRET must be set to sign dashboard sessions')
+		}
+
+		if (this.users.size === 0) {
+			console.warn('AUTH_USERS is empty: nobody will be able to log in')
+		}
+	}
+
+	async login(input: LoginDto): Promise<LoginResultDto> {
+		const username = input.username?.trim().toLowerCase() ?? ''
+		const user = this.users.get(username)
+
+		if (!user || !this.passwordMatches(input.password ?? '', user.password)) {
+			throw new UnauthorizedException('Invalid username or password')
+		}
+
+		const payload: SessionPayload = { sub: user.username, role: user.role }
+		const accessToken = await this.jwtService.signAsync(payload)
+
+		return {
+			accessToken,
+			expiresIn: JWT_EXPIRES_IN,
+			user: { username: user.username, role: user.role },
+		}
+	}
+
+	async verifyToken(token: string): Promise<AuthUserDto> {
+		try {
+			const payload = await this.jwtService.verifyAsync<SessionPayload>(token)
+			if (!isRole(payload.role)) {
+				throw new Error('Unknown role')
+			}
+
+			return { username: payload.sub, role: payload.role }
+		} catch {
+			throw new UnauthorizedException('Session expired or invalid')
+		}
+	}
+
+	hasRole(user: AuthUserDto, required: Role): boolean {
+		return ROLE_RANK[user.role] >= ROLE_RANK[required]
+	}
+
+	private passwordMatches(candidate: string, expected: string): boolean {
+		const candidateDigest = createHash('sha256').update(candidate).digest()
+		const expectedDigest = createHash('sha256').update(expected).digest()
+		return timingSafeEqual(candidateDigest, expectedDigest)
+	}
+}
@@ -0,0 +1,12 @@
+import { AuthUserDto } from './auth-user.dto'
+
+export interface LoginDto {
+	username?: string
+	password?: string
+}
+
+export interface LoginResultDto {
+	accessToken: string
+	expiresIn: string
+	user: AuthUserDto
+}
@@ -0,0 +1,45 @@
+export type ClusterRuleMatch = 'label' | 'name' | 'image' | 'composeProject'
+
+/**
+ * One entry of the ordered cluster rule list; the first enabled rule that
+ * matches a container decides its cluster.
+ */
+export interface ClusterRuleDto {
+	id: string
+	match: ClusterRuleMatch
+	/** Label key, for `label` rules. */
+	label: string | null
+	/** Case-insensitive regex tested against the matched value; null accepts any non-empty value. */
+	pattern: string | null
+	/** Cluster to assign; null uses the matched value itself. */
+	cluster: string | null
+	enabled: boolean
+}
+
+export type ClusterRuleInputDto = Partial<ClusterRuleDto> & {
+	match: ClusterRuleMatch
+}
+
+export interface ClusterRulesPreviewInputDto {
+	/** Unsaved rules to preview; the stored rules are used when omitted. */
+	rules?: ClusterRuleInputDto[]
+}
+
+export interface ClusterRulePreviewContainerDto {
+	host: string
+	id: string
+	name: string
+	image: string
+	cluster: string
+}
+
+export interface ClusterRulePreviewDto {
+	ruleId: string
+	containers: ClusterRulePreviewContainerDto[]
+}
+
+export interface ClusterRulesPreviewDto {
+	rules: ClusterRulePreviewDto[]
+	/** Containers no rule matched; they fall back to `other`. */
+	unmatched: ClusterRulePreviewContainerDto[]
+}
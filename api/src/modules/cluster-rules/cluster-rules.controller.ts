@@ -0,0 +1,41 @@
+import { Body, Controller, Delete, Get, Param, Post, Put } from '@nestjs/common'
+import { Roles } from '../auth/auth.decorators'
+import {
+	ClusterRuleInputDto,
+	ClusterRulesPreviewInputDto,
+} from './cluster-rule.dto'
+import { ClusterRulesService } from './cluster-rules.service'
+
+@Controller('cluster-rules')
+export class ClusterRulesController {
+	constructor(private readonly clusterRulesService: ClusterRulesService) {}
+
+	@Get()
+	getRules() {
+		return this.clusterRulesService.list()
+	}
+
+	@Roles('operator')
+	@Post()
+	saveRule(@Body() input: ClusterRuleInputDto) {
+		return this.clusterRulesService.save(input)
+	}
+
+	@Roles('operator')
+	@Put()
+	replaceRules(@Body() inputs: ClusterRuleInputDto[]) {
+		return this.clusterRulesService.replace(inputs)
+	}
+
+	@Roles('operator')
+	@Post('preview')
+	preview(@Body() input: ClusterRulesPreviewInputDto) {
+		return this.clusterRulesService.preview(input?.rules)
+	}
+
+	@Roles('operator')
+	@Delete(':id')
+	removeRule(@Param('id') id: string) {
+		return this.clusterRulesService.remove(id)
+	}
+}
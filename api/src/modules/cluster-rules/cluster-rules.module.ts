@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { HostsModule } from '../hosts/hosts.module'
+import { ClusterRulesController } from './cluster-rules.controller'
+import { ClusterRulesService } from './cluster-rules.service'
+
+@Module({
+	imports: [HostsModule],
+	controllers: [ClusterRulesController],
+	providers: [ClusterRulesService],
+	exports: [ClusterRulesService],
+})
+export class ClusterRulesModule {}
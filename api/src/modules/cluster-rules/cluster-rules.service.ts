@@ -0,0 +1,332 @@
+import {
+	BadRequestException,
+	Injectable,
+	NotFoundException,
+	OnModuleInit,
+} from '@nestjs/common'
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { Observable, Subject } from 'rxjs'
+import * as YAML from 'yaml'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	ClusterRuleDto,
+	ClusterRuleInputDto,
+	ClusterRuleMatch,
+	ClusterRulePreviewContainerDto,
+	ClusterRulesPreviewDto,
+} from './cluster-rule.dto'
+
+const CLUSTER_RULES_PATH = path.resolve(
+	process.env.CLUSTER_RULES_PATH?.trim() || 'data/cluster-rules.json',
+)
+const IS_YAML = /\.ya?ml$/i.test(CLUSTER_RULES_PATH)
+
+export const FALLBACK_CLUSTER = 'other'
+
+// Patterns run against every container name on each refresh; a length cap
+// keeps stored and previewed patterns small.
+const MAX_PATTERN_LENGTH = 200
+
+const MATCHES = new Set<ClusterRuleMatch>([
+	'label',
+	'name',
+	'image',
+	'composeProject',
+])
+
+// Seeded on first start; reproduces the grouping the dashboard always had.
+const DEFAULT_RULES: ClusterRuleInputDto[] = [
+	{ id: 'kz-cluster-label', match: 'label', label: 'kz.cluster' },
+	{ id: 'compose-project', match: 'composeProject' },
+	{
+		id: 'monitoring',
+		match: 'name',
+		pattern: 'zabbix|grafana|prometheus|loki',
+		cluster: 'monitoring',
+	},
+	{
+		id: 'logging',
+		match: 'name',
+		pattern: 'elastic|kibana|graylog',
+		cluster: 'logging',
+	},
+	{
+		id: 'databases',
+		match: 'name',
+		pattern: 'mysql|postgres|mongo|redis',
+		cluster: 'databases',
+	},
+]
+
+interface CompiledRule {
+	rule: ClusterRuleDto
+	regex: RegExp | null
+}
+
+interface ClusterSubject {
+	labels: Record<string, string>
+	name: string
+	image: string
+}
+
+/**
+ * Ordered cluster rules, stored in `CLUSTER_RULES_PATH` as JSON or, with a
+ * `.yaml`/`.yml` extension, YAML.
+ */
+@Injectable()
+export class ClusterRulesService implements OnModuleInit {
+	private rules: CompiledRule[] = []
+	private writeQueue: Promise<void> = Promise.resolve()
+	private readonly changes = new Subject<void>()
+
+	constructor(private readonly dockerHosts: DockerHostsService) {}
+
+	async onModuleInit() {
+		await fs.mkdir(path.dirname(CLUSTER_RULES_PATH), { recursive: true })
+
+		let content: string | null = null
+		try {
+			content = await fs.readFile(CLUSTER_RULES_PATH, 'utf8')
+		} catch {
+			content = null
+		}
+
+		if (content === null) {
+			this.rules = this.compile(DEFAULT_RULES)
+			await this.persist()
+			return
+		}
+
+		try {
+			const parsed: unknown = IS_YAML
+				? YAML.parse(content)
+				: JSON.parse(content)
+			if (!Array.isArray(parsed)) {
+				throw new Error('expected a list of rules')
+			}
+			this.rules = this.compile(parsed as ClusterRuleInputDto[])
+		} catch (error) {
+			// The file is left untouched so a hand-edit can be fixed and reloaded.
+			console.error(
+				`Invalid cluster rules in ${CLUSTER_RULES_PATH}, using defaults:`,
+				error instanceof Error ? error.message : error,
+			)
+			this.rules = this.compile(DEFAULT_RULES)
+		}
+	}
+
+	/** Emits after the rules changed, so cached cluster assignments can be redone. */
+	get changed(): Observable<void> {
+		return this.changes.asObservable()
+	}
+
+	list(): ClusterRuleDto[] {
+		return this.rules.map(compiled => compiled.rule)
+	}
+
+	/** Creates a rule at the end of the list, or replaces the one with the same id. */
+	async save(input: ClusterRuleInputDto): Promise<ClusterRuleDto> {
+		const [compiled] = this.compile([input])
+		const exists = this.rules.some(item => item.rule.id === compiled.rule.id)
+
+		await this.update(
+			exists
+				? this.rules.map(item =>
+						item.rule.id === compiled.rule.id ? compiled : item,
+					)
+				: [...this.rules, compiled],
+		)
+
+		return compiled.rule
+	}
+
+	/** Replaces the whole list; this is how rules are reordered. */
+	async replace(inputs: ClusterRuleInputDto[]): Promise<ClusterRuleDto[]> {
+		if (!Array.isArray(inputs)) {
+			throw new BadRequestException('Expected a list of rules')
+		}
+
+		await this.update(this.compile(inputs))
+		return this.list()
+	}
+
+	async remove(id: string): Promise<{ id: string }> {
+		if (!this.rules.some(item => item.rule.id === id)) {
+			throw new NotFoundException(`Cluster rule not found: ${id}`)
+		}
+
+		await this.update(this.rules.filter(item => item.rule.id !== id))
+		return { id }
+	}
+
+	resolve(labels: Record<string, string>, name: string, image: string): string {
+		return (
+			this.match(this.rules, { labels, name, image })?.cluster ??
+			FALLBACK_CLUSTER
+		)
+	}
+
+	/** Shows which containers each rule captures, on every reachable host. */
+	async preview(
+		inputs?: ClusterRuleInputDto[],
+	): Promise<ClusterRulesPreviewDto> {
+		const rules = inputs ? this.compile(inputs) : this.rules
+		const result: ClusterRulesPreviewDto = {
+			rules: rules.map(compiled => ({
+				ruleId: compiled.rule.id,
+				containers: [],
+			})),
+			unmatched: [],
+		}
+
+		const perHost = await Promise.all(
+			this.dockerHosts.all().map(async client => {
+				try {
+					const containers = await client.docker.listContainers({ all: true })
+					return containers.map(container => ({ host: client.name, container }))
+				} catch {
+					return []
+				}
+			}),
+		)
+
+		for (const { host, container } of perHost.flat()) {
+			const subject = {
+				labels: container.Labels ?? {},
+				name: container.Names?.[0]?.replace(/^\//, '') ?? container.Id,
+				image: container.Image,
+			}
+			const matched = this.match(rules, subject)
+			const entry: ClusterRulePreviewContainerDto = {
+				host,
+				id: container.Id,
+				name: subject.name,
+				image: subject.image,
+				cluster: matched?.cluster ?? FALLBACK_CLUSTER,
+			}
+
+			if (matched) {
+				result.rules[matched.index].containers.push(entry)
+			} else {
+				result.unmatched.push(entry)
+			}
+		}
+
+		return result
+	}
+
+	private match(
+		rules: CompiledRule[],
+		subject: ClusterSubject,
+	): { index: number; cluster: string } | null {
+		for (const [index, { rule, regex }] of rules.entries()) {
+			if (!rule.enabled) {
+				continue
+			}
+
+			const value = this.subjectValue(rule, subject)
+			if (!value || (regex && !regex.test(value))) {
+				continue
+			}
+
+			return { index, cluster: rule.cluster ?? value }
+		}
+
+		return null
+	}
+
+	private subjectValue(rule: ClusterRuleDto, subject: ClusterSubject): string {
+		switch (rule.match) {
+			case 'label':
+				return subject.labels[rule.label ?? '']?.trim() ?? ''
+			case 'composeProject':
+				return subject.labels['com.docker.compose.project']?.trim() ?? ''
+			case 'name':
+				return subject.name
+			case 'image':
+				return subject.image
+		}
+	}
+
+	private compile(inputs: ClusterRuleInputDto[]): CompiledRule[] {
+		const compiled = inputs.map(input => this.toRule(input))
+
+		const ids = new Set<string>()
+		for (const { rule } of compiled) {
+			if (ids.has(rule.id)) {
+				throw new BadRequestException(`Duplicate rule id: ${rule.id}`)
+			}
+			ids.add(rule.id)
+		}
+
+		return compiled
+	}
+
+	private toRule(input: ClusterRuleInputDto): CompiledRule {
+		if (!input || !MATCHES.has(input.match)) {
+			throw new BadRequestException(`Unknown match: ${input?.match}`)
+		}
+
+		const match = input.match
+		const label = input.label?.trim() || null
+		if (match === 'label' && !label) {
+			throw new BadRequestException('label rules need a label key')
+		}
+
+		const pattern = input.pattern?.trim() || null
+		if (pattern && pattern.length > MAX_PATTERN_LENGTH) {
+			throw new BadRequestException(
+				`Pattern longer than ${MAX_PATTERN_LENGTH} characters`,
+			)
+		}
+
+		let regex: RegExp | null = null
+		if (pattern) {
+			try {
+				regex = new RegExp(pattern, 'i')
+			} catch {
+				throw new BadRequestException(`Invalid pattern: ${pattern}`)
+			}
+		}
+
+		const cluster = input.cluster?.trim() || null
+		if ((match === 'name' || match === 'image') && (!pattern || !cluster)) {
+			throw new BadRequestException(
+				`${match} rules need a pattern and a cluster`,
+			)
+		}
+
+		return {
+			rule: {
+				id: input.id?.trim() || randomUUID(),
+				match,
+				label: match === 'label' ? label : null,
+				pattern,
+				cluster,
+				enabled: input.enabled ?? true,
+			},
+			regex,
+		}
+	}
+
+	private async update(rules: CompiledRule[]) {
+		this.rules = rules
+		await this.persist()
+		this.changes.next()
+	}
+
+	private async persist() {
+		const rules = this.list()
+		const content = IS_YAML
+			? YAML.stringify(rules)
+			: `${JSON.stringify(rules, null, 2)}\n`
+		this.writeQueue = this.writeQueue
+			.then(() => fs.writeFile(CLUSTER_RULES_PATH, content))
+			.catch(error => {
+				console.error('Cluster rules write failed:', error)
+			})
+		await this.writeQueue
+	}
+}
@@ -1,4 +1,9 @@
-export interface BulkActionDto {
+import {
+	ContainerAction,
+	ContainerActionOptionsDto,
+} from './container-action.dto'
+
+export interface BulkActionDto extends ContainerActionOptionsDto {
 	ids?: string[]
 	names?: string[]
 	includeAll?: boolean
@@ -16,3 +21,19 @@ export interface BulkActionResultDto {
 	succeeded: string[]
 	failed: BulkActionFailureDto[]
 }
+
+export interface ClusterTierResultDto {
+	tier: number
+	action: Exclude<ContainerAction, 'restart'>
+	targets: string[]
+	succeeded: string[]
+	failed: BulkActionFailureDto[]
+	/** Not attempted because an earlier tier failed. */
+	skipped: boolean
+}
+
+export interface ClusterActionResultDto extends BulkActionResultDto {
+	tiers: ClusterTierResultDto[]
+	/** Cluster members left alone because they are protected containers. */
+	skippedProtected: Array<{ id: string; name: string }>
+}
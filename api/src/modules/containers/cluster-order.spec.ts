@@ -0,0 +1,99 @@
+import { BadRequestException } from '@nestjs/common'
+import { ClusterMember, planClusterTiers } from './cluster-order'
+
+const member = (
+	name: string,
+	labels: Record<string, string> = {},
+): ClusterMember => ({ id: name, name, labels })
+
+const service = (project: string, name: string, dependsOn?: string) =>
+	member(`${project}-${name}-1`, {
+		'com.docker.compose.project': project,
+		'com.docker.compose.service': name,
+		...(dependsOn ? { 'com.docker.compose.depends_on': dependsOn } : {}),
+	})
+
+const names = (tiers: ClusterMember[][]) =>
+	tiers.map(tier => tier.map(item => item.name))
+
+describe('planClusterTiers', () => {
+	it('starts members without dependencies together', () => {
+		expect(names(planClusterTiers([member('a'), member('b')]))).toEqual([
+			['a', 'b'],
+		])
+	})
+
+	it('orders compose services after their depends_on', () => {
+		const tiers = planClusterTiers([
+			service('shop', 'web', 'api:service_started:false'),
+			service('shop', 'api', 'db:service_healthy:false,cache'),
+			service('shop', 'db'),
+			service('shop', 'cache'),
+		])
+
+		expect(names(tiers)).toEqual([
+			['shop-db-1', 'shop-cache-1'],
+			['shop-api-1'],
+			['shop-web-1'],
+		])
+	})
+
+	it('resolves compose dependencies within the same project only', () => {
+		const tiers = planClusterTiers([
+			service('shop', 'api', 'db'),
+			service('blog', 'db'),
+		])
+
+		expect(names(tiers)).toEqual([['shop-api-1', 'blog-db-1']])
+	})
+
+	it('resolves kz.depends_on by container or service name', () => {
+		const tiers = planClusterTiers([
+			member('infra-app-1', {
+				'com.docker.compose.project': 'infra',
+				'com.docker.compose.service': 'app',
+				'kz.depends_on': 'Postgres, queue',
+			}),
+			member('postgres'),
+			service('infra', 'queue'),
+		])
+
+		expect(names(tiers)).toEqual([
+			['postgres', 'infra-queue-1'],
+			['infra-app-1'],
+		])
+	})
+
+	it('starts lower kz.order values first', () => {
+		const tiers = planClusterTiers([
+			member('late', { 'kz.order': '20' }),
+			member('unordered'),
+			member('early', { 'kz.order': '10' }),
+			member('also-early', { 'kz.order': '10' }),
+		])
+
+		expect(names(tiers)).toEqual([
+			['unordered', 'early', 'also-early'],
+			['late'],
+		])
+	})
+
+	it('ignores dependencies outside the members', () => {
+		expect(
+			names(planClusterTiers([member('app', { 'kz.depends_on': 'missing' })])),
+		).toEqual([['app']])
+	})
+
+	it('rejects a dependency cycle and names it', () => {
+		const members = [
+			member('a', { 'kz.depends_on': 'b' }),
+			member('b', { 'kz.depends_on': 'a' }),
+			member('c'),
+		]
+
+		expect(() => planClusterTiers(members)).toThrow(BadRequestException)
+		expect(() => planClusterTiers(members)).toThrow(
+			'Dependency cycle: a -> b -> a',
+		)
+	})
+})
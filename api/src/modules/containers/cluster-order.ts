@@ -0,0 +1,131 @@
+import { BadRequestException } from '@nestjs/common'
+
+const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project'
+const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service'
+const COMPOSE_DEPENDS_ON_LABEL = 'com.docker.compose.depends_on'
+const DEPENDS_ON_LABEL = 'kz.depends_on'
+const ORDER_LABEL = 'kz.order'
+
+export interface ClusterMember {
+	id: string
+	name: string
+	labels: Record<string, string>
+}
+
+const splitList = (value: string | undefined) =>
+	(value ?? '')
+		.split(',')
+		.map(item => item.trim())
+		.filter(item => item.length > 0)
+
+const readOrder = (labels: Record<string, string>): number | null => {
+	const value = labels[ORDER_LABEL]?.trim()
+	if (!value) {
+		return null
+	}
+
+	const order = Number(value)
+	return Number.isFinite(order) ? order : null
+}
+
+/**
+ * Splits cluster members into start tiers: every member comes after the
+ * members it depends on. Dependencies come from compose `depends_on`,
+ * `kz.depends_on` (container or compose service names) and `kz.order`
+ * (members with a lower order go first). Dependencies outside the given
+ * members are ignored.
+ */
+export function planClusterTiers<T extends ClusterMember>(members: T[]): T[][] {
+	const byName = new Map<string, number[]>()
+	const index = (key: string, position: number) => {
+		byName.set(key, [...(byName.get(key) ?? []), position])
+	}
+
+	members.forEach((member, position) => {
+		index(member.name.toLowerCase(), position)
+
+		const service = member.labels[COMPOSE_SERVICE_LABEL]
+		if (service) {
+			index(
+				`${member.labels[COMPOSE_PROJECT_LABEL] ?? ''}/${service}`.toLowerCase(),
+				position,
+			)
+		}
+	})
+
+	const dependencies = members.map((member, position) => {
+		const project = member.labels[COMPOSE_PROJECT_LABEL] ?? ''
+		const resolve = (reference: string, allowContainerName: boolean) => [
+			...(byName.get(`${project}/${reference}`.toLowerCase()) ?? []),
+			...(allowContainerName
+				? (byName.get(reference.toLowerCase()) ?? [])
+				: []),
+		]
+
+		const result = new Set<number>()
+		// Compose writes `service:condition:restart`; older versions only the name.
+		for (const entry of splitList(member.labels[COMPOSE_DEPENDS_ON_LABEL])) {
+			resolve(entry.split(':')[0], false).forEach(item => result.add(item))
+		}
+
+		for (const entry of splitList(member.labels[DEPENDS_ON_LABEL])) {
+			resolve(entry, true).forEach(item => result.add(item))
+		}
+
+		const order = readOrder(member.labels)
+		if (order !== null) {
+			members.forEach((other, otherPosition) => {
+				const otherOrder = readOrder(other.labels)
+				if (otherOrder !== null && otherOrder < order) {
+					result.add(otherPosition)
+				}
+			})
+		}
+
+		result.delete(position)
+		return result
+	})
+
+	const tiers: T[][] = []
+	const placed = new Set<number>()
+	while (placed.size < members.length) {
+		const tier = members
+			.map((_, position) => position)
+			.filter(
+				position =>
+					!placed.has(position) &&
+					[...dependencies[position]].every(item => placed.has(item)),
+			)
+
+		if (tier.length === 0) {
+			throw new BadRequestException(
+				`Dependency cycle: ${describeCycle(members, dependencies, placed)}`,
+			)
+		}
+
+		tier.forEach(position => placed.add(position))
+		tiers.push(tier.map(position => members[position]))
+	}
+
+	return tiers
+}
+
+// Walks unplaced members along their dependencies until one repeats; every
+// unplaced member has an unplaced dependency, so this always finds a cycle.
+function describeCycle(
+	members: ClusterMember[],
+	dependencies: Set<number>[],
+	placed: Set<number>,
+): string {
+	const path: number[] = []
+	let current = members.findIndex((_, position) => !placed.has(position))
+
+	while (!path.includes(current)) {
+		path.push(current)
+		current = [...dependencies[current]].find(item => !placed.has(item)) ?? -1
+	}
+
+	return [...path.slice(path.indexOf(current)), current]
+		.map(position => members[position].name)
+		.join(' -> ')
+}
@@ -1,22 +1,36 @@
-import { Controller, Param, Post } from '@nestjs/common'
+import {
+	Body,
+	Controller,
+	HttpCode,
+	HttpStatus,
+	Param,
+	Post,
+} from '@nestjs/common'
+import { AuthUserDto } from '../auth/auth-user.dto'
+import { CurrentUser, Roles } from '../auth/auth.decorators'
+import { ContainerActionOptionsDto } from './container-action.dto'
 import { ContainersService } from './containers.service'
 
-@Controller('clusters')
+@Roles('operator')
+@Controller(['clusters', 'hosts/:host/clusters'])
 export class ClustersController {
 	constructor(private readonly containersService: ContainersService) {}
 
-	@Post(':cluster/start')
-	startCluster(@Param('cluster') cluster: string) {
-		return this.containersService.startCluster(cluster)
-	}
-
-	@Post(':cluster/stop')
-	stopCluster(@Param('cluster') cluster: string) {
-		return this.containersService.stopCluster(cluster)
-	}
-
-	@Post(':cluster/restart')
-	restartCluster(@Param('cluster') cluster: string) {
-		return this.containersService.restartCluster(cluster)
+	@Post(':cluster/:action')
+	@HttpCode(HttpStatus.ACCEPTED)
+	clusterAction(
+		@Param('cluster') cluster: string,
+		@Param('action') action: string,
+		@Body() options: ContainerActionOptionsDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containersService.clusterAction(
+			host,
+			cluster,
+			action,
+			options,
+			user.username,
+		)
 	}
 }
@@ -0,0 +1,21 @@
+/** Runs `handler` over `items` with at most `concurrency` calls in flight. */
+export const runWithConcurrency = async <T>(
+	items: T[],
+	concurrency: number,
+	handler: (item: T) => Promise<void>,
+): Promise<void> => {
+	let cursor = 0
+
+	const workers = Array.from(
+		{ length: Math.min(concurrency, items.length) },
+		async () => {
+			while (cursor < items.length) {
+				const item = items[cursor]
+				cursor += 1
+				await handler(item)
+			}
+		},
+	)
+
+	await Promise.all(workers)
+}
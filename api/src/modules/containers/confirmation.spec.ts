@@ -0,0 +1,81 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { ConfirmationRequiredDto } from './container-action.dto'
+import { requireConfirmation } from './confirmation'
+
+const targets: AuditTargetDto[] = [
+	{ id: 'b2', name: 'shop-api' },
+	{ id: 'a1', name: 'shop-db' },
+]
+
+// The 428 body, or null when the request was confirmed.
+const confirmationRequired = (
+	confirm?: string,
+	action = 'kill',
+	actionTargets = targets,
+): ConfirmationRequiredDto | null => {
+	try {
+		requireConfirmation(
+			action,
+			'local',
+			'shop',
+			actionTargets,
+			confirm,
+			'container(s)',
+		)
+		return null
+	} catch (error) {
+		expect(error).toBeInstanceOf(HttpException)
+		expect((error as HttpException).getStatus()).toBe(
+			HttpStatus.PRECONDITION_REQUIRED,
+		)
+		return (error as HttpException).getResponse() as ConfirmationRequiredDto
+	}
+}
+
+const tokenFor = (action = 'kill', actionTargets = targets) =>
+	confirmationRequired(undefined, action, actionTargets)?.confirmationToken
+
+describe('requireConfirmation', () => {
+	it('answers 428 with a token and the targets', () => {
+		expect(confirmationRequired()).toEqual({
+			statusCode: 428,
+			message: 'Confirm kill of 2 container(s)',
+			action: 'kill',
+			confirmationToken: expect.stringMatching(/^[0-9a-f]{16}$/),
+			targets,
+		})
+	})
+
+	it('accepts the token it returned', () => {
+		expect(confirmationRequired(tokenFor())).toBeNull()
+	})
+
+	it('accepts the typed name in any case', () => {
+		expect(confirmationRequired(' Shop ')).toBeNull()
+		expect(confirmationRequired('shop-api')).not.toBeNull()
+	})
+
+	it('derives the token from the target ids, not their order', () => {
+		expect(tokenFor('kill', [...targets].reverse())).toBe(tokenFor())
+	})
+
+	it('rejects a token once the targets change', () => {
+		const token = tokenFor()
+
+		expect(
+			confirmationRequired(token, 'kill', [
+				...targets,
+				{ id: 'c3', name: 'shop-web' },
+			]),
+		).not.toBeNull()
+	})
+
+	it('rejects a token of another action', () => {
+		expect(confirmationRequired(tokenFor('kill'), 'remove')).not.toBeNull()
+	})
+
+	it('has nothing to confirm without targets', () => {
+		expect(confirmationRequired(undefined, 'kill', [])).toBeNull()
+	})
+})
@@ -0,0 +1,47 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+import { createHash } from 'crypto'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { ConfirmationRequiredDto } from './container-action.dto'
+
+/**
+ * Destructive requests must name what they act on: the typed name, or a
+ * token derived from the exact target list (so a token from a preview is
+ * rejected once the targets change). Anything else answers 428 with the
+ * token and the targets.
+ */
+export const requireConfirmation = (
+	action: string,
+	host: string,
+	expectedName: string | null,
+	targets: AuditTargetDto[],
+	confirm: string | undefined,
+	noun: string,
+) => {
+	if (targets.length === 0) {
+		return
+	}
+
+	const token = createHash('sha256')
+		.update(
+			[action, host, ...targets.map(target => target.id).sort()].join('\n'),
+		)
+		.digest('hex')
+		.slice(0, 16)
+	const typed = confirm?.trim().toLowerCase()
+	if (
+		typed &&
+		(typed === token ||
+			(expectedName !== null && typed === expectedName.toLowerCase()))
+	) {
+		return
+	}
+
+	const body: ConfirmationRequiredDto = {
+		statusCode: 428,
+		message: `Confirm ${action} of ${targets.length} ${noun}`,
+		action,
+		confirmationToken: token,
+		targets,
+	}
+	throw new HttpException(body, HttpStatus.PRECONDITION_REQUIRED)
+}
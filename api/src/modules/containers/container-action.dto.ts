@@ -0,0 +1,34 @@
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+
+export type ContainerAction =
+	'start' | 'stop' | 'restart' | 'pause' | 'unpause' | 'kill' | 'remove'
+
+export interface ContainerActionOptionsDto {
+	/**
+	 * Signal sent by `kill` (defaults to SIGKILL), or by `stop` and `restart`
+	 * before the timeout (defaults to the container's stop signal).
+	 */
+	signal?: string
+	/**
+	 * Grace period for `stop` and `restart` before the container is killed.
+	 * Defaults to the container's `kz.stop_timeout` label, then to Docker's.
+	 */
+	timeoutSeconds?: number
+	/** Also remove the container's anonymous volumes on `remove`. */
+	removeVolumes?: boolean
+	/**
+	 * Required for `kill` and `remove`: the container or cluster name, or the
+	 * `confirmationToken` from the 428 response.
+	 */
+	confirm?: string
+}
+
+/** Body of the 428 response to an unconfirmed destructive action. */
+export interface ConfirmationRequiredDto {
+	statusCode: 428
+	message: string
+	/** `kill` or `remove` of containers, `prune` of volumes. */
+	action: string
+	confirmationToken: string
+	targets: AuditTargetDto[]
+}
@@ -0,0 +1,181 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { AuditService } from '../audit/audit.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { ContainerDto } from './container.dto'
+import { ContainerEventsService } from './container-events.service'
+import { ContainersService, isProtectedContainer } from './containers.service'
+
+const AUTOHEAL_LABEL = 'kz.autoheal'
+const AUTOHEAL_PROBES_LABEL = 'kz.autoheal.probes'
+const AUTOHEAL_ACTOR = 'autoheal'
+const DEFAULT_UNHEALTHY_PROBES = 3
+const CHECK_INTERVAL_MS = 10000
+// Restarts of the same container wait 30s, 60s, 120s... up to 30 minutes.
+const INITIAL_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 30 * 60 * 1000
+// The backoff resets once the container stays healthy this long.
+const STABLE_HEALTHY_MS = 10 * 60 * 1000
+
+interface HealState {
+	restarts: number
+	nextRestartAt: number
+	healthySince: number | null
+}
+
+const isAutohealEnabled = (container: ContainerDto) =>
+	['true', '1', 'yes', 'on'].includes(
+		container.labels[AUTOHEAL_LABEL]?.trim().toLowerCase() ?? '',
+	)
+
+const unhealthyProbes = (container: ContainerDto) => {
+	const value = Number(container.labels[AUTOHEAL_PROBES_LABEL])
+
+	return Number.isSafeInteger(value) && value > 0
+		? value
+		: DEFAULT_UNHEALTHY_PROBES
+}
+
+/**
+ * Restarts running containers labelled `kz.autoheal=true` once their health
+ * check has failed `kz.autoheal.probes` times in a row, backing off between
+ * repeated restarts of the same container.
+ */
+@Injectable()
+export class ContainerAutohealService implements OnModuleInit, OnModuleDestroy {
+	private readonly heals = new Map<string, HealState>()
+	private timer: NodeJS.Timeout | null = null
+	private isChecking = false
+
+	constructor(
+		private readonly containerEventsService: ContainerEventsService,
+		private readonly containersService: ContainersService,
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+	) {}
+
+	onModuleInit() {
+		this.timer = setInterval(() => void this.check(), CHECK_INTERVAL_MS)
+	}
+
+	onModuleDestroy() {
+		if (this.timer) {
+			clearInterval(this.timer)
+		}
+	}
+
+	private async check() {
+		if (this.isChecking) {
+			return
+		}
+
+		this.isChecking = true
+		try {
+			const containers = (
+				await this.containerEventsService.getContainers()
+			).filter(
+				container =>
+					isAutohealEnabled(container) && !isProtectedContainer(container.name),
+			)
+			const now = Date.now()
+
+			this.forgetRecovered(containers, now)
+
+			for (const container of containers) {
+				if (
+					container.state === 'running' &&
+					container.health.status === 'unhealthy'
+				) {
+					await this.heal(container, now)
+				}
+			}
+		} catch (error) {
+			console.error('Autoheal check failed:', error)
+		} finally {
+			this.isChecking = false
+		}
+	}
+
+	private forgetRecovered(containers: ContainerDto[], now: number) {
+		const byKey = new Map(
+			containers.map(container => [this.key(container), container]),
+		)
+
+		for (const [key, state] of this.heals) {
+			const container = byKey.get(key)
+			if (!container) {
+				this.heals.delete(key)
+				continue
+			}
+
+			if (container.health.status !== 'healthy') {
+				state.healthySince = null
+				continue
+			}
+
+			state.healthySince ??= now
+			if (now - state.healthySince >= STABLE_HEALTHY_MS) {
+				this.heals.delete(key)
+			}
+		}
+	}
+
+	private async heal(container: ContainerDto, now: number) {
+		const key = this.key(container)
+		const state = this.heals.get(key)
+		if (state && now < state.nextRestartAt) {
+			return
+		}
+
+		const { docker } = this.dockerHosts.get(container.host)
+		const target: AuditTargetDto = { id: container.id, name: container.name }
+
+		try {
+			// The registry only refreshes on health status changes, so the
+			// streak is read fresh.
+			const info = await docker.getContainer(container.id).inspect()
+			const failingStreak = info.State.Health?.FailingStreak ?? 0
+			if (
+				!info.State.Running ||
+				info.State.Health?.Status !== 'unhealthy' ||
+				failingStreak < unhealthyProbes(container)
+			) {
+				return
+			}
+		} catch {
+			return
+		}
+
+		const restarts = (state?.restarts ?? 0) + 1
+		this.heals.set(key, {
+			restarts,
+			nextRestartAt:
+				now +
+				Math.min(INITIAL_BACKOFF_MS * 2 ** (restarts - 1), MAX_BACKOFF_MS),
+			healthySince: null,
+		})
+
+		let error: string | null = null
+		try {
+			await docker
+				.getContainer(container.id)
+				.restart(this.containersService.stopOptions({}, container.labels))
+		} catch (restartError) {
+			error =
+				restartError instanceof Error ? restartError.message : 'Unknown error'
+		}
+
+		await this.auditService.recordAction({
+			actor: AUTOHEAL_ACTOR,
+			host: container.host,
+			action: 'container.autoheal',
+			targets: [target],
+			cluster: container.cluster,
+			failed: error ? [{ ...target, error }] : [],
+		})
+	}
+
+	private key(container: ContainerDto) {
+		return `${container.host}/${container.id}`
+	}
+}
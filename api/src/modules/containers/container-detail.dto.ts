@@ -0,0 +1,70 @@
+import { ContainerDto, ContainerHealthStateDto } from './container.dto'
+import { ContainerLimitsDto } from './container-limits.dto'
+
+export interface ContainerPortDto {
+	containerPort: number
+	protocol: string
+	hostIp: string | null
+	hostPort: number | null
+}
+
+export interface ContainerMountDto {
+	type: string
+	name: string | null
+	source: string
+	destination: string
+	mode: string
+	readOnly: boolean
+}
+
+export interface ContainerEnvVarDto {
+	name: string
+	value: string
+	masked: boolean
+}
+
+export interface ContainerNetworkDto {
+	name: string
+	ipAddress: string | null
+	gateway: string | null
+	macAddress: string | null
+	aliases: string[]
+}
+
+export interface ContainerHealthCheckDto {
+	test: string[]
+	intervalSeconds: number | null
+	timeoutSeconds: number | null
+	retries: number | null
+}
+
+export interface ContainerHealthDto extends ContainerHealthStateDto {
+	check: ContainerHealthCheckDto | null
+}
+
+export interface ContainerDetailDto extends ContainerDto {
+	imageId: string
+	createdAt: string
+	startedAt: string | null
+	finishedAt: string | null
+	exitCode: number | null
+	error: string | null
+	oomKilled: boolean
+	restartCount: number
+	restartPolicy: {
+		name: string
+		maximumRetryCount: number
+	}
+	command: string[]
+	entrypoint: string[]
+	workingDir: string | null
+	user: string | null
+	hostname: string | null
+	networkMode: string | null
+	ports: ContainerPortDto[]
+	mounts: ContainerMountDto[]
+	env: ContainerEnvVarDto[]
+	networks: ContainerNetworkDto[]
+	health: ContainerHealthDto
+	limits: ContainerLimitsDto
+}
@@ -0,0 +1,7 @@
+import { ContainerDto } from './container.dto'
+
+export type ContainerEventDto =
+	| { type: 'snapshot'; containers: ContainerDto[] }
+	| { type: 'upsert'; action: string; container: ContainerDto }
+	| { type: 'remove'; action: string; host: string; id: string }
+	| { type: 'heartbeat' }
@@ -0,0 +1,334 @@
+import {
+	Injectable,
+	MessageEvent,
+	OnModuleDestroy,
+	OnModuleInit,
+} from '@nestjs/common'
+import {
+	defer,
+	filter,
+	interval,
+	map,
+	merge,
+	Observable,
+	Subject,
+	Subscription,
+} from 'rxjs'
+import { Readable } from 'stream'
+import { ClusterRulesService } from '../cluster-rules/cluster-rules.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { ContainerDto } from './container.dto'
+import { ContainerEventDto } from './container-event.dto'
+import { ContainersService } from './containers.service'
+
+const RECONNECT_DELAY_MS = 5000
+const REFRESH_DEBOUNCE_MS = 150
+const HEARTBEAT_INTERVAL_MS = 30000
+
+// Actions after which Docker may report a new restart count.
+const RESTART_COUNT_ACTIONS = new Set(['start', 'restart', 'die'])
+
+const TRACKED_ACTIONS = new Set([
+	'create',
+	'start',
+	'restart',
+	'die',
+	'stop',
+	'kill',
+	'oom',
+	'pause',
+	'unpause',
+	'rename',
+	'update',
+	'destroy',
+	'health_status',
+])
+
+interface DockerEventMessage {
+	Type?: string
+	Action?: string
+	id?: string
+	Actor?: {
+		ID?: string
+	}
+}
+
+interface HostEventsState {
+	registry: Map<string, ContainerDto>
+	/** Restart counts read by inspect, dropped when an event may change them. */
+	restartCounts: Map<string, number>
+	pendingRefresh: Map<string, string>
+	eventStream: Readable | null
+	refreshTimer: NodeJS.Timeout | null
+	reconnectTimer: NodeJS.Timeout | null
+	isSynced: boolean
+}
+
+/**
+ * Keeps an in-memory copy of every container on every Docker host, fed by
+ * each host's events stream, and fans out the resulting deltas to SSE
+ * subscribers.
+ */
+@Injectable()
+export class ContainerEventsService implements OnModuleInit, OnModuleDestroy {
+	private readonly hosts = new Map<string, HostEventsState>()
+	private readonly events = new Subject<ContainerEventDto>()
+	private rulesSubscription: Subscription | null = null
+	private isStopped = false
+
+	constructor(
+		private readonly containersService: ContainersService,
+		private readonly dockerHosts: DockerHostsService,
+		private readonly clusterRules: ClusterRulesService,
+	) {}
+
+	onModuleInit() {
+		for (const client of this.dockerHosts.all()) {
+			this.hosts.set(client.name, {
+				registry: new Map(),
+				restartCounts: new Map(),
+				pendingRefresh: new Map(),
+				eventStream: null,
+				refreshTimer: null,
+				reconnectTimer: null,
+				isSynced: false,
+			})
+			void this.connect(client.name)
+		}
+
+		// Cluster assignments are cached in the registry, so a rule change
+		// re-reads every synced host and pushes the regrouped containers.
+		this.rulesSubscription = this.clusterRules.changed.subscribe(() => {
+			for (const [host, state] of this.hosts) {
+				if (state.isSynced) {
+					void this.resync(host, state).catch(error => {
+						console.error(`Failed to regroup containers on ${host}:`, error)
+					})
+				}
+			}
+		})
+	}
+
+	onModuleDestroy() {
+		this.isStopped = true
+		this.rulesSubscription?.unsubscribe()
+
+		for (const state of this.hosts.values()) {
+			state.eventStream?.destroy()
+
+			if (state.refreshTimer) {
+				clearTimeout(state.refreshTimer)
+			}
+
+			if (state.reconnectTimer) {
+				clearTimeout(state.reconnectTimer)
+			}
+		}
+
+		this.events.complete()
+	}
+
+	/** Containers of one host, or of every host when `host` is omitted. */
+	async getContainers(host?: string): Promise<ContainerDto[]> {
+		if (host) {
+			return this.getHostContainers(this.dockerHosts.get(host).name)
+		}
+
+		const perHost = await Promise.all(
+			[...this.hosts.keys()].map(name => this.getHostContainers(name)),
+		)
+
+		return perHost.flat()
+	}
+
+	/**
+	 * Docker's restart count of a container. Only the list is pushed by
+	 * events, so the count is inspected once and kept until the container
+	 * starts, restarts or dies again.
+	 */
+	async getRestartCount(host: string, id: string): Promise<number> {
+		const state = this.hosts.get(host)
+		const cached = state?.isSynced ? state.restartCounts.get(id) : undefined
+		if (cached !== undefined) {
+			return cached
+		}
+
+		const count = await this.containersService.getRestartCount(host, id)
+		if (state?.isSynced) {
+			state.restartCounts.set(id, count)
+		}
+
+		return count
+	}
+
+	stream(host?: string): Observable<MessageEvent> {
+		const hostName = host ? this.dockerHosts.get(host).name : null
+		const snapshot = defer(async () => ({
+			type: 'snapshot' as const,
+			containers: await this.getContainers(host),
+		}))
+		const deltas = this.events.pipe(
+			filter(event => hostName === null || this.eventHost(event) === hostName),
+		)
+		const heartbeat = interval(HEARTBEAT_INTERVAL_MS).pipe(
+			map(() => ({ type: 'heartbeat' as const })),
+		)
+
+		return merge(snapshot, deltas, heartbeat).pipe(
+			map((event: ContainerEventDto) => ({ data: event })),
+		)
+	}
+
+	private async getHostContainers(host: string): Promise<ContainerDto[]> {
+		const state = this.hosts.get(host)
+
+		if (!state?.isSynced) {
+			return this.containersService.listContainers(host)
+		}
+
+		return [...state.registry.values()]
+	}
+
+	private eventHost(event: ContainerEventDto): string | null {
+		if (event.type === 'upsert') {
+			return event.container.host
+		}
+
+		return event.type === 'remove' ? event.host : null
+	}
+
+	private async connect(host: string) {
+		const state = this.hosts.get(host)
+		if (this.isStopped || !state) {
+			return
+		}
+
+		try {
+			const stream = (await this.dockerHosts.get(host).docker.getEvents({
+				filters: { type: ['container'] },
+			})) as unknown as Readable
+			state.eventStream = stream
+
+			await this.resync(host, state)
+
+			let pending = ''
+			stream.on('data', (chunk: Buffer) => {
+				pending += chunk.toString('utf8')
+				const lines = pending.split('\n')
+				pending = lines.pop() ?? ''
+
+				for (const line of lines) {
+					this.handleLine(host, state, line)
+				}
+			})
+			stream.on('end', () => this.scheduleReconnect(host, state))
+			stream.on('error', () => this.scheduleReconnect(host, state))
+		} catch (error) {
+			console.error(`Docker events unavailable on ${host}:`, error)
+			this.scheduleReconnect(host, state)
+		}
+	}
+
+	private scheduleReconnect(host: string, state: HostEventsState) {
+		state.isSynced = false
+		state.eventStream?.destroy()
+		state.eventStream = null
+
+		if (this.isStopped || state.reconnectTimer) {
+			return
+		}
+
+		state.reconnectTimer = setTimeout(() => {
+			state.reconnectTimer = null
+			void this.connect(host)
+		}, RECONNECT_DELAY_MS)
+	}
+
+	private async resync(host: string, state: HostEventsState) {
+		const containers = await this.containersService.listContainers(host)
+
+		// Drop the host's previous view so clients forget vanished containers.
+		for (const id of state.registry.keys()) {
+			if (!containers.some(container => container.id === id)) {
+				this.events.next({ type: 'remove', action: 'resync', host, id })
+			}
+		}
+
+		// Events may have been missed while disconnected.
+		state.restartCounts.clear()
+		state.registry.clear()
+		for (const container of containers) {
+			state.registry.set(container.id, container)
+			this.events.next({ type: 'upsert', action: 'resync', container })
+		}
+
+		state.isSynced = true
+	}
+
+	private handleLine(host: string, state: HostEventsState, line: string) {
+		if (line.trim().length === 0) {
+			return
+		}
+
+		let message: DockerEventMessage
+		try {
+			message = JSON.parse(line) as DockerEventMessage
+		} catch {
+			return
+		}
+
+		const id = message.Actor?.ID ?? message.id
+		// health_status actions carry the status as a suffix, e.g. "health_status: healthy"
+		const action = message.Action?.split(':')[0]?.trim() ?? ''
+
+		if (message.Type !== 'container' || !id || !TRACKED_ACTIONS.has(action)) {
+			return
+		}
+
+		if (action === 'destroy' || RESTART_COUNT_ACTIONS.has(action)) {
+			state.restartCounts.delete(id)
+		}
+
+		if (action === 'destroy') {
+			state.pendingRefresh.delete(id)
+			if (state.registry.delete(id)) {
+				this.events.next({ type: 'remove', action, host, id })
+			}
+			return
+		}
+
+		// Docker emits bursts (kill, die, stop) for a single transition, so
+		// refreshes are coalesced per container.
+		state.pendingRefresh.set(id, action)
+		if (!state.refreshTimer) {
+			state.refreshTimer = setTimeout(() => {
+				state.refreshTimer = null
+				void this.flushRefreshes(host, state)
+			}, REFRESH_DEBOUNCE_MS)
+		}
+	}
+
+	private async flushRefreshes(host: string, state: HostEventsState) {
+		const batch = [...state.pendingRefresh.entries()]
+		state.pendingRefresh.clear()
+
+		await Promise.all(
+			batch.map(async ([id, action]) => {
+				try {
+					const container = await this.containersService.findContainer(host, id)
+					if (!container) {
+						if (state.registry.delete(id)) {
+							this.events.next({ type: 'remove', action, host, id })
+						}
+						return
+					}
+
+					state.registry.set(container.id, container)
+					this.events.next({ type: 'upsert', action, container })
+				} catch (error) {
+					console.error(`Failed to refresh container ${id} on ${host}:`, error)
+				}
+			}),
+		)
+	}
+}
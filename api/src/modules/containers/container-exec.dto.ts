@@ -0,0 +1,15 @@
+export interface ContainerExecInputDto {
+	/** Command to run; defaults to bash, falling back to sh. */
+	command?: string[]
+}
+
+export interface ContainerExecTicketDto {
+	/** Single-use token for the `/exec?ticket=` WebSocket. */
+	ticket: string
+	expiresAt: string
+}
+
+/** Text frames sent by the terminal; output comes back as binary frames. */
+export type ContainerExecMessageDto =
+	| { type: 'input'; data: string }
+	| { type: 'resize'; cols: number; rows: number }
@@ -0,0 +1,119 @@
+import { OnGatewayConnection, WebSocketGateway } from '@nestjs/websockets'
+import { IncomingMessage } from 'http'
+import { RawData, WebSocket } from 'ws'
+import { ContainerExecMessageDto } from './container-exec.dto'
+import {
+	ContainerExecService,
+	ContainerExecSession,
+} from './container-exec.service'
+
+// Close codes: policy violation for a bad ticket, internal error otherwise.
+const CLOSE_POLICY_VIOLATION = 1008
+const CLOSE_INTERNAL_ERROR = 1011
+const MAX_CLOSE_REASON_LENGTH = 120
+
+@WebSocketGateway({ path: '/exec' })
+export class ContainerExecGateway implements OnGatewayConnection {
+	constructor(private readonly execService: ContainerExecService) {}
+
+	async handleConnection(client: WebSocket, request: IncomingMessage) {
+		const ticket =
+			new URL(request.url ?? '', 'http://localhost').searchParams.get(
+				'ticket',
+			) ?? ''
+
+		// Input may arrive while the exec is still being created.
+		const queued: ContainerExecMessageDto[] = []
+		let session: ContainerExecSession | null = null
+		let isClosed = false
+
+		client.on('message', (data: RawData) => {
+			const message = this.parseMessage(data)
+			if (!message) {
+				return
+			}
+
+			if (session) {
+				this.apply(session, message)
+			} else {
+				queued.push(message)
+			}
+		})
+		client.on('close', () => {
+			isClosed = true
+			session?.stream.end()
+			session?.stream.destroy()
+		})
+
+		try {
+			session = await this.execService.open(ticket)
+		} catch (error) {
+			const isAuthError =
+				(error as { status?: number }).status === 401 ||
+				(error as { status?: number }).status === 403
+			client.close(
+				isAuthError ? CLOSE_POLICY_VIOLATION : CLOSE_INTERNAL_ERROR,
+				(error instanceof Error ? error.message : 'Exec failed').slice(
+					0,
+					MAX_CLOSE_REASON_LENGTH,
+				),
+			)
+			return
+		}
+
+		const { stream } = session
+		if (isClosed) {
+			stream.destroy()
+			return
+		}
+
+		stream.on('data', (chunk: Buffer) => {
+			if (client.readyState === WebSocket.OPEN) {
+				client.send(chunk)
+			}
+		})
+		stream.on('end', () => client.close(1000, 'Session ended'))
+		stream.on('error', () => client.close(CLOSE_INTERNAL_ERROR, 'Exec failed'))
+
+		for (const message of queued.splice(0)) {
+			this.apply(session, message)
+		}
+	}
+
+	private apply(
+		session: ContainerExecSession,
+		message: ContainerExecMessageDto,
+	) {
+		if (message.type === 'input') {
+			session.stream.write(message.data)
+			return
+		}
+
+		void session.exec
+			.resize({ h: message.rows, w: message.cols })
+			.catch(() => undefined)
+	}
+
+	private parseMessage(data: RawData): ContainerExecMessageDto | null {
+		try {
+			const message = JSON.parse(data.toString()) as ContainerExecMessageDto
+			if (message.type === 'input' && typeof message.data === 'string') {
+				return message
+			}
+
+			if (
+				message.type === 'resize' &&
+				Number.isInteger(message.cols) &&
+				Number.isInteger(message.rows) &&
+				message.cols > 0 &&
+				message.rows > 0
+			) {
+				return message
+			}
+		} catch {
+			return null
+		}
+
+		return null
+	}
+}
@@ -0,0 +1,162 @@
+import {
+	BadRequestException,
+	ConflictException,
+	ForbiddenException,
+	Injectable,
+	NotFoundException,
+	UnauthorizedException,
+} from '@nestjs/common'
+import { randomBytes } from 'crypto'
+import * as Docker from 'dockerode'
+import { Duplex } from 'stream'
+import { AuditService } from '../audit/audit.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	ContainerExecInputDto,
+	ContainerExecTicketDto,
+} from './container-exec.dto'
+import { isProtectedContainer } from './containers.service'
+
+const EXEC_TICKET_TTL_MS = 30_000
+// Protected containers are the dashboard's own infrastructure; a shell in
+// them is refused unless the operator opts in.
+const EXEC_ALLOW_PROTECTED = process.env.EXEC_ALLOW_PROTECTED === 'true'
+const DEFAULT_EXEC_COMMAND = [
+	'/bin/sh',
+	'-c',
+	'if command -v bash >/dev/null 2>&1; then exec bash; else exec sh; fi',
+]
+
+interface ExecTicket {
+	host: string
+	containerId: string
+	name: string
+	command: string[]
+	actor: string
+	expiresAt: number
+}
+
+export interface ContainerExecSession {
+	exec: Docker.Exec
+	stream: Duplex
+}
+
+/**
+ * Interactive `docker exec` sessions. The authenticated HTTP route issues a
+ * short-lived ticket; the WebSocket redeems it, since browsers cannot send
+ * the bearer token on a WebSocket handshake.
+ */
+@Injectable()
+export class ContainerExecService {
+	private readonly tickets = new Map<string, ExecTicket>()
+
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+	) {}
+
+	async createTicket(
+		host: string | undefined,
+		id: string,
+		input: ContainerExecInputDto,
+		actor: string,
+	): Promise<ContainerExecTicketDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+
+		let info: Docker.ContainerInspectInfo
+		try {
+			info = await docker.getContainer(id).inspect()
+		} catch {
+			throw new NotFoundException(`Container not found: ${id}`)
+		}
+
+		const name = info.Name.replace(/^\//, '')
+		if (isProtectedContainer(name) && !EXEC_ALLOW_PROTECTED) {
+			throw new ForbiddenException(
+				`Exec is disabled for protected container: ${name}`,
+			)
+		}
+
+		if (!info.State.Running) {
+			throw new ConflictException(`Container is not running: ${name}`)
+		}
+
+		const command = input?.command ?? DEFAULT_EXEC_COMMAND
+		if (
+			!Array.isArray(command) ||
+			command.length === 0 ||
+			command.some(part => typeof part !== 'string')
+		) {
+			throw new BadRequestException('command must be a non-empty string list')
+		}
+
+		const now = Date.now()
+		for (const [key, ticket] of this.tickets) {
+			if (ticket.expiresAt <= now) {
+				this.tickets.delete(key)
+			}
+		}
+
+		const ticket = randomBytes(24).toString('hex')
+		const expiresAt = now + EXEC_TICKET_TTL_MS
+		this.tickets.set(ticket, {
+			host: hostName,
+			containerId: info.Id,
+			name,
+			command,
+			actor,
+			expiresAt,
+		})
+
+		return { ticket, expiresAt: new Date(expiresAt).toISOString() }
+	}
+
+	/** Redeems a ticket (once) and starts the exec with a TTY. */
+	async open(ticket: string): Promise<ContainerExecSession> {
+		const session = this.tickets.get(ticket)
+		this.tickets.delete(ticket)
+		if (!session || session.expiresAt <= Date.now()) {
+			throw new UnauthorizedException('Invalid or expired exec ticket')
+		}
+
+		const { docker } = this.dockerHosts.get(session.host)
+		const target = { id: session.containerId, name: session.name }
+
+		try {
+			const exec = await docker.getContainer(session.containerId).exec({
+				Cmd: session.command,
+				AttachStdin: true,
+				AttachStdout: true,
+				AttachStderr: true,
+				Tty: true,
+				Env: ['TERM=xterm-256color'],
+			})
+			const stream = await exec.start({ hijack: true, stdin: true, Tty: true })
+
+			await this.record(session, [])
+			return { exec, stream }
+		} catch (error) {
+			await this.record(session, [
+				{
+					...target,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				},
+			])
+			throw error
+		}
+	}
+
+	private async record(
+		session: ExecTicket,
+		failed: Array<{ id: string; name: string; error: string }>,
+	) {
+		await this.auditService.recordAction({
+			actor: session.actor,
+			host: session.host,
+			action: 'container.exec',
+			targets: [{ id: session.containerId, name: session.name }],
+			cluster: null,
+			failed,
+		})
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * Resource limits of a container; `null` means no limit is set. `cpus` is the
+ * `--cpus` value the container was created with, which Docker does not
+ * combine with a CPU quota.
+ */
+export interface ContainerLimitsDto {
+	memoryBytes: number | null
+	/** Memory plus swap; `-1` allows unlimited swap. */
+	memorySwapBytes: number | null
+	cpuShares: number | null
+	cpuQuota: number | null
+	cpuPeriod: number | null
+	cpusetCpus: string | null
+	pidsLimit: number | null
+	cpus: number | null
+}
+
+/**
+ * Fields to change; omitted fields stay as they are and `null` removes the
+ * limit. The memory limit of a running container can be changed but not
+ * removed.
+ */
+export interface UpdateContainerLimitsDto {
+	memoryBytes?: number | null
+	memorySwapBytes?: number | null
+	cpuShares?: number | null
+	cpuQuota?: number | null
+	cpuPeriod?: number | null
+	cpusetCpus?: string | null
+	pidsLimit?: number | null
+}
+
+export interface UpdateContainerLimitsResultDto {
+	id: string
+	limits: ContainerLimitsDto
+	warnings: string[]
+}
@@ -0,0 +1,170 @@
+import { BadRequestException } from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { AuditService } from '../audit/audit.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { UpdateContainerLimitsDto } from './container-limits.dto'
+import { ContainerLimitsService } from './container-limits.service'
+
+const MIB = 1024 * 1024
+
+// A Docker host with 8 GiB and 4 CPUs running one container, `db`.
+const setup = (hostConfig: Partial<Docker.HostConfig> = {}) => {
+	const inspect = jest.fn().mockResolvedValue({
+		Id: 'abc',
+		Name: '/db',
+		HostConfig: hostConfig,
+	})
+	const update = jest.fn().mockResolvedValue({ Warnings: null })
+	const docker = {
+		getContainer: () => ({ inspect, update }),
+		info: jest.fn().mockResolvedValue({ MemTotal: 8192 * MIB, NCPU: 4 }),
+	}
+	const dockerHosts = {
+		get: () => ({ name: 'local', docker }),
+	} as unknown as DockerHostsService
+	const recordAction = jest.fn()
+	const auditService = { recordAction } as unknown as AuditService
+
+	return {
+		service: new ContainerLimitsService(dockerHosts, auditService),
+		inspect,
+		update,
+		recordAction,
+	}
+}
+
+const updateOptions = async (
+	input: UpdateContainerLimitsDto,
+	hostConfig: Partial<Docker.HostConfig> = {},
+) => {
+	const { service, update } = setup(hostConfig)
+	await service.update('local', 'db', input, 'ops')
+
+	return update.mock.calls[0][0] as Record<string, number | string>
+}
+
+const rejection = (
+	input: UpdateContainerLimitsDto,
+	hostConfig: Partial<Docker.HostConfig> = {},
+) => setup(hostConfig).service.update('local', 'db', input, 'ops')
+
+describe('ContainerLimitsService', () => {
+	it('needs at least one limit', async () => {
+		await expect(rejection({})).rejects.toThrow('No limits to update')
+	})
+
+	it('checks the memory limit against Docker and the host', async () => {
+		await expect(rejection({ memoryBytes: 4 * MIB })).rejects.toThrow(
+			'at least 6 MiB',
+		)
+		await expect(rejection({ memoryBytes: 16384 * MIB })).rejects.toThrow(
+			"exceeds the host's",
+		)
+		await expect(rejection({ memoryBytes: null })).rejects.toThrow(
+			BadRequestException,
+		)
+		await expect(rejection({ memoryBytes: 1.5 })).rejects.toThrow(
+			'memoryBytes must be an integer',
+		)
+		expect(await updateOptions({ memoryBytes: 512 * MIB })).toEqual({
+			Memory: 512 * MIB,
+		})
+	})
+
+	it('keeps swap at or above the memory limit', async () => {
+		await expect(
+			rejection({ memorySwapBytes: 256 * MIB }, { Memory: 512 * MIB }),
+		).rejects.toThrow('cannot be below memoryBytes')
+		await expect(rejection({ memorySwapBytes: 256 * MIB })).rejects.toThrow(
+			'needs a memory limit',
+		)
+		expect(
+			await updateOptions(
+				{ memoryBytes: 256 * MIB, memorySwapBytes: 512 * MIB },
+				{ Memory: 1024 * MIB },
+			),
+		).toEqual({ Memory: 256 * MIB, MemorySwap: 512 * MIB })
+	})
+
+	it('sends the unlimited or default value when a limit is removed', async () => {
+		expect(
+			await updateOptions({
+				memorySwapBytes: null,
+				cpuShares: null,
+				cpuQuota: null,
+				cpusetCpus: null,
+				pidsLimit: null,
+			}),
+		).toEqual({
+			MemorySwap: -1,
+			CpuShares: 1024,
+			CpuQuota: -1,
+			CpusetCpus: '0-3',
+			PidsLimit: -1,
+		})
+	})
+
+	it('checks the CPU quota against the host CPU count', async () => {
+		await expect(rejection({ cpuQuota: 500000 })).rejects.toThrow(
+			'allows 5.00 CPUs but the host has 4',
+		)
+		await expect(
+			rejection({ cpuQuota: 50000 }, { NanoCpus: 1e9 }),
+		).rejects.toThrow('recreate it to use a CPU quota')
+		expect(await updateOptions({ cpuQuota: 50000, cpuPeriod: 50000 })).toEqual({
+			CpuQuota: 50000,
+			CpuPeriod: 50000,
+		})
+	})
+
+	it('checks the CPU set against the host CPU count', async () => {
+		await expect(rejection({ cpusetCpus: '0-7' })).rejects.toThrow(
+			'refers to CPU 7 but the host has 4',
+		)
+		await expect(rejection({ cpusetCpus: 'all' })).rejects.toThrow(
+			'must list CPUs',
+		)
+		expect(await updateOptions({ cpusetCpus: '0, 2-3' })).toEqual({
+			CpusetCpus: '0,2-3',
+		})
+	})
+
+	it('audits the changed limits', async () => {
+		const { service, inspect, recordAction } = setup()
+		inspect
+			.mockResolvedValueOnce({
+				Id: 'abc',
+				Name: '/db',
+				HostConfig: { Memory: 256 * MIB },
+			})
+			.mockResolvedValueOnce({
+				Id: 'abc',
+				Name: '/db',
+				HostConfig: { Memory: 512 * MIB, PidsLimit: 100 },
+			})
+
+		const result = await service.update(
+			'local',
+			'db',
+			{ memoryBytes: 512 * MIB, pidsLimit: 100 },
+			'ops',
+		)
+
+		expect(result.limits.memoryBytes).toBe(512 * MIB)
+		expect(recordAction).toHaveBeenCalledWith(
+			expect.objectContaining({
+				action: 'container.update',
+				targets: [{ id: 'abc', name: 'db' }],
+				failed: [],
+				changes: [
+					{
+						field: 'memoryBytes',
+						from: String(256 * MIB),
+						to: String(512 * MIB),
+					},
+					{ field: 'pidsLimit', from: null, to: '100' },
+				],
+			}),
+		)
+	})
+})
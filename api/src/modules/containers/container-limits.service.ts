@@ -0,0 +1,325 @@
+import {
+	BadRequestException,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { AuditChangeDto, AuditTargetDto } from '../audit/audit-entry.dto'
+import { AuditService } from '../audit/audit.service'
+import { dockerMessage, toHttpException } from '../hosts/docker-errors'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	ContainerLimitsDto,
+	UpdateContainerLimitsDto,
+	UpdateContainerLimitsResultDto,
+} from './container-limits.dto'
+
+// Docker refuses memory limits below 6 MiB.
+export const MIN_MEMORY_BYTES = 6 * 1024 * 1024
+const MIN_CPU_SHARES = 2
+const MAX_CPU_SHARES = 262144
+const DEFAULT_CPU_SHARES = 1024
+// CFS period and quota are in microseconds.
+const MIN_CPU_PERIOD = 1000
+const MAX_CPU_PERIOD = 1000000
+const DEFAULT_CPU_PERIOD = 100000
+const MIN_CPU_QUOTA = 1000
+const CPUSET_PATTERN = /^\d+(-\d+)?(,\d+(-\d+)?)*$/
+
+const LIMIT_FIELDS: Array<keyof UpdateContainerLimitsDto> = [
+	'memoryBytes',
+	'memorySwapBytes',
+	'cpuShares',
+	'cpuQuota',
+	'cpuPeriod',
+	'cpusetCpus',
+	'pidsLimit',
+]
+
+interface DockerHostTotals {
+	memTotal: number
+	cpuCount: number
+}
+
+/** Reads the limits from an inspected container's host config. */
+export const toContainerLimits = (
+	hostConfig: Docker.HostConfig,
+): ContainerLimitsDto => ({
+	memoryBytes: hostConfig.Memory || null,
+	memorySwapBytes: hostConfig.MemorySwap || null,
+	cpuShares: hostConfig.CpuShares || null,
+	cpuQuota:
+		hostConfig.CpuQuota && hostConfig.CpuQuota > 0 ? hostConfig.CpuQuota : null,
+	cpuPeriod: hostConfig.CpuPeriod || null,
+	cpusetCpus: hostConfig.CpusetCpus || null,
+	pidsLimit:
+		hostConfig.PidsLimit && hostConfig.PidsLimit > 0
+			? hostConfig.PidsLimit
+			: null,
+	cpus: hostConfig.NanoCpus ? hostConfig.NanoCpus / 1e9 : null,
+})
+
+/**
+ * Changes the resource limits of a container in place with Docker's update
+ * API, checked against the Docker host's memory and CPU count.
+ */
+@Injectable()
+export class ContainerLimitsService {
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+	) {}
+
+	async update(
+		host: string | undefined,
+		id: string,
+		input: UpdateContainerLimitsDto,
+		actor: string,
+	): Promise<UpdateContainerLimitsResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const info = await this.inspect(docker, id)
+		const target: AuditTargetDto = {
+			id: info.Id,
+			name: info.Name.replace(/^\//, ''),
+		}
+		const previous = toContainerLimits(info.HostConfig)
+		const options = this.toUpdateOptions(
+			input ?? {},
+			previous,
+			await this.getHostTotals(docker),
+		)
+
+		let warnings: string[]
+		try {
+			const result = (await docker.getContainer(info.Id).update(options)) as {
+				Warnings?: string[] | null
+			}
+			warnings = result?.Warnings ?? []
+		} catch (error) {
+			await this.auditService.recordAction({
+				actor,
+				host: hostName,
+				action: 'container.update',
+				targets: [target],
+				cluster: null,
+				failed: [{ ...target, error: dockerMessage(error) }],
+			})
+			throw toHttpException(error)
+		}
+
+		const limits = toContainerLimits(
+			(await this.inspect(docker, info.Id)).HostConfig,
+		)
+		await this.auditService.recordAction({
+			actor,
+			host: hostName,
+			action: 'container.update',
+			targets: [target],
+			cluster: null,
+			failed: [],
+			changes: this.diffLimits(previous, limits),
+		})
+
+		return { id: info.Id, limits, warnings }
+	}
+
+	/**
+	 * Maps the requested fields to Docker's update options. Docker treats a
+	 * zero as "unchanged", so removing a limit sends its unlimited or default
+	 * value instead.
+	 */
+	private toUpdateOptions(
+		input: UpdateContainerLimitsDto,
+		current: ContainerLimitsDto,
+		totals: DockerHostTotals,
+	): Record<string, number | string> {
+		const options: Record<string, number | string> = {}
+		const has = (field: keyof UpdateContainerLimitsDto) =>
+			input[field] !== undefined
+
+		if (!LIMIT_FIELDS.some(has)) {
+			throw new BadRequestException('No limits to update')
+		}
+
+		const memoryBytes = has('memoryBytes')
+			? input.memoryBytes
+			: current.memoryBytes
+		if (has('memoryBytes')) {
+			if (input.memoryBytes === null) {
+				throw new BadRequestException(
+					'The memory limit cannot be removed from an existing container; recreate it without one',
+				)
+			}
+			const value = this.integer(input.memoryBytes, 'memoryBytes')
+			if (value < MIN_MEMORY_BYTES) {
+				throw new BadRequestException('memoryBytes must be at least 6 MiB')
+			}
+			if (totals.memTotal > 0 && value > totals.memTotal) {
+				throw new BadRequestException(
+					`memoryBytes exceeds the host's ${totals.memTotal} bytes of memory`,
+				)
+			}
+			options.Memory = value
+		}
+
+		if (has('memorySwapBytes')) {
+			const value =
+				input.memorySwapBytes === null
+					? -1
+					: this.integer(input.memorySwapBytes, 'memorySwapBytes')
+			if (value !== -1) {
+				if (!memoryBytes) {
+					throw new BadRequestException('memorySwapBytes needs a memory limit')
+				}
+				if (value < memoryBytes) {
+					throw new BadRequestException(
+						'memorySwapBytes includes memory and cannot be below memoryBytes',
+					)
+				}
+			}
+			options.MemorySwap = value
+		}
+
+		if (has('cpuShares')) {
+			const value =
+				input.cpuShares === null
+					? DEFAULT_CPU_SHARES
+					: this.integer(input.cpuShares, 'cpuShares')
+			if (value < MIN_CPU_SHARES || value > MAX_CPU_SHARES) {
+				throw new BadRequestException(
+					`cpuShares must be between ${MIN_CPU_SHARES} and ${MAX_CPU_SHARES}`,
+				)
+			}
+			options.CpuShares = value
+		}
+
+		const cpuPeriod = has('cpuPeriod')
+			? (input.cpuPeriod ?? DEFAULT_CPU_PERIOD)
+			: (current.cpuPeriod ?? DEFAULT_CPU_PERIOD)
+		if (has('cpuPeriod')) {
+			const value = this.integer(cpuPeriod, 'cpuPeriod')
+			if (value < MIN_CPU_PERIOD || value > MAX_CPU_PERIOD) {
+				throw new BadRequestException(
+					`cpuPeriod must be between ${MIN_CPU_PERIOD} and ${MAX_CPU_PERIOD} microseconds`,
+				)
+			}
+			options.CpuPeriod = value
+		}
+
+		if (has('cpuQuota')) {
+			const value =
+				input.cpuQuota === null ? -1 : this.integer(input.cpuQuota, 'cpuQuota')
+			if (value !== -1 && value < MIN_CPU_QUOTA) {
+				throw new BadRequestException(
+					`cpuQuota must be at least ${MIN_CPU_QUOTA} microseconds`,
+				)
+			}
+			if (
+				value !== -1 &&
+				totals.cpuCount > 0 &&
+				value / cpuPeriod > totals.cpuCount
+			) {
+				throw new BadRequestException(
+					`cpuQuota allows ${(value / cpuPeriod).toFixed(2)} CPUs but the host has ${totals.cpuCount}`,
+				)
+			}
+			if (value !== -1 && current.cpus !== null) {
+				throw new BadRequestException(
+					'The container was created with a CPU count (--cpus); recreate it to use a CPU quota',
+				)
+			}
+			options.CpuQuota = value
+		}
+
+		if (has('cpusetCpus')) {
+			if (input.cpusetCpus === null && totals.cpuCount === 0) {
+				throw new BadRequestException(
+					'The host CPU count is unknown; list the CPUs to allow instead',
+				)
+			}
+			options.CpusetCpus =
+				input.cpusetCpus === null
+					? `0-${totals.cpuCount - 1}`
+					: this.parseCpuset(input.cpusetCpus, totals.cpuCount)
+		}
+
+		if (has('pidsLimit')) {
+			const value =
+				input.pidsLimit === null
+					? -1
+					: this.integer(input.pidsLimit, 'pidsLimit')
+			if (value !== -1 && value < 1) {
+				throw new BadRequestException('pidsLimit must be at least 1')
+			}
+			options.PidsLimit = value
+		}
+
+		return options
+	}
+
+	private parseCpuset(value: unknown, cpuCount: number): string {
+		const cpuset = typeof value === 'string' ? value.replace(/\s/g, '') : ''
+		if (!CPUSET_PATTERN.test(cpuset)) {
+			throw new BadRequestException(
+				'cpusetCpus must list CPUs such as 0-3 or 0,2',
+			)
+		}
+
+		const highest = Math.max(
+			...cpuset.split(/[,-]/).map(part => Number.parseInt(part, 10)),
+		)
+		if (cpuCount > 0 && highest >= cpuCount) {
+			throw new BadRequestException(
+				`cpusetCpus refers to CPU ${highest} but the host has ${cpuCount} (0-${cpuCount - 1})`,
+			)
+		}
+
+		return cpuset
+	}
+
+	private integer(value: unknown, field: string): number {
+		if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+			throw new BadRequestException(`${field} must be an integer`)
+		}
+
+		return value
+	}
+
+	private diffLimits(
+		previous: ContainerLimitsDto,
+		next: ContainerLimitsDto,
+	): AuditChangeDto[] {
+		return LIMIT_FIELDS.flatMap(field =>
+			previous[field] === next[field]
+				? []
+				: [
+						{
+							field,
+							from: previous[field] === null ? null : String(previous[field]),
+							to: next[field] === null ? null : String(next[field]),
+						},
+					],
+		)
+	}
+
+	private async getHostTotals(docker: Docker): Promise<DockerHostTotals> {
+		try {
+			const info = (await docker.info()) as { MemTotal?: number; NCPU?: number }
+			return { memTotal: info.MemTotal ?? 0, cpuCount: info.NCPU ?? 0 }
+		} catch {
+			// Docker still rejects impossible values; only the early checks are lost.
+			return { memTotal: 0, cpuCount: 0 }
+		}
+	}
+
+	private async inspect(
+		docker: Docker,
+		id: string,
+	): Promise<Docker.ContainerInspectInfo> {
+		try {
+			return await docker.getContainer(id).inspect()
+		} catch {
+			throw new NotFoundException(`Container not found: ${id}`)
+		}
+	}
+}
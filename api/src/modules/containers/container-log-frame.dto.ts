@@ -0,0 +1,6 @@
+export type ContainerLogStream = 'stdout' | 'stderr'
+
+export interface ContainerLogFrameDto {
+	stream: ContainerLogStream
+	text: string
+}
@@ -0,0 +1,50 @@
+export type RestartPolicyName =
+	'no' | 'always' | 'unless-stopped' | 'on-failure'
+
+export interface ContainerPortSpecDto {
+	containerPort: number
+	protocol?: 'tcp' | 'udp' | 'sctp'
+	/** Published host port; omitted or null picks a free one. */
+	hostPort?: number | null
+	hostIp?: string
+}
+
+export interface ContainerMountSpecDto {
+	/** Volume name, or an absolute path on the host for a bind mount. */
+	source: string
+	target: string
+	readOnly?: boolean
+}
+
+/**
+ * What the create form edits. Read back from an existing container, fields
+ * the image already sets (command, env, labels) are left out so a new image
+ * brings its own defaults.
+ */
+export interface ContainerSpecDto {
+	image: string
+	name?: string
+	command?: string[]
+	env?: Record<string, string>
+	ports?: ContainerPortSpecDto[]
+	mounts?: ContainerMountSpecDto[]
+	/** The first network is the primary one; the rest are connected after. */
+	networks?: string[]
+	restartPolicy?: RestartPolicyName
+	labels?: Record<string, string>
+	memoryBytes?: number | null
+	cpus?: number | null
+	/** Start after creating; recreate defaults to the old container's state. */
+	start?: boolean
+}
+
+export interface ContainerSpecResultDto {
+	host: string
+	id: string
+	name: string
+	warnings: string[]
+}
+
+export interface RecreateContainerResultDto extends ContainerSpecResultDto {
+	previousId: string
+}
@@ -0,0 +1,686 @@
+import {
+	BadRequestException,
+	ForbiddenException,
+	Injectable,
+	InternalServerErrorException,
+	NotFoundException,
+} from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { AuditService } from '../audit/audit.service'
+import { dockerMessage, toHttpException } from '../hosts/docker-errors'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	ContainerMountSpecDto,
+	ContainerPortSpecDto,
+	ContainerSpecDto,
+	ContainerSpecResultDto,
+	RecreateContainerResultDto,
+	RestartPolicyName,
+} from './container-spec.dto'
+import { MIN_MEMORY_BYTES } from './container-limits.service'
+import {
+	ContainersService,
+	isProtectedContainer,
+	MASKED_ENV_VALUE,
+	SECRET_ENV_PATTERN,
+} from './containers.service'
+
+const IMAGE_REFERENCE_PATTERN = /^[a-z0-9][\w.\-/:@]*$/i
+const CONTAINER_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/
+const RESTART_POLICIES = new Set<RestartPolicyName>([
+	'no',
+	'always',
+	'unless-stopped',
+	'on-failure',
+])
+const PORT_PROTOCOLS = new Set(['tcp', 'udp', 'sctp'])
+// Settings a recreate carries over when they differ from the image's own, so
+// a new image tag still brings its defaults.
+const IMAGE_DEFAULT_FIELDS = [
+	'Entrypoint',
+	'User',
+	'WorkingDir',
+	'Healthcheck',
+	'StopSignal',
+	'Shell',
+] as const
+// Settings a recreate always carries over; images do not set them.
+const CONTAINER_FIELDS = [
+	'Domainname',
+	'AttachStdin',
+	'AttachStdout',
+	'AttachStderr',
+	'Tty',
+	'OpenStdin',
+	'StdinOnce',
+	'StopTimeout',
+	'NetworkDisabled',
+] as const
+
+type ImageConfig = Docker.ImageInspectInfo['Config']
+
+interface ParsedPort {
+	containerPort: number
+	protocol: string
+	hostPort: number | null
+	hostIp?: string
+}
+
+interface ParsedSpec {
+	image: string
+	name: string | null
+	command: string[]
+	env: Array<[string, string]>
+	ports: ParsedPort[]
+	mounts: ContainerMountSpecDto[]
+	networks: string[]
+	restartPolicy: RestartPolicyName
+	labels: Record<string, string>
+	memoryBytes: number | null
+	cpus: number | null
+	start: boolean | null
+}
+
+/** What a recreate keeps of the previous container beyond the spec. */
+interface InheritedSettings {
+	options: Docker.ContainerCreateOptions
+	/** Aliases and static addresses, per network. */
+	endpoints: Record<string, Docker.EndpointSettings>
+}
+
+const NO_INHERITED_SETTINGS: InheritedSettings = { options: {}, endpoints: {} }
+
+/**
+ * Creates containers from a form spec, and recreates existing ones with an
+ * edited spec. Recreate keeps every setting the form does not model, moves
+ * the old container aside under a temporary name and only removes it once
+ * the new one runs; any failure puts it back.
+ */
+@Injectable()
+export class ContainerSpecService {
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+		private readonly containersService: ContainersService,
+	) {}
+
+	/**
+	 * The editable spec of an existing container, read from inspect. Secret
+	 * env values are masked as in container details; a recreate that sends
+	 * the mask back keeps the current value.
+	 */
+	async getSpec(
+		host: string | undefined,
+		id: string,
+	): Promise<ContainerSpecDto> {
+		const { docker } = this.dockerHosts.get(host)
+		const info = await this.inspect(docker, id)
+
+		const imageConfig = await this.imageConfig(docker, info.Image)
+		const imageEnv = new Set(imageConfig?.Env ?? [])
+		const imageLabels = imageConfig?.Labels ?? {}
+		const command = info.Config.Cmd ?? []
+		const isImageCommand =
+			JSON.stringify(command) === JSON.stringify(imageConfig?.Cmd ?? [])
+
+		const ports: ContainerPortSpecDto[] = Object.entries(
+			info.HostConfig.PortBindings ?? {},
+		).flatMap(([key, bindings]) => {
+			const [port, protocol] = key.split('/')
+			return (
+				(bindings ?? []) as Array<{ HostIp?: string; HostPort?: string }>
+			).map(binding => ({
+				containerPort: Number(port),
+				protocol: (protocol ?? 'tcp') as ContainerPortSpecDto['protocol'],
+				hostPort: binding.HostPort ? Number(binding.HostPort) : null,
+				...(binding.HostIp ? { hostIp: binding.HostIp } : {}),
+			}))
+		})
+
+		const networkMode = info.HostConfig.NetworkMode ?? 'default'
+		const primary = networkMode === 'default' ? 'bridge' : networkMode
+		const networks = [
+			primary,
+			...Object.keys(info.NetworkSettings?.Networks ?? {}).filter(
+				name => name !== primary,
+			),
+		]
+
+		return {
+			image: info.Config.Image,
+			name: info.Name.replace(/^\//, ''),
+			...(isImageCommand ? {} : { command }),
+			env: Object.fromEntries(
+				(info.Config.Env ?? [])
+					.filter(entry => !imageEnv.has(entry))
+					.map(entry => {
+						const [key, value] = this.splitEnv(entry)
+						return [
+							key,
+							value.length > 0 && SECRET_ENV_PATTERN.test(key)
+								? MASKED_ENV_VALUE
+								: value,
+						]
+					}),
+			),
+			ports,
+			// Anonymous volumes are kept by name, so a recreate keeps their data.
+			mounts: (info.Mounts ?? []).flatMap(mount =>
+				mount.Type === 'volume' || mount.Type === 'bind'
+					? [
+							{
+								source:
+									mount.Type === 'volume' ? (mount.Name ?? '') : mount.Source,
+								target: mount.Destination,
+								readOnly: !mount.RW,
+							},
+						]
+					: [],
+			),
+			networks,
+			restartPolicy: (info.HostConfig.RestartPolicy?.Name ||
+				'no') as RestartPolicyName,
+			labels: Object.fromEntries(
+				Object.entries(info.Config.Labels ?? {}).filter(
+					([key, value]) => imageLabels[key] !== value,
+				),
+			),
+			memoryBytes: info.HostConfig.Memory || null,
+			cpus: info.HostConfig.NanoCpus ? info.HostConfig.NanoCpus / 1e9 : null,
+			start: info.State.Running,
+		}
+	}
+
+	async create(
+		host: string | undefined,
+		input: ContainerSpecDto,
+		actor: string,
+	): Promise<ContainerSpecResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const spec = this.parseSpec(input)
+		const label = spec.name ?? spec.image
+
+		try {
+			await this.ensureImage(docker, spec.image)
+			const created = await this.createFromSpec(
+				docker,
+				spec,
+				spec.start ?? true,
+			)
+			await this.auditService.recordAction({
+				actor,
+				host: hostName,
+				action: 'container.create',
+				targets: [{ id: created.id, name: created.name }],
+				cluster: null,
+				failed: [],
+			})
+
+			return { host: hostName, ...created }
+		} catch (error) {
+			await this.auditService.recordAction({
+				actor,
+				host: hostName,
+				action: 'container.create',
+				targets: [{ id: label, name: label }],
+				cluster: null,
+				failed: [{ id: label, name: label, error: dockerMessage(error) }],
+			})
+			throw toHttpException(error)
+		}
+	}
+
+	async recreate(
+		host: string | undefined,
+		id: string,
+		input: ContainerSpecDto,
+		actor: string,
+	): Promise<RecreateContainerResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const info = await this.inspect(docker, id)
+		const name = info.Name.replace(/^\//, '')
+		if (isProtectedContainer(name)) {
+			throw new ForbiddenException(`Container is protected: ${name}`)
+		}
+
+		const currentEnv = new Map(
+			(info.Config.Env ?? []).map(entry => this.splitEnv(entry)),
+		)
+		const spec = this.parseSpec({
+			...input,
+			name: input?.name || name,
+			env: Object.fromEntries(
+				Object.entries(input?.env ?? {}).map(([key, value]) => [
+					key,
+					value === MASKED_ENV_VALUE ? (currentEnv.get(key) ?? value) : value,
+				]),
+			),
+		})
+		const inherited = this.inheritedSettings(
+			info,
+			await this.imageConfig(docker, info.Image),
+			spec,
+		)
+		const target: AuditTargetDto = { id: info.Id, name }
+		const wasRunning = info.State.Running
+		const previous = docker.getContainer(info.Id)
+		const backupName = `${name}-kz-old-${Date.now().toString(36)}`
+
+		const fail = async (error: unknown, outcome: string, isStuck = false) => {
+			const message = `${dockerMessage(error)}; ${outcome}`
+			await this.auditService.recordAction({
+				actor,
+				host: hostName,
+				action: 'container.recreate',
+				targets: [target],
+				cluster: null,
+				failed: [{ ...target, error: message }],
+			})
+
+			return isStuck
+				? new InternalServerErrorException(`Recreate failed: ${message}`)
+				: toHttpException(error, `Recreate failed: ${message}`)
+		}
+
+		// Pull before touching the old container, so a bad image changes nothing.
+		try {
+			await this.ensureImage(docker, spec.image)
+		} catch (error) {
+			throw await fail(error, 'previous container unchanged')
+		}
+
+		let created: Omit<ContainerSpecResultDto, 'host'>
+		try {
+			if (wasRunning) {
+				await previous.stop(
+					this.containersService.stopOptions({}, info.Config.Labels ?? {}),
+				)
+			}
+			await previous.rename({ name: backupName })
+			created = await this.createFromSpec(
+				docker,
+				spec,
+				spec.start ?? wasRunning,
+				inherited,
+			)
+		} catch (error) {
+			// createFromSpec removes what it created, so only the old one is left.
+			try {
+				const current = await previous.inspect()
+				if (current.Name.replace(/^\//, '') !== name) {
+					await previous.rename({ name })
+				}
+				if (wasRunning && !current.State.Running) {
+					await previous.start()
+				}
+			} catch (rollbackError) {
+				throw await fail(
+					error,
+					`rollback failed: ${dockerMessage(rollbackError)}`,
+					true,
+				)
+			}
+
+			throw await fail(error, 'previous container restored')
+		}
+
+		// The new container runs; failing to clean up the old one is not a
+		// reason to roll back.
+		const warnings = [...created.warnings]
+		try {
+			await previous.remove({ force: true })
+		} catch (error) {
+			warnings.push(
+				`Previous container kept as ${backupName}: ${dockerMessage(error)}`,
+			)
+		}
+
+		await this.auditService.recordAction({
+			actor,
+			host: hostName,
+			action: 'container.recreate',
+			targets: [target],
+			cluster: null,
+			failed: [],
+		})
+
+		return { host: hostName, ...created, warnings, previousId: info.Id }
+	}
+
+	/**
+	 * The settings of an existing container its spec leaves out: entrypoint,
+	 * user, health check, the rest of the host config (capabilities, devices,
+	 * log driver, tmpfs, other limits...) and network aliases.
+	 */
+	private inheritedSettings(
+		info: Docker.ContainerInspectInfo,
+		imageConfig: ImageConfig | null,
+		spec: ParsedSpec,
+	): InheritedSettings {
+		const config = info.Config as Docker.ContainerCreateOptions
+		const image = (imageConfig ?? {}) as Docker.ContainerCreateOptions
+		const isSet = (field: keyof Docker.ContainerCreateOptions) =>
+			config[field] !== undefined && config[field] !== null
+		const pick = (fields: ReadonlyArray<keyof Docker.ContainerCreateOptions>) =>
+			Object.fromEntries(
+				fields.map(field => [field, config[field]]),
+			) as Docker.ContainerCreateOptions
+
+		const exposedPorts = Object.fromEntries(
+			Object.keys(config.ExposedPorts ?? {})
+				.filter(port => !(port in (image.ExposedPorts ?? {})))
+				.map(port => [port, {}]),
+		)
+		// Docker uses the short id as hostname and alias unless told otherwise.
+		const shortId = info.Id.slice(0, 12)
+
+		const {
+			Mounts: mounts,
+			Links: links,
+			MemorySwap: memorySwap,
+			CpuPeriod: cpuPeriod,
+			CpuQuota: cpuQuota,
+			...hostConfig
+		} = info.HostConfig
+
+		return {
+			options: {
+				...pick(CONTAINER_FIELDS.filter(isSet)),
+				...pick(
+					IMAGE_DEFAULT_FIELDS.filter(
+						field =>
+							isSet(field) &&
+							JSON.stringify(config[field]) !== JSON.stringify(image[field]),
+					),
+				),
+				...(config.Hostname && config.Hostname !== shortId
+					? { Hostname: config.Hostname }
+					: {}),
+				ExposedPorts: exposedPorts,
+				HostConfig: {
+					...hostConfig,
+					// The spec lists every volume and bind, `--mount` ones included.
+					Mounts: (mounts ?? []).filter(mount => mount.Type === 'tmpfs'),
+					// Inspect reports links as `/target:/name/alias`.
+					Links: ((links ?? []) as string[]).map(link => {
+						const [target, alias = target] = link.split(':')
+						return `${target.replace(/^\//, '')}:${alias.split('/').pop()}`
+					}),
+					// A swap limit belongs to the memory limit it was set with.
+					...((spec.memoryBytes ?? 0) === (hostConfig.Memory ?? 0)
+						? { MemorySwap: memorySwap }
+						: {}),
+					// Docker refuses a CPU quota next to a CPU count.
+					...(spec.cpus === null
+						? { CpuPeriod: cpuPeriod, CpuQuota: cpuQuota }
+						: {}),
+				},
+			},
+			endpoints: Object.fromEntries(
+				Object.entries(info.NetworkSettings?.Networks ?? {}).flatMap(
+					([network, settings]) => {
+						const aliases = ((settings.Aliases ?? []) as string[]).filter(
+							alias => alias !== shortId,
+						)
+						const endpoint: Docker.EndpointSettings = {
+							...(aliases.length > 0 ? { Aliases: aliases } : {}),
+							...(settings.IPAMConfig
+								? { IPAMConfig: settings.IPAMConfig }
+								: {}),
+						}
+
+						return Object.keys(endpoint).length > 0 ? [[network, endpoint]] : []
+					},
+				),
+			),
+		}
+	}
+
+	private async createFromSpec(
+		docker: Docker,
+		spec: ParsedSpec,
+		start: boolean,
+		inherited = NO_INHERITED_SETTINGS,
+	): Promise<Omit<ContainerSpecResultDto, 'host'>> {
+		const [primaryNetwork, ...extraNetworks] = spec.networks
+		const primaryEndpoint = primaryNetwork
+			? inherited.endpoints[primaryNetwork]
+			: undefined
+		const exposedPorts: Record<string, object> = {
+			...inherited.options.ExposedPorts,
+		}
+		const portBindings: Record<
+			string,
+			Array<{ HostIp?: string; HostPort?: string }>
+		> = {}
+		for (const port of spec.ports) {
+			const key = `${port.containerPort}/${port.protocol}`
+			exposedPorts[key] = {}
+			portBindings[key] = [
+				...(portBindings[key] ?? []),
+				{
+					HostIp: port.hostIp ?? '',
+					HostPort: port.hostPort ? String(port.hostPort) : '',
+				},
+			]
+		}
+
+		const container = await docker.createContainer({
+			...inherited.options,
+			...(spec.name ? { name: spec.name } : {}),
+			Image: spec.image,
+			...(spec.command.length > 0 ? { Cmd: spec.command } : {}),
+			Env: spec.env.map(([key, value]) => `${key}=${value}`),
+			Labels: spec.labels,
+			ExposedPorts: exposedPorts,
+			HostConfig: {
+				...inherited.options.HostConfig,
+				PortBindings: portBindings,
+				Binds: spec.mounts.map(
+					mount =>
+						`${mount.source}:${mount.target}${mount.readOnly ? ':ro' : ''}`,
+				),
+				RestartPolicy: {
+					Name: spec.restartPolicy === 'no' ? '' : spec.restartPolicy,
+				},
+				...(primaryNetwork ? { NetworkMode: primaryNetwork } : {}),
+				Memory: spec.memoryBytes ?? 0,
+				NanoCpus: spec.cpus ? Math.round(spec.cpus * 1e9) : 0,
+			},
+			...(primaryNetwork && primaryEndpoint
+				? {
+						NetworkingConfig: {
+							EndpointsConfig: { [primaryNetwork]: primaryEndpoint },
+						},
+					}
+				: {}),
+		})
+
+		try {
+			for (const network of extraNetworks) {
+				const endpoint = inherited.endpoints[network]
+				await docker.getNetwork(network).connect({
+					Container: container.id,
+					...(endpoint ? { EndpointConfig: endpoint } : {}),
+				})
+			}
+
+			if (start) {
+				await container.start()
+			}
+		} catch (error) {
+			// Leave nothing behind, so the form can be submitted again as is.
+			await container.remove({ force: true }).catch(() => undefined)
+			throw error
+		}
+
+		const info = await container.inspect()
+		return {
+			id: info.Id,
+			name: info.Name.replace(/^\//, ''),
+			warnings: [],
+		}
+	}
+
+	private parseSpec(input: ContainerSpecDto | undefined): ParsedSpec {
+		if (!input || typeof input !== 'object') {
+			throw new BadRequestException('Container spec is required')
+		}
+
+		const image = String(input.image ?? '').trim()
+		if (!IMAGE_REFERENCE_PATTERN.test(image)) {
+			throw new BadRequestException(`Invalid image reference: ${image}`)
+		}
+
+		const name = input.name?.trim() || null
+		if (name !== null && !CONTAINER_NAME_PATTERN.test(name)) {
+			throw new BadRequestException(`Invalid container name: ${name}`)
+		}
+
+		const ports = (input.ports ?? []).map(port => {
+			const containerPort = Number(port.containerPort)
+			const hostPort =
+				port.hostPort === null || port.hostPort === undefined
+					? null
+					: Number(port.hostPort)
+			const protocol = port.protocol ?? 'tcp'
+			if (
+				!this.isPort(containerPort) ||
+				(hostPort !== null && !this.isPort(hostPort)) ||
+				!PORT_PROTOCOLS.has(protocol)
+			) {
+				throw new BadRequestException(
+					`Invalid port mapping: ${port.hostPort ?? ''}:${port.containerPort}/${protocol}`,
+				)
+			}
+
+			return {
+				containerPort,
+				protocol,
+				hostPort,
+				...(port.hostIp?.trim() ? { hostIp: port.hostIp.trim() } : {}),
+			}
+		})
+
+		const mounts = (input.mounts ?? []).map(mount => {
+			const source = String(mount.source ?? '').trim()
+			const target = String(mount.target ?? '').trim()
+			if (!source || source.includes(':') || !target.startsWith('/')) {
+				throw new BadRequestException(
+					`Invalid mount: ${source} -> ${target} (target must be absolute)`,
+				)
+			}
+
+			return { source, target, readOnly: mount.readOnly === true }
+		})
+
+		const env = Object.entries(input.env ?? {}).map(([key, value]) => {
+			if (!key.trim() || key.includes('=')) {
+				throw new BadRequestException(`Invalid environment variable: ${key}`)
+			}
+
+			return [key.trim(), String(value ?? '')] as [string, string]
+		})
+
+		const restartPolicy = input.restartPolicy ?? 'no'
+		if (!RESTART_POLICIES.has(restartPolicy)) {
+			throw new BadRequestException(`Invalid restart policy: ${restartPolicy}`)
+		}
+
+		const memoryBytes = input.memoryBytes ? Number(input.memoryBytes) : null
+		if (
+			memoryBytes !== null &&
+			(!Number.isFinite(memoryBytes) || memoryBytes < MIN_MEMORY_BYTES)
+		) {
+			throw new BadRequestException('Memory limit must be at least 6 MiB')
+		}
+
+		const cpus = input.cpus ? Number(input.cpus) : null
+		if (cpus !== null && (!Number.isFinite(cpus) || cpus <= 0)) {
+			throw new BadRequestException('CPU limit must be a positive number')
+		}
+
+		return {
+			image,
+			name,
+			command: (input.command ?? []).map(String),
+			env,
+			ports,
+			mounts,
+			networks: (input.networks ?? [])
+				.map(network => String(network).trim())
+				.filter(network => network.length > 0),
+			restartPolicy,
+			labels: Object.fromEntries(
+				Object.entries(input.labels ?? {})
+					.filter(([key]) => key.trim().length > 0)
+					.map(([key, value]) => [key.trim(), String(value ?? '')]),
+			),
+			memoryBytes,
+			cpus,
+			start: typeof input.start === 'boolean' ? input.start : null,
+		}
+	}
+
+	// Pulls the image when the host does not have it yet, like `docker run`.
+	private async ensureImage(docker: Docker, image: string) {
+		try {
+			await docker.getImage(image).inspect()
+			return
+		} catch {
+			// Not present; pull below.
+		}
+
+		const stream = await docker.pull(image)
+		await new Promise<void>((resolve, reject) => {
+			let pullError: string | null = null
+			docker.modem.followProgress(
+				stream,
+				(error: Error | null) => {
+					if (error || pullError) {
+						reject(error ?? new Error(pullError ?? 'Pull failed'))
+					} else {
+						resolve()
+					}
+				},
+				(event: { error?: string }) => {
+					pullError = event.error ?? pullError
+				},
+			)
+		})
+	}
+
+	private async imageConfig(
+		docker: Docker,
+		image: string,
+	): Promise<ImageConfig | null> {
+		try {
+			return (await docker.getImage(image).inspect()).Config
+		} catch {
+			return null
+		}
+	}
+
+	private async inspect(
+		docker: Docker,
+		id: string,
+	): Promise<Docker.ContainerInspectInfo> {
+		try {
+			return await docker.getContainer(id).inspect()
+		} catch {
+			throw new NotFoundException(`Container not found: ${id}`)
+		}
+	}
+
+	private splitEnv(entry: string): [string, string] {
+		const index = entry.indexOf('=')
+		return index === -1
+			? [entry, '']
+			: [entry.slice(0, index), entry.slice(index + 1)]
+	}
+
+	private isPort(value: number) {
+		return Number.isInteger(value) && value >= 1 && value <= 65535
+	}
+}
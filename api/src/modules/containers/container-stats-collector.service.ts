@@ -0,0 +1,225 @@
+import {
+	BadRequestException,
+	Injectable,
+	OnModuleDestroy,
+	OnModuleInit,
+} from '@nestjs/common'
+import { Readable } from 'stream'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { ContainerDto } from './container.dto'
+import { ContainerEventsService } from './container-events.service'
+import {
+	ContainerStatsBatchDto,
+	ContainerStatsDto,
+} from './container-stats.dto'
+import { DockerStatsSnapshot, toContainerStatsDto } from './container-stats'
+import { ContainersService } from './containers.service'
+
+const RECONCILE_INTERVAL_MS = 5000
+// Docker streams a sample per second; a quiet stream is restarted.
+const STALE_SAMPLE_MS = 30000
+const MAX_BATCH_IDS = 500
+
+interface StatsSubscription {
+	stream: Readable | null
+	previous: DockerStatsSnapshot | null
+	stats: ContainerStatsDto | null
+	updatedAt: number
+}
+
+/**
+ * Keeps a streaming stats subscription open for every running container on
+ * every host and caches the latest sample, so reads never wait on Docker's
+ * blocking one-shot stats call.
+ */
+@Injectable()
+export class ContainerStatsCollectorService
+	implements OnModuleInit, OnModuleDestroy
+{
+	private readonly subscriptions = new Map<string, StatsSubscription>()
+	private reconcileTimer: NodeJS.Timeout | null = null
+	private isStopped = false
+
+	constructor(
+		private readonly containerEventsService: ContainerEventsService,
+		private readonly containersService: ContainersService,
+		private readonly dockerHosts: DockerHostsService,
+	) {}
+
+	onModuleInit() {
+		this.reconcileTimer = setInterval(
+			() => void this.reconcile(),
+			RECONCILE_INTERVAL_MS,
+		)
+		void this.reconcile()
+	}
+
+	onModuleDestroy() {
+		this.isStopped = true
+
+		if (this.reconcileTimer) {
+			clearInterval(this.reconcileTimer)
+		}
+
+		for (const subscription of this.subscriptions.values()) {
+			subscription.stream?.destroy()
+		}
+		this.subscriptions.clear()
+	}
+
+	/**
+	 * Latest stats of the listed containers on one host. Containers without a
+	 * sample yet (just started, or not running) are left out.
+	 */
+	getBatch(host: string | undefined, ids?: string): ContainerStatsBatchDto {
+		const { name } = this.dockerHosts.get(host)
+		const requested = (ids ?? '')
+			.split(',')
+			.map(id => id.trim())
+			.filter(id => id.length > 0)
+
+		if (requested.length > MAX_BATCH_IDS) {
+			throw new BadRequestException(
+				`At most ${MAX_BATCH_IDS} container ids per request`,
+			)
+		}
+
+		const stats: Record<string, ContainerStatsDto> = {}
+		for (const id of requested) {
+			const cached = this.getCached(name, id)
+			if (cached) {
+				stats[id] = cached
+			}
+		}
+
+		return { host: name, stats }
+	}
+
+	/** Cached stats when the container is streamed, else a one-shot read. */
+	async getContainerStats(
+		host: string | undefined,
+		id: string,
+	): Promise<ContainerStatsDto> {
+		return (
+			this.getCached(this.dockerHosts.get(host).name, id) ??
+			this.containersService.getContainerStats(host, id)
+		)
+	}
+
+	private getCached(host: string, id: string): ContainerStatsDto | null {
+		const subscription = this.subscriptions.get(`${host}/${id}`)
+
+		return subscription?.stats &&
+			Date.now() - subscription.updatedAt <= STALE_SAMPLE_MS
+			? subscription.stats
+			: null
+	}
+
+	private async reconcile() {
+		const running = new Map<string, ContainerDto>()
+
+		await Promise.all(
+			this.dockerHosts.all().map(async client => {
+				try {
+					const containers = await this.containerEventsService.getContainers(
+						client.name,
+					)
+					for (const container of containers) {
+						if (container.state === 'running') {
+							running.set(`${container.host}/${container.id}`, container)
+						}
+					}
+				} catch {
+					// Unreachable hosts keep no subscriptions until they return.
+				}
+			}),
+		)
+
+		if (this.isStopped) {
+			return
+		}
+
+		const now = Date.now()
+		for (const [key, subscription] of this.subscriptions) {
+			if (
+				!running.has(key) ||
+				(subscription.stream && now - subscription.updatedAt > STALE_SAMPLE_MS)
+			) {
+				subscription.stream?.destroy()
+				this.subscriptions.delete(key)
+			}
+		}
+
+		for (const [key, container] of running) {
+			if (!this.subscriptions.has(key)) {
+				void this.subscribe(key, container)
+			}
+		}
+	}
+
+	private async subscribe(key: string, container: ContainerDto) {
+		const subscription: StatsSubscription = {
+			stream: null,
+			previous: null,
+			stats: null,
+			updatedAt: Date.now(),
+		}
+		this.subscriptions.set(key, subscription)
+
+		const close = () => {
+			subscription.stream?.destroy()
+			if (this.subscriptions.get(key) === subscription) {
+				this.subscriptions.delete(key)
+			}
+		}
+
+		try {
+			const { docker } = this.dockerHosts.get(container.host)
+			const stream = (await docker
+				.getContainer(container.id)
+				.stats({ stream: true })) as unknown as Readable
+
+			// Dropped by a reconcile while the stream was opening.
+			if (this.subscriptions.get(key) !== subscription) {
+				stream.destroy()
+				return
+			}
+			subscription.stream = stream
+
+			let pending = ''
+			stream.on('data', (chunk: Buffer) => {
+				pending += chunk.toString('utf8')
+				const lines = pending.split('\n')
+				pending = lines.pop() ?? ''
+
+				for (const line of lines) {
+					this.handleLine(subscription, line)
+				}
+			})
+			stream.on('end', close)
+			stream.on('error', close)
+		} catch {
+			close()
+		}
+	}
+
+	private handleLine(subscription: StatsSubscription, line: string) {
+		if (line.trim().length === 0) {
+			return
+		}
+
+		let snapshot: DockerStatsSnapshot
+		try {
+			snapshot = JSON.parse(line) as DockerStatsSnapshot
+		} catch {
+			return
+		}
+
+		// The first sample has no previous CPU reading and would show 0%.
+		if (subscription.previous) {
+			subscription.stats = toContainerStatsDto(snapshot, subscription.previous)
+		}
+		subscription.previous = snapshot
+		subscription.updatedAt = Date.now()
+	}
+}
@@ -1,7 +1,42 @@
+export interface ContainerNetworkStatsDto {
+	interface: string
+	rxBytes: number
+	txBytes: number
+	/** Rates since the previous stats read; null on the first one. */
+	rxBytesPerSecond: number | null
+	txBytesPerSecond: number | null
+}
+
+export interface ContainerThrottlingDto {
+	periods: number
+	throttledPeriods: number
+	throttledTimeNanos: number
+	/** Share of the CFS periods in the last interval that were throttled. */
+	throttledPercent: number
+}
+
 export interface ContainerStatsDto {
 	cpuPercent: number
+	/** Usage of each CPU; empty on cgroup v2, which does not report it. */
+	perCpuPercent: number[]
+	/** Memory in use without the reclaimable page cache. */
 	memUsageBytes: number
+	memCacheBytes: number
 	memLimitBytes: number
 	memPercent: number
 	pids: number | null
+	networks: ContainerNetworkStatsDto[]
+	netRxBytes: number
+	netTxBytes: number
+	netRxBytesPerSecond: number | null
+	netTxBytesPerSecond: number | null
+	blockReadBytes: number
+	blockWriteBytes: number
+	throttling: ContainerThrottlingDto | null
+}
+
+export interface ContainerStatsBatchDto {
+	host: string
+	/** Latest stats by requested id; containers without a sample are left out. */
+	stats: Record<string, ContainerStatsDto>
 }
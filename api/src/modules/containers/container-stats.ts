@@ -0,0 +1,185 @@
+import {
+	ContainerNetworkStatsDto,
+	ContainerStatsDto,
+	ContainerThrottlingDto,
+} from './container-stats.dto'
+
+interface DockerCpuStats {
+	cpu_usage?: {
+		total_usage?: number
+		percpu_usage?: number[] | null
+	}
+	system_cpu_usage?: number
+	online_cpus?: number
+	throttling_data?: {
+		periods?: number
+		throttled_periods?: number
+		throttled_time?: number
+	}
+}
+
+/** One entry of Docker's stats payload, streamed or read once. */
+export interface DockerStatsSnapshot {
+	id?: string
+	read?: string
+	cpu_stats?: DockerCpuStats
+	precpu_stats?: DockerCpuStats
+	memory_stats?: {
+		usage?: number
+		limit?: number
+		// cgroup v2 reports `inactive_file`, cgroup v1 `total_inactive_file`.
+		stats?: Record<string, number>
+	}
+	pids_stats?: {
+		current?: number
+	}
+	networks?: Record<string, { rx_bytes?: number; tx_bytes?: number }>
+	blkio_stats?: {
+		io_service_bytes_recursive?: Array<{ op?: string; value?: number }> | null
+	}
+}
+
+const readTime = (stats: DockerStatsSnapshot) =>
+	(stats.read && Date.parse(stats.read)) || Date.now()
+
+/**
+ * Docker reports cumulative network counters only, so rates come from the
+ * previous snapshot of the same container.
+ */
+const toNetworkStats = (
+	stats: DockerStatsSnapshot,
+	previous: DockerStatsSnapshot | undefined,
+): ContainerNetworkStatsDto[] => {
+	const elapsedSeconds = previous
+		? (readTime(stats) - readTime(previous)) / 1000
+		: 0
+
+	// Counters restart from zero when the container restarts.
+	const rate = (current: number, before: number | undefined) =>
+		before !== undefined && elapsedSeconds > 0 && current >= before
+			? (current - before) / elapsedSeconds
+			: null
+
+	return Object.entries(stats.networks ?? {}).map(([name, network]) => {
+		const rxBytes = network.rx_bytes ?? 0
+		const txBytes = network.tx_bytes ?? 0
+		const before = previous?.networks?.[name]
+
+		return {
+			interface: name,
+			rxBytes,
+			txBytes,
+			rxBytesPerSecond: rate(rxBytes, before?.rx_bytes),
+			txBytesPerSecond: rate(txBytes, before?.tx_bytes),
+		}
+	})
+}
+
+const toThrottling = (
+	stats: DockerStatsSnapshot,
+): ContainerThrottlingDto | null => {
+	const current = stats.cpu_stats?.throttling_data
+	if (!current) {
+		return null
+	}
+
+	const before = stats.precpu_stats?.throttling_data
+	const periodsDelta = (current.periods ?? 0) - (before?.periods ?? 0)
+	const throttledDelta =
+		(current.throttled_periods ?? 0) - (before?.throttled_periods ?? 0)
+
+	return {
+		periods: current.periods ?? 0,
+		throttledPeriods: current.throttled_periods ?? 0,
+		throttledTimeNanos: current.throttled_time ?? 0,
+		throttledPercent:
+			periodsDelta > 0 && throttledDelta > 0
+				? (throttledDelta / periodsDelta) * 100
+				: 0,
+	}
+}
+
+/**
+ * Maps a Docker stats snapshot to `ContainerStatsDto`. `previous` is the
+ * container's prior snapshot, used for network rates.
+ */
+export const toContainerStatsDto = (
+	stats: DockerStatsSnapshot,
+	previous?: DockerStatsSnapshot,
+): ContainerStatsDto => {
+	const cpuUsage = stats.cpu_stats?.cpu_usage?.total_usage ?? 0
+	const prevCpuUsage = stats.precpu_stats?.cpu_usage?.total_usage ?? 0
+	const cpuDelta = cpuUsage - prevCpuUsage
+
+	const systemCpuUsage = stats.cpu_stats?.system_cpu_usage ?? 0
+	const prevSystemCpuUsage = stats.precpu_stats?.system_cpu_usage ?? 0
+	const systemDelta = systemCpuUsage - prevSystemCpuUsage
+
+	const perCpuUsage = stats.cpu_stats?.cpu_usage?.percpu_usage ?? []
+	const prevPerCpuUsage = stats.precpu_stats?.cpu_usage?.percpu_usage ?? []
+	const onlineCpus = stats.cpu_stats?.online_cpus ?? (perCpuUsage.length || 1)
+
+	const cpuPercent =
+		cpuDelta > 0 && systemDelta > 0
+			? (cpuDelta / systemDelta) * onlineCpus * 100
+			: 0
+	// The system delta covers every CPU, so one CPU's share is delta / n.
+	const perCpuPercent =
+		systemDelta > 0 && prevPerCpuUsage.length === perCpuUsage.length
+			? perCpuUsage.map(
+					(usage, index) =>
+						(Math.max(usage - prevPerCpuUsage[index], 0) /
+							(systemDelta / onlineCpus)) *
+						100,
+				)
+			: []
+
+	// Page cache counts towards usage but is reclaimed under pressure, so
+	// it is left out like `docker stats` does.
+	const memRawUsageBytes = stats.memory_stats?.usage ?? 0
+	const memoryDetails = stats.memory_stats?.stats ?? {}
+	const inactiveFile =
+		memoryDetails.inactive_file ?? memoryDetails.total_inactive_file ?? 0
+	const memCacheBytes = inactiveFile < memRawUsageBytes ? inactiveFile : 0
+	const memUsageBytes = memRawUsageBytes - memCacheBytes
+	const memLimitBytes = stats.memory_stats?.limit ?? 0
+	const memPercent =
+		memUsageBytes > 0 && memLimitBytes > 0
+			? (memUsageBytes / memLimitBytes) * 100
+			: 0
+
+	const networks = toNetworkStats(stats, previous)
+	const sumRates = (field: 'rxBytesPerSecond' | 'txBytesPerSecond') =>
+		networks.length > 0 && networks.every(network => network[field] !== null)
+			? networks.reduce((total, network) => total + (network[field] ?? 0), 0)
+			: null
+
+	let blockReadBytes = 0
+	let blockWriteBytes = 0
+	for (const entry of stats.blkio_stats?.io_service_bytes_recursive ?? []) {
+		const op = entry.op?.toLowerCase()
+		if (op === 'read') {
+			blockReadBytes += entry.value ?? 0
+		} else if (op === 'write') {
+			blockWriteBytes += entry.value ?? 0
+		}
+	}
+
+	return {
+		cpuPercent,
+		perCpuPercent,
+		memUsageBytes,
+		memCacheBytes,
+		memLimitBytes,
+		memPercent,
+		pids: stats.pids_stats?.current ?? null,
+		networks,
+		netRxBytes: networks.reduce((total, network) => total + network.rxBytes, 0),
+		netTxBytes: networks.reduce((total, network) => total + network.txBytes, 0),
+		netRxBytesPerSecond: sumRates('rxBytesPerSecond'),
+		netTxBytesPerSecond: sumRates('txBytesPerSecond'),
+		blockReadBytes,
+		blockWriteBytes,
+		throttling: toThrottling(stats),
+	}
+}
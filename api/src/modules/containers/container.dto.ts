@@ -1,9 +1,25 @@
+/** State of a container's health check, as Docker last reported it. */
+export interface ContainerHealthStateDto {
+	/** `starting`, `healthy` or `unhealthy`; null without a health check. */
+	status: string | null
+	/** Consecutive failed probes, reset by a passing one. */
+	failingStreak: number
+	lastOutput: string | null
+	lastExitCode: number | null
+}
+
 export interface ContainerDto {
 	id: string
+	host: string
 	name: string
 	image: string
 	state: string
 	status: string
 	labels: Record<string, string>
 	cluster: string | null
+	/** Networks the container is attached to. */
+	networkNames: string[]
+	/** Named volumes mounted into the container. */
+	volumeNames: string[]
+	health: ContainerHealthStateDto
 }
@@ -1,58 +1,182 @@
-import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common'
+import {
+	Body,
+	Controller,
+	Get,
+	HttpCode,
+	HttpStatus,
+	MessageEvent,
+	Param,
+	Post,
+	Put,
+	Query,
+	Sse,
+} from '@nestjs/common'
+import { Observable } from 'rxjs'
+import { AuthUserDto } from '../auth/auth-user.dto'
+import { CurrentUser, Roles } from '../auth/auth.decorators'
 import { BulkActionDto } from './bulk-action.dto'
+import { ContainerActionOptionsDto } from './container-action.dto'
+import { ContainerEventsService } from './container-events.service'
+import { ContainerExecInputDto } from './container-exec.dto'
+import { ContainerExecService } from './container-exec.service'
+import { UpdateContainerLimitsDto } from './container-limits.dto'
+import { ContainerLimitsService } from './container-limits.service'
+import { ContainerSpecDto } from './container-spec.dto'
+import { ContainerSpecService } from './container-spec.service'
+import { ContainerStatsCollectorService } from './container-stats-collector.service'
 import { ContainersService } from './containers.service'
 
-@Controller('containers')
+// Unscoped routes act on the default Docker host, except listing and events
+// which aggregate every configured host.
+@Controller(['containers', 'hosts/:host/containers'])
 export class ContainersController {
-	constructor(private readonly containersService: ContainersService) {}
+	constructor(
+		private readonly containersService: ContainersService,
+		private readonly containerEventsService: ContainerEventsService,
+		private readonly containerExecService: ContainerExecService,
+		private readonly containerSpecService: ContainerSpecService,
+		private readonly containerLimitsService: ContainerLimitsService,
+		private readonly containerStatsCollector: ContainerStatsCollectorService,
+	) {}
 
 	@Get()
-	getContainers() {
-		return this.containersService.listContainers()
+	getContainers(@Param('host') host?: string) {
+		return this.containerEventsService.getContainers(host)
 	}
 
-	@Post('bulk/start')
-	bulkStart(@Body() input: BulkActionDto) {
-		return this.containersService.bulkStart(input)
+	@Sse('events')
+	streamContainerEvents(
+		@Param('host') host?: string,
+	): Observable<MessageEvent> {
+		return this.containerEventsService.stream(host)
 	}
 
-	@Post('bulk/stop')
-	bulkStop(@Body() input: BulkActionDto) {
-		return this.containersService.bulkStop(input)
+	@Get('stats')
+	getContainerStatsBatch(
+		@Query('ids') ids?: string,
+		@Param('host') host?: string,
+	) {
+		return this.containerStatsCollector.getBatch(host, ids)
+	}
+
+	@Roles('operator')
+	@Post()
+	createContainer(
+		@Body() input: ContainerSpecDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containerSpecService.create(host, input, user.username)
+	}
+
+	@Roles('operator')
+	@Post('bulk/:action')
+	@HttpCode(HttpStatus.ACCEPTED)
+	bulkAction(
+		@Param('action') action: string,
+		@Body() input: BulkActionDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containersService.bulkAction(host, action, input, user.username)
+	}
+
+	// Issues a ticket for the `/exec` WebSocket, which opens the shell.
+	@Roles('admin')
+	@Post(':id/exec')
+	createExecTicket(
+		@Param('id') id: string,
+		@Body() input: ContainerExecInputDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containerExecService.createTicket(
+			host,
+			id,
+			input,
+			user.username,
+		)
+	}
+
+	@Roles('operator')
+	@Post(':id/recreate')
+	recreateContainer(
+		@Param('id') id: string,
+		@Body() input: ContainerSpecDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containerSpecService.recreate(host, id, input, user.username)
 	}
 
-	@Post('bulk/restart')
-	bulkRestart(@Body() input: BulkActionDto) {
-		return this.containersService.bulkRestart(input)
+	// Registered after `:id/exec` and `:id/recreate` so they are not shadowed.
+	@Roles('operator')
+	@Post(':id/:action')
+	containerAction(
+		@Param('id') id: string,
+		@Param('action') action: string,
+		@Body() options: ContainerActionOptionsDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containersService.containerAction(
+			host,
+			id,
+			action,
+			options,
+			user.username,
+		)
 	}
 
-	@Post(':id/start')
-	startContainer(@Param('id') id: string) {
-		return this.containersService.startContainer(id)
+	@Roles('operator')
+	@Put(':id/limits')
+	updateContainerLimits(
+		@Param('id') id: string,
+		@Body() input: UpdateContainerLimitsDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.containerLimitsService.update(host, id, input, user.username)
 	}
 
-	@Post(':id/stop')
-	stopContainer(@Param('id') id: string) {
-		return this.containersService.stopContainer(id)
+	@Get(':id')
+	getContainer(@Param('id') id: string, @Param('host') host?: string) {
+		return this.containersService.getContainerDetail(host, id)
 	}
 
-	@Post(':id/restart')
-	restartContainer(@Param('id') id: string) {
-		return this.containersService.restartContainer(id)
+	@Roles('operator')
+	@Get(':id/spec')
+	getContainerSpec(@Param('id') id: string, @Param('host') host?: string) {
+		return this.containerSpecService.getSpec(host, id)
 	}
 
 	@Get(':id/stats')
-	getContainerStats(@Param('id') id: string) {
-		return this.containersService.getContainerStats(id)
+	getContainerStats(@Param('id') id: string, @Param('host') host?: string) {
+		return this.containerStatsCollector.getContainerStats(host, id)
 	}
 
 	@Get(':id/logs')
 	async getContainerLogs(
 		@Param('id') id: string,
 		@Query('tail') tail?: string,
+		@Param('host') host?: string,
 	) {
 		const parsedTail = tail ? Number.parseInt(tail, 10) : 200
-		const text = await this.containersService.getContainerLogs(id, parsedTail)
+		const text = await this.containersService.getContainerLogs(
+			host,
+			id,
+			parsedTail,
+		)
 		return { text }
 	}
+
+	@Sse(':id/logs/stream')
+	streamContainerLogs(
+		@Param('id') id: string,
+		@Query('tail') tail?: string,
+		@Param('host') host?: string,
+	): Observable<MessageEvent> {
+		const parsedTail = tail ? Number.parseInt(tail, 10) : 200
+		return this.containersService.streamContainerLogs(host, id, parsedTail)
+	}
 }
@@ -1,10 +1,36 @@
 import { Module } from '@nestjs/common'
+import { AuditModule } from '../audit/audit.module'
+import { ClusterRulesModule } from '../cluster-rules/cluster-rules.module'
+import { HostsModule } from '../hosts/hosts.module'
+import { JobsModule } from '../jobs/jobs.module'
 import { ClustersController } from './clusters.controller'
+import { ContainerAutohealService } from './container-autoheal.service'
+import { ContainerExecGateway } from './container-exec.gateway'
+import { ContainerExecService } from './container-exec.service'
+import { ContainerLimitsService } from './container-limits.service'
+import { ContainerSpecService } from './container-spec.service'
+import { ContainerStatsCollectorService } from './container-stats-collector.service'
+import { ContainerEventsService } from './container-events.service'
 import { ContainersController } from './containers.controller'
 import { ContainersService } from './containers.service'
 
 @Module({
+	imports: [AuditModule, ClusterRulesModule, HostsModule, JobsModule],
 	controllers: [ContainersController, ClustersController],
-	providers: [ContainersService],
+	providers: [
+		ContainersService,
+		ContainerEventsService,
+		ContainerExecService,
+		ContainerExecGateway,
+		ContainerSpecService,
+		ContainerLimitsService,
+		ContainerStatsCollectorService,
+		ContainerAutohealService,
+	],
+	exports: [
+		ContainersService,
+		ContainerEventsService,
+		ContainerStatsCollectorService,
+	],
 })
 export class ContainersModule {}
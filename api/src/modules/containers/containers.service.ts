@@ -1,22 +1,47 @@
 import {
 	BadGatewayException,
+	BadRequestException,
+	ForbiddenException,
 	Injectable,
+	MessageEvent,
 	NotFoundException,
 } from '@nestjs/common'
 import * as Docker from 'dockerode'
-import { ContainerDto } from './container.dto'
+import { Observable } from 'rxjs'
+import { Readable } from 'stream'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { AuditService } from '../audit/audit.service'
+import { ClusterRulesService } from '../cluster-rules/cluster-rules.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { JobDto } from '../jobs/job.dto'
+import { JobsService } from '../jobs/jobs.service'
+import { runWithConcurrency } from './concurrency'
+import { requireConfirmation } from './confirmation'
+import { ContainerDto, ContainerHealthStateDto } from './container.dto'
+import {
+	ContainerDetailDto,
+	ContainerEnvVarDto,
+	ContainerHealthDto,
+	ContainerPortDto,
+} from './container-detail.dto'
+import { toContainerLimits } from './container-limits.service'
 import { ContainerStatsDto } from './container-stats.dto'
+import { DockerStatsSnapshot, toContainerStatsDto } from './container-stats'
+import {
+	ContainerLogFrameDto,
+	ContainerLogStream,
+} from './container-log-frame.dto'
 import {
 	BulkActionDto,
 	BulkActionFailureDto,
-	BulkActionResultDto,
+	ClusterActionResultDto,
+	ClusterTierResultDto,
 } from './bulk-action.dto'
-
-const isWin = process.platform === 'win32'
-
-const docker = isWin
-	? new Docker({ socketPath: '//./pipe/docker_engine' })
-	: new Docker({ socketPath: '/var/run/docker.sock' })
+import { ClusterMember, planClusterTiers } from './cluster-order'
+import {
+	ContainerAction,
+	ContainerActionOptionsDto,
+} from './container-action.dto'
 
 const DEFAULT_PROTECTED_CONTAINERS = [
 	'kz-dashboard-api',
@@ -36,13 +61,67 @@ const protectedContainers = new Set(
 		: DEFAULT_PROTECTED_CONTAINERS,
 )
 
+export const isProtectedContainer = (name: string) =>
+	protectedContainers.has(name.toLowerCase())
+
 const BULK_CONCURRENCY = 5
 const CLUSTER_PROTECTED_CONTAINERS = new Set([
 	'kz-dashboard-api',
 	'kz-dashboard-web',
 ])
+// How long a cluster start waits for a tier's health checks before giving up.
+const CLUSTER_HEALTH_TIMEOUT_MS =
+	Math.max(Number(process.env.CLUSTER_HEALTH_TIMEOUT_SECONDS) || 60, 1) * 1000
+const HEALTH_POLL_MS = 1000
+
+// Env var names that usually carry credentials; their values are masked in
+// container details and specs.
+export const SECRET_ENV_PATTERN =
+	/(pass(word|wd)?|secret|token|api_?key|access_?key|private_?key|credential|auth|dsn|connection_?string)/i
+export const MASKED_ENV_VALUE = '********'
+const NANOSECONDS_PER_SECOND = 1e9
+
+const CONTAINER_ACTIONS = new Set<ContainerAction>([
+	'start',
+	'stop',
+	'restart',
+	'pause',
+	'unpause',
+	'kill',
+	'remove',
+])
+// Need a typed name or confirmation token.
+const DESTRUCTIVE_ACTIONS = new Set<ContainerAction>(['kill', 'remove'])
+// Refused on protected containers: each takes the dashboard offline, and a
+// paused or stopped API cannot bring itself back.
+const PROTECTED_ACTIONS = new Set<ContainerAction>([
+	'stop',
+	'pause',
+	'kill',
+	'remove',
+])
+// Bulk and cluster actions skip containers in other states instead of failing.
+const ACTION_STATES: Partial<Record<ContainerAction, string[]>> = {
+	pause: ['running'],
+	unpause: ['paused'],
+	kill: ['running', 'paused', 'restarting'],
+}
+const KILL_SIGNALS = new Set([
+	'SIGKILL',
+	'SIGTERM',
+	'SIGINT',
+	'SIGHUP',
+	'SIGQUIT',
+	'SIGUSR1',
+	'SIGUSR2',
+])
+const DEFAULT_KILL_SIGNAL = 'SIGKILL'
+// Snapshots kept to derive network rates; dropped when a container goes quiet.
+const STATS_SNAPSHOT_TTL_MS = 10 * 60 * 1000
+const STOP_TIMEOUT_LABEL = 'kz.stop_timeout'
+const MAX_STOP_TIMEOUT_SECONDS = 3600
 
-type BulkAction = 'start' | 'stop' | 'restart'
+type ClusterPhaseAction = Exclude<ContainerAction, 'restart'>
 
 interface DockerContainerSummary {
 	Id: string
@@ -51,77 +130,103 @@ interface DockerContainerSummary {
 	State: string
 	Status: string
 	Labels?: Record<string, string>
+	Mounts?: Array<{ Type?: string; Name?: string }>
+	NetworkSettings?: { Networks?: Record<string, unknown> }
 }
 
-interface DockerStatsSnapshot {
-	cpu_stats?: {
-		cpu_usage?: {
-			total_usage?: number
-			percpu_usage?: number[]
-		}
-		system_cpu_usage?: number
-		online_cpus?: number
-	}
-	precpu_stats?: {
-		cpu_usage?: {
-			total_usage?: number
-		}
-		system_cpu_usage?: number
-	}
-	memory_stats?: {
-		usage?: number
-		limit?: number
-	}
-	pids_stats?: {
-		current?: number
-	}
+interface DockerLogFrame {
+	stream: ContainerLogStream
+	payload: Buffer
 }
 
 @Injectable()
 export class ContainersService {
-	private readonly docker = docker
+	private readonly previousStats = new Map<string, DockerStatsSnapshot>()
+
+	constructor(
+		private readonly auditService: AuditService,
+		private readonly dockerHosts: DockerHostsService,
+		private readonly clusterRules: ClusterRulesService,
+		private readonly jobsService: JobsService,
+	) {}
+
+	async listContainers(host?: string): Promise<ContainerDto[]> {
+		const client = this.dockerHosts.get(host)
 
-	async listContainers(): Promise<ContainerDto[]> {
 		try {
-			const containers = await this.docker.listContainers({ all: true })
-			return containers.map(container => this.toContainerDto(container))
+			const containers = await client.docker.listContainers({ all: true })
+			return await this.withHealthDetails(
+				client.docker,
+				containers.map(container =>
+					this.toContainerDto(client.name, container),
+				),
+			)
 		} catch (error) {
-			console.error('Docker unavailable:', error)
+			console.error(`Docker unavailable on ${client.name}:`, error)
 			return []
 		}
 	}
 
-	async startContainer(id: string): Promise<{ id: string; action: 'start' }> {
-		const container = this.docker.getContainer(id)
-		await this.assertExists(id)
-		await container.start()
-		return { id, action: 'start' }
-	}
+	async findContainer(host: string, id: string): Promise<ContainerDto | null> {
+		const client = this.dockerHosts.get(host)
+		const [container] = await client.docker.listContainers({
+			all: true,
+			filters: { id: [id] },
+		})
+
+		if (!container) {
+			return null
+		}
 
-	async stopContainer(id: string): Promise<{ id: string; action: 'stop' }> {
-		const container = this.docker.getContainer(id)
-		await this.assertExists(id)
-		await container.stop()
-		return { id, action: 'stop' }
+		const [dto] = await this.withHealthDetails(client.docker, [
+			this.toContainerDto(client.name, container),
+		])
+		return dto
 	}
 
-	async restartContainer(
+	async containerAction(
+		host: string | undefined,
 		id: string,
-	): Promise<{ id: string; action: 'restart' }> {
-		const container = this.docker.getContainer(id)
-		await this.assertExists(id)
-		await container.restart()
-		return { id, action: 'restart' }
+		action: string,
+		options: ContainerActionOptionsDto,
+		actor: string,
+	): Promise<{ id: string; action: ContainerAction }> {
+		const input = options ?? {}
+		return this.executeContainerAction(
+			host,
+			id,
+			this.parseAction(action, input),
+			input,
+			actor,
+		)
 	}
 
-	async getContainerStats(id: string): Promise<ContainerStatsDto> {
+	async getContainerStats(
+		host: string | undefined,
+		id: string,
+	): Promise<ContainerStatsDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+
 		try {
-			const container = this.docker.getContainer(id)
+			const container = docker.getContainer(id)
 			const stats = (await container.stats({
 				stream: false,
 			})) as DockerStatsSnapshot
 
-			return this.toContainerStatsDto(stats)
+			const key = `${hostName}/${stats.id ?? id}`
+			const previous = this.previousStats.get(key)
+			const readAt = Date.now()
+			for (const [staleKey, snapshot] of this.previousStats) {
+				if (
+					readAt - (Date.parse(snapshot.read ?? '') || 0) >
+					STATS_SNAPSHOT_TTL_MS
+				) {
+					this.previousStats.delete(staleKey)
+				}
+			}
+			this.previousStats.set(key, stats)
+
+			return toContainerStatsDto(stats, previous)
 		} catch (error) {
 			throw new BadGatewayException(
 				error instanceof Error ? error.message : 'Container stats unavailable',
@@ -129,14 +234,39 @@ export class ContainersService {
 		}
 	}
 
-	async getContainerLogs(id: string, tail = 200): Promise<string> {
-		const parsedTail = Number.isFinite(tail)
-			? Math.max(1, Math.min(2000, Math.trunc(tail)))
-			: 200
+	async getContainerDetail(
+		host: string | undefined,
+		id: string,
+	): Promise<ContainerDetailDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const info = await this.assertExists(docker, id)
+		const summary = await this.findContainer(hostName, info.Id)
+
+		if (!summary) {
+			throw new NotFoundException(`Container not found: ${id}`)
+		}
+
+		return this.toContainerDetailDto(summary, info)
+	}
+
+	async getRestartCount(host: string, id: string): Promise<number> {
+		const { docker } = this.dockerHosts.get(host)
+		const info = await this.assertExists(docker, id)
+
+		return info.RestartCount
+	}
+
+	async getContainerLogs(
+		host: string | undefined,
+		id: string,
+		tail = 200,
+	): Promise<string> {
+		const { docker } = this.dockerHosts.get(host)
+		const parsedTail = this.clampTail(tail)
 
 		try {
-			const container = this.docker.getContainer(id)
-			await this.assertExists(id)
+			const container = docker.getContainer(id)
+			await this.assertExists(docker, id)
 
 			const output = (await container.logs({
 				stdout: true,
@@ -158,201 +288,687 @@ export class ContainersService {
 		}
 	}
 
-	async bulkStart(input: BulkActionDto): Promise<BulkActionResultDto> {
-		return this.executeBulkAction('start', input)
-	}
+	streamContainerLogs(
+		host: string | undefined,
+		id: string,
+		tail = 200,
+	): Observable<MessageEvent> {
+		const { docker } = this.dockerHosts.get(host)
+		const parsedTail = this.clampTail(tail)
 
-	async bulkStop(input: BulkActionDto): Promise<BulkActionResultDto> {
-		return this.executeBulkAction('stop', input)
-	}
+		return new Observable<MessageEvent>(subscriber => {
+			let stream: Readable | null = null
+			let isClosed = false
 
-	async bulkRestart(input: BulkActionDto): Promise<BulkActionResultDto> {
-		return this.executeBulkAction('restart', input)
-	}
+			const emit = (frame: ContainerLogFrameDto) => {
+				subscriber.next({ data: frame })
+			}
+
+			const follow = async () => {
+				const info = await this.assertExists(docker, id)
+				stream = (await docker.getContainer(id).logs({
+					stdout: true,
+					stderr: true,
+					timestamps: true,
+					tail: parsedTail,
+					follow: true,
+				})) as unknown as Readable
+
+				if (isClosed) {
+					stream.destroy()
+					return
+				}
+
+				// TTY containers write raw output without the multiplexed headers.
+				const isTty = info.Config.Tty
+				let pending: Buffer = Buffer.alloc(0)
+
+				stream.on('data', (chunk: Buffer) => {
+					if (isTty) {
+						emit({ stream: 'stdout', text: chunk.toString('utf8') })
+						return
+					}
 
-	async startCluster(cluster: string): Promise<BulkActionResultDto> {
-		return this.executeClusterAction(cluster, 'start')
+					pending = Buffer.concat([pending, chunk])
+					const { frames, remainder } = this.parseDockerLogFrames(pending)
+					pending = remainder
+
+					for (const frame of frames) {
+						emit({ stream: frame.stream, text: frame.payload.toString('utf8') })
+					}
+				})
+				stream.on('end', () => subscriber.complete())
+				stream.on('error', error => subscriber.error(error))
+			}
+
+			follow().catch(error => {
+				subscriber.error(
+					error instanceof Error
+						? error
+						: new BadGatewayException('Container logs unavailable'),
+				)
+			})
+
+			return () => {
+				isClosed = true
+				stream?.destroy()
+			}
+		})
 	}
 
-	async stopCluster(cluster: string): Promise<BulkActionResultDto> {
-		return this.executeClusterAction(cluster, 'stop')
+	async bulkAction(
+		host: string | undefined,
+		action: string,
+		input: BulkActionDto,
+		actor: string,
+	): Promise<JobDto> {
+		const options = input ?? {}
+		return this.executeBulkAction(
+			host,
+			this.parseAction(action, options),
+			options,
+			actor,
+		)
 	}
 
-	async restartCluster(cluster: string): Promise<BulkActionResultDto> {
-		return this.executeClusterAction(cluster, 'restart')
+	async clusterAction(
+		host: string | undefined,
+		cluster: string,
+		action: string,
+		options: ContainerActionOptionsDto,
+		actor: string,
+	): Promise<JobDto> {
+		const input = options ?? {}
+		return this.executeClusterAction(
+			host,
+			cluster,
+			this.parseAction(action, input),
+			input,
+			actor,
+		)
 	}
 
-	private toContainerDto(container: DockerContainerSummary): ContainerDto {
+	private toContainerDto(
+		host: string,
+		container: DockerContainerSummary,
+	): ContainerDto {
 		const labels = container.Labels ?? {}
 		const name = container.Names?.[0]?.replace(/^\//, '') ?? container.Id
 
 		return {
 			id: container.Id,
+			host,
 			name,
 			image: container.Image,
 			state: container.State,
 			status: container.Status,
 			labels,
-			cluster: this.resolveCluster(labels, name),
+			cluster: this.clusterRules.resolve(labels, name, container.Image),
+			networkNames: Object.keys(container.NetworkSettings?.Networks ?? {}),
+			volumeNames: (container.Mounts ?? []).flatMap(mount =>
+				mount.Type === 'volume' && mount.Name ? [mount.Name] : [],
+			),
+			health: {
+				status: this.parseHealthStatus(container.Status),
+				failingStreak: 0,
+				lastOutput: null,
+				lastExitCode: null,
+			},
 		}
 	}
 
-	private resolveCluster(
-		labels: Record<string, string>,
-		containerName: string,
-	): string | null {
-		const explicitCluster = labels['kz.cluster']?.trim()
-		if (explicitCluster) {
-			return explicitCluster
-		}
+	// The list API has health only inside the status text, e.g. "Up 5 minutes
+	// (health: starting)" or "Up 2 hours (unhealthy)".
+	private parseHealthStatus(status: string): string | null {
+		const match = /\((?:health: )?(starting|healthy|unhealthy)\)/.exec(status)
 
-		const composeProject = labels['com.docker.compose.project']?.trim()
-		if (composeProject) {
-			return composeProject
-		}
+		return match ? match[1] : null
+	}
 
-		const normalizedName = containerName.toLowerCase()
-		if (
-			normalizedName.includes('zabbix') ||
-			normalizedName.includes('grafana') ||
-			normalizedName.includes('prometheus') ||
-			normalizedName.includes('loki')
-		) {
-			return 'monitoring'
-		}
+	/**
+	 * Fills the failing streak and last probe of containers with a health
+	 * check, which only inspect reports.
+	 */
+	private async withHealthDetails(
+		docker: Docker,
+		containers: ContainerDto[],
+	): Promise<ContainerDto[]> {
+		await runWithConcurrency(
+			containers.filter(container => container.health.status !== null),
+			BULK_CONCURRENCY,
+			async container => {
+				try {
+					container.health = this.toContainerHealthState(
+						await docker.getContainer(container.id).inspect(),
+					)
+				} catch {
+					// Removed meanwhile; the status from the list stays.
+				}
+			},
+		)
 
-		if (
-			normalizedName.includes('elastic') ||
-			normalizedName.includes('kibana') ||
-			normalizedName.includes('graylog')
-		) {
-			return 'logging'
-		}
+		return containers
+	}
 
-		if (
-			normalizedName.includes('mysql') ||
-			normalizedName.includes('postgres') ||
-			normalizedName.includes('mongo') ||
-			normalizedName.includes('redis')
-		) {
-			return 'databases'
+	private toContainerDetailDto(
+		summary: ContainerDto,
+		info: Docker.ContainerInspectInfo,
+	): ContainerDetailDto {
+		const { State: state, Config: config, HostConfig: hostConfig } = info
+		const entrypoint = config.Entrypoint ?? []
+
+		return {
+			...summary,
+			imageId: info.Image,
+			createdAt: info.Created,
+			startedAt: this.toTimestamp(state.StartedAt),
+			finishedAt: this.toTimestamp(state.FinishedAt),
+			exitCode: state.Running ? null : state.ExitCode,
+			error: state.Error || null,
+			oomKilled: state.OOMKilled,
+			restartCount: info.RestartCount,
+			restartPolicy: {
+				name: hostConfig.RestartPolicy?.Name || 'no',
+				maximumRetryCount: hostConfig.RestartPolicy?.MaximumRetryCount ?? 0,
+			},
+			command: config.Cmd ?? [],
+			entrypoint: Array.isArray(entrypoint) ? entrypoint : [entrypoint],
+			workingDir: config.WorkingDir || null,
+			user: config.User || null,
+			hostname: config.Hostname || null,
+			networkMode: hostConfig.NetworkMode || null,
+			ports: this.toContainerPorts(info),
+			mounts: (info.Mounts ?? []).map(mount => ({
+				type: mount.Type,
+				name: mount.Name ?? null,
+				source: mount.Source,
+				destination: mount.Destination,
+				mode: mount.Mode,
+				readOnly: !mount.RW,
+			})),
+			env: (config.Env ?? []).map(entry => this.toContainerEnvVar(entry)),
+			networks: Object.entries(info.NetworkSettings?.Networks ?? {}).map(
+				([name, network]) => ({
+					name,
+					ipAddress: network.IPAddress || null,
+					gateway: network.Gateway || null,
+					macAddress: network.MacAddress || null,
+					aliases: Array.isArray(network.Aliases)
+						? (network.Aliases as string[])
+						: [],
+				}),
+			),
+			health: this.toContainerHealth(info),
+			limits: toContainerLimits(hostConfig),
 		}
+	}
+
+	private toContainerPorts(
+		info: Docker.ContainerInspectInfo,
+	): ContainerPortDto[] {
+		const exposed = Object.keys(info.Config.ExposedPorts ?? {})
+		const published = info.NetworkSettings?.Ports ?? {}
+		const keys = [...new Set([...exposed, ...Object.keys(published)])]
+
+		return keys.flatMap(key => {
+			const [port, protocol = 'tcp'] = key.split('/')
+			const containerPort = Number.parseInt(port, 10)
+			const bindings = published[key] ?? []
 
-		return 'other'
+			if (bindings.length === 0) {
+				return [{ containerPort, protocol, hostIp: null, hostPort: null }]
+			}
+
+			return bindings.map(binding => ({
+				containerPort,
+				protocol,
+				hostIp: binding.HostIp || null,
+				hostPort: binding.HostPort
+					? Number.parseInt(binding.HostPort, 10)
+					: null,
+			}))
+		})
 	}
 
-	private toContainerStatsDto(stats: DockerStatsSnapshot): ContainerStatsDto {
-		const cpuUsage = stats.cpu_stats?.cpu_usage?.total_usage ?? 0
-		const prevCpuUsage = stats.precpu_stats?.cpu_usage?.total_usage ?? 0
-		const cpuDelta = cpuUsage - prevCpuUsage
+	private toContainerEnvVar(entry: string): ContainerEnvVarDto {
+		const separator = entry.indexOf('=')
+		const name = separator === -1 ? entry : entry.slice(0, separator)
+		const value = separator === -1 ? '' : entry.slice(separator + 1)
+		const masked = value.length > 0 && SECRET_ENV_PATTERN.test(name)
 
-		const systemCpuUsage = stats.cpu_stats?.system_cpu_usage ?? 0
-		const prevSystemCpuUsage = stats.precpu_stats?.system_cpu_usage ?? 0
-		const systemDelta = systemCpuUsage - prevSystemCpuUsage
+		return { name, value: masked ? MASKED_ENV_VALUE : value, masked }
+	}
 
-		const onlineCpus =
-			stats.cpu_stats?.online_cpus ??
-			stats.cpu_stats?.cpu_usage?.percpu_usage?.length ??
-			1
+	private toContainerHealthState(
+		info: Docker.ContainerInspectInfo,
+	): ContainerHealthStateDto {
+		const health = info.State.Health
+		const lastProbe = health?.Log?.[health.Log.length - 1]
 
-		const cpuPercent =
-			cpuDelta > 0 && systemDelta > 0
-				? (cpuDelta / systemDelta) * onlineCpus * 100
-				: 0
+		return {
+			status: health?.Status ?? null,
+			failingStreak: health?.FailingStreak ?? 0,
+			lastOutput: lastProbe?.Output?.trim() || null,
+			lastExitCode: lastProbe?.ExitCode ?? null,
+		}
+	}
 
-		const memUsageBytes = stats.memory_stats?.usage ?? 0
-		const memLimitBytes = stats.memory_stats?.limit ?? 0
-		const memPercent =
-			memUsageBytes > 0 && memLimitBytes > 0
-				? (memUsageBytes / memLimitBytes) * 100
-				: 0
+	private toContainerHealth(
+		info: Docker.ContainerInspectInfo,
+	): ContainerHealthDto {
+		const check = info.Config.Healthcheck
+		const toSeconds = (value?: number) =>
+			value ? value / NANOSECONDS_PER_SECOND : null
 
 		return {
-			cpuPercent,
-			memUsageBytes,
-			memLimitBytes,
-			memPercent,
-			pids: stats.pids_stats?.current ?? null,
+			...this.toContainerHealthState(info),
+			check:
+				check?.Test && check.Test[0] !== 'NONE'
+					? {
+							test: check.Test,
+							intervalSeconds: toSeconds(check.Interval),
+							timeoutSeconds: toSeconds(check.Timeout),
+							retries: check.Retries ?? null,
+						}
+					: null,
 		}
 	}
 
+	// Docker reports never-set timestamps as the zero time.
+	private toTimestamp(value?: string): string | null {
+		return value && !value.startsWith('0001-01-01') ? value : null
+	}
+
+	private async executeContainerAction(
+		host: string | undefined,
+		id: string,
+		action: ContainerAction,
+		options: ContainerActionOptionsDto,
+		actor: string,
+	): Promise<{ id: string; action: ContainerAction }> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const info = await this.assertExists(docker, id)
+		const name = info.Name.replace(/^\//, '')
+		const target: AuditTargetDto = { id: info.Id, name }
+		const cluster = this.clusterRules.resolve(
+			info.Config.Labels ?? {},
+			name,
+			info.Config.Image,
+		)
+
+		if (PROTECTED_ACTIONS.has(action) && isProtectedContainer(name)) {
+			throw new ForbiddenException(`Container is protected: ${name}`)
+		}
+		this.assertConfirmed(action, hostName, name, [target], options.confirm)
+
+		try {
+			await this.applyContainerAction(
+				docker,
+				id,
+				action,
+				options,
+				info.Config.Labels ?? {},
+			)
+		} catch (error) {
+			await this.auditService.recordAction({
+				actor,
+				host: hostName,
+				action: `container.${action}`,
+				targets: [target],
+				cluster,
+				failed: [
+					{
+						...target,
+						error: error instanceof Error ? error.message : 'Unknown error',
+					},
+				],
+			})
+			throw error
+		}
+
+		await this.auditService.recordAction({
+			actor,
+			host: hostName,
+			action: `container.${action}`,
+			targets: [target],
+			cluster,
+			failed: [],
+		})
+
+		return { id, action }
+	}
+
 	private async executeBulkAction(
-		action: BulkAction,
+		host: string | undefined,
+		action: ContainerAction,
 		input: BulkActionDto,
-	): Promise<BulkActionResultDto> {
-		const allContainers = await this.listContainerSummaries()
-		const targets = this.resolveBulkTargets(allContainers, input)
-
-		const failed: BulkActionFailureDto[] = []
-		const succeeded: string[] = []
-
-		await this.runWithConcurrency(targets, BULK_CONCURRENCY, async target => {
-			try {
-				await this.applyContainerAction(target.Id, action)
-				succeeded.push(target.Id)
-			} catch (error) {
-				failed.push({
-					id: target.Id,
-					name: this.getContainerName(target),
-					error: error instanceof Error ? error.message : 'Unknown error',
+		actor: string,
+	): Promise<JobDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const allContainers = await this.listContainerSummaries(docker)
+		const targets = this.resolveBulkTargets(allContainers, input).filter(
+			container => this.actionApplies(action, container),
+		)
+		this.assertConfirmed(
+			action,
+			hostName,
+			null,
+			targets.map(target => this.toAuditTarget(target)),
+			input.confirm,
+		)
+
+		return this.jobsService.start(
+			{
+				type: `bulk.${action}`,
+				host: hostName,
+				cluster: null,
+				actor,
+				targets: targets.map(target => this.toAuditTarget(target)),
+			},
+			async job => {
+				const failed: BulkActionFailureDto[] = []
+				const succeeded: string[] = []
+				const attempted: DockerContainerSummary[] = []
+
+				await runWithConcurrency(targets, BULK_CONCURRENCY, async target => {
+					if (job.isCancelled) {
+						return
+					}
+
+					attempted.push(target)
+					job.update(target.Id, { status: 'running', step: action })
+					try {
+						await this.applyContainerAction(
+							docker,
+							target.Id,
+							action,
+							input,
+							target.Labels ?? {},
+						)
+						succeeded.push(target.Id)
+						job.update(target.Id, { status: 'succeeded', step: null })
+					} catch (error) {
+						const message =
+							error instanceof Error ? error.message : 'Unknown error'
+						failed.push({
+							id: target.Id,
+							name: this.getContainerName(target),
+							error: message,
+						})
+						job.update(target.Id, {
+							status: 'failed',
+							step: null,
+							error: message,
+						})
+					}
 				})
-			}
-		})
 
-		return {
-			ok: true,
-			total: targets.length,
-			succeeded,
-			failed,
-		}
+				await this.auditService.recordAction({
+					actor,
+					host: hostName,
+					action: `bulk.${action}`,
+					targets: attempted.map(target => this.toAuditTarget(target)),
+					cluster: null,
+					failed,
+				})
+
+				return {
+					ok: true,
+					total: targets.length,
+					succeeded,
+					failed,
+				}
+			},
+		)
 	}
 
 	private async executeClusterAction(
+		host: string | undefined,
 		cluster: string,
-		action: BulkAction,
-	): Promise<BulkActionResultDto> {
+		action: ContainerAction,
+		options: ContainerActionOptionsDto,
+		actor: string,
+	): Promise<JobDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
 		const normalizedCluster = decodeURIComponent(cluster).trim().toLowerCase()
-		const allContainers = await this.listContainerSummaries()
+		const allContainers = await this.listContainerSummaries(docker)
 
-		const targets = allContainers.filter(container => {
-			const name = this.getContainerName(container)
-			const labels = container.Labels ?? {}
-			const resolvedCluster = this.resolveCluster(labels, name)
+		const members = allContainers.filter(container => {
+			const { name, cluster } = this.toContainerDto(hostName, container)
 
 			return (
-				resolvedCluster !== null &&
-				resolvedCluster.toLowerCase() === normalizedCluster &&
-				!CLUSTER_PROTECTED_CONTAINERS.has(name.toLowerCase())
+				cluster !== null &&
+				cluster.toLowerCase() === normalizedCluster &&
+				!CLUSTER_PROTECTED_CONTAINERS.has(name.toLowerCase()) &&
+				this.actionApplies(action, container)
 			)
 		})
+		// Like bulk actions, cluster actions never touch protected containers.
+		const skippedProtected = members
+			.filter(container =>
+				isProtectedContainer(this.getContainerName(container)),
+			)
+			.map(container => this.toAuditTarget(container))
+		const targets = members.filter(
+			container => !isProtectedContainer(this.getContainerName(container)),
+		)
+		this.assertConfirmed(
+			action,
+			hostName,
+			normalizedCluster,
+			targets.map(target => this.toAuditTarget(target)),
+			options.confirm,
+		)
+
+		// Planned before the job starts so a dependency cycle fails the request.
+		const startTiers = planClusterTiers(
+			targets.map(target => ({
+				id: target.Id,
+				name: this.getContainerName(target),
+				labels: target.Labels ?? {},
+			})),
+		)
+		const stopTiers = [...startTiers].reverse()
+		// Dependencies come up first and go down last; restart stops dependents
+		// first and starts dependencies first.
+		const phases: Array<[ClusterPhaseAction, ClusterMember[][]]> =
+			action === 'restart'
+				? [
+						['stop', stopTiers],
+						['start', startTiers],
+					]
+				: [
+						[
+							action,
+							action === 'start' || action === 'unpause'
+								? startTiers
+								: stopTiers,
+						],
+					]
+		const finalAction = phases[phases.length - 1][0]
+
+		return this.jobsService.start(
+			{
+				type: `cluster.${action}`,
+				host: hostName,
+				cluster: normalizedCluster,
+				actor,
+				targets: startTiers.flatMap((members, index) =>
+					members.map(member => ({
+						id: member.id,
+						name: member.name,
+						tier: index + 1,
+					})),
+				),
+			},
+			async job => {
+				for (const member of skippedProtected) {
+					job.log(`Skipped protected container ${member.name}`)
+				}
 
-		const failed: BulkActionFailureDto[] = []
-		const succeeded: string[] = []
-
-		await this.runWithConcurrency(targets, BULK_CONCURRENCY, async target => {
-			try {
-				await this.applyContainerAction(target.Id, action)
-				succeeded.push(target.Id)
-			} catch (error) {
-				failed.push({
-					id: target.Id,
-					name: this.getContainerName(target),
-					error: error instanceof Error ? error.message : 'Unknown error',
+				const tiers: ClusterTierResultDto[] = []
+				// Members a restart has stopped; a failed stop tier halts the
+				// remaining stops, but these are still started again.
+				const stopped = new Set<string>()
+				for (const [phaseAction, phaseTiers] of phases) {
+					let hasFailed = false
+					for (const [index, tierMembers] of phaseTiers.entries()) {
+						const members =
+							action === 'restart' && phaseAction === 'start'
+								? tierMembers.filter(member => stopped.has(member.id))
+								: tierMembers
+						const isSkipped = hasFailed || job.isCancelled
+						const tier: ClusterTierResultDto = {
+							tier: index + 1,
+							action: phaseAction,
+							targets: members.map(member => member.id),
+							succeeded: [],
+							failed: [],
+							skipped: isSkipped,
+						}
+						tiers.push(tier)
+
+						if (isSkipped) {
+							continue
+						}
+
+						const waitForHealth =
+							phaseAction === 'start' && index < phaseTiers.length - 1
+						await runWithConcurrency(
+							members,
+							BULK_CONCURRENCY,
+							async member => {
+								job.update(member.id, { status: 'running', step: phaseAction })
+								try {
+									await this.applyClusterMemberAction(
+										docker,
+										member,
+										phaseAction,
+										options,
+									)
+									if (waitForHealth) {
+										job.update(member.id, { step: 'health' })
+										await this.waitUntilHealthy(docker, member.id)
+									}
+									tier.succeeded.push(member.id)
+									if (phaseAction !== finalAction) {
+										stopped.add(member.id)
+									}
+									// Only restart has a phase before the final one: the stop.
+									job.update(
+										member.id,
+										phaseAction === finalAction
+											? { status: 'succeeded', step: null }
+											: { status: 'pending', step: 'stopped' },
+									)
+								} catch (error) {
+									const message =
+										error instanceof Error ? error.message : 'Unknown error'
+									tier.failed.push({
+										id: member.id,
+										name: member.name,
+										error: message,
+									})
+									job.update(member.id, {
+										status: 'failed',
+										step: null,
+										error: message,
+									})
+								}
+							},
+						)
+
+						hasFailed = tier.failed.length > 0
+					}
+				}
+
+				const attempted = new Set(
+					tiers.filter(tier => !tier.skipped).flatMap(tier => tier.targets),
+				)
+				const failed = tiers.flatMap(tier => tier.failed)
+				await this.auditService.recordAction({
+					actor,
+					host: hostName,
+					action: `cluster.${action}`,
+					targets: targets
+						.filter(target => attempted.has(target.Id))
+						.map(target => this.toAuditTarget(target)),
+					cluster: normalizedCluster,
+					failed,
 				})
+
+				const result: ClusterActionResultDto = {
+					ok: true,
+					total: targets.length,
+					succeeded: tiers
+						.filter(tier => tier.action === finalAction)
+						.flatMap(tier => tier.succeeded),
+					failed,
+					tiers,
+					skippedProtected,
+				}
+				return result
+			},
+		)
+	}
+
+	// A member already in the requested state counts as done (HTTP 304).
+	private async applyClusterMemberAction(
+		docker: Docker,
+		member: ClusterMember,
+		action: ClusterPhaseAction,
+		options: ContainerActionOptionsDto,
+	): Promise<void> {
+		try {
+			await this.applyContainerAction(
+				docker,
+				member.id,
+				action,
+				options,
+				member.labels,
+			)
+		} catch (error) {
+			if ((error as { statusCode?: number }).statusCode !== 304) {
+				throw error
 			}
-		})
+		}
+	}
 
-		return {
-			ok: true,
-			total: targets.length,
-			succeeded,
-			failed,
+	// Containers without a health check count as ready once running.
+	private async waitUntilHealthy(docker: Docker, id: string): Promise<void> {
+		const deadline = Date.now() + CLUSTER_HEALTH_TIMEOUT_MS
+
+		for (;;) {
+			const { State: state } = await docker.getContainer(id).inspect()
+			const health = state.Health?.Status
+
+			if (!state.Running) {
+				throw new Error('Exited while waiting for its health check')
+			}
+
+			if (!health || health === 'healthy') {
+				return
+			}
+
+			if (health === 'unhealthy') {
+				throw new Error('Health check failed')
+			}
+
+			if (Date.now() >= deadline) {
+				throw new Error(
+					`Not healthy after ${CLUSTER_HEALTH_TIMEOUT_MS / 1000}s`,
+				)
+			}
+
+			await new Promise(resolve => setTimeout(resolve, HEALTH_POLL_MS))
 		}
 	}
 
-	private async listContainerSummaries(): Promise<DockerContainerSummary[]> {
+	private async listContainerSummaries(
+		docker: Docker,
+	): Promise<DockerContainerSummary[]> {
 		try {
-			return await this.docker.listContainers({ all: true })
+			return await docker.listContainers({ all: true })
 		} catch (error) {
 			console.error('Docker unavailable:', error)
 			return []
@@ -378,84 +994,206 @@ export class ContainersService {
 		})
 
 		return selected.filter(
-			container =>
-				!protectedContainers.has(
-					this.getContainerName(container).toLowerCase(),
-				),
+			container => !isProtectedContainer(this.getContainerName(container)),
 		)
 	}
 
 	private async applyContainerAction(
+		docker: Docker,
 		id: string,
-		action: BulkAction,
+		action: ContainerAction,
+		options: ContainerActionOptionsDto,
+		labels: Record<string, string>,
 	): Promise<void> {
-		const container = this.docker.getContainer(id)
-		if (action === 'start') {
-			await container.start()
-			return
+		const container = docker.getContainer(id)
+		switch (action) {
+			case 'start':
+				await container.start()
+				return
+			case 'stop':
+				await container.stop(this.stopOptions(options, labels))
+				return
+			case 'restart':
+				await container.restart(this.stopOptions(options, labels))
+				return
+			case 'pause':
+				await container.pause()
+				return
+			case 'unpause':
+				await container.unpause()
+				return
+			case 'kill':
+				await container.kill({ signal: this.parseSignal(options.signal) })
+				return
+			case 'remove':
+				await container.remove({
+					force: true,
+					v: options.removeVolumes === true,
+				})
+				return
+		}
+	}
+
+	// Validates the options too, so a bad signal fails before confirmation.
+	private parseAction(
+		action: string,
+		options: ContainerActionOptionsDto,
+	): ContainerAction {
+		if (!CONTAINER_ACTIONS.has(action as ContainerAction)) {
+			throw new BadRequestException(`Unknown action: ${action}`)
+		}
+
+		if (action === 'kill' || options.signal !== undefined) {
+			this.parseSignal(options.signal)
+		}
+
+		if (
+			options.timeoutSeconds !== undefined &&
+			this.parseStopTimeout(options.timeoutSeconds) === null
+		) {
+			throw new BadRequestException(
+				`timeoutSeconds must be an integer between 0 and ${MAX_STOP_TIMEOUT_SECONDS}`,
+			)
 		}
 
-		if (action === 'stop') {
-			await container.stop()
-			return
+		return action as ContainerAction
+	}
+
+	/**
+	 * Stop and restart options from the request, then the container's
+	 * `kz.stop_timeout` label. Docker falls back to the container's own stop
+	 * signal and timeout for whatever is left out.
+	 */
+	stopOptions(
+		options: ContainerActionOptionsDto,
+		labels: Record<string, string>,
+	): { t?: number; signal?: string } {
+		const timeout =
+			options.timeoutSeconds !== undefined
+				? this.parseStopTimeout(options.timeoutSeconds)
+				: this.parseStopTimeout(labels[STOP_TIMEOUT_LABEL])
+
+		return {
+			...(timeout !== null ? { t: timeout } : {}),
+			...(options.signal ? { signal: this.parseSignal(options.signal) } : {}),
 		}
+	}
+
+	private parseStopTimeout(value: unknown): number | null {
+		const timeout =
+			typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+		return typeof timeout === 'number' &&
+			Number.isInteger(timeout) &&
+			timeout >= 0 &&
+			timeout <= MAX_STOP_TIMEOUT_SECONDS
+			? timeout
+			: null
+	}
+
+	private parseSignal(signal?: string): string {
+		if (!signal) {
+			return DEFAULT_KILL_SIGNAL
+		}
+
+		const normalized = signal.trim().toUpperCase()
+		const name = normalized.startsWith('SIG') ? normalized : `SIG${normalized}`
+		if (!KILL_SIGNALS.has(name)) {
+			throw new BadRequestException(`Unsupported signal: ${signal}`)
+		}
+
+		return name
+	}
 
-		await container.restart()
+	private actionApplies(
+		action: ContainerAction,
+		container: DockerContainerSummary,
+	): boolean {
+		const states = ACTION_STATES[action]
+		return !states || states.includes(container.State)
+	}
+
+	private assertConfirmed(
+		action: ContainerAction,
+		host: string,
+		expectedName: string | null,
+		targets: AuditTargetDto[],
+		confirm?: string,
+	) {
+		if (DESTRUCTIVE_ACTIONS.has(action)) {
+			requireConfirmation(
+				action,
+				host,
+				expectedName,
+				targets,
+				confirm,
+				'container(s)',
+			)
+		}
 	}
 
 	private getContainerName(container: DockerContainerSummary): string {
 		return container.Names?.[0]?.replace(/^\//, '') ?? container.Id
 	}
 
-	private async runWithConcurrency<T>(
-		items: T[],
-		concurrency: number,
-		handler: (item: T) => Promise<void>,
-	): Promise<void> {
-		let cursor = 0
-
-		const workers = Array.from(
-			{ length: Math.min(concurrency, items.length) },
-			async () => {
-				while (cursor < items.length) {
-					const item = items[cursor]
-					cursor += 1
-					await handler(item)
-				}
-			},
-		)
-
-		await Promise.all(workers)
+	private toAuditTarget(container: DockerContainerSummary): AuditTargetDto {
+		return { id: container.Id, name: this.getContainerName(container) }
 	}
 
-	private async assertExists(id: string): Promise<void> {
+	private async assertExists(
+		docker: Docker,
+		id: string,
+	): Promise<Docker.ContainerInspectInfo> {
 		try {
-			await this.docker.getContainer(id).inspect()
+			return await docker.getContainer(id).inspect()
 		} catch {
 			throw new NotFoundException(`Container not found: ${id}`)
 		}
 	}
 
+	private clampTail(tail: number): number {
+		return Number.isFinite(tail)
+			? Math.max(1, Math.min(2000, Math.trunc(tail)))
+			: 200
+	}
+
 	private decodeDockerLogs(buffer: Buffer): string {
+		const { frames } = this.parseDockerLogFrames(buffer)
+
+		if (frames.length === 0) {
+			return buffer.toString('utf8')
+		}
+
+		return Buffer.concat(frames.map(frame => frame.payload)).toString('utf8')
+	}
+
+	/**
+	 * Splits Docker's multiplexed log format (8-byte header carrying the stream
+	 * type and payload length) into frames. Bytes of an incomplete trailing
+	 * frame are returned as `remainder` so followed streams can resume.
+	 */
+	private parseDockerLogFrames(buffer: Buffer): {
+		frames: DockerLogFrame[]
+		remainder: Buffer
+	} {
 		let offset = 0
-		const chunks: Buffer[] = []
+		const frames: DockerLogFrame[] = []
 
 		while (offset + 8 <= buffer.length) {
+			const streamType = buffer.readUInt8(offset)
 			const payloadLength = buffer.readUInt32BE(offset + 4)
-			offset += 8
 
-			if (offset + payloadLength > buffer.length) {
+			if (offset + 8 + payloadLength > buffer.length) {
 				break
 			}
 
-			chunks.push(buffer.subarray(offset, offset + payloadLength))
+			offset += 8
+			frames.push({
+				stream: streamType === 2 ? 'stderr' : 'stdout',
+				payload: buffer.subarray(offset, offset + payloadLength),
+			})
 			offset += payloadLength
 		}
 
-		if (chunks.length === 0) {
-			return buffer.toString('utf8')
-		}
-
-		return Buffer.concat(chunks).toString('utf8')
+		return { frames, remainder: buffer.subarray(offset) }
 	}
 }
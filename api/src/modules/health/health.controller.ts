@@ -1,7 +1,9 @@
 import { Controller, Get } from '@nestjs/common'
+import { Public } from '../auth/auth.decorators'
 
 @Controller('health')
 export class HealthController {
+	@Public()
 	@Get()
 	getHealth() {
 		return { status: 'ok' }
@@ -0,0 +1,39 @@
+import {
+	BadRequestException,
+	ConflictException,
+	HttpException,
+	InternalServerErrorException,
+} from '@nestjs/common'
+
+/** The daemon's own message when it sent one, rather than dockerode's. */
+export const dockerMessage = (error: unknown): string => {
+	const json = (error as { json?: { message?: string } }).json
+	if (json?.message) {
+		return json.message
+	}
+
+	return error instanceof Error ? error.message : 'Unknown error'
+}
+
+/**
+ * Maps a failed daemon call onto the API's answer: conflicts stay `409`,
+ * other client errors become `400` and the rest `500`.
+ */
+export const toHttpException = (
+	error: unknown,
+	message?: string,
+): HttpException => {
+	if (error instanceof HttpException) {
+		return error
+	}
+
+	const text = message ?? dockerMessage(error)
+	const statusCode = (error as { statusCode?: number }).statusCode
+	if (statusCode === 409) {
+		return new ConflictException(text)
+	}
+
+	return statusCode !== undefined && statusCode >= 400 && statusCode < 500
+		? new BadRequestException(text)
+		: new InternalServerErrorException(text)
+}
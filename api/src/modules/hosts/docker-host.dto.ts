@@ -0,0 +1,30 @@
+export type DockerHostProtocol = 'socket' | 'tcp' | 'tls' | 'ssh'
+
+export interface DockerHostDto {
+	name: string
+	protocol: DockerHostProtocol
+	address: string
+	isDefault: boolean
+}
+
+export interface DockerHostStatusDto extends DockerHostDto {
+	reachable: boolean
+	error: string | null
+}
+
+/**
+ * One entry of DOCKER_HOSTS / DOCKER_HOSTS_FILE. Certificate and key fields
+ * are file paths on the API host.
+ */
+export interface DockerHostConfig {
+	name: string
+	protocol?: DockerHostProtocol
+	socketPath?: string
+	host?: string
+	port?: number
+	ca?: string
+	cert?: string
+	key?: string
+	username?: string
+	privateKey?: string
+}
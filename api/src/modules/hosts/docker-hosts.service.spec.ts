@@ -0,0 +1,184 @@
+import { NotFoundException } from '@nestjs/common'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { TelemetryService } from '../telemetry/telemetry.service'
+import { DockerHostConfig } from './docker-host.dto'
+import { DockerHostsService } from './docker-hosts.service'
+
+// Hosts are read from DOCKER_HOSTS when the service is constructed.
+const createService = (hosts: DockerHostConfig[]) => {
+	process.env.DOCKER_HOSTS = JSON.stringify(hosts)
+	const telemetry = new TelemetryService()
+
+	return { service: new DockerHostsService(telemetry), telemetry }
+}
+
+// Histogram values are the buckets, then the `_sum` and `_count` series.
+const isCount = (value: object) =>
+	(value as { metricName?: string }).metricName?.endsWith('_count')
+
+describe('DockerHostsService', () => {
+	// A minimal Docker Engine API: it answers pings and lists one container.
+	let fakeDocker: Server
+	let fakePort: number
+
+	beforeAll(async () => {
+		fakeDocker = createServer((request, response) => {
+			if (request.url === '/_ping') {
+				response.end('OK')
+				return
+			}
+
+			if (request.url?.startsWith('/containers/json')) {
+				response.setHeader('content-type', 'application/json')
+				response.end(JSON.stringify([{ Id: 'abc', Names: ['/remote-db'] }]))
+				return
+			}
+
+			response.statusCode = 404
+			response.end()
+		})
+		await new Promise<void>(resolve =>
+			fakeDocker.listen(0, '127.0.0.1', resolve),
+		)
+		fakePort = (fakeDocker.address() as AddressInfo).port
+	})
+
+	afterAll(async () => {
+		delete process.env.DOCKER_HOSTS
+		fakeDocker.closeAllConnections()
+		await new Promise(resolve => fakeDocker.close(resolve))
+	})
+
+	it('falls back to the local socket without configuration', () => {
+		delete process.env.DOCKER_HOSTS
+		const service = new DockerHostsService(new TelemetryService())
+
+		expect(service.list()).toEqual([
+			{
+				name: 'local',
+				protocol: 'socket',
+				address: '/var/run/docker.sock',
+				isDefault: true,
+			},
+		])
+	})
+
+	it('resolves hosts by name and defaults to the first', () => {
+		const { service } = createService([
+			{ name: 'local', socketPath: '/var/run/docker.sock' },
+			{ name: 'edge 1', host: '10.0.0.5' },
+		])
+
+		expect(service.get().name).toBe('local')
+		expect(service.get('edge%201').name).toBe('edge 1')
+		expect(() => service.get('missing')).toThrow(NotFoundException)
+		expect(service.list().map(host => [host.protocol, host.address])).toEqual([
+			['socket', '/var/run/docker.sock'],
+			['tcp', 'http://10.0.0.5:2375'],
+		])
+	})
+
+	it('rejects duplicate and unnamed hosts', () => {
+		expect(() =>
+			createService([
+				{ name: 'a', host: '10.0.0.1' },
+				{ name: 'a ', host: '10.0.0.2' },
+			]),
+		).toThrow('Duplicate Docker host name: a')
+		expect(() => createService([{ name: ' ', host: '10.0.0.1' }])).toThrow(
+			'Every Docker host needs a name',
+		)
+	})
+
+	it('points the docker CLI at each kind of host', () => {
+		// TLS clients read their certificate files when they are created.
+		const certs = mkdtempSync(join(tmpdir(), 'kz-certs-'))
+		for (const file of ['ca.pem', 'cert.pem', 'key.pem']) {
+			writeFileSync(join(certs, file), '')
+		}
+
+		const { service } = createService([
+			{ name: 'local', socketPath: '/var/run/docker.sock' },
+			{ name: 'tcp', host: '10.0.0.5' },
+			{
+				name: 'tls',
+				protocol: 'tls',
+				host: '10.0.0.6',
+				ca: join(certs, 'ca.pem'),
+				cert: join(certs, 'cert.pem'),
+				key: join(certs, 'key.pem'),
+			},
+			{ name: 'ssh', protocol: 'ssh', host: 'edge', username: 'deploy' },
+		])
+
+		expect(service.cliEnvironment('local')).toEqual({
+			DOCKER_HOST: 'unix:///var/run/docker.sock',
+		})
+		expect(service.cliEnvironment('tcp')).toEqual({
+			DOCKER_HOST: 'tcp://10.0.0.5:2375',
+		})
+		expect(service.cliEnvironment('tls')).toEqual({
+			DOCKER_HOST: 'tcp://10.0.0.6:2376',
+			DOCKER_TLS_VERIFY: '1',
+			DOCKER_CERT_PATH: certs,
+		})
+		expect(service.cliEnvironment('ssh')).toEqual({
+			DOCKER_HOST: 'ssh://deploy@edge:22',
+		})
+
+		rmSync(certs, { recursive: true })
+	})
+
+	it('reports each host as reachable or not', async () => {
+		const { service } = createService([
+			{ name: 'fake', host: '127.0.0.1', port: fakePort },
+			// Nothing listens on port 1.
+			{ name: 'down', host: '127.0.0.1', port: 1 },
+		])
+
+		const statuses = await service.listWithStatus()
+
+		expect(statuses.map(host => [host.name, host.reachable])).toEqual([
+			['fake', true],
+			['down', false],
+		])
+		expect(statuses[1].error).not.toBeNull()
+	})
+
+	it('talks to each host through its own client and times the calls', async () => {
+		const { service, telemetry } = createService([
+			{ name: 'down', host: '127.0.0.1', port: 1 },
+			{ name: 'fake', host: '127.0.0.1', port: fakePort },
+		])
+
+		const containers = await service.get('fake').docker.listContainers()
+		await expect(service.get('down').docker.listContainers()).rejects.toThrow()
+
+		expect(containers.map(container => container.Names[0])).toEqual([
+			'/remote-db',
+		])
+		const calls = (
+			await telemetry.registry
+				.getSingleMetric('kz_dashboard_docker_api_duration_seconds')
+				?.get()
+		)?.values.filter(value => isCount(value))
+		expect(calls?.map(value => value.labels)).toEqual([
+			{
+				host: 'fake',
+				method: 'GET',
+				path: '/containers/json',
+				outcome: 'ok',
+			},
+			{
+				host: 'down',
+				method: 'GET',
+				path: '/containers/json',
+				outcome: 'error',
+			},
+		])
+	})
+})
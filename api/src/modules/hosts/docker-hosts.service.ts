@@ -0,0 +1,240 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { readFileSync } from 'fs'
+import { dirname } from 'path'
+import { TelemetryService } from '../telemetry/telemetry.service'
+import {
+	DockerHostConfig,
+	DockerHostDto,
+	DockerHostStatusDto,
+} from './docker-host.dto'
+
+const isWin = process.platform === 'win32'
+const PING_TIMEOUT_MS = 3000
+
+export interface DockerHostClient {
+	name: string
+	docker: Docker
+}
+
+const readHostsConfig = (): DockerHostConfig[] => {
+	const file = process.env.DOCKER_HOSTS_FILE?.trim()
+	const raw = file ? readFileSync(file, 'utf8') : process.env.DOCKER_HOSTS
+
+	if (!raw || raw.trim().length === 0) {
+		return [
+			{
+				name: 'local',
+				protocol: 'socket',
+				socketPath: isWin ? '//./pipe/docker_engine' : '/var/run/docker.sock',
+			},
+		]
+	}
+
+	const parsed = JSON.parse(raw) as DockerHostConfig[]
+	if (!Array.isArray(parsed) || parsed.length === 0) {
+		throw new Error('DOCKER_HOSTS must be a non-empty JSON array')
+	}
+
+	return parsed
+}
+
+const readOptionalFile = (path?: string) =>
+	path ? readFileSync(path, 'utf8') : undefined
+
+@Injectable()
+export class DockerHostsService {
+	private readonly configs = readHostsConfig()
+	private readonly clients = new Map<string, DockerHostClient>()
+	private readonly defaultHost: string
+
+	constructor(private readonly telemetry: TelemetryService) {
+		for (const config of this.configs) {
+			const name = config.name?.trim()
+			if (!name) {
+				throw new Error('Every Docker host needs a name')
+			}
+
+			if (this.clients.has(name)) {
+				throw new Error(`Duplicate Docker host name: ${name}`)
+			}
+
+			const docker = this.createClient(config)
+			this.instrument(name, docker)
+			this.clients.set(name, { name, docker })
+		}
+
+		this.defaultHost = this.configs[0].name.trim()
+	}
+
+	get defaultHostName(): string {
+		return this.defaultHost
+	}
+
+	/** Resolves a host name, falling back to the default host when omitted. */
+	get(host?: string): DockerHostClient {
+		const name = host ? decodeURIComponent(host).trim() : this.defaultHost
+		const client = this.clients.get(name)
+
+		if (!client) {
+			throw new NotFoundException(`Docker host not found: ${name}`)
+		}
+
+		return client
+	}
+
+	all(): DockerHostClient[] {
+		return [...this.clients.values()]
+	}
+
+	/**
+	 * Environment pointing the docker CLI at a host. The CLI reads TLS material
+	 * from `ca.pem`, `cert.pem` and `key.pem` in one directory, so TLS hosts
+	 * need their files named that way; SSH hosts authenticate through the
+	 * API user's SSH agent or config.
+	 */
+	cliEnvironment(host?: string): Record<string, string> {
+		const name = this.get(host).name
+		const config = this.configs.find(item => item.name.trim() === name)
+		if (!config) {
+			throw new NotFoundException(`Docker host not found: ${name}`)
+		}
+
+		const protocol = this.resolveProtocol(config)
+		if (protocol === 'socket') {
+			return {
+				DOCKER_HOST: `${isWin ? 'npipe' : 'unix'}://${config.socketPath}`,
+			}
+		}
+
+		if (protocol === 'ssh') {
+			return { DOCKER_HOST: this.describeAddress(config) }
+		}
+
+		const port = config.port ?? (protocol === 'tls' ? 2376 : 2375)
+		const environment: Record<string, string> = {
+			DOCKER_HOST: `tcp://${config.host}:${port}`,
+		}
+		if (protocol === 'tls' && config.cert) {
+			environment.DOCKER_TLS_VERIFY = '1'
+			environment.DOCKER_CERT_PATH = dirname(config.cert)
+		}
+
+		return environment
+	}
+
+	list(): DockerHostDto[] {
+		return this.configs.map(config => ({
+			name: config.name.trim(),
+			protocol: this.resolveProtocol(config),
+			address: this.describeAddress(config),
+			isDefault: config.name.trim() === this.defaultHost,
+		}))
+	}
+
+	async listWithStatus(): Promise<DockerHostStatusDto[]> {
+		return Promise.all(
+			this.list().map(async host => {
+				let timer: NodeJS.Timeout | undefined
+				try {
+					await Promise.race([
+						this.get(host.name).docker.ping(),
+						new Promise((_resolve, reject) => {
+							timer = setTimeout(
+								() => reject(new Error('Ping timed out')),
+								PING_TIMEOUT_MS,
+							)
+						}),
+					])
+					return { ...host, reachable: true, error: null }
+				} catch (error) {
+					return {
+						...host,
+						reachable: false,
+						error: error instanceof Error ? error.message : 'Unreachable',
+					}
+				} finally {
+					clearTimeout(timer)
+				}
+			}),
+		)
+	}
+
+	private createClient(config: DockerHostConfig): Docker {
+		const protocol = this.resolveProtocol(config)
+
+		if (protocol === 'socket') {
+			return new Docker({ socketPath: config.socketPath })
+		}
+
+		if (protocol === 'ssh') {
+			return new Docker({
+				protocol: 'ssh',
+				host: config.host,
+				port: config.port ?? 22,
+				username: config.username,
+				sshOptions: { privateKey: readOptionalFile(config.privateKey) },
+			})
+		}
+
+		if (protocol === 'tls') {
+			return new Docker({
+				protocol: 'https',
+				host: config.host,
+				port: config.port ?? 2376,
+				ca: readOptionalFile(config.ca),
+				cert: readOptionalFile(config.cert),
+				key: readOptionalFile(config.key),
+			})
+		}
+
+		return new Docker({
+			protocol: 'http',
+			host: config.host,
+			port: config.port ?? 2375,
+		})
+	}
+
+	// Every Dockerode call goes through modem.dial, so timing it there covers
+	// the whole client without touching call sites.
+	private instrument(host: string, docker: Docker) {
+		const modem = docker.modem
+		const dial = modem.dial.bind(modem)
+
+		modem.dial = (options, callback) => {
+			const startedAt = process.hrtime.bigint()
+
+			return dial(options, (error, result) => {
+				const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9
+				this.telemetry.recordDockerCall(
+					host,
+					options.method ?? 'GET',
+					options.path,
+					seconds,
+					error !== null,
+				)
+				callback?.(error, result)
+			})
+		}
+	}
+
+	private resolveProtocol(config: DockerHostConfig) {
+		return config.protocol ?? (config.socketPath ? 'socket' : 'tcp')
+	}
+
+	private describeAddress(config: DockerHostConfig): string {
+		const protocol = this.resolveProtocol(config)
+
+		if (protocol === 'socket') {
+			return config.socketPath ?? ''
+		}
+
+		if (protocol === 'ssh') {
+			const user = config.username ? `${config.username}@` : ''
+			return `ssh://${user}${config.host}:${config.port ?? 22}`
+		}
+
+		const port = config.port ?? (protocol === 'tls' ? 2376 : 2375)
+		return `${protocol === 'tls' ? 'https' : 'http'}://${config.host}:${port}`
+	}
+}
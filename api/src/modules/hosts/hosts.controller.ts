@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common'
+import { DockerHostsService } from './docker-hosts.service'
+
+@Controller('hosts')
+export class HostsController {
+	constructor(private readonly dockerHostsService: DockerHostsService) {}
+
+	@Get()
+	getHosts() {
+		return this.dockerHostsService.listWithStatus()
+	}
+}
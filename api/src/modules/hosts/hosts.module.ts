@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { TelemetryModule } from '../telemetry/telemetry.module'
+import { DockerHostsService } from './docker-hosts.service'
+import { HostsController } from './hosts.controller'
+
+@Module({
+	imports: [TelemetryModule],
+	controllers: [HostsController],
+	providers: [DockerHostsService],
+	exports: [DockerHostsService],
+})
+export class HostsModule {}
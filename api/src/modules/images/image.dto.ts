@@ -0,0 +1,28 @@
+export interface ImageDto {
+	host: string
+	id: string
+	/** `repository:tag` references; empty for dangling images. */
+	tags: string[]
+	digests: string[]
+	sizeBytes: number
+	createdAt: string
+	dangling: boolean
+	/** Names of containers (running or not) created from this image. */
+	usedBy: string[]
+}
+
+export interface PullImageDto {
+	/** Image reference, e.g. `nginx:1.27` or `registry.local:5000/app`. */
+	image: string
+}
+
+export interface RemoveImageResultDto {
+	id: string
+	untagged: string[]
+	deleted: string[]
+}
+
+export interface PruneImagesResultDto {
+	deleted: string[]
+	spaceReclaimedBytes: number
+}
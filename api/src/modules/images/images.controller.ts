@@ -0,0 +1,62 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	Post,
+	Query,
+} from '@nestjs/common'
+import { AuthUserDto } from '../auth/auth-user.dto'
+import { CurrentUser, Roles } from '../auth/auth.decorators'
+import { PullImageDto } from './image.dto'
+import { ImagesService } from './images.service'
+
+// Like containers, the unscoped listing aggregates every host and the other
+// unscoped routes act on the default host.
+@Controller(['images', 'hosts/:host/images'])
+export class ImagesController {
+	constructor(private readonly imagesService: ImagesService) {}
+
+	@Get()
+	getImages(@Param('host') host?: string) {
+		return host
+			? this.imagesService.listImages(host)
+			: this.imagesService.listAllImages()
+	}
+
+	@Roles('operator')
+	@Post('pull')
+	@HttpCode(HttpStatus.ACCEPTED)
+	pullImage(
+		@Body() input: PullImageDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.imagesService.pullImage(host, input, user.username)
+	}
+
+	@Roles('operator')
+	@Post('prune')
+	pruneImages(@CurrentUser() user: AuthUserDto, @Param('host') host?: string) {
+		return this.imagesService.pruneImages(host, user.username)
+	}
+
+	@Roles('operator')
+	@Delete(':id')
+	removeImage(
+		@Param('id') id: string,
+		@CurrentUser() user: AuthUserDto,
+		@Query('force') force?: string,
+		@Param('host') host?: string,
+	) {
+		return this.imagesService.removeImage(
+			host,
+			id,
+			force === 'true',
+			user.username,
+		)
+	}
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { AuditModule } from '../audit/audit.module'
+import { HostsModule } from '../hosts/hosts.module'
+import { JobsModule } from '../jobs/jobs.module'
+import { ImagesController } from './images.controller'
+import { ImagesService } from './images.service'
+
+@Module({
+	imports: [AuditModule, HostsModule, JobsModule],
+	controllers: [ImagesController],
+	providers: [ImagesService],
+})
+export class ImagesModule {}
@@ -0,0 +1,348 @@
+import {
+	BadRequestException,
+	ConflictException,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { AuditService } from '../audit/audit.service'
+import { dockerMessage } from '../hosts/docker-errors'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { JobDto } from '../jobs/job.dto'
+import { JobsService } from '../jobs/jobs.service'
+import {
+	ImageDto,
+	PruneImagesResultDto,
+	PullImageDto,
+	RemoveImageResultDto,
+} from './image.dto'
+
+// Loose check for `[registry[:port]/]name[:tag][@digest]`; Docker validates
+// the rest.
+const IMAGE_REFERENCE_PATTERN = /^[a-z0-9][\w.\-/:@]*$/i
+const DANGLING_TAG = '<none>:<none>'
+// Pull progress arrives many times a second; job updates are throttled.
+const PULL_PROGRESS_INTERVAL_MS = 500
+
+interface PullProgressEvent {
+	id?: string
+	status?: string
+	error?: string
+	progressDetail?: { current?: number; total?: number }
+}
+
+interface LayerProgress {
+	current: number
+	total: number
+	isDone: boolean
+}
+
+@Injectable()
+export class ImagesService {
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+		private readonly jobsService: JobsService,
+	) {}
+
+	async listImages(host?: string): Promise<ImageDto[]> {
+		const client = this.dockerHosts.get(host)
+
+		try {
+			const [images, containers] = await Promise.all([
+				client.docker.listImages(),
+				client.docker.listContainers({ all: true }),
+			])
+
+			return images.map(image =>
+				this.toImageDto(client.name, image, containers),
+			)
+		} catch (error) {
+			console.error(`Docker unavailable on ${client.name}:`, error)
+			return []
+		}
+	}
+
+	async listAllImages(): Promise<ImageDto[]> {
+		const perHost = await Promise.all(
+			this.dockerHosts.all().map(client => this.listImages(client.name)),
+		)
+
+		return perHost.flat()
+	}
+
+	/** Starts the pull as a job; progress is reported as the target's step. */
+	pullImage(
+		host: string | undefined,
+		input: PullImageDto,
+		actor: string,
+	): JobDto {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const reference = input?.image?.trim() ?? ''
+		if (!IMAGE_REFERENCE_PATTERN.test(reference)) {
+			throw new BadRequestException(`Invalid image reference: ${reference}`)
+		}
+
+		const target: AuditTargetDto = { id: reference, name: reference }
+
+		return this.jobsService.start(
+			{
+				type: 'image.pull',
+				host: hostName,
+				cluster: null,
+				actor,
+				targets: [target],
+			},
+			async job => {
+				job.update(reference, { status: 'running', step: 'pulling' })
+				try {
+					await this.followPull(docker, reference, step =>
+						job.update(reference, { step }),
+					)
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : 'Unknown error'
+					job.update(reference, {
+						status: 'failed',
+						step: null,
+						error: message,
+					})
+					await this.auditService.recordAction({
+						actor,
+						host: hostName,
+						action: 'image.pull',
+						targets: [target],
+						cluster: null,
+						failed: [{ ...target, error: message }],
+					})
+
+					return {
+						ok: true,
+						total: 1,
+						succeeded: [],
+						failed: [{ ...target, error: message }],
+					}
+				}
+
+				job.update(reference, { status: 'succeeded', step: null })
+				await this.auditService.recordAction({
+					actor,
+					host: hostName,
+					action: 'image.pull',
+					targets: [target],
+					cluster: null,
+					failed: [],
+				})
+
+				return { ok: true, total: 1, succeeded: [reference], failed: [] }
+			},
+		)
+	}
+
+	async removeImage(
+		host: string | undefined,
+		id: string,
+		force: boolean,
+		actor: string,
+	): Promise<RemoveImageResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const image = docker.getImage(id)
+
+		let info: Docker.ImageInspectInfo
+		try {
+			info = await image.inspect()
+		} catch {
+			throw new NotFoundException(`Image not found: ${id}`)
+		}
+
+		const target: AuditTargetDto = {
+			id: info.Id,
+			name: info.RepoTags?.[0] ?? info.Id.slice(0, 19),
+		}
+
+		let removed: Array<{ Untagged?: string; Deleted?: string }>
+		try {
+			removed = await image.remove({ force })
+		} catch (error) {
+			const message = dockerMessage(error)
+			await this.auditService.recordAction({
+				actor,
+				host: hostName,
+				action: 'image.remove',
+				targets: [target],
+				cluster: null,
+				failed: [{ ...target, error: message }],
+			})
+
+			// 409: the image is used by a container or has several tags.
+			if ((error as { statusCode?: number }).statusCode === 409) {
+				throw new ConflictException(message)
+			}
+			throw error
+		}
+
+		await this.auditService.recordAction({
+			actor,
+			host: hostName,
+			action: 'image.remove',
+			targets: [target],
+			cluster: null,
+			failed: [],
+		})
+
+		return {
+			id: info.Id,
+			untagged: removed.flatMap(item => (item.Untagged ? [item.Untagged] : [])),
+			deleted: removed.flatMap(item => (item.Deleted ? [item.Deleted] : [])),
+		}
+	}
+
+	/** Removes dangling (untagged) images that no container uses. */
+	async pruneImages(
+		host: string | undefined,
+		actor: string,
+	): Promise<PruneImagesResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const result = await docker.pruneImages({
+			filters: { dangling: ['true'] },
+		})
+		const deleted = (result.ImagesDeleted ?? []).flatMap(item =>
+			item.Deleted ? [item.Deleted] : [],
+		)
+
+		await this.auditService.recordAction({
+			actor,
+			host: hostName,
+			action: 'image.prune',
+			targets: deleted.map(id => ({ id, name: id.slice(0, 19) })),
+			cluster: null,
+			failed: [],
+		})
+
+		return {
+			deleted,
+			spaceReclaimedBytes: result.SpaceReclaimed ?? 0,
+		}
+	}
+
+	private async followPull(
+		docker: Docker,
+		reference: string,
+		onProgress: (step: string) => void,
+	): Promise<void> {
+		const stream = await docker.pull(reference)
+		const layers = new Map<string, LayerProgress>()
+		let lastReportAt = 0
+
+		await new Promise<void>((resolve, reject) => {
+			let pullError: string | null = null
+
+			docker.modem.followProgress(
+				stream,
+				(error: Error | null) => {
+					if (error) {
+						reject(error)
+					} else if (pullError) {
+						reject(new Error(pullError))
+					} else {
+						resolve()
+					}
+				},
+				(event: PullProgressEvent) => {
+					// Errors arrive in the stream with an HTTP 200 response.
+					if (event.error) {
+						pullError = event.error
+						return
+					}
+
+					if (event.id && event.status) {
+						this.trackLayer(layers, event)
+					}
+
+					const now = Date.now()
+					if (now - lastReportAt >= PULL_PROGRESS_INTERVAL_MS) {
+						lastReportAt = now
+						onProgress(this.describeProgress(layers))
+					}
+				},
+			)
+		})
+	}
+
+	private trackLayer(
+		layers: Map<string, LayerProgress>,
+		event: PullProgressEvent,
+	) {
+		const id = event.id ?? ''
+		const layer = layers.get(id) ?? { current: 0, total: 0, isDone: false }
+		const status = event.status ?? ''
+
+		if (status === 'Downloading' && event.progressDetail?.total) {
+			layer.current = event.progressDetail.current ?? 0
+			layer.total = event.progressDetail.total
+		}
+
+		if (
+			status === 'Pull complete' ||
+			status === 'Already exists' ||
+			status === 'Download complete'
+		) {
+			layer.current = layer.total
+			layer.isDone = status !== 'Download complete'
+		}
+
+		// The first event per id is the tag line ("Pulling from library/x").
+		if (!status.startsWith('Pulling from')) {
+			layers.set(id, layer)
+		}
+	}
+
+	private describeProgress(layers: Map<string, LayerProgress>): string {
+		const items = [...layers.values()]
+		if (items.length === 0) {
+			return 'pulling'
+		}
+
+		const done = items.filter(layer => layer.isDone).length
+		const current = items.reduce((sum, layer) => sum + layer.current, 0)
+		const total = items.reduce((sum, layer) => sum + layer.total, 0)
+		const percent =
+			total > 0 ? ` · ${Math.floor((current / total) * 100)}%` : ''
+
+		return `${done}/${items.length} layers${percent}`
+	}
+
+	private toImageDto(
+		host: string,
+		image: Docker.ImageInfo,
+		containers: Docker.ContainerInfo[],
+	): ImageDto {
+		const tags = (image.RepoTags ?? []).filter(tag => tag !== DANGLING_TAG)
+		// Containers reference the image by ID, or by the tag they were
+		// created from (`ContainerDto.image`).
+		const usedBy = containers
+			.filter(
+				container =>
+					container.ImageID === image.Id ||
+					tags.includes(container.Image) ||
+					tags.includes(`${container.Image}:latest`),
+			)
+			.map(
+				container => container.Names?.[0]?.replace(/^\//, '') ?? container.Id,
+			)
+
+		return {
+			host,
+			id: image.Id,
+			tags,
+			digests: (image.RepoDigests ?? []).filter(
+				digest => digest !== '<none>@<none>',
+			),
+			sizeBytes: image.Size,
+			createdAt: new Date(image.Created * 1000).toISOString(),
+			dangling: tags.length === 0,
+			usedBy,
+		}
+	}
+}
@@ -0,0 +1,42 @@
+import { BulkActionResultDto } from '../containers/bulk-action.dto'
+
+export type JobStatus = 'running' | 'completed' | 'cancelled' | 'failed'
+
+export type JobTargetStatus =
+	'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'cancelled'
+
+export interface JobTargetDto {
+	id: string
+	name: string
+	/** Dependency tier, for cluster jobs. */
+	tier: number | null
+	status: JobTargetStatus
+	/** What a running target is doing, e.g. `stop` or `health`. */
+	step: string | null
+	error: string | null
+}
+
+export interface JobDto {
+	id: string
+	/** Audit action name, e.g. `bulk.stop` or `cluster.restart`. */
+	type: string
+	host: string
+	cluster: string | null
+	actor: string
+	status: JobStatus
+	cancelRequested: boolean
+	createdAt: string
+	finishedAt: string | null
+	total: number
+	done: number
+	targets: JobTargetDto[]
+	/** Final result once the job completed or was cancelled. */
+	result: BulkActionResultDto | null
+	error: string | null
+}
+
+/** `output` carries command output lines, for jobs that run one. */
+export type JobEventDto =
+	| { type: 'update'; job: JobDto }
+	| { type: 'output'; lines: string[] }
+	| { type: 'heartbeat' }
@@ -0,0 +1,30 @@
+import { Controller, Get, MessageEvent, Param, Post, Sse } from '@nestjs/common'
+import { Observable } from 'rxjs'
+import { Roles } from '../auth/auth.decorators'
+import { JobsService } from './jobs.service'
+
+@Controller('jobs')
+export class JobsController {
+	constructor(private readonly jobsService: JobsService) {}
+
+	@Get()
+	getJobs() {
+		return this.jobsService.list()
+	}
+
+	@Get(':id')
+	getJob(@Param('id') id: string) {
+		return this.jobsService.get(id)
+	}
+
+	@Sse(':id/events')
+	streamJob(@Param('id') id: string): Observable<MessageEvent> {
+		return this.jobsService.stream(id)
+	}
+
+	@Roles('operator')
+	@Post(':id/cancel')
+	cancelJob(@Param('id') id: string) {
+		return this.jobsService.cancel(id)
+	}
+}
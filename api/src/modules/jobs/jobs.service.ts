@@ -0,0 +1,258 @@
+import {
+	ConflictException,
+	Injectable,
+	MessageEvent,
+	NotFoundException,
+} from '@nestjs/common'
+import { randomUUID } from 'crypto'
+import {
+	concat,
+	filter,
+	interval,
+	map,
+	merge,
+	Observable,
+	of,
+	Subject,
+	takeUntil,
+	takeWhile,
+} from 'rxjs'
+import { BulkActionResultDto } from '../containers/bulk-action.dto'
+import { JobDto, JobEventDto, JobTargetDto } from './job.dto'
+
+const MAX_FINISHED_JOBS = 100
+const FINISHED_JOB_RETENTION_MS = 60 * 60_000
+const HEARTBEAT_INTERVAL_MS = 30000
+// Output beyond this is dropped from the start; a new stream replays the rest.
+const MAX_OUTPUT_LINES = 2000
+
+const TERMINAL_TARGET_STATUSES = new Set<JobTargetDto['status']>([
+	'succeeded',
+	'failed',
+	'skipped',
+	'cancelled',
+])
+
+export interface JobInput {
+	type: string
+	host: string
+	cluster: string | null
+	actor: string
+	targets: Array<{ id: string; name: string; tier?: number | null }>
+}
+
+/** Handed to a job's runner to report progress and observe cancellation. */
+export interface JobContext {
+	readonly isCancelled: boolean
+	/** Aborted on cancel, for runners that can interrupt work in progress. */
+	readonly signal: AbortSignal
+	update(
+		targetId: string,
+		patch: Partial<Pick<JobTargetDto, 'status' | 'step' | 'error'>>,
+	): void
+	/** Appends a line of command output, streamed to the job's subscribers. */
+	log(line: string): void
+}
+
+/**
+ * Runs bulk and cluster operations in the background. Jobs are kept in memory;
+ * finished ones are dropped after an hour or once more than
+ * `MAX_FINISHED_JOBS` have piled up.
+ */
+@Injectable()
+export class JobsService {
+	private readonly jobs = new Map<string, JobDto>()
+	private readonly updates = new Subject<JobDto>()
+	private readonly outputs = new Map<string, string[]>()
+	private readonly outputLines = new Subject<{ id: string; line: string }>()
+	private readonly aborts = new Map<string, AbortController>()
+
+	/** Registers the job and starts `run` without waiting for it. */
+	start(
+		input: JobInput,
+		run: (context: JobContext) => Promise<BulkActionResultDto>,
+	): JobDto {
+		this.prune()
+
+		const job: JobDto = {
+			id: randomUUID(),
+			type: input.type,
+			host: input.host,
+			cluster: input.cluster,
+			actor: input.actor,
+			status: 'running',
+			cancelRequested: false,
+			createdAt: new Date().toISOString(),
+			finishedAt: null,
+			total: input.targets.length,
+			done: 0,
+			targets: input.targets.map(target => ({
+				id: target.id,
+				name: target.name,
+				tier: target.tier ?? null,
+				status: 'pending',
+				step: null,
+				error: null,
+			})),
+			result: null,
+			error: null,
+		}
+		this.jobs.set(job.id, job)
+		const abort = new AbortController()
+		this.aborts.set(job.id, abort)
+
+		const context: JobContext = {
+			get isCancelled() {
+				return job.cancelRequested
+			},
+			signal: abort.signal,
+			update: (targetId, patch) => {
+				const target = job.targets.find(item => item.id === targetId)
+				if (!target) {
+					return
+				}
+
+				Object.assign(target, patch)
+				this.publish(job)
+			},
+			log: line => {
+				const output = this.outputs.get(job.id) ?? []
+				output.push(line)
+				if (output.length > MAX_OUTPUT_LINES) {
+					output.splice(0, output.length - MAX_OUTPUT_LINES)
+				}
+				this.outputs.set(job.id, output)
+				this.outputLines.next({ id: job.id, line })
+			},
+		}
+
+		void run(context)
+			.then(result => this.finish(job, result, null))
+			.catch(error => {
+				this.finish(
+					job,
+					null,
+					error instanceof Error ? error.message : 'Unknown error',
+				)
+			})
+
+		return job
+	}
+
+	list(): JobDto[] {
+		return [...this.jobs.values()].reverse()
+	}
+
+	get(id: string): JobDto {
+		const job = this.jobs.get(id)
+		if (!job) {
+			throw new NotFoundException(`Job not found: ${id}`)
+		}
+
+		return job
+	}
+
+	/**
+	 * Stops the job from starting further targets; running ones finish unless
+	 * the runner interrupts them on the context's `signal`.
+	 */
+	cancel(id: string): JobDto {
+		const job = this.get(id)
+		if (job.status !== 'running') {
+			throw new ConflictException(`Job already ${job.status}`)
+		}
+
+		job.cancelRequested = true
+		this.aborts.get(id)?.abort()
+		this.publish(job)
+
+		return job
+	}
+
+	stream(id: string): Observable<MessageEvent> {
+		const job = this.get(id)
+		const toEvent = (event: JobEventDto): MessageEvent => ({ data: event })
+		const output = this.outputs.get(id) ?? []
+		const snapshot = of(
+			toEvent({ type: 'update', job }),
+			...(output.length > 0
+				? [toEvent({ type: 'output', lines: [...output] })]
+				: []),
+		)
+
+		if (job.status !== 'running') {
+			return snapshot
+		}
+
+		const updates = this.updates.pipe(
+			filter(item => item.id === id),
+			takeWhile(item => item.status === 'running', true),
+		)
+		const finished = updates.pipe(filter(item => item.status !== 'running'))
+		const heartbeat = interval(HEARTBEAT_INTERVAL_MS).pipe(
+			map(() => toEvent({ type: 'heartbeat' })),
+			takeUntil(finished),
+		)
+		const lines = this.outputLines.pipe(
+			filter(item => item.id === id),
+			map(item => toEvent({ type: 'output', lines: [item.line] })),
+			takeUntil(finished),
+		)
+
+		return concat(
+			snapshot,
+			merge(
+				lines,
+				updates.pipe(map(item => toEvent({ type: 'update', job: item }))),
+				heartbeat,
+			),
+		)
+	}
+
+	private finish(
+		job: JobDto,
+		result: BulkActionResultDto | null,
+		error: string | null,
+	) {
+		for (const target of job.targets) {
+			if (!TERMINAL_TARGET_STATUSES.has(target.status)) {
+				target.status = job.cancelRequested ? 'cancelled' : 'skipped'
+				target.step = null
+			}
+		}
+
+		job.status = error
+			? 'failed'
+			: job.cancelRequested
+				? 'cancelled'
+				: 'completed'
+		job.result = result
+		job.error = error
+		job.finishedAt = new Date().toISOString()
+		this.aborts.delete(job.id)
+		this.publish(job)
+	}
+
+	private publish(job: JobDto) {
+		job.done = job.targets.filter(target =>
+			TERMINAL_TARGET_STATUSES.has(target.status),
+		).length
+		this.updates.next(job)
+	}
+
+	private prune() {
+		const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS
+		const finished = [...this.jobs.values()].filter(
+			job => job.finishedAt !== null,
+		)
+
+		finished.forEach((job, index) => {
+			const isExpired = Date.parse(job.finishedAt ?? '') < cutoff
+			const isOverflow = finished.length - index > MAX_FINISHED_JOBS
+			if (isExpired || isOverflow) {
+				this.jobs.delete(job.id)
+				this.outputs.delete(job.id)
+			}
+		})
+	}
+}
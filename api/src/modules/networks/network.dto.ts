@@ -0,0 +1,45 @@
+export interface NetworkContainerDto {
+	containerId: string
+	containerName: string
+	ipv4Address: string | null
+	aliases: string[]
+}
+
+export interface NetworkDto {
+	host: string
+	id: string
+	name: string
+	driver: string
+	scope: string
+	internal: boolean
+	createdAt: string | null
+	subnets: string[]
+	/** Containers (running or not) attached to the network. */
+	containers: NetworkContainerDto[]
+}
+
+export interface NetworkDetailDto extends NetworkDto {
+	gateways: string[]
+	labels: Record<string, string>
+	options: Record<string, string>
+}
+
+export interface ConnectNetworkDto {
+	/** Container id or name. */
+	container: string
+	aliases?: string[]
+}
+
+export interface DisconnectNetworkDto {
+	/** Container id or name. */
+	container: string
+	force?: boolean
+}
+
+export type NetworkAction = 'connect' | 'disconnect'
+
+export interface NetworkActionResultDto {
+	network: string
+	container: string
+	action: NetworkAction
+}
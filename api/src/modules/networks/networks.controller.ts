@@ -0,0 +1,44 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common'
+import { AuthUserDto } from '../auth/auth-user.dto'
+import { CurrentUser, Roles } from '../auth/auth.decorators'
+import { ConnectNetworkDto, DisconnectNetworkDto } from './network.dto'
+import { NetworksService } from './networks.service'
+
+@Controller(['networks', 'hosts/:host/networks'])
+export class NetworksController {
+	constructor(private readonly networksService: NetworksService) {}
+
+	@Get()
+	getNetworks(@Param('host') host?: string) {
+		return host
+			? this.networksService.listNetworks(host)
+			: this.networksService.listAllNetworks()
+	}
+
+	@Get(':id')
+	getNetwork(@Param('id') id: string, @Param('host') host?: string) {
+		return this.networksService.getNetwork(host, id)
+	}
+
+	@Roles('operator')
+	@Post(':id/connect')
+	connect(
+		@Param('id') id: string,
+		@Body() input: ConnectNetworkDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.networksService.connect(host, id, input, user.username)
+	}
+
+	@Roles('operator')
+	@Post(':id/disconnect')
+	disconnect(
+		@Param('id') id: string,
+		@Body() input: DisconnectNetworkDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.networksService.disconnect(host, id, input, user.username)
+	}
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { AuditModule } from '../audit/audit.module'
+import { HostsModule } from '../hosts/hosts.module'
+import { NetworksController } from './networks.controller'
+import { NetworksService } from './networks.service'
+
+@Module({
+	imports: [AuditModule, HostsModule],
+	controllers: [NetworksController],
+	providers: [NetworksService],
+})
+export class NetworksModule {}
@@ -0,0 +1,284 @@
+import {
+	BadRequestException,
+	ForbiddenException,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { AuditService } from '../audit/audit.service'
+import { isProtectedContainer } from '../containers/containers.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	ConnectNetworkDto,
+	DisconnectNetworkDto,
+	NetworkActionResultDto,
+	NetworkContainerDto,
+	NetworkDetailDto,
+	NetworkDto,
+} from './network.dto'
+
+interface DockerNetwork {
+	Id: string
+	Name: string
+	Driver: string
+	Scope: string
+	Internal?: boolean
+	Created?: string
+	IPAM?: { Config?: Array<{ Subnet?: string; Gateway?: string }> | null }
+	Labels?: Record<string, string> | null
+	Options?: Record<string, string> | null
+}
+
+interface DockerEndpoint {
+	NetworkID?: string
+	IPAddress?: string
+	Aliases?: string[] | null
+}
+
+@Injectable()
+export class NetworksService {
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+	) {}
+
+	async listNetworks(host?: string): Promise<NetworkDto[]> {
+		const client = this.dockerHosts.get(host)
+
+		try {
+			const [networks, containers] = await Promise.all([
+				client.docker.listNetworks() as Promise<DockerNetwork[]>,
+				client.docker.listContainers({ all: true }),
+			])
+
+			return networks.map(network =>
+				this.toNetworkDto(client.name, network, containers),
+			)
+		} catch (error) {
+			console.error(`Docker unavailable on ${client.name}:`, error)
+			return []
+		}
+	}
+
+	async listAllNetworks(): Promise<NetworkDto[]> {
+		const perHost = await Promise.all(
+			this.dockerHosts.all().map(client => this.listNetworks(client.name)),
+		)
+
+		return perHost.flat()
+	}
+
+	async getNetwork(
+		host: string | undefined,
+		id: string,
+	): Promise<NetworkDetailDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+
+		let network: DockerNetwork
+		try {
+			network = (await docker.getNetwork(id).inspect()) as DockerNetwork
+		} catch {
+			throw new NotFoundException(`Network not found: ${id}`)
+		}
+
+		// The inspect result only lists running containers; the container list
+		// also covers stopped ones.
+		const containers = await docker.listContainers({
+			all: true,
+			filters: { network: [network.Id] },
+		})
+
+		return {
+			...this.toNetworkDto(hostName, network, containers),
+			gateways: (network.IPAM?.Config ?? []).flatMap(config =>
+				config.Gateway ? [config.Gateway] : [],
+			),
+			labels: network.Labels ?? {},
+			options: network.Options ?? {},
+		}
+	}
+
+	async connect(
+		host: string | undefined,
+		id: string,
+		input: ConnectNetworkDto,
+		actor: string,
+	): Promise<NetworkActionResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const { network, container } = await this.resolveTargets(
+			docker,
+			id,
+			input?.container,
+		)
+		const aliases = (input.aliases ?? [])
+			.map(alias => alias.trim())
+			.filter(alias => alias.length > 0)
+
+		await this.run(hostName, 'network.connect', network, container, actor, () =>
+			docker.getNetwork(network.Id).connect({
+				Container: container.id,
+				EndpointConfig: aliases.length > 0 ? { Aliases: aliases } : undefined,
+			}),
+		)
+
+		return {
+			network: network.Name,
+			container: container.name,
+			action: 'connect',
+		}
+	}
+
+	/** Protected containers (the dashboard itself) cannot be disconnected. */
+	async disconnect(
+		host: string | undefined,
+		id: string,
+		input: DisconnectNetworkDto,
+		actor: string,
+	): Promise<NetworkActionResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		const { network, container } = await this.resolveTargets(
+			docker,
+			id,
+			input?.container,
+		)
+		if (isProtectedContainer(container.name)) {
+			throw new ForbiddenException(`Container is protected: ${container.name}`)
+		}
+
+		await this.run(
+			hostName,
+			'network.disconnect',
+			network,
+			container,
+			actor,
+			() =>
+				docker.getNetwork(network.Id).disconnect({
+					Container: container.id,
+					Force: input.force === true,
+				}),
+		)
+
+		return {
+			network: network.Name,
+			container: container.name,
+			action: 'disconnect',
+		}
+	}
+
+	private async resolveTargets(
+		docker: Docker,
+		networkId: string,
+		containerRef: string | undefined,
+	) {
+		if (typeof containerRef !== 'string' || !containerRef.trim()) {
+			throw new BadRequestException('container is required')
+		}
+
+		let network: DockerNetwork
+		try {
+			network = (await docker.getNetwork(networkId).inspect()) as DockerNetwork
+		} catch {
+			throw new NotFoundException(`Network not found: ${networkId}`)
+		}
+
+		let info: Docker.ContainerInspectInfo
+		try {
+			info = await docker.getContainer(containerRef.trim()).inspect()
+		} catch {
+			throw new NotFoundException(`Container not found: ${containerRef}`)
+		}
+
+		return {
+			network,
+			container: { id: info.Id, name: info.Name.replace(/^\//, '') },
+		}
+	}
+
+	// Docker rejects invalid combinations (already connected, not connected)
+	// with a 4xx; those are passed on as a bad request.
+	private async run(
+		host: string,
+		action: string,
+		network: DockerNetwork,
+		container: { id: string; name: string },
+		actor: string,
+		apply: () => Promise<unknown>,
+	) {
+		const targets = [{ id: container.id, name: container.name }]
+
+		try {
+			await apply()
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			await this.auditService.recordAction({
+				actor,
+				host,
+				action,
+				targets,
+				cluster: null,
+				failed: [{ ...targets[0], error: message }],
+			})
+
+			const statusCode = (error as { statusCode?: number }).statusCode ?? 500
+			if (statusCode >= 400 && statusCode < 500) {
+				throw new BadRequestException(
+					`${action} ${network.Name} failed: ${message}`,
+				)
+			}
+			throw error
+		}
+
+		await this.auditService.recordAction({
+			actor,
+			host,
+			action,
+			targets,
+			cluster: null,
+			failed: [],
+		})
+	}
+
+	private toNetworkDto(
+		host: string,
+		network: DockerNetwork,
+		containers: Docker.ContainerInfo[],
+	): NetworkDto {
+		const attached = containers.flatMap<NetworkContainerDto>(container => {
+			const endpoints = (container.NetworkSettings?.Networks ?? {}) as Record<
+				string,
+				DockerEndpoint
+			>
+			const endpoint = Object.entries(endpoints).find(
+				([name, value]) =>
+					value.NetworkID === network.Id || name === network.Name,
+			)?.[1]
+			if (!endpoint) {
+				return []
+			}
+
+			return [
+				{
+					containerId: container.Id,
+					containerName:
+						container.Names?.[0]?.replace(/^\//, '') ?? container.Id,
+					ipv4Address: endpoint.IPAddress || null,
+					aliases: endpoint.Aliases ?? [],
+				},
+			]
+		})
+
+		return {
+			host,
+			id: network.Id,
+			name: network.Name,
+			driver: network.Driver,
+			scope: network.Scope,
+			internal: network.Internal ?? false,
+			createdAt: network.Created ?? null,
+			subnets: (network.IPAM?.Config ?? []).flatMap(config =>
+				config.Subnet ? [config.Subnet] : [],
+			),
+			containers: attached,
+		}
+	}
+}
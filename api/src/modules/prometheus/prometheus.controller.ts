@@ -0,0 +1,34 @@
+import {
+	Controller,
+	Get,
+	Headers,
+	Res,
+	UnauthorizedException,
+} from '@nestjs/common'
+import { Response } from 'express'
+import { Public } from '../auth/auth.decorators'
+import { PrometheusService } from './prometheus.service'
+
+// Scrapers cannot log in, so /metrics bypasses JWT auth and is guarded by a
+// static bearer token instead when METRICS_TOKEN is set.
+const METRICS_TOKEN = process.env.METRICS_TOKEN?.trim() || null
+
+@Controller('metrics')
+export class PrometheusController {
+	constructor(private readonly prometheusService: PrometheusService) {}
+
+	@Public()
+	@Get()
+	async getMetrics(
+		@Res() response: Response,
+		@Headers('authorization') authorization?: string,
+	) {
+		if (METRICS_TOKEN && authorization !== `Bearer ${METRICS_TOKEN}`) {
+			throw new UnauthorizedException('Invalid metrics token')
+		}
+
+		const body = await this.prometheusService.render()
+		response.setHeader('content-type', this.prometheusService.contentType)
+		response.send(body)
+	}
+}
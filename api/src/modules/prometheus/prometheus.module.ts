@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { ContainersModule } from '../containers/containers.module'
+import { StatsModule } from '../stats/stats.module'
+import { TelemetryModule } from '../telemetry/telemetry.module'
+import { PrometheusController } from './prometheus.controller'
+import { PrometheusService } from './prometheus.service'
+
+@Module({
+	imports: [ContainersModule, StatsModule, TelemetryModule],
+	controllers: [PrometheusController],
+	providers: [PrometheusService],
+})
+export class PrometheusModule {}
@@ -0,0 +1,183 @@
+import { Injectable } from '@nestjs/common'
+import { Gauge, Registry } from 'prom-client'
+import { runWithConcurrency } from '../containers/concurrency'
+import { ContainerDto } from '../containers/container.dto'
+import { ContainerEventsService } from '../containers/container-events.service'
+import { ContainerStatsCollectorService } from '../containers/container-stats-collector.service'
+import { StatsService } from '../stats/stats.service'
+import { TelemetryService } from '../telemetry/telemetry.service'
+
+const SCRAPE_CONCURRENCY = 8
+const CONTAINER_LABELS = ['host', 'id', 'name', 'image', 'cluster'] as const
+
+/**
+ * Builds the Prometheus exposition on every scrape: container and host gauges
+ * are read live from Docker and `StatsService`, then merged with the
+ * dashboard's own counters.
+ */
+@Injectable()
+export class PrometheusService {
+	constructor(
+		private readonly containerEventsService: ContainerEventsService,
+		private readonly containerStatsCollector: ContainerStatsCollectorService,
+		private readonly statsService: StatsService,
+		private readonly telemetry: TelemetryService,
+	) {}
+
+	get contentType(): string {
+		return this.telemetry.registry.contentType
+	}
+
+	async render(): Promise<string> {
+		const registry = new Registry()
+
+		await Promise.all([
+			this.collectContainers(registry),
+			this.collectHost(registry),
+		])
+
+		return Registry.merge([this.telemetry.registry, registry]).metrics()
+	}
+
+	private async collectContainers(registry: Registry) {
+		const gauge = (name: string, help: string) =>
+			new Gauge({
+				name,
+				help,
+				labelNames: CONTAINER_LABELS,
+				registers: [registry],
+			})
+
+		const running = gauge(
+			'kz_container_running',
+			'Whether the container is running (1) or not (0).',
+		)
+		const restarts = gauge(
+			'kz_container_restart_count',
+			'Restarts performed by the Docker restart policy.',
+		)
+		const cpu = gauge(
+			'kz_container_cpu_percent',
+			'Container CPU usage in percent of one core.',
+		)
+		const memUsage = gauge(
+			'kz_container_memory_usage_bytes',
+			'Container memory usage.',
+		)
+		const memLimit = gauge(
+			'kz_container_memory_limit_bytes',
+			'Container memory limit.',
+		)
+		const pids = gauge('kz_container_pids', 'Processes in the container.')
+
+		const containers = await this.containerEventsService.getContainers()
+
+		await runWithConcurrency(
+			containers,
+			SCRAPE_CONCURRENCY,
+			async container => {
+				const labels = this.toLabels(container)
+				const isRunning = container.state === 'running'
+				running.set(labels, isRunning ? 1 : 0)
+
+				try {
+					restarts.set(
+						labels,
+						await this.containerEventsService.getRestartCount(
+							container.host,
+							container.id,
+						),
+					)
+				} catch {
+					// Removed between listing and inspect.
+				}
+
+				if (!isRunning) {
+					return
+				}
+
+				try {
+					const stats = await this.containerStatsCollector.getContainerStats(
+						container.host,
+						container.id,
+					)
+					cpu.set(labels, stats.cpuPercent)
+					memUsage.set(labels, stats.memUsageBytes)
+					memLimit.set(labels, stats.memLimitBytes)
+					if (stats.pids !== null) {
+						pids.set(labels, stats.pids)
+					}
+				} catch {
+					return
+				}
+			},
+		)
+	}
+
+	private async collectHost(registry: Registry) {
+		const stats = await this.statsService.getHostStats()
+		const gauge = (name: string, help: string, value: number) => {
+			new Gauge({ name, help, registers: [registry] }).set(value)
+		}
+
+		gauge('kz_host_cpu_percent', 'Host CPU usage in percent.', stats.cpuPercent)
+		gauge(
+			'kz_host_memory_total_bytes',
+			'Host physical memory.',
+			stats.totalMemBytes,
+		)
+		gauge('kz_host_memory_free_bytes', 'Host free memory.', stats.freeMemBytes)
+		gauge('kz_host_memory_used_bytes', 'Host used memory.', stats.usedMemBytes)
+		gauge(
+			'kz_host_memory_used_percent',
+			'Host used memory in percent.',
+			stats.usedMemPercent,
+		)
+		gauge(
+			'kz_host_memory_available_bytes',
+			'Host memory available without swapping, including reclaimable cache.',
+			stats.availableMemBytes,
+		)
+		gauge('kz_host_swap_used_bytes', 'Host used swap.', stats.swapUsedBytes)
+		gauge(
+			'kz_host_load1',
+			'Host 1-minute load average.',
+			stats.loadAverage.oneMinute,
+		)
+		gauge(
+			'kz_host_load5',
+			'Host 5-minute load average.',
+			stats.loadAverage.fiveMinutes,
+		)
+		gauge(
+			'kz_host_load15',
+			'Host 15-minute load average.',
+			stats.loadAverage.fifteenMinutes,
+		)
+		gauge('kz_host_uptime_seconds', 'Host uptime.', stats.uptimeSeconds)
+
+		const disk = (name: string, help: string) =>
+			new Gauge({ name, help, labelNames: ['mount'], registers: [registry] })
+		const diskUsed = disk('kz_host_disk_used_bytes', 'Used space per mount.')
+		const diskTotal = disk('kz_host_disk_total_bytes', 'Size of each mount.')
+		const inodesUsed = disk(
+			'kz_host_disk_inodes_used',
+			'Used inodes per mount.',
+		)
+		for (const entry of stats.disks) {
+			diskUsed.set({ mount: entry.mount }, entry.usedBytes)
+			diskTotal.set({ mount: entry.mount }, entry.totalBytes)
+			inodesUsed.set({ mount: entry.mount }, entry.inodesUsed)
+		}
+	}
+
+	private toLabels(container: ContainerDto) {
+		return {
+			host: container.host,
+			id: container.id.slice(0, 12),
+			name: container.name,
+			image: container.image,
+			cluster: container.cluster ?? 'other',
+		}
+	}
+}
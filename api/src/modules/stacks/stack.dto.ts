@@ -0,0 +1,41 @@
+export type StackAction = 'up' | 'down' | 'pull' | 'redeploy'
+
+/**
+ * `running`: every desired replica runs. `partial`: some do. `stopped`: the
+ * containers exist but none runs. `missing`: no container was created yet.
+ */
+export type StackServiceStatus = 'running' | 'partial' | 'stopped' | 'missing'
+
+export type StackStatus = StackServiceStatus | 'invalid'
+
+export interface StackContainerDto {
+	id: string
+	name: string
+	state: string
+	status: string
+}
+
+export interface StackServiceDto {
+	name: string
+	/** Image from the compose file, or null for services that only build. */
+	image: string | null
+	desiredReplicas: number
+	runningReplicas: number
+	status: StackServiceStatus
+	containers: StackContainerDto[]
+}
+
+export interface StackDto {
+	/** Directory name below STACKS_DIR. */
+	name: string
+	/** Compose project name, matched against `com.docker.compose.project`. */
+	project: string
+	host: string
+	file: string
+	status: StackStatus
+	services: StackServiceDto[]
+	/** Project containers whose service is no longer in the compose file. */
+	orphans: StackContainerDto[]
+	/** Why the compose file could not be read, for `invalid` stacks. */
+	error: string | null
+}
@@ -0,0 +1,39 @@
+import {
+	Controller,
+	Get,
+	HttpCode,
+	HttpStatus,
+	Param,
+	Post,
+} from '@nestjs/common'
+import { AuthUserDto } from '../auth/auth-user.dto'
+import { CurrentUser, Roles } from '../auth/auth.decorators'
+import { StacksService } from './stacks.service'
+
+// Stack files are shared by all hosts; unscoped routes use the default host.
+@Controller(['stacks', 'hosts/:host/stacks'])
+export class StacksController {
+	constructor(private readonly stacksService: StacksService) {}
+
+	@Get()
+	getStacks(@Param('host') host?: string) {
+		return this.stacksService.listStacks(host)
+	}
+
+	@Get(':name')
+	getStack(@Param('name') name: string, @Param('host') host?: string) {
+		return this.stacksService.getStack(host, name)
+	}
+
+	@Roles('operator')
+	@Post(':name/:action')
+	@HttpCode(HttpStatus.ACCEPTED)
+	runAction(
+		@Param('name') name: string,
+		@Param('action') action: string,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.stacksService.runAction(host, name, action, user.username)
+	}
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { AuditModule } from '../audit/audit.module'
+import { HostsModule } from '../hosts/hosts.module'
+import { JobsModule } from '../jobs/jobs.module'
+import { StacksController } from './stacks.controller'
+import { StacksService } from './stacks.service'
+
+@Module({
+	imports: [AuditModule, HostsModule, JobsModule],
+	controllers: [StacksController],
+	providers: [StacksService],
+})
+export class StacksModule {}
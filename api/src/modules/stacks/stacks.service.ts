@@ -0,0 +1,427 @@
+import {
+	BadRequestException,
+	ConflictException,
+	ForbiddenException,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common'
+import { spawn } from 'child_process'
+import * as Docker from 'dockerode'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { createInterface } from 'readline'
+import * as YAML from 'yaml'
+import { AuditTargetDto } from '../audit/audit-entry.dto'
+import { AuditService } from '../audit/audit.service'
+import { isProtectedContainer } from '../containers/containers.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import { JobDto } from '../jobs/job.dto'
+import { JobContext, JobsService } from '../jobs/jobs.service'
+import {
+	StackAction,
+	StackContainerDto,
+	StackDto,
+	StackServiceDto,
+	StackServiceStatus,
+} from './stack.dto'
+
+const STACKS_DIR = process.env.STACKS_DIR?.trim() || 'data/stacks'
+// Looked up in this order, like `docker compose` does.
+const COMPOSE_FILE_NAMES = [
+	'compose.yaml',
+	'compose.yml',
+	'docker-compose.yaml',
+	'docker-compose.yml',
+]
+const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project'
+const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service'
+
+// Each action runs these compose commands in turn.
+const STACK_COMMANDS: Record<StackAction, string[][]> = {
+	up: [['up', '--detach', '--remove-orphans']],
+	down: [['down', '--remove-orphans']],
+	pull: [['pull']],
+	redeploy: [
+		['pull'],
+		['up', '--detach', '--force-recreate', '--remove-orphans'],
+	],
+}
+// Actions that take the stack's containers down, even if only briefly.
+const DISRUPTIVE_ACTIONS = new Set<StackAction>(['down', 'redeploy'])
+
+interface ComposeService {
+	image?: string
+	scale?: number
+	deploy?: { replicas?: number }
+}
+
+interface ComposeFile {
+	name?: string
+	services?: Record<string, ComposeService | null>
+}
+
+interface StackSource {
+	name: string
+	file: string
+	project: string
+	services: Array<{ name: string; image: string | null; replicas: number }>
+	error: string | null
+}
+
+// Same rules as compose: lowercase letters, digits, dashes and underscores,
+// starting with a letter or digit.
+const normalizeProjectName = (name: string) =>
+	name
+		.toLowerCase()
+		.replace(/[^a-z0-9_-]/g, '')
+		.replace(/^[_-]+/, '')
+
+/**
+ * Compose stacks from STACKS_DIR: every subdirectory holding a compose file is
+ * a stack, compared against the containers of its compose project. Actions
+ * run the docker compose CLI as jobs, with its output streamed on the job.
+ */
+@Injectable()
+export class StacksService {
+	private readonly running = new Set<string>()
+
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+		private readonly jobsService: JobsService,
+	) {}
+
+	async listStacks(host?: string): Promise<StackDto[]> {
+		const client = this.dockerHosts.get(host)
+		const sources = await this.readSources()
+
+		let containers: Docker.ContainerInfo[] = []
+		try {
+			containers = await client.docker.listContainers({
+				all: true,
+				filters: { label: [COMPOSE_PROJECT_LABEL] },
+			})
+		} catch (error) {
+			console.error(`Docker unavailable on ${client.name}:`, error)
+		}
+
+		return sources.map(source =>
+			this.toStackDto(client.name, source, containers),
+		)
+	}
+
+	async getStack(host: string | undefined, name: string): Promise<StackDto> {
+		const stack = (await this.listStacks(host)).find(item => item.name === name)
+		if (!stack) {
+			throw new NotFoundException(`Stack not found: ${name}`)
+		}
+
+		return stack
+	}
+
+	/**
+	 * Starts the action as a job. Only one action runs per stack and host at a
+	 * time, and stacks holding a protected container cannot be taken down.
+	 */
+	async runAction(
+		host: string | undefined,
+		name: string,
+		action: string,
+		actor: string,
+	): Promise<JobDto> {
+		if (!Object.prototype.hasOwnProperty.call(STACK_COMMANDS, action)) {
+			throw new BadRequestException(`Invalid stack action: ${action}`)
+		}
+
+		const stackAction = action as StackAction
+		const stack = await this.getStack(host, name)
+		if (stack.status === 'invalid') {
+			throw new BadRequestException(`Invalid compose file: ${stack.error}`)
+		}
+
+		const protectedNames = [
+			...stack.services.flatMap(service => service.containers),
+			...stack.orphans,
+		]
+			.map(container => container.name)
+			.filter(isProtectedContainer)
+		if (DISRUPTIVE_ACTIONS.has(stackAction) && protectedNames.length > 0) {
+			throw new ForbiddenException(
+				`Stack contains protected containers: ${protectedNames.join(', ')}`,
+			)
+		}
+
+		const key = `${stack.host}/${stack.name}`
+		if (this.running.has(key)) {
+			throw new ConflictException(`Stack ${stack.name} is already busy`)
+		}
+
+		const environment = this.dockerHosts.cliEnvironment(stack.host)
+		const target: AuditTargetDto = { id: stack.name, name: stack.name }
+		this.running.add(key)
+
+		return this.jobsService.start(
+			{
+				type: `stack.${stackAction}`,
+				host: stack.host,
+				cluster: null,
+				actor,
+				targets: [target],
+			},
+			async job => {
+				job.update(target.id, { status: 'running' })
+				let error: string | null = null
+
+				try {
+					for (const args of STACK_COMMANDS[stackAction]) {
+						if (job.isCancelled) {
+							break
+						}
+
+						job.update(target.id, { step: args[0] })
+						await this.runCompose(stack, environment, args, job)
+					}
+				} catch (failure) {
+					error = failure instanceof Error ? failure.message : 'Unknown error'
+				} finally {
+					this.running.delete(key)
+				}
+
+				// A cancel interrupts the running command, so it comes first.
+				job.update(target.id, {
+					status: job.isCancelled
+						? 'cancelled'
+						: error
+							? 'failed'
+							: 'succeeded',
+					step: null,
+					error,
+				})
+				await this.auditService.recordAction({
+					actor,
+					host: stack.host,
+					action: `stack.${stackAction}`,
+					targets: [target],
+					cluster: null,
+					failed: error ? [{ ...target, error }] : [],
+				})
+
+				return {
+					ok: true,
+					total: 1,
+					succeeded: error ? [] : [target.id],
+					failed: error ? [{ ...target, error }] : [],
+				}
+			},
+		)
+	}
+
+	private runCompose(
+		stack: StackDto,
+		environment: Record<string, string>,
+		args: string[],
+		job: JobContext,
+	): Promise<void> {
+		const source = join(STACKS_DIR, stack.name)
+		const commandLine = [
+			'compose',
+			'--ansi',
+			'never',
+			'--project-name',
+			stack.project,
+			'--file',
+			stack.file,
+			...args,
+		]
+		job.log(`$ docker ${commandLine.join(' ')}`)
+
+		return new Promise((resolve, reject) => {
+			const child = spawn('docker', commandLine, {
+				cwd: source,
+				env: { ...process.env, ...environment },
+				stdio: ['ignore', 'pipe', 'pipe'],
+				// Cancelling the job interrupts compose mid-command.
+				signal: job.signal,
+				killSignal: 'SIGTERM',
+			})
+
+			// Compose reports progress on stderr, so both streams are output.
+			for (const stream of [child.stdout, child.stderr]) {
+				createInterface({ input: stream }).on('line', line => job.log(line))
+			}
+
+			child.on('error', error => {
+				const code = (error as NodeJS.ErrnoException).code
+				reject(
+					code === 'ENOENT'
+						? new Error('docker CLI not found on the API host')
+						: code === 'ABORT_ERR'
+							? new Error(`docker compose ${args[0]} cancelled`)
+							: error,
+				)
+			})
+			child.on('close', code => {
+				if (code === 0) {
+					resolve()
+				} else {
+					reject(new Error(`docker compose ${args[0]} exited with ${code}`))
+				}
+			})
+		})
+	}
+
+	private async readSources(): Promise<StackSource[]> {
+		let entries: string[]
+		try {
+			entries = (await fs.readdir(STACKS_DIR, { withFileTypes: true }))
+				.filter(entry => entry.isDirectory())
+				.map(entry => entry.name)
+				.sort()
+		} catch {
+			return []
+		}
+
+		const sources = await Promise.all(
+			entries.map(name => this.readSource(name)),
+		)
+
+		return sources.filter((source): source is StackSource => source !== null)
+	}
+
+	private async readSource(name: string): Promise<StackSource | null> {
+		const directory = join(STACKS_DIR, name)
+
+		for (const file of COMPOSE_FILE_NAMES) {
+			let content: string
+			try {
+				content = await fs.readFile(join(directory, file), 'utf8')
+			} catch {
+				continue
+			}
+
+			const source: StackSource = {
+				name,
+				file,
+				project: normalizeProjectName(name),
+				services: [],
+				error: null,
+			}
+
+			try {
+				const parsed = (YAML.parse(content) ?? {}) as ComposeFile
+				// An interpolated name is only known to compose; fall back to the
+				// directory name like compose does without one.
+				if (typeof parsed.name === 'string' && !parsed.name.includes('$')) {
+					source.project = normalizeProjectName(parsed.name)
+				}
+
+				source.services = Object.entries(parsed.services ?? {}).map(
+					([service, definition]) => ({
+						name: service,
+						image: definition?.image ?? null,
+						replicas: Number(
+							definition?.deploy?.replicas ?? definition?.scale ?? 1,
+						),
+					}),
+				)
+			} catch (error) {
+				source.error =
+					error instanceof Error ? error.message : 'Unreadable compose file'
+			}
+
+			return source
+		}
+
+		return null
+	}
+
+	private toStackDto(
+		host: string,
+		source: StackSource,
+		containers: Docker.ContainerInfo[],
+	): StackDto {
+		const members = containers.filter(
+			container => container.Labels?.[COMPOSE_PROJECT_LABEL] === source.project,
+		)
+		const services: StackServiceDto[] = source.services.map(service => {
+			const serviceContainers = members
+				.filter(
+					container =>
+						container.Labels?.[COMPOSE_SERVICE_LABEL] === service.name,
+				)
+				.map(container => this.toStackContainer(container))
+			const runningReplicas = serviceContainers.filter(
+				container => container.state === 'running',
+			).length
+
+			return {
+				name: service.name,
+				image: service.image,
+				desiredReplicas: service.replicas,
+				runningReplicas,
+				status: this.serviceStatus(
+					service.replicas,
+					runningReplicas,
+					serviceContainers.length,
+				),
+				containers: serviceContainers,
+			}
+		})
+		const orphans = members
+			.filter(
+				container =>
+					!source.services.some(
+						service =>
+							service.name === container.Labels?.[COMPOSE_SERVICE_LABEL],
+					),
+			)
+			.map(container => this.toStackContainer(container))
+
+		return {
+			name: source.name,
+			project: source.project,
+			host,
+			file: source.file,
+			status: source.error ? 'invalid' : this.stackStatus(services),
+			services,
+			orphans,
+			error: source.error,
+		}
+	}
+
+	private serviceStatus(
+		desired: number,
+		running: number,
+		created: number,
+	): StackServiceStatus {
+		if (running > 0) {
+			return running >= desired ? 'running' : 'partial'
+		}
+
+		return created > 0 ? 'stopped' : 'missing'
+	}
+
+	private stackStatus(services: StackServiceDto[]): StackServiceStatus {
+		const active = services.filter(service => service.desiredReplicas > 0)
+		if (active.every(service => service.status === 'running')) {
+			return 'running'
+		}
+
+		if (active.some(service => service.runningReplicas > 0)) {
+			return 'partial'
+		}
+
+		return active.some(service => service.status === 'stopped')
+			? 'stopped'
+			: 'missing'
+	}
+
+	private toStackContainer(container: Docker.ContainerInfo): StackContainerDto {
+		return {
+			id: container.Id,
+			name: container.Names?.[0]?.replace(/^\//, '') ?? container.Id,
+			state: container.State,
+			status: container.Status,
+		}
+	}
+}
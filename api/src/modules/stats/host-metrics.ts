@@ -0,0 +1,263 @@
+import { promises as fs, StatsFs } from 'fs'
+import * as os from 'os'
+import { HostCgroupDto, HostDiskDto } from './host-stats.dto'
+
+export interface MemoryInfo {
+	totalBytes: number
+	freeBytes: number
+	availableBytes: number
+	swapTotalBytes: number
+	swapFreeBytes: number
+}
+
+export type NetworkCounters = Map<string, { rxBytes: number; txBytes: number }>
+
+// Kernel and virtual filesystems that say nothing about disk space.
+const PSEUDO_FS_TYPES = new Set([
+	'autofs',
+	'bpf',
+	'cgroup',
+	'cgroup2',
+	'configfs',
+	'debugfs',
+	'devpts',
+	'devtmpfs',
+	'fusectl',
+	'hugetlbfs',
+	'mqueue',
+	'nsfs',
+	'proc',
+	'pstore',
+	'ramfs',
+	'securityfs',
+	'squashfs',
+	'sysfs',
+	'tmpfs',
+	'tracefs',
+])
+
+// A hung network mount (stale NFS or CIFS) never answers statfs.
+const STATFS_TIMEOUT_MS = 1000
+
+// statfs calls still waiting, per mount, so a hung mount holds one libuv
+// thread instead of a new one per read.
+const pendingStatfs = new Map<string, Promise<StatsFs>>()
+
+// Loopback and the host side of container veth pairs.
+const isIgnoredInterface = (name: string) =>
+	name === 'lo' || name.startsWith('veth')
+
+const readOptionalFile = async (path: string): Promise<string | null> => {
+	try {
+		return await fs.readFile(path, 'utf8')
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Memory from `/proc/meminfo`; `os.freemem()` leaves out the page cache the
+ * kernel reclaims on demand. Falls back to `os` where there is no procfs.
+ */
+export const readMemoryInfo = async (): Promise<MemoryInfo> => {
+	const raw = await readOptionalFile('/proc/meminfo')
+	if (!raw) {
+		return {
+			totalBytes: os.totalmem(),
+			freeBytes: os.freemem(),
+			availableBytes: os.freemem(),
+			swapTotalBytes: 0,
+			swapFreeBytes: 0,
+		}
+	}
+
+	const values = new Map<string, number>()
+	for (const line of raw.split('\n')) {
+		const match = /^(\w+):\s+(\d+)/.exec(line)
+		if (match) {
+			// Values are in KiB despite the "kB" suffix.
+			values.set(match[1], Number(match[2]) * 1024)
+		}
+	}
+
+	const freeBytes = values.get('MemFree') ?? os.freemem()
+
+	return {
+		totalBytes: values.get('MemTotal') ?? os.totalmem(),
+		freeBytes,
+		// Kernels before 3.14 have no MemAvailable.
+		availableBytes: values.get('MemAvailable') ?? freeBytes,
+		swapTotalBytes: values.get('SwapTotal') ?? 0,
+		swapFreeBytes: values.get('SwapFree') ?? 0,
+	}
+}
+
+/** Cumulative counters per interface from `/proc/net/dev`. */
+export const readNetworkCounters = async (): Promise<NetworkCounters> => {
+	const counters: NetworkCounters = new Map()
+	const raw = await readOptionalFile('/proc/net/dev')
+
+	// Two header lines, then `name: rx_bytes ... (8 rx fields) tx_bytes ...`.
+	for (const line of raw?.split('\n').slice(2) ?? []) {
+		const [name, data] = line.split(':')
+		const fields = data?.trim().split(/\s+/).map(Number)
+		if (
+			!name ||
+			!fields ||
+			fields.length < 9 ||
+			isIgnoredInterface(name.trim())
+		) {
+			continue
+		}
+
+		counters.set(name.trim(), { rxBytes: fields[0], txBytes: fields[8] })
+	}
+
+	return counters
+}
+
+const statfs = (mount: string): Promise<StatsFs> => {
+	let pending = pendingStatfs.get(mount)
+	if (!pending) {
+		pending = fs.statfs(mount).finally(() => pendingStatfs.delete(mount))
+		pendingStatfs.set(mount, pending)
+	}
+
+	return Promise.race([
+		pending,
+		new Promise<never>((_resolve, reject) =>
+			setTimeout(
+				() => reject(new Error(`statfs timed out: ${mount}`)),
+				STATFS_TIMEOUT_MS,
+			),
+		),
+	])
+}
+
+/**
+ * Usage of each mounted block filesystem from `/proc/mounts` and `statfs`.
+ * Bind mounts of the same device are listed once, under the first mount.
+ */
+export const readDisks = async (): Promise<HostDiskDto[]> => {
+	const raw = await readOptionalFile('/proc/mounts')
+	const mounts = (raw ?? '')
+		.split('\n')
+		.map(line => line.split(' '))
+		.filter(([device, mount, fsType]) => device && mount && fsType)
+		.filter(([, , fsType]) => !PSEUDO_FS_TYPES.has(fsType))
+		// /proc/mounts escapes spaces and other separators as octal.
+		.map(([device, mount, fsType]) => ({
+			device,
+			mount: mount.replace(/\\(\d{3})/g, (_, code: string) =>
+				String.fromCharCode(Number.parseInt(code, 8)),
+			),
+			fsType,
+		}))
+
+	// Mounts the process cannot stat (permissions, stale NFS, timeouts) are
+	// skipped.
+	const results = await Promise.allSettled(
+		mounts.map(({ mount }) => statfs(mount)),
+	)
+
+	const seen = new Set<string>()
+	const disks: HostDiskDto[] = []
+
+	mounts.forEach(({ device, mount, fsType }, index) => {
+		const result = results[index]
+		if (
+			seen.has(device) ||
+			result.status === 'rejected' ||
+			result.value.blocks === 0
+		) {
+			return
+		}
+		seen.add(device)
+
+		const stats = result.value
+		const totalBytes = stats.blocks * stats.bsize
+		const usedBytes = (stats.blocks - stats.bfree) * stats.bsize
+		const availableBytes = stats.bavail * stats.bsize
+		const inodesUsed = stats.files - stats.ffree
+
+		disks.push({
+			mount,
+			device,
+			fsType,
+			totalBytes,
+			usedBytes,
+			availableBytes,
+			// Like `df`, against the space non-root users can reach.
+			usedPercent:
+				usedBytes + availableBytes > 0
+					? (usedBytes / (usedBytes + availableBytes)) * 100
+					: 0,
+			inodesTotal: stats.files,
+			inodesUsed,
+			// Filesystems without fixed inode tables (btrfs) report 0.
+			inodesPercent: stats.files > 0 ? (inodesUsed / stats.files) * 100 : 0,
+		})
+	})
+
+	return disks
+}
+
+const readLimit = (value: string | null): number | null => {
+	const parsed = Number(value?.trim())
+
+	// cgroup v1 reports "no limit" as a page-aligned near-max 64-bit number.
+	return Number.isFinite(parsed) && parsed > 0 && parsed < 2 ** 60
+		? parsed
+		: null
+}
+
+/**
+ * Memory and CPU limits of the process's own cgroup (v2, then v1), or null
+ * when it runs without any.
+ */
+export const readCgroupLimits = async (): Promise<HostCgroupDto | null> => {
+	const v2Memory = await readOptionalFile('/sys/fs/cgroup/memory.max')
+	const v2Cpu = await readOptionalFile('/sys/fs/cgroup/cpu.max')
+
+	let cgroup: HostCgroupDto
+	if (v2Memory !== null || v2Cpu !== null) {
+		// cpu.max is "<quota|max> <period>".
+		const [quota, period] = (v2Cpu ?? '').trim().split(/\s+/)
+		const quotaValue = readLimit(quota)
+		const periodValue = readLimit(period)
+
+		cgroup = {
+			version: 2,
+			memLimitBytes: readLimit(v2Memory),
+			memUsageBytes: readLimit(
+				await readOptionalFile('/sys/fs/cgroup/memory.current'),
+			),
+			cpuLimit:
+				quotaValue !== null && periodValue !== null
+					? quotaValue / periodValue
+					: null,
+		}
+	} else {
+		const quota = readLimit(
+			await readOptionalFile('/sys/fs/cgroup/cpu/cpu.cfs_quota_us'),
+		)
+		const period = readLimit(
+			await readOptionalFile('/sys/fs/cgroup/cpu/cpu.cfs_period_us'),
+		)
+
+		cgroup = {
+			version: 1,
+			memLimitBytes: readLimit(
+				await readOptionalFile('/sys/fs/cgroup/memory/memory.limit_in_bytes'),
+			),
+			memUsageBytes: readLimit(
+				await readOptionalFile('/sys/fs/cgroup/memory/memory.usage_in_bytes'),
+			),
+			cpuLimit: quota !== null && period !== null ? quota / period : null,
+		}
+	}
+
+	return cgroup.memLimitBytes === null && cgroup.cpuLimit === null
+		? null
+		: cgroup
+}
@@ -1,8 +1,70 @@
+export interface HostLoadAverageDto {
+	oneMinute: number
+	fiveMinutes: number
+	fifteenMinutes: number
+}
+
+export interface HostDiskDto {
+	mount: string
+	device: string
+	fsType: string
+	totalBytes: number
+	usedBytes: number
+	/** Space unprivileged processes can still use (root reserve excluded). */
+	availableBytes: number
+	usedPercent: number
+	inodesTotal: number
+	inodesUsed: number
+	inodesPercent: number
+}
+
+export interface HostNetworkInterfaceDto {
+	interface: string
+	rxBytes: number
+	txBytes: number
+	rxBytesPerSecond: number | null
+	txBytesPerSecond: number | null
+}
+
+/** Limits of the cgroup the API process runs in, e.g. its own container. */
+export interface HostCgroupDto {
+	version: 1 | 2
+	memLimitBytes: number | null
+	memUsageBytes: number | null
+	cpuLimit: number | null
+}
+
+export interface DockerDiskUsageDto {
+	host: string
+	imagesBytes: number
+	containersBytes: number
+	volumesBytes: number
+	buildCacheBytes: number
+	totalBytes: number
+}
+
 export interface HostStatsDto {
+	/** Busy share since the previous background sample, 0 before the first. */
 	cpuPercent: number
+	perCpuPercent: number[]
+	/** Age of the CPU sample; null until the first one is taken. */
+	cpuSampleAgeMs: number | null
+	cpuCount: number
+	loadAverage: HostLoadAverageDto
 	totalMemBytes: number
 	freeMemBytes: number
+	/** `MemAvailable`: free memory plus what the kernel can reclaim. */
+	availableMemBytes: number
+	/** Total minus available, so page cache does not count as used. */
 	usedMemBytes: number
 	usedMemPercent: number
+	swapTotalBytes: number
+	swapUsedBytes: number
+	swapPercent: number
 	uptimeSeconds: number
+	disks: HostDiskDto[]
+	networks: HostNetworkInterfaceDto[]
+	cgroup: HostCgroupDto | null
+	/** Docker's own disk usage on the local socket host, if there is one. */
+	dockerDisk: DockerDiskUsageDto | null
 }
@@ -0,0 +1,134 @@
+import {
+	Injectable,
+	OnApplicationBootstrap,
+	OnModuleDestroy,
+} from '@nestjs/common'
+import { runWithConcurrency } from '../containers/concurrency'
+import { ContainerDto } from '../containers/container.dto'
+import { ContainerEventsService } from '../containers/container-events.service'
+import { ContainerStatsCollectorService } from '../containers/container-stats-collector.service'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	containerMetricsTarget,
+	HOST_METRICS_TARGET,
+	METRICS_SAMPLE_INTERVAL_MS,
+	MetricsStoreService,
+} from './metrics-store.service'
+import { StatsService } from './stats.service'
+
+// Most reads hit the collector's cache; the cap bounds the one-shot reads of
+// containers it has no sample for yet.
+const SAMPLE_CONCURRENCY = 8
+
+/** Periodically records host and running-container stats into the store. */
+@Injectable()
+export class MetricsSamplerService
+	implements OnApplicationBootstrap, OnModuleDestroy
+{
+	private timer: NodeJS.Timeout | null = null
+	private isSampling = false
+
+	constructor(
+		private readonly metricsStore: MetricsStoreService,
+		private readonly statsService: StatsService,
+		private readonly containerEventsService: ContainerEventsService,
+		private readonly dockerHosts: DockerHostsService,
+		private readonly containerStatsCollector: ContainerStatsCollectorService,
+	) {}
+
+	onApplicationBootstrap() {
+		this.timer = setInterval(() => {
+			void this.sample()
+		}, METRICS_SAMPLE_INTERVAL_MS)
+	}
+
+	onModuleDestroy() {
+		if (this.timer) {
+			clearInterval(this.timer)
+		}
+	}
+
+	private async sample() {
+		// A slow Docker daemon must not pile up overlapping sampling rounds.
+		if (this.isSampling) {
+			return
+		}
+
+		this.isSampling = true
+		const timestamp = Date.now()
+
+		try {
+			await Promise.all([
+				this.sampleHost(timestamp),
+				this.sampleContainers(timestamp),
+			])
+		} finally {
+			this.isSampling = false
+		}
+	}
+
+	private async sampleHost(timestamp: number) {
+		try {
+			const stats = await this.statsService.getHostStats()
+			this.metricsStore.record(
+				HOST_METRICS_TARGET,
+				{
+					cpuPercent: stats.cpuPercent,
+					memUsageBytes: stats.usedMemBytes,
+					memPercent: stats.usedMemPercent,
+					pids: null,
+				},
+				timestamp,
+			)
+		} catch (error) {
+			console.error('Host metrics sample failed:', error)
+		}
+	}
+
+	private async sampleContainers(timestamp: number) {
+		const perHost = await Promise.all(
+			this.dockerHosts.all().map(async ({ name }) => {
+				try {
+					const containers =
+						await this.containerEventsService.getContainers(name)
+					// An unreachable host lists nothing; it keeps its history until
+					// it answers again.
+					if (containers.length > 0) {
+						this.metricsStore.forgetMissingContainers(
+							name,
+							new Set(containers.map(container => container.id)),
+						)
+					}
+
+					return containers
+				} catch {
+					return [] as ContainerDto[]
+				}
+			}),
+		)
+		const running = perHost
+			.flat()
+			.filter(container => container.state === 'running')
+
+		await runWithConcurrency(running, SAMPLE_CONCURRENCY, async container => {
+			try {
+				const stats = await this.containerStatsCollector.getContainerStats(
+					container.host,
+					container.id,
+				)
+				this.metricsStore.record(
+					containerMetricsTarget(container.host, container.id),
+					{
+						cpuPercent: stats.cpuPercent,
+						memUsageBytes: stats.memUsageBytes,
+						memPercent: stats.memPercent,
+						pids: stats.pids,
+					},
+					timestamp,
+				)
+			} catch {
+				// The container may have stopped since it was listed.
+			}
+		})
+	}
+}
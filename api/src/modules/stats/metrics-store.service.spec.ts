@@ -0,0 +1,121 @@
+import { MetricsStoreService } from './metrics-store.service'
+
+const MINUTE_MS = 60_000
+const HOUR_MS = 3600_000
+
+const sample = (cpuPercent: number, pids: number | null = null) => ({
+	cpuPercent,
+	memUsageBytes: cpuPercent * 1000,
+	memPercent: cpuPercent / 2,
+	pids,
+})
+
+// The store is used in memory only; persisting runs from onModuleInit.
+describe('MetricsStoreService', () => {
+	it('answers recent ranges from the raw samples', () => {
+		const store = new MetricsStoreService()
+		const start = Date.now() - 10 * MINUTE_MS
+		store.record('host', sample(10), start)
+		store.record('host', sample(20, 5), start + 10_000)
+
+		const history = store.query({
+			target: 'host',
+			from: new Date(start - MINUTE_MS).toISOString(),
+		})
+
+		expect(history.stepSeconds).toBe(10)
+		expect(history.points).toEqual([
+			{
+				timestamp: new Date(start).toISOString(),
+				cpuPercent: 10,
+				memUsageBytes: 10000,
+				memPercent: 5,
+				pids: null,
+			},
+			{
+				timestamp: new Date(start + 10_000).toISOString(),
+				cpuPercent: 20,
+				memUsageBytes: 20000,
+				memPercent: 10,
+				pids: 5,
+			},
+		])
+	})
+
+	it('averages older ranges into one-minute rollups', () => {
+		const store = new MetricsStoreService()
+		// Past the raw retention, minute-aligned.
+		const start =
+			Math.floor((Date.now() - 30 * HOUR_MS) / MINUTE_MS) * MINUTE_MS
+		store.record('host', sample(10, 4), start)
+		store.record('host', sample(20), start + 10_000)
+		store.record('host', sample(40, 8), start + 20_000)
+		// Opens the next bucket, which the query closes on the fly.
+		store.record('host', sample(50), start + MINUTE_MS)
+
+		const history = store.query({
+			target: 'host',
+			from: new Date(start - HOUR_MS).toISOString(),
+			to: new Date(start + HOUR_MS).toISOString(),
+		})
+
+		expect(history.stepSeconds).toBe(60)
+		expect(history.points).toEqual([
+			{
+				timestamp: new Date(start).toISOString(),
+				cpuPercent: 23.33,
+				memUsageBytes: 23333,
+				memPercent: 11.67,
+				// Averaged over every sample in the bucket, 0 where none was read.
+				pids: 4,
+			},
+			{
+				timestamp: new Date(start + MINUTE_MS).toISOString(),
+				cpuPercent: 50,
+				memUsageBytes: 50000,
+				memPercent: 25,
+				pids: null,
+			},
+		])
+	})
+
+	it('widens the step to keep long ranges under the point limit', () => {
+		const store = new MetricsStoreService()
+		const to = Date.now()
+
+		const history = store.query({
+			target: 'host',
+			from: new Date(to - 6 * 24 * HOUR_MS).toISOString(),
+			to: new Date(to).toISOString(),
+		})
+
+		expect(history.stepSeconds).toBe(519)
+		expect(history.points).toEqual([])
+	})
+
+	it('forgets the series of removed containers on a host', () => {
+		const store = new MetricsStoreService()
+		store.record('container:local/a', sample(1))
+		store.record('container:local/b', sample(2))
+		store.record('container:remote/a', sample(3))
+
+		store.forgetMissingContainers('local', new Set(['a']))
+
+		expect(store.latest('container:local/a', MINUTE_MS)).not.toBeNull()
+		expect(store.latest('container:local/b', MINUTE_MS)).toBeNull()
+		expect(store.latest('container:remote/a', MINUTE_MS)).not.toBeNull()
+	})
+
+	it('rejects invalid ranges', () => {
+		const store = new MetricsStoreService()
+
+		expect(() => store.query({})).toThrow('target is required')
+		expect(() =>
+			store.query({
+				target: 'host',
+				from: '2026-01-02T00:00:00Z',
+				to: '2026-01-01T00:00:00Z',
+			}),
+		).toThrow('from must be before to')
+	})
+})
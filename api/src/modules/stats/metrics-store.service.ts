@@ -0,0 +1,442 @@
+import {
+	BadRequestException,
+	Injectable,
+	OnModuleDestroy,
+	OnModuleInit,
+} from '@nestjs/common'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import {
+	MetricSampleDto,
+	StatsHistoryDto,
+	StatsHistoryQueryDto,
+} from './stats-history.dto'
+
+const METRICS_STORE_PATH = path.resolve(
+	process.env.METRICS_STORE_PATH?.trim() || 'data/metrics',
+)
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+	const parsed = value ? Number(value) : Number.NaN
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export const METRICS_SAMPLE_INTERVAL_MS =
+	readPositiveNumber(process.env.METRICS_SAMPLE_INTERVAL_SECONDS, 10) * 1000
+const RAW_RETENTION_MS =
+	readPositiveNumber(process.env.METRICS_RAW_RETENTION_HOURS, 24) * 3600_000
+const ROLLUP_RETENTION_MS =
+	readPositiveNumber(process.env.METRICS_ROLLUP_RETENTION_DAYS, 7) * 86400_000
+const ROLLUP_RESOLUTION_MS = 60_000
+const PERSIST_INTERVAL_MS = 60_000
+const MAX_POINTS = 1000
+
+type MetricTier = 'raw' | 'rollup'
+
+const METRIC_TIERS: MetricTier[] = ['raw', 'rollup']
+// Points are appended to one file per tier and segment; a segment is deleted
+// whole once all of it is past retention.
+const SEGMENT_MS: Record<MetricTier, number> = {
+	raw: 3600_000,
+	rollup: 86400_000,
+}
+const RETENTION_MS: Record<MetricTier, number> = {
+	raw: RAW_RETENTION_MS,
+	rollup: ROLLUP_RETENTION_MS,
+}
+const SEGMENT_FILE_PATTERN = /^(raw|rollup)-(\d+)\.jsonl$/
+
+export const HOST_METRICS_TARGET = 'host'
+
+export const containerMetricsTarget = (host: string, id: string) =>
+	`container:${host}/${id}`
+
+// [timestamp, cpuPercent, memUsageBytes, memPercent, pids]; tuples keep the
+// persisted files and the in-memory series compact.
+type MetricPoint = [number, number, number, number, number | null]
+
+// One line of a segment file: the target, then its point.
+type PersistedPoint = [string, ...MetricPoint]
+
+interface RollupBucket {
+	start: number
+	count: number
+	sums: [number, number, number, number]
+	hasPids: boolean
+}
+
+interface MetricSeries {
+	raw: MetricPoint[]
+	rollup: MetricPoint[]
+	bucket: RollupBucket | null
+}
+
+interface SegmentFile {
+	tier: MetricTier
+	start: number
+	file: string
+}
+
+/**
+ * Embedded time-series store: raw samples are kept for
+ * `METRICS_RAW_RETENTION_HOURS` and averaged into one-minute points kept for
+ * `METRICS_ROLLUP_RETENTION_DAYS`. The series live in memory; every minute
+ * the points recorded since are appended to segment files under
+ * `METRICS_STORE_PATH`, so a write never serializes the whole store.
+ */
+@Injectable()
+export class MetricsStoreService implements OnModuleInit, OnModuleDestroy {
+	private readonly series = new Map<string, MetricSeries>()
+	// Points recorded since the last persist, per tier.
+	private pending: Record<MetricTier, Array<[string, MetricPoint]>> = {
+		raw: [],
+		rollup: [],
+	}
+	private persistTimer: NodeJS.Timeout | null = null
+	private persistQueue: Promise<void> = Promise.resolve()
+
+	async onModuleInit() {
+		await fs.mkdir(METRICS_STORE_PATH, { recursive: true })
+		await this.removeExpiredSegments(Date.now())
+		await this.load()
+
+		this.persistTimer = setInterval(() => {
+			const now = Date.now()
+			this.prune(now)
+			void this.persist().then(() => this.removeExpiredSegments(now))
+		}, PERSIST_INTERVAL_MS)
+	}
+
+	async onModuleDestroy() {
+		if (this.persistTimer) {
+			clearInterval(this.persistTimer)
+		}
+
+		await this.persist()
+	}
+
+	record(target: string, sample: MetricSampleDto, timestamp = Date.now()) {
+		const series = this.seriesFor(target)
+		const point: MetricPoint = [
+			timestamp,
+			sample.cpuPercent,
+			sample.memUsageBytes,
+			sample.memPercent,
+			sample.pids,
+		]
+		series.raw.push(point)
+		this.pending.raw.push([target, point])
+
+		const bucketStart =
+			Math.floor(timestamp / ROLLUP_RESOLUTION_MS) * ROLLUP_RESOLUTION_MS
+		if (series.bucket && series.bucket.start !== bucketStart) {
+			const rollup = this.closeBucket(series.bucket)
+			series.rollup.push(rollup)
+			this.pending.rollup.push([target, rollup])
+			series.bucket = null
+		}
+
+		series.bucket ??= {
+			start: bucketStart,
+			count: 0,
+			sums: [0, 0, 0, 0],
+			hasPids: false,
+		}
+		series.bucket.count += 1
+		series.bucket.sums[0] += sample.cpuPercent
+		series.bucket.sums[1] += sample.memUsageBytes
+		series.bucket.sums[2] += sample.memPercent
+		series.bucket.sums[3] += sample.pids ?? 0
+		series.bucket.hasPids ||= sample.pids !== null
+
+		this.pruneSeries(series, timestamp)
+	}
+
+	/**
+	 * Drops the series of a host's containers that are not in `existingIds`,
+	 * i.e. were removed.
+	 */
+	forgetMissingContainers(host: string, existingIds: Set<string>) {
+		const prefix = containerMetricsTarget(host, '')
+		for (const target of this.series.keys()) {
+			if (
+				target.startsWith(prefix) &&
+				!existingIds.has(target.slice(prefix.length))
+			) {
+				this.series.delete(target)
+			}
+		}
+	}
+
+	/** Most recent raw sample of a target, if it is not older than `maxAgeMs`. */
+	latest(target: string, maxAgeMs: number): MetricSampleDto | null {
+		const raw = this.series.get(target)?.raw ?? []
+		const point = raw[raw.length - 1]
+		if (!point || Date.now() - point[0] > maxAgeMs) {
+			return null
+		}
+
+		return {
+			cpuPercent: point[1],
+			memUsageBytes: point[2],
+			memPercent: point[3],
+			pids: point[4],
+		}
+	}
+
+	query(input: StatsHistoryQueryDto): StatsHistoryDto {
+		const target = input.target?.trim()
+		if (!target) {
+			throw new BadRequestException('target is required')
+		}
+
+		const now = Date.now()
+		const to = this.parseDate(input.to, 'to') ?? now
+		const from = this.parseDate(input.from, 'from') ?? to - 3600_000
+		if (from >= to) {
+			throw new BadRequestException('from must be before to')
+		}
+
+		const series = this.series.get(target)
+		// The raw tier only answers ranges it fully covers.
+		const useRaw = from >= now - RAW_RETENTION_MS
+		const resolutionMs = useRaw
+			? METRICS_SAMPLE_INTERVAL_MS
+			: ROLLUP_RESOLUTION_MS
+		const requestedStepMs = input.step
+			? this.parseStep(input.step) * 1000
+			: resolutionMs
+		const stepMs = Math.max(
+			requestedStepMs,
+			resolutionMs,
+			Math.ceil((to - from) / MAX_POINTS / 1000) * 1000,
+		)
+
+		const source = series
+			? useRaw
+				? series.raw
+				: [
+						...series.rollup,
+						...(series.bucket ? [this.closeBucket(series.bucket)] : []),
+					]
+			: []
+		const inRange = source.filter(point => point[0] >= from && point[0] <= to)
+
+		return {
+			target,
+			from: new Date(from).toISOString(),
+			to: new Date(to).toISOString(),
+			stepSeconds: stepMs / 1000,
+			points: this.downsample(inRange, stepMs).map(point => ({
+				timestamp: new Date(point[0]).toISOString(),
+				cpuPercent: point[1],
+				memUsageBytes: point[2],
+				memPercent: point[3],
+				pids: point[4],
+			})),
+		}
+	}
+
+	private downsample(points: MetricPoint[], stepMs: number): MetricPoint[] {
+		if (points.length === 0 || stepMs <= METRICS_SAMPLE_INTERVAL_MS) {
+			return points
+		}
+
+		const result: MetricPoint[] = []
+		let bucket: RollupBucket | null = null
+
+		for (const point of points) {
+			const start = Math.floor(point[0] / stepMs) * stepMs
+			if (bucket && bucket.start !== start) {
+				result.push(this.closeBucket(bucket))
+				bucket = null
+			}
+
+			bucket ??= { start, count: 0, sums: [0, 0, 0, 0], hasPids: false }
+			bucket.count += 1
+			bucket.sums[0] += point[1]
+			bucket.sums[1] += point[2]
+			bucket.sums[2] += point[3]
+			bucket.sums[3] += point[4] ?? 0
+			bucket.hasPids ||= point[4] !== null
+		}
+
+		if (bucket) {
+			result.push(this.closeBucket(bucket))
+		}
+
+		return result
+	}
+
+	private seriesFor(target: string): MetricSeries {
+		let series = this.series.get(target)
+		if (!series) {
+			series = { raw: [], rollup: [], bucket: null }
+			this.series.set(target, series)
+		}
+
+		return series
+	}
+
+	private closeBucket(bucket: RollupBucket): MetricPoint {
+		const average = (sum: number) =>
+			Math.round((sum / bucket.count) * 100) / 100
+
+		return [
+			bucket.start,
+			average(bucket.sums[0]),
+			Math.round(bucket.sums[1] / bucket.count),
+			average(bucket.sums[2]),
+			bucket.hasPids ? Math.round(bucket.sums[3] / bucket.count) : null,
+		]
+	}
+
+	private prune(now: number) {
+		for (const [target, series] of this.series) {
+			this.pruneSeries(series, now)
+
+			if (series.raw.length === 0 && series.rollup.length === 0) {
+				this.series.delete(target)
+			}
+		}
+	}
+
+	private pruneSeries(series: MetricSeries, now: number) {
+		const rawCutoff = now - RAW_RETENTION_MS
+		const rollupCutoff = now - ROLLUP_RETENTION_MS
+
+		// Series are append-only in time order, so expired points are a prefix.
+		const rawExpired = series.raw.findIndex(point => point[0] >= rawCutoff)
+		series.raw.splice(0, rawExpired === -1 ? series.raw.length : rawExpired)
+
+		const rollupExpired = series.rollup.findIndex(
+			point => point[0] >= rollupCutoff,
+		)
+		series.rollup.splice(
+			0,
+			rollupExpired === -1 ? series.rollup.length : rollupExpired,
+		)
+	}
+
+	private async load() {
+		for (const segment of await this.segmentFiles()) {
+			let content: string
+			try {
+				content = await fs.readFile(segment.file, 'utf8')
+			} catch {
+				continue
+			}
+
+			for (const line of content.split('\n')) {
+				if (line.trim().length === 0) {
+					continue
+				}
+
+				try {
+					const [target, ...point] = JSON.parse(line) as PersistedPoint
+					this.seriesFor(target)[segment.tier].push(point)
+				} catch {
+					// A crash mid-append can leave the last line cut short.
+					continue
+				}
+			}
+		}
+
+		this.prune(Date.now())
+	}
+
+	/** Appends the points recorded since the last call to their segments. */
+	private async persist() {
+		const lines = new Map<string, string[]>()
+		for (const tier of METRIC_TIERS) {
+			for (const [target, point] of this.pending[tier]) {
+				// Forgotten while pending.
+				if (!this.series.has(target)) {
+					continue
+				}
+
+				const file = this.segmentPath(tier, point[0])
+				const fileLines = lines.get(file) ?? []
+				fileLines.push(JSON.stringify([target, ...point]))
+				lines.set(file, fileLines)
+			}
+		}
+		this.pending = { raw: [], rollup: [] }
+
+		this.persistQueue = this.persistQueue
+			.then(async () => {
+				for (const [file, fileLines] of lines) {
+					await fs.appendFile(file, `${fileLines.join('\n')}\n`)
+				}
+			})
+			.catch(error => {
+				console.error('Metrics store write failed:', error)
+			})
+		await this.persistQueue
+	}
+
+	private async removeExpiredSegments(now: number) {
+		for (const segment of await this.segmentFiles()) {
+			if (
+				segment.start + SEGMENT_MS[segment.tier] <=
+				now - RETENTION_MS[segment.tier]
+			) {
+				await fs.rm(segment.file, { force: true }).catch(error => {
+					console.error('Metrics segment removal failed:', error)
+				})
+			}
+		}
+	}
+
+	/** Segment files in time order. */
+	private async segmentFiles(): Promise<SegmentFile[]> {
+		let names: string[]
+		try {
+			names = await fs.readdir(METRICS_STORE_PATH)
+		} catch {
+			return []
+		}
+
+		return names
+			.flatMap(name => {
+				const match = SEGMENT_FILE_PATTERN.exec(name)
+				return match
+					? [
+							{
+								tier: match[1] as MetricTier,
+								start: Number(match[2]),
+								file: path.join(METRICS_STORE_PATH, name),
+							},
+						]
+					: []
+			})
+			.sort((first, second) => first.start - second.start)
+	}
+
+	private segmentPath(tier: MetricTier, timestamp: number) {
+		const start = Math.floor(timestamp / SEGMENT_MS[tier]) * SEGMENT_MS[tier]
+		return path.join(METRICS_STORE_PATH, `${tier}-${start}.jsonl`)
+	}
+
+	private parseStep(value: string): number {
+		const parsed = Number.parseInt(value, 10)
+		if (!Number.isFinite(parsed) || parsed <= 0) {
+			throw new BadRequestException(`Invalid step: ${value}`)
+		}
+
+		return parsed
+	}
+
+	private parseDate(value: string | undefined, field: string): number | null {
+		if (!value) {
+			return null
+		}
+
+		const parsed = Date.parse(value)
+		if (Number.isNaN(parsed)) {
+			throw new BadRequestException(`Invalid ${field} date: ${value}`)
+		}
+
+		return parsed
+	}
+}
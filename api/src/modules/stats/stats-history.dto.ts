@@ -0,0 +1,25 @@
+export interface MetricSampleDto {
+	cpuPercent: number
+	memUsageBytes: number
+	memPercent: number
+	pids: number | null
+}
+
+export interface StatsHistoryPointDto extends MetricSampleDto {
+	timestamp: string
+}
+
+export interface StatsHistoryQueryDto {
+	target?: string
+	from?: string
+	to?: string
+	step?: string
+}
+
+export interface StatsHistoryDto {
+	target: string
+	from: string
+	to: string
+	stepSeconds: number
+	points: StatsHistoryPointDto[]
+}
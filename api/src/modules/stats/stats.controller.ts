@@ -1,9 +1,19 @@
-import { Controller, Get } from '@nestjs/common'
+import { Controller, Get, Query } from '@nestjs/common'
+import { MetricsStoreService } from './metrics-store.service'
+import { StatsHistoryQueryDto } from './stats-history.dto'
 import { StatsService } from './stats.service'
 
 @Controller('stats')
 export class StatsController {
-	constructor(private readonly statsService: StatsService) {}
+	constructor(
+		private readonly statsService: StatsService,
+		private readonly metricsStore: MetricsStoreService,
+	) {}
+
+	@Get('history')
+	getHistory(@Query() query: StatsHistoryQueryDto) {
+		return this.metricsStore.query(query)
+	}
 
 	@Get('host')
 	async getHostStats() {
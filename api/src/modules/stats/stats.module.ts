@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common'
+import { ContainersModule } from '../containers/containers.module'
+import { HostsModule } from '../hosts/hosts.module'
+import { MetricsSamplerService } from './metrics-sampler.service'
+import { MetricsStoreService } from './metrics-store.service'
 import { StatsController } from './stats.controller'
 import { StatsService } from './stats.service'
 
 @Module({
+	imports: [ContainersModule, HostsModule],
 	controllers: [StatsController],
-	providers: [StatsService],
+	providers: [StatsService, MetricsStoreService, MetricsSamplerService],
+	exports: [StatsService, MetricsStoreService],
 })
 export class StatsModule {}
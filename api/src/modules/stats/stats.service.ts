@@ -1,9 +1,75 @@
-import { BadGatewayException, Injectable } from '@nestjs/common'
+import {
+	BadGatewayException,
+	Injectable,
+	OnModuleDestroy,
+	OnModuleInit,
+} from '@nestjs/common'
 import * as os from 'os'
-import { HostStatsDto } from './host-stats.dto'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	NetworkCounters,
+	readCgroupLimits,
+	readDisks,
+	readMemoryInfo,
+	readNetworkCounters,
+} from './host-metrics'
+import {
+	DockerDiskUsageDto,
+	HostNetworkInterfaceDto,
+	HostStatsDto,
+} from './host-stats.dto'
+
+const CPU_SAMPLE_INTERVAL_MS = 2000
+const NETWORK_SAMPLE_INTERVAL_MS = 2000
+// `docker system df` walks every layer and volume, so it is read rarely.
+const DOCKER_DISK_TTL_MS = 60 * 1000
+
+interface DockerDiskUsageResponse {
+	LayersSize?: number
+	Containers?: Array<{ SizeRw?: number }> | null
+	Volumes?: Array<{ UsageData?: { Size?: number } | null }> | null
+	BuildCache?: Array<{ Size?: number }> | null
+}
+
+interface CpuSample {
+	cpuPercent: number
+	perCpuPercent: number[]
+	sampledAt: number
+}
 
 @Injectable()
-export class StatsService {
+export class StatsService implements OnModuleInit, OnModuleDestroy {
+	private cpuTimer: NodeJS.Timeout | null = null
+	private previousCpus: os.CpuInfo[] = os.cpus()
+	private cpuSample: CpuSample | null = null
+	private networkTimer: NodeJS.Timeout | null = null
+	private previousNetwork: { at: number; counters: NetworkCounters } | null =
+		null
+	private networkSample: HostNetworkInterfaceDto[] | null = null
+	private dockerDisk: {
+		at: number
+		usage: Promise<DockerDiskUsageDto | null>
+	} | null = null
+
+	constructor(private readonly dockerHosts: DockerHostsService) {}
+
+	onModuleInit() {
+		this.cpuTimer = setInterval(() => this.sampleCpu(), CPU_SAMPLE_INTERVAL_MS)
+		this.networkTimer = setInterval(
+			() => void this.sampleNetwork(),
+			NETWORK_SAMPLE_INTERVAL_MS,
+		)
+	}
+
+	onModuleDestroy() {
+		if (this.cpuTimer) {
+			clearInterval(this.cpuTimer)
+		}
+		if (this.networkTimer) {
+			clearInterval(this.networkTimer)
+		}
+	}
+
 	private sumCpuTimes(cpus: os.CpuInfo[]) {
 		let idle = 0
 		let total = 0
@@ -17,11 +83,10 @@ export class StatsService {
 		return { idle, total }
 	}
 
-	private async getCpuPercent(): Promise<number> {
-		const first = this.sumCpuTimes(os.cpus())
-		await new Promise(resolve => setTimeout(resolve, 500))
-		const second = this.sumCpuTimes(os.cpus())
-
+	private busyPercent(
+		first: { idle: number; total: number },
+		second: { idle: number; total: number },
+	) {
 		const idleDiff = second.idle - first.idle
 		const totalDiff = second.total - first.total
 
@@ -33,23 +98,175 @@ export class StatsService {
 		return Math.round(cpuPercent * 10) / 10
 	}
 
+	/**
+	 * Rolls the CPU usage forward from the times since the previous tick, so
+	 * reads never wait for a sampling window.
+	 */
+	private sampleCpu() {
+		const first = this.previousCpus
+		const second = os.cpus()
+		this.previousCpus = second
+
+		this.cpuSample = {
+			cpuPercent: this.busyPercent(
+				this.sumCpuTimes(first),
+				this.sumCpuTimes(second),
+			),
+			// CPUs going offline change the list; skip per-core for that tick.
+			perCpuPercent:
+				first.length === second.length
+					? second.map((cpu, index) =>
+							this.busyPercent(
+								this.sumCpuTimes([first[index]]),
+								this.sumCpuTimes([cpu]),
+							),
+						)
+					: [],
+			sampledAt: Date.now(),
+		}
+	}
+
+	/**
+	 * Interface counters with rates against the previous tick. Sampled on a
+	 * timer like the CPU, so callers (dashboard, sampler, alerts, scrapes) do
+	 * not reset each other's baseline.
+	 */
+	private async sampleNetwork() {
+		const counters = await readNetworkCounters()
+		const now = Date.now()
+		const previous = this.previousNetwork
+		this.previousNetwork = { at: now, counters }
+
+		const elapsedSeconds = previous ? (now - previous.at) / 1000 : 0
+		// Counters restart when an interface is recreated.
+		const rate = (current: number, before: number | undefined) =>
+			before !== undefined && elapsedSeconds > 0 && current >= before
+				? (current - before) / elapsedSeconds
+				: null
+
+		this.networkSample = [...counters].map(([name, { rxBytes, txBytes }]) => {
+			const before = previous?.counters.get(name)
+
+			return {
+				interface: name,
+				rxBytes,
+				txBytes,
+				rxBytesPerSecond: rate(rxBytes, before?.rxBytes),
+				txBytesPerSecond: rate(txBytes, before?.txBytes),
+			}
+		})
+	}
+
+	private async getNetworks(): Promise<HostNetworkInterfaceDto[]> {
+		// Before the first tick, read the counters once (rates are null).
+		if (!this.networkSample) {
+			await this.sampleNetwork()
+		}
+
+		return this.networkSample ?? []
+	}
+
+	/**
+	 * Docker disk usage of the socket host, the one the API itself runs on;
+	 * remote hosts are not part of this machine's stats.
+	 */
+	private getDockerDisk(): Promise<DockerDiskUsageDto | null> {
+		if (
+			this.dockerDisk &&
+			Date.now() - this.dockerDisk.at < DOCKER_DISK_TTL_MS
+		) {
+			return this.dockerDisk.usage
+		}
+
+		const local = this.dockerHosts
+			.list()
+			.find(host => host.protocol === 'socket')
+		const usage = local
+			? this.readDockerDisk(local.name)
+			: Promise.resolve(null)
+		this.dockerDisk = { at: Date.now(), usage }
+
+		return usage
+	}
+
+	private async readDockerDisk(
+		host: string,
+	): Promise<DockerDiskUsageDto | null> {
+		try {
+			const { docker } = this.dockerHosts.get(host)
+			const usage = (await docker.df()) as DockerDiskUsageResponse
+			const sum = (sizes: Array<number | undefined>) =>
+				sizes.reduce<number>((total, size) => total + Math.max(size ?? 0, 0), 0)
+
+			const imagesBytes = usage.LayersSize ?? 0
+			const containersBytes = sum(
+				(usage.Containers ?? []).map(container => container.SizeRw),
+			)
+			// Volumes report -1 when their size is unknown.
+			const volumesBytes = sum(
+				(usage.Volumes ?? []).map(volume => volume.UsageData?.Size),
+			)
+			const buildCacheBytes = sum(
+				(usage.BuildCache ?? []).map(entry => entry.Size),
+			)
+
+			return {
+				host,
+				imagesBytes,
+				containersBytes,
+				volumesBytes,
+				buildCacheBytes,
+				totalBytes:
+					imagesBytes + containersBytes + volumesBytes + buildCacheBytes,
+			}
+		} catch {
+			// Retried after the TTL rather than failing the host stats.
+			return null
+		}
+	}
+
 	async getHostStats(): Promise<HostStatsDto> {
 		try {
-			const totalMemBytes = os.totalmem()
-			const freeMemBytes = os.freemem()
-			const usedMemBytes = Math.max(totalMemBytes - freeMemBytes, 0)
+			const cpu = this.cpuSample
+			const [memory, disks, networks, cgroup, dockerDisk] = await Promise.all([
+				readMemoryInfo(),
+				readDisks(),
+				this.getNetworks(),
+				readCgroupLimits(),
+				this.getDockerDisk(),
+			])
+			const totalMemBytes = memory.totalBytes
+			const usedMemBytes = Math.max(totalMemBytes - memory.availableBytes, 0)
 			const usedMemPercent =
 				totalMemBytes > 0 ? (usedMemBytes / totalMemBytes) * 100 : 0
-			const uptimeSeconds = os.uptime()
-			const cpuPercent = await this.getCpuPercent()
+			const swapUsedBytes = Math.max(
+				memory.swapTotalBytes - memory.swapFreeBytes,
+				0,
+			)
+			const [oneMinute, fiveMinutes, fifteenMinutes] = os.loadavg()
 
 			return {
-				cpuPercent,
+				cpuPercent: cpu?.cpuPercent ?? 0,
+				perCpuPercent: cpu?.perCpuPercent ?? [],
+				cpuSampleAgeMs: cpu ? Date.now() - cpu.sampledAt : null,
+				cpuCount: os.cpus().length,
+				loadAverage: { oneMinute, fiveMinutes, fifteenMinutes },
 				totalMemBytes,
-				freeMemBytes,
+				freeMemBytes: memory.freeBytes,
+				availableMemBytes: memory.availableBytes,
 				usedMemBytes,
 				usedMemPercent,
-				uptimeSeconds,
+				swapTotalBytes: memory.swapTotalBytes,
+				swapUsedBytes,
+				swapPercent:
+					memory.swapTotalBytes > 0
+						? (swapUsedBytes / memory.swapTotalBytes) * 100
+						: 0,
+				uptimeSeconds: os.uptime(),
+				disks,
+				networks,
+				cgroup,
+				dockerDisk,
 			}
 		} catch (error) {
 			throw new BadGatewayException(
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common'
+import { TelemetryService } from './telemetry.service'
+
+@Module({
+	providers: [TelemetryService],
+	exports: [TelemetryService],
+})
+export class TelemetryModule {}
@@ -0,0 +1,103 @@
+import { TelemetryService } from './telemetry.service'
+
+const metricValues = async (telemetry: TelemetryService, name: string) =>
+	(await telemetry.registry.getSingleMetric(name)?.get())?.values ?? []
+
+const recordedPaths = async (telemetry: TelemetryService) => [
+	...new Set(
+		(
+			await metricValues(telemetry, 'kz_dashboard_docker_api_duration_seconds')
+		).map(value => value.labels.path),
+	),
+]
+
+// Histogram values are the buckets, then the `_sum` and `_count` series.
+const isCount = (value: object) =>
+	(value as { metricName?: string }).metricName?.endsWith('_count')
+
+describe('TelemetryService', () => {
+	it('replaces object ids in Docker API paths', async () => {
+		const telemetry = new TelemetryService()
+		telemetry.recordDockerCall(
+			'local',
+			'get',
+			'/containers/abc123/json',
+			0.01,
+			false,
+		)
+		telemetry.recordDockerCall(
+			'local',
+			'post',
+			'/exec/def456/start',
+			0.01,
+			false,
+		)
+		telemetry.recordDockerCall('local', 'get', '/volumes/dbdata', 0.01, false)
+
+		expect(await recordedPaths(telemetry)).toEqual([
+			'/containers/{id}/json',
+			'/exec/{id}/start',
+			'/volumes/{id}',
+		])
+	})
+
+	it('keeps collection routes and drops the query', async () => {
+		const telemetry = new TelemetryService()
+		telemetry.recordDockerCall(
+			'local',
+			'get',
+			'/containers/json?all=1',
+			0.01,
+			false,
+		)
+		telemetry.recordDockerCall(
+			'local',
+			'post',
+			'/images/create?fromImage=nginx',
+			0.01,
+			false,
+		)
+		telemetry.recordDockerCall('local', 'post', '/volumes/prune', 0.01, false)
+		telemetry.recordDockerCall('local', 'get', '/_ping', 0.01, false)
+
+		expect(await recordedPaths(telemetry)).toEqual([
+			'/containers/json',
+			'/images/create',
+			'/volumes/prune',
+			'/_ping',
+		])
+	})
+
+	it('labels calls with the upper-case method and outcome', async () => {
+		const telemetry = new TelemetryService()
+		telemetry.recordDockerCall('remote', 'delete', '/containers/abc', 0.2, true)
+
+		const count = (
+			await metricValues(telemetry, 'kz_dashboard_docker_api_duration_seconds')
+		).find(value => isCount(value))
+
+		expect(count?.labels).toEqual({
+			host: 'remote',
+			method: 'DELETE',
+			path: '/containers/{id}',
+			outcome: 'error',
+		})
+		expect(count?.value).toBe(1)
+	})
+
+	it('counts actions and failures by scope', async () => {
+		const telemetry = new TelemetryService()
+		telemetry.recordAction('bulk.stop', 3, 1)
+		telemetry.recordAction('container.start', 1, 0)
+
+		expect(await metricValues(telemetry, 'kz_dashboard_actions_total')).toEqual(
+			[
+				{ labels: { scope: 'bulk', action: 'stop' }, value: 3 },
+				{ labels: { scope: 'container', action: 'start' }, value: 1 },
+			],
+		)
+		expect(
+			await metricValues(telemetry, 'kz_dashboard_action_failures_total'),
+		).toEqual([{ labels: { scope: 'bulk', action: 'stop' }, value: 1 }])
+	})
+})
@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common'
+import { Counter, Histogram, Registry } from 'prom-client'
+
+// Path segments after these collections are object ids or names, which would
+// explode label cardinality.
+const ID_COLLECTIONS = new Set([
+	'containers',
+	'images',
+	'volumes',
+	'networks',
+	'exec',
+])
+const COLLECTION_VERBS = new Set(['json', 'create', 'prune', 'search', 'load'])
+
+/** Dashboard-internal counters, exported by the Prometheus endpoint. */
+@Injectable()
+export class TelemetryService {
+	readonly registry = new Registry()
+
+	private readonly actionsTotal = new Counter({
+		name: 'kz_dashboard_actions_total',
+		help: 'Container operations requested through the dashboard.',
+		labelNames: ['scope', 'action'],
+		registers: [this.registry],
+	})
+
+	private readonly actionFailuresTotal = new Counter({
+		name: 'kz_dashboard_action_failures_total',
+		help: 'Container operations that failed.',
+		labelNames: ['scope', 'action'],
+		registers: [this.registry],
+	})
+
+	private readonly dockerApiDuration = new Histogram({
+		name: 'kz_dashboard_docker_api_duration_seconds',
+		help: 'Latency of Docker Engine API calls until the response starts.',
+		labelNames: ['host', 'method', 'path', 'outcome'],
+		buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+		registers: [this.registry],
+	})
+
+	/** `action` is the audited action name, e.g. `bulk.stop`. */
+	recordAction(action: string, total: number, failed: number) {
+		const [scope, name = scope] = action.split('.')
+		this.actionsTotal.inc({ scope, action: name }, total)
+
+		if (failed > 0) {
+			this.actionFailuresTotal.inc({ scope, action: name }, failed)
+		}
+	}
+
+	recordDockerCall(
+		host: string,
+		method: string,
+		path: string,
+		seconds: number,
+		isError: boolean,
+	) {
+		this.dockerApiDuration.observe(
+			{
+				host,
+				method: method.toUpperCase(),
+				path: this.normalizePath(path),
+				outcome: isError ? 'error' : 'ok',
+			},
+			seconds,
+		)
+	}
+
+	private normalizePath(path: string): string {
+		const segments = path.split('?')[0].split('/')
+
+		return segments
+			.map((segment, index) =>
+				index > 0 &&
+				ID_COLLECTIONS.has(segments[index - 1]) &&
+				!COLLECTION_VERBS.has(segment) &&
+				segment.length > 0
+					? '{id}'
+					: segment,
+			)
+			.join('/')
+	}
+}
@@ -0,0 +1,39 @@
+export interface VolumeUsageDto {
+	containerId: string
+	containerName: string
+	destination: string
+	readOnly: boolean
+}
+
+export interface VolumeDto {
+	host: string
+	name: string
+	driver: string
+	mountpoint: string
+	scope: string
+	createdAt: string | null
+	labels: Record<string, string>
+	/** Containers (running or not) mounting the volume. */
+	usedBy: VolumeUsageDto[]
+}
+
+export interface VolumeDetailDto extends VolumeDto {
+	options: Record<string, string>
+	/** Size and reference count, when the driver reports them. */
+	sizeBytes: number | null
+}
+
+export interface PruneVolumesDto {
+	/** Also remove unused named volumes, not only anonymous ones. */
+	includeNamed?: boolean
+	/**
+	 * Required with `includeNamed`: the host name, or the `confirmationToken`
+	 * from the 428 response listing the volumes that would go.
+	 */
+	confirm?: string
+}
+
+export interface PruneVolumesResultDto {
+	deleted: string[]
+	spaceReclaimedBytes: number
+}
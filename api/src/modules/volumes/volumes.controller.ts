@@ -0,0 +1,32 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common'
+import { AuthUserDto } from '../auth/auth-user.dto'
+import { CurrentUser, Roles } from '../auth/auth.decorators'
+import { PruneVolumesDto } from './volume.dto'
+import { VolumesService } from './volumes.service'
+
+@Controller(['volumes', 'hosts/:host/volumes'])
+export class VolumesController {
+	constructor(private readonly volumesService: VolumesService) {}
+
+	@Get()
+	getVolumes(@Param('host') host?: string) {
+		return host
+			? this.volumesService.listVolumes(host)
+			: this.volumesService.listAllVolumes()
+	}
+
+	@Roles('operator')
+	@Post('prune')
+	pruneVolumes(
+		@Body() input: PruneVolumesDto,
+		@CurrentUser() user: AuthUserDto,
+		@Param('host') host?: string,
+	) {
+		return this.volumesService.pruneVolumes(host, input, user.username)
+	}
+
+	@Get(':name')
+	getVolume(@Param('name') name: string, @Param('host') host?: string) {
+		return this.volumesService.getVolume(host, name)
+	}
+}
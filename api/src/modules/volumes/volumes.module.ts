@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common'
+import { AuditModule } from '../audit/audit.module'
+import { HostsModule } from '../hosts/hosts.module'
+import { VolumesController } from './volumes.controller'
+import { VolumesService } from './volumes.service'
+
+@Module({
+	imports: [AuditModule, HostsModule],
+	controllers: [VolumesController],
+	providers: [VolumesService],
+})
+export class VolumesModule {}
@@ -0,0 +1,162 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import * as Docker from 'dockerode'
+import { AuditService } from '../audit/audit.service'
+import { requireConfirmation } from '../containers/confirmation'
+import { DockerHostsService } from '../hosts/docker-hosts.service'
+import {
+	PruneVolumesDto,
+	PruneVolumesResultDto,
+	VolumeDetailDto,
+	VolumeDto,
+	VolumeUsageDto,
+} from './volume.dto'
+
+interface DockerVolume {
+	Name: string
+	Driver: string
+	Mountpoint: string
+	Scope: string
+	CreatedAt?: string
+	Labels?: Record<string, string> | null
+	Options?: Record<string, string> | null
+	UsageData?: { Size: number; RefCount: number } | null
+}
+
+@Injectable()
+export class VolumesService {
+	constructor(
+		private readonly dockerHosts: DockerHostsService,
+		private readonly auditService: AuditService,
+	) {}
+
+	async listVolumes(host?: string): Promise<VolumeDto[]> {
+		const client = this.dockerHosts.get(host)
+
+		try {
+			const [result, containers] = await Promise.all([
+				client.docker.listVolumes(),
+				client.docker.listContainers({ all: true }),
+			])
+
+			return (result.Volumes ?? []).map(volume =>
+				this.toVolumeDto(client.name, volume, containers),
+			)
+		} catch (error) {
+			console.error(`Docker unavailable on ${client.name}:`, error)
+			return []
+		}
+	}
+
+	async listAllVolumes(): Promise<VolumeDto[]> {
+		const perHost = await Promise.all(
+			this.dockerHosts.all().map(client => this.listVolumes(client.name)),
+		)
+
+		return perHost.flat()
+	}
+
+	async getVolume(
+		host: string | undefined,
+		name: string,
+	): Promise<VolumeDetailDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+
+		let volume: DockerVolume
+		try {
+			volume = (await docker.getVolume(name).inspect()) as DockerVolume
+		} catch {
+			throw new NotFoundException(`Volume not found: ${name}`)
+		}
+
+		const containers = await docker.listContainers({
+			all: true,
+			filters: { volume: [name] },
+		})
+
+		return {
+			...this.toVolumeDto(hostName, volume, containers),
+			options: volume.Options ?? {},
+			sizeBytes:
+				volume.UsageData && volume.UsageData.Size >= 0
+					? volume.UsageData.Size
+					: null,
+		}
+	}
+
+	/**
+	 * Removes volumes no container uses. Docker only prunes anonymous volumes
+	 * unless `includeNamed` is set, which must be confirmed like container
+	 * removal since named volumes usually hold data.
+	 */
+	async pruneVolumes(
+		host: string | undefined,
+		input: PruneVolumesDto,
+		actor: string,
+	): Promise<PruneVolumesResultDto> {
+		const { name: hostName, docker } = this.dockerHosts.get(host)
+		if (input?.includeNamed) {
+			const unused = await docker.listVolumes({
+				filters: { dangling: ['true'] },
+			})
+			requireConfirmation(
+				'prune',
+				hostName,
+				hostName,
+				(unused.Volumes ?? []).map(volume => ({
+					id: volume.Name,
+					name: volume.Name,
+				})),
+				input.confirm,
+				'volume(s)',
+			)
+		}
+
+		const result = await docker.pruneVolumes(
+			input?.includeNamed ? { filters: { all: ['true'] } } : {},
+		)
+		const deleted = result.VolumesDeleted ?? []
+
+		await this.auditService.recordAction({
+			actor,
+			host: hostName,
+			action: 'volume.prune',
+			targets: deleted.map(name => ({ id: name, name })),
+			cluster: null,
+			failed: [],
+		})
+
+		return {
+			deleted,
+			spaceReclaimedBytes: result.SpaceReclaimed ?? 0,
+		}
+	}
+
+	private toVolumeDto(
+		host: string,
+		volume: DockerVolume,
+		containers: Docker.ContainerInfo[],
+	): VolumeDto {
+		const usedBy = containers.flatMap(container =>
+			(container.Mounts ?? [])
+				.filter(mount => mount.Type === 'volume' && mount.Name === volume.Name)
+				.map<VolumeUsageDto>(mount => ({
+					containerId: container.Id,
+					containerName:
+						container.Names?.[0]?.replace(/^\//, '') ?? container.Id,
+					destination: mount.Destination,
+					readOnly: !mount.RW,
+				})),
+		)
+
+		return {
+			host,
+			name: volume.Name,
+			driver: volume.Driver,
+			mountpoint: volume.Mountpoint,
+			scope: volume.Scope,
+			createdAt: volume.CreatedAt ?? null,
+			labels: volume.Labels ?? {},
+			usedBy,
+		}
+	}
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export async function GET() {
+	try {
+		const response = await fetch(`${BACKEND}/alerts/active`, {
+			cache: 'no-store',
+			headers: await sessionHeaders(),
+		})
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
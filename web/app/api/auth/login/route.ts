@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+interface LoginResult {
+	accessToken: string
+	expiresIn: string
+	user: { username: string; role: string }
+}
+
+export async function POST(request: Request) {
+	const payload = await request.text()
+
+	try {
+		const response = await fetch(`${BACKEND}/auth/login`, {
+			method: 'POST',
+			cache: 'no-store',
+			headers: {
+				'content-type': 'application/json',
+			},
+			body: payload,
+		})
+
+		if (!response.ok) {
+			const body = await response.text()
+
+			return new NextResponse(body, {
+				status: response.status,
+				headers: {
+					'content-type':
+						response.headers.get('content-type') ?? 'application/json',
+				},
+			})
+		}
+
+		const result = (await response.json()) as LoginResult
+		const nextResponse = NextResponse.json(result.user)
+		nextResponse.cookies.set(SESSION_COOKIE, result.accessToken, {
+			httpOnly: true,
+			sameSite: 'lax',
+			secure: process.env.SESSION_COOKIE_SECURE === 'true',
+			path: '/',
+		})
+
+		return nextResponse
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export async function GET() {
+	try {
+		const response = await fetch(`${BACKEND}/cluster-rules`, {
+			cache: 'no-store',
+			headers: await sessionHeaders(),
+		})
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
+
+export async function POST(request: Request) {
+	const payload = await request.text()
+	try {
+		const response = await fetch(`${BACKEND}/cluster-rules`, {
+			method: 'POST',
+			cache: 'no-store',
+			headers: {
+				'content-type': 'application/json',
+				...(await sessionHeaders()),
+			},
+			body: payload,
+		})
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
+
+export async function PUT(request: Request) {
+	const payload = await request.text()
+	try {
+		const response = await fetch(`${BACKEND}/cluster-rules`, {
+			method: 'PUT',
+			cache: 'no-store',
+			headers: {
+				'content-type': 'application/json',
+				...(await sessionHeaders()),
+			},
+			body: payload,
+		})
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
@@ -1,13 +1,23 @@
 import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
 
-const allowedActions = new Set(['start', 'stop', 'restart'])
+const allowedActions = new Set([
+	'start',
+	'stop',
+	'restart',
+	'pause',
+	'unpause',
+	'kill',
+	'remove',
+])
 const BACKEND =
 	process.env.BACKEND_URL ||
 	process.env.NEXT_PUBLIC_API_BASE ||
 	'http://localhost:3001'
 
 export async function POST(
-	_request: Request,
+	request: Request,
 	{ params }: { params: Promise<{ cluster: string; action: string }> },
 ) {
 	const { cluster, action } = await params
@@ -16,12 +26,19 @@ export async function POST(
 		return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
 	}
 
+	const payload = await request.text()
+
 	try {
 		const response = await fetch(
-			`${BACKEND}/clusters/${encodeURIComponent(cluster)}/${action}`,
+			`${BACKEND}${hostScope(request)}/clusters/${encodeURIComponent(cluster)}/${action}`,
 			{
 				method: 'POST',
 				cache: 'no-store',
+				headers: {
+					'content-type': 'application/json',
+					...(await sessionHeaders()),
+				},
+				body: payload || '{}',
 			},
 		)
 
@@ -1,13 +1,23 @@
 import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
 
-const allowedActions = new Set(['start', 'stop', 'restart'])
+const allowedActions = new Set([
+	'start',
+	'stop',
+	'restart',
+	'pause',
+	'unpause',
+	'kill',
+	'remove',
+])
 const BACKEND =
 	process.env.BACKEND_URL ||
 	process.env.NEXT_PUBLIC_API_BASE ||
 	'http://localhost:3001'
 
 export async function POST(
-	_request: Request,
+	request: Request,
 	{ params }: { params: Promise<{ id: string; action: string }> },
 ) {
 	const { id, action } = await params
@@ -16,10 +26,20 @@ export async function POST(
 		return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
 	}
 
-	const response = await fetch(`${BACKEND}/containers/${id}/${action}`, {
-		method: 'POST',
-		cache: 'no-store',
-	})
+	const payload = await request.text()
+
+	const response = await fetch(
+		`${BACKEND}${hostScope(request)}/containers/${id}/${action}`,
+		{
+			method: 'POST',
+			cache: 'no-store',
+			headers: {
+				'content-type': 'application/json',
+				...(await sessionHeaders()),
+			},
+			body: payload || '{}',
+		},
+	)
 
 	const body = await response.text()
 
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export async function PUT(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params
+	const payload = await request.text()
+
+	try {
+		const response = await fetch(
+			`${BACKEND}${hostScope(request)}/containers/${id}/limits`,
+			{
+				method: 'PUT',
+				cache: 'no-store',
+				headers: {
+					'content-type': 'application/json',
+					...(await sessionHeaders()),
+				},
+				body: payload || '{}',
+			},
+		)
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
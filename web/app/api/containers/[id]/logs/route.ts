@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
 
 const BACKEND =
 	process.env.BACKEND_URL ||
@@ -15,9 +17,10 @@ export async function GET(
 
 	try {
 		const response = await fetch(
-			`${BACKEND}/containers/${id}/logs?tail=${encodeURIComponent(tail)}`,
+			`${BACKEND}${hostScope(request)}/containers/${id}/logs?tail=${encodeURIComponent(tail)}`,
 			{
 				cache: 'no-store',
+				headers: await sessionHeaders(),
 			},
 		)
 
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params
+	const { searchParams } = new URL(request.url)
+	const tail = searchParams.get('tail') ?? '200'
+
+	try {
+		const response = await fetch(
+			`${BACKEND}${hostScope(request)}/containers/${id}/logs/stream?tail=${encodeURIComponent(tail)}`,
+			{
+				cache: 'no-store',
+				headers: await sessionHeaders(),
+				signal: request.signal,
+			},
+		)
+
+		// Pass the event stream through untouched; the browser's EventSource
+		// parses the frames.
+		return new NextResponse(response.body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'text/event-stream',
+				'cache-control': 'no-cache, no-transform',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
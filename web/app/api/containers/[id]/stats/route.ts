@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
 
 const BACKEND =
 	process.env.BACKEND_URL ||
@@ -6,14 +8,18 @@ const BACKEND =
 	'http://localhost:3001'
 
 export async function GET(
-	_request: Request,
+	request: Request,
 	{ params }: { params: Promise<{ id: string }> },
 ) {
 	const { id } = await params
 	try {
-		const response = await fetch(`${BACKEND}/containers/${id}/stats`, {
-			cache: 'no-store',
-		})
+		const response = await fetch(
+			`${BACKEND}${hostScope(request)}/containers/${id}/stats`,
+			{
+				cache: 'no-store',
+				headers: await sessionHeaders(),
+			},
+		)
 
 		const body = await response.text()
 
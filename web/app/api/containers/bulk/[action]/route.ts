@@ -1,6 +1,16 @@
 import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
 
-const allowedActions = new Set(['start', 'stop', 'restart'])
+const allowedActions = new Set([
+	'start',
+	'stop',
+	'restart',
+	'pause',
+	'unpause',
+	'kill',
+	'remove',
+])
 const BACKEND =
 	process.env.BACKEND_URL ||
 	process.env.NEXT_PUBLIC_API_BASE ||
@@ -18,14 +28,18 @@ export async function POST(
 
 	const payload = await request.text()
 
-	const response = await fetch(`${BACKEND}/containers/bulk/${action}`, {
-		method: 'POST',
-		cache: 'no-store',
-		headers: {
-			'content-type': 'application/json',
+	const response = await fetch(
+		`${BACKEND}${hostScope(request)}/containers/bulk/${action}`,
+		{
+			method: 'POST',
+			cache: 'no-store',
+			headers: {
+				'content-type': 'application/json',
+				...(await sessionHeaders()),
+			},
+			body: payload,
 		},
-		body: payload,
-	})
+	)
 
 	const body = await response.text()
 
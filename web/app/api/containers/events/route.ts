@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: Request) {
+	try {
+		const response = await fetch(
+			`${BACKEND}${hostScope(request)}/containers/events`,
+			{
+				cache: 'no-store',
+				headers: await sessionHeaders(),
+				signal: request.signal,
+			},
+		)
+
+		return new NextResponse(response.body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'text/event-stream',
+				'cache-control': 'no-cache, no-transform',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
@@ -1,14 +1,48 @@
 import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
 
 const BACKEND =
 	process.env.BACKEND_URL ||
 	process.env.NEXT_PUBLIC_API_BASE ||
 	'http://localhost:3001'
 
-export async function GET() {
+export async function GET(request: Request) {
 	try {
-		const response = await fetch(`${BACKEND}/containers`, {
+		const response = await fetch(`${BACKEND}${hostScope(request)}/containers`, {
 			cache: 'no-store',
+			headers: await sessionHeaders(),
+		})
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
+
+export async function POST(request: Request) {
+	const payload = await request.text()
+
+	try {
+		const response = await fetch(`${BACKEND}${hostScope(request)}/containers`, {
+			method: 'POST',
+			cache: 'no-store',
+			headers: {
+				'content-type': 'application/json',
+				...(await sessionHeaders()),
+			},
+			body: payload || '{}',
 		})
 
 		const body = await response.text()
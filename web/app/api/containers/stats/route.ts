@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export async function GET(request: Request) {
+	const ids = new URL(request.url).searchParams.get('ids') ?? ''
+	try {
+		const response = await fetch(
+			`${BACKEND}${hostScope(request)}/containers/stats?ids=${encodeURIComponent(ids)}`,
+			{
+				cache: 'no-store',
+				headers: await sessionHeaders(),
+			},
+		)
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { sessionHeaders } from '@/lib/session'
+
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params
+	try {
+		const response = await fetch(
+			`${BACKEND}/jobs/${encodeURIComponent(id)}/events`,
+			{
+				cache: 'no-store',
+				headers: await sessionHeaders(),
+				signal: request.signal,
+			},
+		)
+
+		return new NextResponse(response.body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'text/event-stream',
+				'cache-control': 'no-cache, no-transform',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { hostScope } from '@/lib/host-scope'
+import { sessionHeaders } from '@/lib/session'
+
+const allowedActions = new Set(['up', 'down', 'pull', 'redeploy'])
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
+export async function POST(
+	request: Request,
+	{ params }: { params: Promise<{ name: string; action: string }> },
+) {
+	const { name, action } = await params
+
+	if (!allowedActions.has(action)) {
+		return NextResponse.json({ message: 'Invalid action' }, { status: 400 })
+	}
+
+	try {
+		const response = await fetch(
+			`${BACKEND}${hostScope(request)}/stacks/${encodeURIComponent(name)}/${action}`,
+			{
+				method: 'POST',
+				cache: 'no-store',
+				headers: await sessionHeaders(),
+			},
+		)
+
+		const body = await response.text()
+
+		return new NextResponse(body, {
+			status: response.status,
+			headers: {
+				'content-type':
+					response.headers.get('content-type') ?? 'application/json',
+			},
+		})
+	} catch {
+		return NextResponse.json(
+			{ message: 'Failed to reach backend service' },
+			{ status: 502 },
+		)
+	}
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server'
+import { sessionHeaders } from '@/lib/session'
 
 const BACKEND =
 	process.env.BACKEND_URL ||
@@ -9,6 +10,7 @@ export async function GET() {
 	try {
 		const response = await fetch(`${BACKEND}/stats/host`, {
 			cache: 'no-store',
+			headers: await sessionHeaders(),
 		})
 
 		const body = await response.text()
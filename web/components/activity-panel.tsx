@@ -0,0 +1,275 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChevronLeft, ChevronRight, History, RefreshCw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+type AuditResult = 'success' | 'partial' | 'failure'
+
+interface AuditEntry {
+	id: string
+	timestamp: string
+	actor: string
+	action: string
+	targets: Array<{ id: string; name: string }>
+	cluster: string | null
+	result: AuditResult
+	failed: Array<{ id: string; name: string; error: string }>
+	changes?: Array<{ field: string; from: string | null; to: string | null }>
+}
+
+interface AuditPage {
+	total: number
+	limit: number
+	offset: number
+	entries: AuditEntry[]
+}
+
+const PAGE_SIZE = 25
+
+const resultBadgeClassName: Record<AuditResult, string> = {
+	success:
+		'border-emerald-500/40 bg-emerald-500/15 text-emerald-700 dark:text-emerald-300',
+	partial:
+		'border-amber-500/40 bg-amber-500/15 text-amber-700 dark:text-amber-300',
+	failure: 'border-rose-500/40 bg-rose-500/15 text-rose-700 dark:text-rose-300',
+}
+
+interface ActivityPanelProps {
+	refreshKey?: number
+}
+
+export function ActivityPanel({ refreshKey = 0 }: ActivityPanelProps) {
+	const [page, setPage] = useState<AuditPage | null>(null)
+	const [offset, setOffset] = useState(0)
+	const [actorFilter, setActorFilter] = useState('')
+	const [targetFilter, setTargetFilter] = useState('')
+	const [resultFilter, setResultFilter] = useState<'all' | AuditResult>('all')
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+	const fetchEntries = async () => {
+		const params = new URLSearchParams({
+			limit: String(PAGE_SIZE),
+			offset: String(offset),
+		})
+		if (actorFilter.trim()) {
+			params.set('actor', actorFilter.trim())
+		}
+		if (targetFilter.trim()) {
+			params.set('target', targetFilter.trim())
+		}
+		if (resultFilter !== 'all') {
+			params.set('result', resultFilter)
+		}
+
+		setIsLoading(true)
+		try {
+			const response = await fetch(`/api/audit?${params.toString()}`, {
+				cache: 'no-store',
+			})
+			if (!response.ok) {
+				throw new Error('Failed to load activity')
+			}
+
+			setPage((await response.json()) as AuditPage)
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Activity log unavailable')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		void fetchEntries()
+	}, [offset, resultFilter, refreshKey])
+
+	useEffect(() => {
+		setOffset(0)
+	}, [actorFilter, targetFilter, resultFilter])
+
+	const total = page?.total ?? 0
+	const pageEnd = Math.min(offset + PAGE_SIZE, total)
+
+	return (
+		<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+			<CardHeader className='pb-3'>
+				<div className='flex items-center justify-between gap-3'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<History className='h-4 w-4 text-muted-foreground' />
+						Recent actions
+					</CardTitle>
+					<IconButton
+						variant='outline'
+						size='sm'
+						aria-label='Refresh activity'
+						onClick={() => void fetchEntries()}
+						disabled={isLoading}
+						icon={
+							<RefreshCw
+								className={cn('h-4 w-4', isLoading && 'animate-spin')}
+							/>
+						}
+					/>
+				</div>
+				<form
+					className='flex flex-col gap-2 pt-2 md:flex-row'
+					onSubmit={event => {
+						event.preventDefault()
+						void fetchEntries()
+					}}
+				>
+					<Input
+						placeholder='Actor'
+						value={actorFilter}
+						onChange={event => setActorFilter(event.target.value)}
+						className='md:w-40'
+					/>
+					<Input
+						placeholder='Container name or id'
+						value={targetFilter}
+						onChange={event => setTargetFilter(event.target.value)}
+						className='md:max-w-xs'
+					/>
+					<Select
+						value={resultFilter}
+						onChange={event =>
+							setResultFilter(event.target.value as 'all' | AuditResult)
+						}
+						className='md:w-40'
+					>
+						<option value='all'>All results</option>
+						<option value='success'>Success</option>
+						<option value='partial'>Partial</option>
+						<option value='failure'>Failure</option>
+					</Select>
+					<Button type='submit' size='sm' variant='secondary' className='h-9'>
+						Apply
+					</Button>
+				</form>
+			</CardHeader>
+			<CardContent className='space-y-3'>
+				{errorMessage ? (
+					<p className='text-sm text-destructive'>{errorMessage}</p>
+				) : !page || page.entries.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						{isLoading ? 'Loading...' : 'No recorded actions.'}
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Time</TableHead>
+								<TableHead>Actor</TableHead>
+								<TableHead>Action</TableHead>
+								<TableHead>Targets</TableHead>
+								<TableHead>Result</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{page.entries.map(entry => (
+								<TableRow key={entry.id}>
+									<TableCell className='whitespace-nowrap font-mono text-xs text-muted-foreground'>
+										{new Date(entry.timestamp).toLocaleString()}
+									</TableCell>
+									<TableCell>{entry.actor}</TableCell>
+									<TableCell>
+										<span className='font-mono text-xs'>{entry.action}</span>
+										{entry.cluster && (
+											<Badge variant='secondary' className='ml-2'>
+												{entry.cluster}
+											</Badge>
+										)}
+									</TableCell>
+									<TableCell className='max-w-xs'>
+										<p className='truncate text-xs text-muted-foreground'>
+											{entry.targets.length === 0
+												? 'none'
+												: entry.targets.map(target => target.name).join(', ')}
+										</p>
+										{entry.failed.length > 0 && (
+											<details className='mt-1 text-xs'>
+												<summary className='cursor-pointer text-rose-600 dark:text-rose-400'>
+													{entry.failed.length} failed
+												</summary>
+												<div className='mt-1 space-y-1 text-muted-foreground'>
+													{entry.failed.map(item => (
+														<p key={item.id}>
+															{item.name}: {item.error}
+														</p>
+													))}
+												</div>
+											</details>
+										)}
+										{entry.changes && entry.changes.length > 0 && (
+											<details className='mt-1 text-xs'>
+												<summary className='cursor-pointer text-muted-foreground'>
+													{entry.changes.length} changed
+												</summary>
+												<div className='mt-1 space-y-1 font-mono text-muted-foreground'>
+													{entry.changes.map(change => (
+														<p key={change.field}>
+															{change.field}: {change.from ?? 'unset'} →{' '}
+															{change.to ?? 'unset'}
+														</p>
+													))}
+												</div>
+											</details>
+										)}
+									</TableCell>
+									<TableCell>
+										<Badge
+											variant='secondary'
+											className={resultBadgeClassName[entry.result]}
+										>
+											{entry.result}
+										</Badge>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+
+				<div className='flex items-center justify-between text-xs text-muted-foreground'>
+					<p>
+						{total === 0 ? '0' : `${offset + 1}–${pageEnd}`} of {total}
+					</p>
+					<div className='flex gap-2'>
+						<IconButton
+							variant='outline'
+							size='sm'
+							aria-label='Previous page'
+							onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+							disabled={offset === 0 || isLoading}
+							icon={<ChevronLeft className='h-4 w-4' />}
+						/>
+						<IconButton
+							variant='outline'
+							size='sm'
+							aria-label='Next page'
+							onClick={() => setOffset(offset + PAGE_SIZE)}
+							disabled={pageEnd >= total || isLoading}
+							icon={<ChevronRight className='h-4 w-4' />}
+						/>
+					</div>
+				</div>
+			</CardContent>
+		</Card>
+	)
+}
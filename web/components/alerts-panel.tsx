@@ -0,0 +1,577 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BellOff, BellRing, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+type AlertSeverity = 'info' | 'warning' | 'critical'
+
+type AlertOperator = '>' | '>=' | '<' | '<=' | '==' | '!='
+
+interface AlertRule {
+	id: string
+	name: string
+	metric: string
+	operator: AlertOperator
+	value: number | string
+	forSeconds: number
+	severity: AlertSeverity
+	enabled: boolean
+	selector: { host?: string; name?: string; cluster?: string } | null
+	channels: string[]
+	silencedUntil: string | null
+}
+
+interface ActiveAlert {
+	id: string
+	ruleId: string
+	ruleName: string
+	severity: AlertSeverity
+	metric: string
+	subject: string
+	host: string | null
+	value: number | string
+	threshold: number | string
+	firingSince: string | null
+	silenced: boolean
+}
+
+interface AlertChannel {
+	id: string
+	type: 'webhook' | 'slack' | 'smtp'
+	target: string
+}
+
+const METRICS = [
+	{ value: 'container.state', label: 'Container state', isText: true },
+	{ value: 'container.health', label: 'Container health', isText: true },
+	{ value: 'container.restarts', label: 'Restarts (15 min)' },
+	{ value: 'container.cpuPercent', label: 'Container CPU %' },
+	{ value: 'container.memPercent', label: 'Container memory %' },
+	{ value: 'container.memUsageBytes', label: 'Container memory bytes' },
+	{ value: 'container.pids', label: 'Container PIDs' },
+	{ value: 'host.cpuPercent', label: 'Host CPU %' },
+	{ value: 'host.usedMemPercent', label: 'Host memory %' },
+	{ value: 'host.usedMemBytes', label: 'Host memory used bytes' },
+	{ value: 'host.freeMemBytes', label: 'Host memory free bytes' },
+]
+
+const ACTIVE_REFRESH_MS = 15000
+
+const severityBadgeClassName: Record<AlertSeverity, string> = {
+	info: 'border-sky-500/40 bg-sky-500/15 text-sky-700 dark:text-sky-300',
+	warning:
+		'border-amber-500/40 bg-amber-500/15 text-amber-700 dark:text-amber-300',
+	critical:
+		'border-rose-500/40 bg-rose-500/15 text-rose-700 dark:text-rose-300',
+}
+
+const isSilenced = (rule: AlertRule) =>
+	rule.silencedUntil !== null && Date.parse(rule.silencedUntil) > Date.now()
+
+const readError = async (response: Response, fallback: string) => {
+	try {
+		const body = (await response.json()) as { message?: string }
+		return body.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+interface AlertsPanelProps {
+	canOperate: boolean
+}
+
+export function AlertsPanel({ canOperate }: AlertsPanelProps) {
+	const [activeAlerts, setActiveAlerts] = useState<ActiveAlert[]>([])
+	const [rules, setRules] = useState<AlertRule[]>([])
+	const [channels, setChannels] = useState<AlertChannel[]>([])
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [isFormOpen, setIsFormOpen] = useState(false)
+	const [formName, setFormName] = useState('')
+	const [formMetric, setFormMetric] = useState(METRICS[0].value)
+	const [formOperator, setFormOperator] = useState<AlertOperator>('==')
+	const [formValue, setFormValue] = useState('')
+	const [formFor, setFormFor] = useState('120')
+	const [formSeverity, setFormSeverity] = useState<AlertSeverity>('warning')
+	const [formSelector, setFormSelector] = useState('')
+	const [formChannels, setFormChannels] = useState<string[]>([])
+	const [isSaving, setIsSaving] = useState(false)
+
+	const isTextMetric =
+		METRICS.find(metric => metric.value === formMetric)?.isText ?? false
+	const isHostMetric = formMetric.startsWith('host.')
+
+	const fetchActive = async () => {
+		try {
+			const response = await fetch('/api/alerts/active', { cache: 'no-store' })
+			if (!response.ok) {
+				throw new Error('Failed to load alerts')
+			}
+
+			setActiveAlerts((await response.json()) as ActiveAlert[])
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Alerts unavailable')
+		}
+	}
+
+	const fetchRules = async () => {
+		try {
+			const [rulesResponse, channelsResponse] = await Promise.all([
+				fetch('/api/alerts/rules', { cache: 'no-store' }),
+				fetch('/api/alerts/channels', { cache: 'no-store' }),
+			])
+			if (!rulesResponse.ok || !channelsResponse.ok) {
+				throw new Error('Failed to load alert rules')
+			}
+
+			setRules((await rulesResponse.json()) as AlertRule[])
+			setChannels((await channelsResponse.json()) as AlertChannel[])
+		} catch {
+			setErrorMessage('Alert rules unavailable')
+		}
+	}
+
+	const refresh = async () => {
+		setIsLoading(true)
+		await Promise.all([fetchActive(), fetchRules()])
+		setIsLoading(false)
+	}
+
+	useEffect(() => {
+		void refresh()
+		const intervalId = setInterval(() => void fetchActive(), ACTIVE_REFRESH_MS)
+
+		return () => {
+			clearInterval(intervalId)
+		}
+	}, [])
+
+	const saveRule = async (rule: Partial<AlertRule>) => {
+		const response = await fetch('/api/alerts/rules', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify(rule),
+		})
+		if (!response.ok) {
+			throw new Error(await readError(response, 'Failed to save rule'))
+		}
+	}
+
+	const createRule = async (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault()
+		setIsSaving(true)
+		try {
+			await saveRule({
+				name: formName,
+				metric: formMetric,
+				operator: formOperator,
+				value: isTextMetric ? formValue : Number(formValue),
+				forSeconds: Number(formFor),
+				severity: formSeverity,
+				selector:
+					!isHostMetric && formSelector.trim()
+						? { name: formSelector.trim() }
+						: null,
+				channels: formChannels,
+			})
+			toast.success('Alert rule created')
+			setFormName('')
+			setFormValue('')
+			setFormSelector('')
+			setIsFormOpen(false)
+			await fetchRules()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Save failed')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const toggleRule = async (rule: AlertRule) => {
+		try {
+			await saveRule({ ...rule, enabled: !rule.enabled })
+			await fetchRules()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Save failed')
+		}
+	}
+
+	const silenceRule = async (rule: AlertRule, minutes: number) => {
+		try {
+			const response = await fetch(
+				`/api/alerts/rules/${encodeURIComponent(rule.id)}/silence`,
+				{
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify({ minutes }),
+				},
+			)
+			if (!response.ok) {
+				throw new Error(await readError(response, 'Failed to silence rule'))
+			}
+
+			toast.success(minutes === 0 ? 'Rule unsilenced' : 'Rule silenced for 1h')
+			await Promise.all([fetchRules(), fetchActive()])
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Silence failed')
+		}
+	}
+
+	const deleteRule = async (rule: AlertRule) => {
+		if (!window.confirm(`Delete alert rule "${rule.name}"?`)) {
+			return
+		}
+
+		try {
+			const response = await fetch(
+				`/api/alerts/rules/${encodeURIComponent(rule.id)}`,
+				{ method: 'DELETE' },
+			)
+			if (!response.ok) {
+				throw new Error(await readError(response, 'Failed to delete rule'))
+			}
+
+			await fetchRules()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Delete failed')
+		}
+	}
+
+	return (
+		<div className='space-y-4'>
+			<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+				<CardHeader className='pb-3'>
+					<div className='flex items-center justify-between gap-3'>
+						<CardTitle className='flex items-center gap-2 text-sm'>
+							<BellRing className='h-4 w-4 text-muted-foreground' />
+							Firing alerts
+							{activeAlerts.length > 0 && (
+								<Badge
+									variant='secondary'
+									className={severityBadgeClassName.critical}
+								>
+									{activeAlerts.length}
+								</Badge>
+							)}
+						</CardTitle>
+						<IconButton
+							variant='outline'
+							size='sm'
+							aria-label='Refresh alerts'
+							onClick={() => void refresh()}
+							disabled={isLoading}
+							icon={
+								<RefreshCw
+									className={cn('h-4 w-4', isLoading && 'animate-spin')}
+								/>
+							}
+						/>
+					</div>
+				</CardHeader>
+				<CardContent>
+					{errorMessage ? (
+						<p className='text-sm text-destructive'>{errorMessage}</p>
+					) : activeAlerts.length === 0 ? (
+						<p className='text-sm text-muted-foreground'>Nothing is firing.</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Severity</TableHead>
+									<TableHead>Rule</TableHead>
+									<TableHead>Subject</TableHead>
+									<TableHead>Value</TableHead>
+									<TableHead>Since</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{activeAlerts.map(alert => (
+									<TableRow key={alert.id}>
+										<TableCell>
+											<Badge
+												variant='secondary'
+												className={severityBadgeClassName[alert.severity]}
+											>
+												{alert.severity}
+											</Badge>
+										</TableCell>
+										<TableCell>
+											{alert.ruleName}
+											{alert.silenced && (
+												<BellOff
+													className='ml-2 inline h-3.5 w-3.5 text-muted-foreground'
+													aria-label='Silenced'
+												/>
+											)}
+										</TableCell>
+										<TableCell className='text-xs'>
+											{alert.subject}
+											{alert.host && (
+												<span className='text-muted-foreground'>
+													{' '}
+													· {alert.host}
+												</span>
+											)}
+										</TableCell>
+										<TableCell className='font-mono text-xs'>
+											{alert.value}
+											<span className='text-muted-foreground'>
+												{' '}
+												/ {alert.threshold}
+											</span>
+										</TableCell>
+										<TableCell className='whitespace-nowrap font-mono text-xs text-muted-foreground'>
+											{alert.firingSince
+												? new Date(alert.firingSince).toLocaleString()
+												: '—'}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+				<CardHeader className='pb-3'>
+					<div className='flex items-center justify-between gap-3'>
+						<CardTitle className='text-sm'>Rules</CardTitle>
+						{canOperate && (
+							<Button
+								size='sm'
+								variant='outline'
+								onClick={() => setIsFormOpen(!isFormOpen)}
+							>
+								<Plus className='mr-1 h-4 w-4' />
+								New rule
+							</Button>
+						)}
+					</div>
+					{canOperate && isFormOpen && (
+						<form
+							className='grid gap-2 pt-2 md:grid-cols-4'
+							onSubmit={event => void createRule(event)}
+						>
+							<Input
+								placeholder='Rule name'
+								value={formName}
+								onChange={event => setFormName(event.target.value)}
+								className='md:col-span-2'
+							/>
+							<Select
+								value={formMetric}
+								onChange={event => {
+									const metric = METRICS.find(
+										item => item.value === event.target.value,
+									)
+									setFormMetric(event.target.value)
+									setFormOperator(metric?.isText ? '==' : '>')
+								}}
+								className='md:col-span-2'
+							>
+								{METRICS.map(metric => (
+									<option key={metric.value} value={metric.value}>
+										{metric.label}
+									</option>
+								))}
+							</Select>
+							<Select
+								value={formOperator}
+								onChange={event =>
+									setFormOperator(event.target.value as AlertOperator)
+								}
+							>
+								{(isTextMetric
+									? ['==', '!=']
+									: ['>', '>=', '<', '<=', '==', '!=']
+								).map(operator => (
+									<option key={operator} value={operator}>
+										{operator}
+									</option>
+								))}
+							</Select>
+							<Input
+								placeholder={isTextMetric ? 'e.g. exited, unhealthy' : 'Value'}
+								value={formValue}
+								onChange={event => setFormValue(event.target.value)}
+							/>
+							<Input
+								type='number'
+								min={0}
+								placeholder='For (seconds)'
+								value={formFor}
+								onChange={event => setFormFor(event.target.value)}
+							/>
+							<Select
+								value={formSeverity}
+								onChange={event =>
+									setFormSeverity(event.target.value as AlertSeverity)
+								}
+							>
+								<option value='info'>Info</option>
+								<option value='warning'>Warning</option>
+								<option value='critical'>Critical</option>
+							</Select>
+							{!isHostMetric && (
+								<Input
+									placeholder='Container name contains (optional)'
+									value={formSelector}
+									onChange={event => setFormSelector(event.target.value)}
+									className='md:col-span-2'
+								/>
+							)}
+							<div className='flex flex-wrap items-center gap-3 text-xs md:col-span-2'>
+								{channels.length === 0 ? (
+									<span className='text-muted-foreground'>
+										No notification channels configured.
+									</span>
+								) : (
+									channels.map(channel => (
+										<label
+											key={channel.id}
+											className='flex items-center gap-1.5'
+										>
+											<input
+												type='checkbox'
+												checked={formChannels.includes(channel.id)}
+												onChange={event =>
+													setFormChannels(
+														event.target.checked
+															? [...formChannels, channel.id]
+															: formChannels.filter(id => id !== channel.id),
+													)
+												}
+											/>
+											{channel.id}
+											<span className='text-muted-foreground'>
+												({channel.type})
+											</span>
+										</label>
+									))
+								)}
+							</div>
+							<Button
+								type='submit'
+								size='sm'
+								className='h-9 md:col-start-4'
+								disabled={
+									isSaving ||
+									formName.trim().length === 0 ||
+									formValue.trim().length === 0
+								}
+							>
+								Create rule
+							</Button>
+						</form>
+					)}
+				</CardHeader>
+				<CardContent>
+					{rules.length === 0 ? (
+						<p className='text-sm text-muted-foreground'>No alert rules.</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Rule</TableHead>
+									<TableHead>Condition</TableHead>
+									<TableHead>Severity</TableHead>
+									<TableHead>Channels</TableHead>
+									{canOperate && <TableHead className='text-right' />}
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{rules.map(rule => (
+									<TableRow
+										key={rule.id}
+										className={cn(!rule.enabled && 'opacity-60')}
+									>
+										<TableCell>
+											{rule.name}
+											{isSilenced(rule) && (
+												<p className='text-xs text-muted-foreground'>
+													Silenced until{' '}
+													{new Date(rule.silencedUntil ?? '').toLocaleString()}
+												</p>
+											)}
+										</TableCell>
+										<TableCell className='font-mono text-xs'>
+											{rule.metric} {rule.operator} {rule.value}
+											{rule.forSeconds > 0 && ` for ${rule.forSeconds}s`}
+											{rule.selector?.name && (
+												<span className='text-muted-foreground'>
+													{' '}
+													· name ~ {rule.selector.name}
+												</span>
+											)}
+										</TableCell>
+										<TableCell>
+											<Badge
+												variant='secondary'
+												className={severityBadgeClassName[rule.severity]}
+											>
+												{rule.severity}
+											</Badge>
+										</TableCell>
+										<TableCell className='text-xs text-muted-foreground'>
+											{rule.channels.length > 0
+												? rule.channels.join(', ')
+												: 'none'}
+										</TableCell>
+										{canOperate && (
+											<TableCell>
+												<div className='flex justify-end gap-2'>
+													<Button
+														size='sm'
+														variant='outline'
+														onClick={() => void toggleRule(rule)}
+													>
+														{rule.enabled ? 'Disable' : 'Enable'}
+													</Button>
+													<Button
+														size='sm'
+														variant='outline'
+														onClick={() =>
+															void silenceRule(rule, isSilenced(rule) ? 0 : 60)
+														}
+													>
+														{isSilenced(rule) ? 'Unsilence' : 'Silence 1h'}
+													</Button>
+													<IconButton
+														variant='outline'
+														size='sm'
+														aria-label={`Delete ${rule.name}`}
+														onClick={() => void deleteRule(rule)}
+														icon={<Trash2 className='h-4 w-4' />}
+													/>
+												</div>
+											</TableCell>
+										)}
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
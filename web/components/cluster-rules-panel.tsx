@@ -0,0 +1,440 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowDown, ArrowUp, Eye, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+type ClusterRuleMatch = 'label' | 'name' | 'image' | 'composeProject'
+
+interface ClusterRule {
+	id: string
+	match: ClusterRuleMatch
+	label: string | null
+	pattern: string | null
+	cluster: string | null
+	enabled: boolean
+}
+
+interface PreviewContainer {
+	host: string
+	id: string
+	name: string
+	image: string
+	cluster: string
+}
+
+interface ClusterRulesPreview {
+	rules: Array<{ ruleId: string; containers: PreviewContainer[] }>
+	unmatched: PreviewContainer[]
+}
+
+const MATCHES: Array<{ value: ClusterRuleMatch; label: string }> = [
+	{ value: 'label', label: 'Label' },
+	{ value: 'composeProject', label: 'Compose project' },
+	{ value: 'name', label: 'Name regex' },
+	{ value: 'image', label: 'Image regex' },
+]
+
+const DRAFT_RULE_ID = 'draft'
+const PREVIEW_NAME_LIMIT = 6
+
+const readError = async (response: Response, fallback: string) => {
+	try {
+		const body = (await response.json()) as { message?: string }
+		return body.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+const describeRule = (rule: ClusterRule) => {
+	const subject =
+		rule.match === 'label'
+			? `label ${rule.label}`
+			: rule.match === 'composeProject'
+				? 'compose project'
+				: rule.match
+
+	return rule.pattern ? `${subject} ~ /${rule.pattern}/i` : `${subject} is set`
+}
+
+interface ClusterRulesPanelProps {
+	canOperate: boolean
+}
+
+export function ClusterRulesPanel({ canOperate }: ClusterRulesPanelProps) {
+	const [rules, setRules] = useState<ClusterRule[]>([])
+	const [preview, setPreview] = useState<ClusterRulesPreview | null>(null)
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [isFormOpen, setIsFormOpen] = useState(false)
+	const [formMatch, setFormMatch] = useState<ClusterRuleMatch>('name')
+	const [formLabel, setFormLabel] = useState('')
+	const [formPattern, setFormPattern] = useState('')
+	const [formCluster, setFormCluster] = useState('')
+	const [draftPreview, setDraftPreview] = useState<PreviewContainer[] | null>(
+		null,
+	)
+	const [isSaving, setIsSaving] = useState(false)
+
+	const draftRule = {
+		id: DRAFT_RULE_ID,
+		match: formMatch,
+		label: formMatch === 'label' ? formLabel : null,
+		pattern: formPattern || null,
+		cluster: formCluster || null,
+	}
+
+	const requestPreview = async (draftRules?: Array<Partial<ClusterRule>>) => {
+		const response = await fetch('/api/cluster-rules/preview', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify(draftRules ? { rules: draftRules } : {}),
+		})
+		if (!response.ok) {
+			throw new Error(await readError(response, 'Preview failed'))
+		}
+
+		return (await response.json()) as ClusterRulesPreview
+	}
+
+	const refresh = async () => {
+		setIsLoading(true)
+		try {
+			const response = await fetch('/api/cluster-rules', { cache: 'no-store' })
+			if (!response.ok) {
+				throw new Error('Failed to load cluster rules')
+			}
+
+			setRules((await response.json()) as ClusterRule[])
+			// Previews are operator-only: they run the rules' patterns.
+			setPreview(canOperate ? await requestPreview() : null)
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Cluster rules unavailable')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		void refresh()
+	}, [])
+
+	const sendRules = async (
+		method: 'POST' | 'PUT',
+		body: Partial<ClusterRule> | ClusterRule[],
+	) => {
+		const response = await fetch('/api/cluster-rules', {
+			method,
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify(body),
+		})
+		if (!response.ok) {
+			throw new Error(await readError(response, 'Failed to save rules'))
+		}
+
+		await refresh()
+	}
+
+	const previewDraft = async () => {
+		try {
+			// The draft goes last, as it would once saved.
+			const result = await requestPreview([...rules, draftRule])
+			setDraftPreview(
+				result.rules.find(item => item.ruleId === DRAFT_RULE_ID)?.containers ??
+					[],
+			)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Preview failed')
+		}
+	}
+
+	const createRule = async (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault()
+		setIsSaving(true)
+		try {
+			await sendRules('POST', { ...draftRule, id: undefined })
+			toast.success('Cluster rule created')
+			setFormLabel('')
+			setFormPattern('')
+			setFormCluster('')
+			setDraftPreview(null)
+			setIsFormOpen(false)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Save failed')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	const moveRule = async (index: number, offset: number) => {
+		const reordered = [...rules]
+		const [rule] = reordered.splice(index, 1)
+		reordered.splice(index + offset, 0, rule)
+
+		try {
+			await sendRules('PUT', reordered)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Reorder failed')
+		}
+	}
+
+	const toggleRule = async (rule: ClusterRule) => {
+		try {
+			await sendRules('POST', { ...rule, enabled: !rule.enabled })
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Save failed')
+		}
+	}
+
+	const deleteRule = async (rule: ClusterRule) => {
+		if (!window.confirm(`Delete cluster rule "${describeRule(rule)}"?`)) {
+			return
+		}
+
+		try {
+			const response = await fetch(
+				`/api/cluster-rules/${encodeURIComponent(rule.id)}`,
+				{ method: 'DELETE' },
+			)
+			if (!response.ok) {
+				throw new Error(await readError(response, 'Failed to delete rule'))
+			}
+
+			await refresh()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Delete failed')
+		}
+	}
+
+	const capturedBy = (ruleId: string) =>
+		preview?.rules.find(item => item.ruleId === ruleId)?.containers ?? []
+
+	const renderCaptured = (containers: PreviewContainer[]) =>
+		containers.length === 0 ? (
+			<span className='text-muted-foreground'>none</span>
+		) : (
+			<>
+				{containers
+					.slice(0, PREVIEW_NAME_LIMIT)
+					.map(container => `${container.name} → ${container.cluster}`)
+					.join(', ')}
+				{containers.length > PREVIEW_NAME_LIMIT && (
+					<span className='text-muted-foreground'>
+						{' '}
+						+{containers.length - PREVIEW_NAME_LIMIT} more
+					</span>
+				)}
+			</>
+		)
+
+	return (
+		<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+			<CardHeader className='pb-3'>
+				<div className='flex items-center justify-between gap-3'>
+					<CardTitle className='text-sm'>Cluster rules</CardTitle>
+					<div className='flex items-center gap-2'>
+						{canOperate && (
+							<Button
+								size='sm'
+								variant='outline'
+								onClick={() => setIsFormOpen(!isFormOpen)}
+							>
+								<Plus className='mr-1 h-4 w-4' />
+								New rule
+							</Button>
+						)}
+						<IconButton
+							variant='outline'
+							size='sm'
+							aria-label='Refresh cluster rules'
+							onClick={() => void refresh()}
+							disabled={isLoading}
+							icon={
+								<RefreshCw
+									className={cn('h-4 w-4', isLoading && 'animate-spin')}
+								/>
+							}
+						/>
+					</div>
+				</div>
+				<p className='text-xs text-muted-foreground'>
+					The first enabled rule that matches a container sets its cluster;
+					without a cluster name the matched value is used. Unmatched containers
+					go to &quot;other&quot;.
+				</p>
+				{canOperate && isFormOpen && (
+					<form
+						className='grid gap-2 pt-2 md:grid-cols-4'
+						onSubmit={event => void createRule(event)}
+					>
+						<Select
+							value={formMatch}
+							onChange={event => {
+								setFormMatch(event.target.value as ClusterRuleMatch)
+								setDraftPreview(null)
+							}}
+						>
+							{MATCHES.map(match => (
+								<option key={match.value} value={match.value}>
+									{match.label}
+								</option>
+							))}
+						</Select>
+						{formMatch === 'label' && (
+							<Input
+								placeholder='Label key, e.g. team'
+								value={formLabel}
+								onChange={event => setFormLabel(event.target.value)}
+							/>
+						)}
+						<Input
+							placeholder={
+								formMatch === 'name' || formMatch === 'image'
+									? 'Regex, e.g. ^shop-'
+									: 'Value regex (optional)'
+							}
+							value={formPattern}
+							maxLength={200}
+							onChange={event => setFormPattern(event.target.value)}
+						/>
+						<Input
+							placeholder={
+								formMatch === 'name' || formMatch === 'image'
+									? 'Cluster'
+									: 'Cluster (optional)'
+							}
+							value={formCluster}
+							onChange={event => setFormCluster(event.target.value)}
+						/>
+						<div className='flex items-start gap-2 md:col-span-4'>
+							<Button
+								type='button'
+								size='sm'
+								variant='outline'
+								onClick={() => void previewDraft()}
+							>
+								<Eye className='mr-1 h-4 w-4' />
+								Preview
+							</Button>
+							<Button type='submit' size='sm' disabled={isSaving}>
+								Create rule
+							</Button>
+							{draftPreview && (
+								<p className='pt-1.5 text-xs'>
+									Would capture: {renderCaptured(draftPreview)}
+								</p>
+							)}
+						</div>
+					</form>
+				)}
+			</CardHeader>
+			<CardContent>
+				{errorMessage ? (
+					<p className='text-sm text-destructive'>{errorMessage}</p>
+				) : rules.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						No cluster rules; every container is in &quot;other&quot;.
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead className='w-10'>#</TableHead>
+								<TableHead>Match</TableHead>
+								<TableHead>Cluster</TableHead>
+								<TableHead>Captures</TableHead>
+								{canOperate && <TableHead className='text-right' />}
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{rules.map((rule, index) => (
+								<TableRow
+									key={rule.id}
+									className={cn(!rule.enabled && 'opacity-60')}
+								>
+									<TableCell className='font-mono text-xs text-muted-foreground'>
+										{index + 1}
+									</TableCell>
+									<TableCell className='font-mono text-xs'>
+										{describeRule(rule)}
+									</TableCell>
+									<TableCell>
+										{rule.cluster ? (
+											<Badge variant='secondary'>{rule.cluster}</Badge>
+										) : (
+											<span className='text-xs text-muted-foreground'>
+												matched value
+											</span>
+										)}
+									</TableCell>
+									<TableCell className='text-xs'>
+										{renderCaptured(capturedBy(rule.id))}
+									</TableCell>
+									{canOperate && (
+										<TableCell>
+											<div className='flex justify-end gap-2'>
+												<IconButton
+													variant='outline'
+													size='sm'
+													aria-label='Move up'
+													disabled={index === 0}
+													onClick={() => void moveRule(index, -1)}
+													icon={<ArrowUp className='h-4 w-4' />}
+												/>
+												<IconButton
+													variant='outline'
+													size='sm'
+													aria-label='Move down'
+													disabled={index === rules.length - 1}
+													onClick={() => void moveRule(index, 1)}
+													icon={<ArrowDown className='h-4 w-4' />}
+												/>
+												<Button
+													size='sm'
+													variant='outline'
+													onClick={() => void toggleRule(rule)}
+												>
+													{rule.enabled ? 'Disable' : 'Enable'}
+												</Button>
+												<IconButton
+													variant='outline'
+													size='sm'
+													aria-label={`Delete ${describeRule(rule)}`}
+													onClick={() => void deleteRule(rule)}
+													icon={<Trash2 className='h-4 w-4' />}
+												/>
+											</div>
+										</TableCell>
+									)}
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+				{preview && preview.unmatched.length > 0 && (
+					<p className='pt-3 text-xs'>
+						<span className='text-muted-foreground'>Unmatched: </span>
+						{renderCaptured(preview.unmatched)}
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+
+export type DestructiveAction = 'kill' | 'remove'
+
+/** Container actions plus pruning named volumes. */
+export type ConfirmableAction = DestructiveAction | 'prune'
+
+export interface DestructiveActionOptions {
+	signal?: string
+	removeVolumes?: boolean
+}
+
+export interface DestructiveConfirmation {
+	action: ConfirmableAction
+	/** What is acted on, e.g. a container, cluster or host name. */
+	subject: string
+	/** Text the user has to type to enable the action. */
+	expected: string
+	targets: Array<{ id: string; name: string }>
+	onConfirm: (options: DestructiveActionOptions) => Promise<void>
+}
+
+const KILL_SIGNALS = [
+	'SIGKILL',
+	'SIGTERM',
+	'SIGINT',
+	'SIGHUP',
+	'SIGQUIT',
+	'SIGUSR1',
+	'SIGUSR2',
+]
+
+interface ConfirmActionDialogProps {
+	confirmation: DestructiveConfirmation | null
+	onClose: () => void
+}
+
+/**
+ * Typed confirmation for kill, remove and volume prune. The target list comes
+ * from the API's 428 response, so it shows exactly what will be acted on.
+ */
+export function ConfirmActionDialog({
+	confirmation,
+	onClose,
+}: ConfirmActionDialogProps) {
+	const [typed, setTyped] = useState('')
+	const [signal, setSignal] = useState('SIGKILL')
+	const [removeVolumes, setRemoveVolumes] = useState(false)
+	const [isPending, setIsPending] = useState(false)
+
+	useEffect(() => {
+		setTyped('')
+		setSignal('SIGKILL')
+		setRemoveVolumes(false)
+	}, [confirmation])
+
+	if (!confirmation) {
+		return null
+	}
+
+	const { action, subject, expected, targets } = confirmation
+	const isMatch = typed.trim().toLowerCase() === expected.toLowerCase()
+
+	const submit = async () => {
+		setIsPending(true)
+		try {
+			await confirmation.onConfirm(
+				action === 'kill'
+					? { signal }
+					: action === 'remove'
+						? { removeVolumes }
+						: {},
+			)
+			onClose()
+		} finally {
+			setIsPending(false)
+		}
+	}
+
+	return (
+		<Dialog open onOpenChange={open => !open && !isPending && onClose()}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle className='capitalize'>
+						{action} {subject}
+					</DialogTitle>
+					<DialogDescription>
+						{action === 'kill'
+							? 'Sends a signal to every listed container.'
+							: action === 'remove'
+								? 'Removes every listed container, stopping it first if needed.'
+								: 'Removes every listed volume and the data in it.'}{' '}
+						This cannot be undone.
+					</DialogDescription>
+				</DialogHeader>
+
+				<ul className='my-4 max-h-40 space-y-0.5 overflow-y-auto rounded-md border p-2 font-mono text-xs'>
+					{targets.map(target => (
+						<li key={target.id} className='truncate'>
+							{target.name}
+						</li>
+					))}
+				</ul>
+
+				<div className='space-y-3'>
+					{action === 'kill' ? (
+						<Select
+							value={signal}
+							onChange={event => setSignal(event.target.value)}
+							aria-label='Signal'
+						>
+							{KILL_SIGNALS.map(item => (
+								<option key={item} value={item}>
+									{item}
+								</option>
+							))}
+						</Select>
+					) : action === 'remove' ? (
+						<label className='flex items-center gap-2 text-sm'>
+							<input
+								type='checkbox'
+								checked={removeVolumes}
+								onChange={event => setRemoveVolumes(event.target.checked)}
+							/>
+							Also remove anonymous volumes
+						</label>
+					) : null}
+					<label className='block space-y-1.5 text-sm'>
+						<span className='text-muted-foreground'>
+							Type <span className='font-mono text-foreground'>{expected}</span>{' '}
+							to confirm
+						</span>
+						<Input
+							value={typed}
+							onChange={event => setTyped(event.target.value)}
+							autoFocus
+						/>
+					</label>
+				</div>
+
+				<DialogFooter className='mt-4'>
+					<Button
+						variant='outline'
+						size='sm'
+						onClick={onClose}
+						disabled={isPending}
+					>
+						Cancel
+					</Button>
+					<Button
+						variant='destructive'
+						size='sm'
+						className='capitalize'
+						onClick={() => void submit()}
+						disabled={!isMatch || isPending}
+					>
+						{isPending && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+						{action}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
@@ -2,15 +2,27 @@
 
 import { useEffect, useMemo, useRef, useState } from 'react'
 import {
+	ArrowDownToLine,
+	BellRing,
 	Boxes,
 	Clock3,
 	Cpu,
+	Database,
 	ChevronDown,
 	Copy,
+	HardDrive,
+	HeartPulse,
+	History,
+	Layers,
 	Loader2,
+	LogOut,
 	Menu,
+	Network,
+	Pause,
 	MemoryStick,
 	Play,
+	Plus,
+	Radio,
 	RefreshCw,
 	RotateCcw,
 	ScrollText,
@@ -20,7 +32,26 @@ import {
 	Wrench,
 } from 'lucide-react'
 import { toast } from 'sonner'
+import { ActivityPanel } from '@/components/activity-panel'
+import { AlertsPanel } from '@/components/alerts-panel'
+import { ClusterRulesPanel } from '@/components/cluster-rules-panel'
+import {
+	ConfirmActionDialog,
+	type DestructiveAction,
+	type DestructiveActionOptions,
+	type DestructiveConfirmation,
+} from '@/components/confirm-action-dialog'
+import { ContainerDetailSheet } from '@/components/container-detail-sheet'
+import { ContainerSpecSheet } from '@/components/container-spec-sheet'
+import { ContainerTerminalSheet } from '@/components/container-terminal-sheet'
+import { HostResourcesPanel } from '@/components/host-resources-panel'
+import { ImagesPanel } from '@/components/images-panel'
+import { type Job, JobsTray } from '@/components/jobs-tray'
+import { LoginScreen, type SessionUser } from '@/components/login-screen'
+import { NetworksPanel } from '@/components/networks-panel'
+import { StacksList } from '@/components/stacks-list'
 import { ThemeToggle } from '@/components/theme-toggle'
+import { VolumesPanel } from '@/components/volumes-panel'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -28,6 +59,7 @@ import { IconButton } from '@/components/ui/icon-button'
 import { Input } from '@/components/ui/input'
 import { Progress } from '@/components/ui/progress'
 import { Select } from '@/components/ui/select'
+import { Sparkline } from '@/components/ui/sparkline'
 import { Skeleton } from '@/components/ui/skeleton'
 import {
 	Sheet,
@@ -37,57 +69,95 @@ import {
 	SheetTitle,
 	SheetTrigger,
 } from '@/components/ui/sheet'
+import {
+	type ContainerStats,
+	type HostStats,
+	containerMetricsTarget,
+	fetchStatsHistory,
+	formatByteRate,
+	formatByteSize,
+} from '@/lib/metrics'
 import { cn } from '@/lib/utils'
 
 export interface ContainerItem {
 	id: string
+	host: string
 	name: string
 	image: string
 	state: string
 	status: string
 	labels: Record<string, string>
 	cluster: string | null
+	networkNames: string[]
+	volumeNames: string[]
+	health: {
+		/** starting, healthy or unhealthy; null without a health check. */
+		status: string | null
+		failingStreak: number
+		lastOutput: string | null
+		lastExitCode: number | null
+	}
 }
 
-interface HostStats {
-	cpuPercent: number
-	totalMemBytes: number
-	freeMemBytes: number
-	usedMemBytes: number
-	usedMemPercent: number
-	uptimeSeconds: number
+interface DockerHost {
+	name: string
+	protocol: string
+	address: string
+	isDefault: boolean
+	reachable: boolean
+	error: string | null
 }
 
-interface ContainerStatsSnapshot {
-	cpuPercent: number
-	memUsageBytes: number
-	memLimitBytes: number
-	memPercent: number
-	pids: number | null
-}
+type ContainerEvent =
+	| { type: 'snapshot'; containers: ContainerItem[] }
+	| { type: 'upsert'; action: string; container: ContainerItem }
+	| { type: 'remove'; action: string; host: string; id: string }
+	| { type: 'heartbeat' }
 
 interface LogsResponse {
 	text: string
 }
 
-type StatusFilter = 'all' | 'running' | 'stopped' | 'restarting'
-type BulkAction = 'start' | 'stop' | 'restart'
-type ClusterAction = 'start' | 'stop' | 'restart'
-
-interface ClusterActionResult {
-	ok: true
-	total: number
-	succeeded: string[]
-	failed: Array<{ id: string; name: string; error: string }>
+interface LogFrame {
+	stream: 'stdout' | 'stderr'
+	text: string
 }
 
-interface BulkActionResult {
-	ok: true
-	total: number
-	succeeded: string[]
-	failed: Array<{ id: string; name: string; error: string }>
+const MAX_LIVE_LOG_FRAMES = 5000
+const SPARKLINE_RANGE_SECONDS = 30 * 60
+// Keeps the batched stats URL short; the backend accepts up to 500 ids.
+const STATS_BATCH_SIZE = 100
+// The backend samples host CPU every 2s; older samples mean it is stalled.
+const HOST_CPU_STALE_MS = 10 * 1000
+const SPARKLINE_STEP_SECONDS = 60
+
+type StatusFilter = 'all' | 'running' | 'stopped' | 'restarting' | 'unhealthy'
+type ContainerAction =
+	'start' | 'stop' | 'restart' | 'pause' | 'unpause' | 'kill' | 'remove'
+
+interface ConfirmationRequired {
+	confirmationToken: string
+	targets: Array<{ id: string; name: string }>
 }
 
+const isDestructiveAction = (
+	action: ContainerAction,
+): action is DestructiveAction => action === 'kill' || action === 'remove'
+
+const containerKey = (container: { host: string; id: string }) =>
+	`${container.host}/${container.id}`
+
+const isUnhealthy = (container: ContainerItem) =>
+	container.health.status === 'unhealthy'
+
+// Mirrors the backend's check of the `kz.autoheal` label.
+const isAutohealEnabled = (container: ContainerItem) =>
+	['true', '1', 'yes', 'on'].includes(
+		container.labels['kz.autoheal']?.trim().toLowerCase() ?? '',
+	)
+
+const hostQuery = (host: string) => `host=${encodeURIComponent(host)}`
+
 interface SummaryCard {
 	label: string
 	value: number
@@ -96,46 +166,85 @@ interface SummaryCard {
 }
 
 export function ContainerDashboard() {
+	const [currentUser, setCurrentUser] = useState<SessionUser | null>(null)
+	const [isSessionChecked, setIsSessionChecked] = useState(false)
 	const [containers, setContainers] = useState<ContainerItem[]>([])
+	const [hosts, setHosts] = useState<DockerHost[]>([])
+	const [selectedHost, setSelectedHost] = useState<string>('all')
 	const [isLoading, setIsLoading] = useState(true)
 	const [errorMessage, setErrorMessage] = useState<string | null>(null)
 	const [hostStats, setHostStats] = useState<HostStats | null>(null)
 	const [hostStatsError, setHostStatsError] = useState<string | null>(null)
 	const [containerStatsById, setContainerStatsById] = useState<
-		Record<string, ContainerStatsSnapshot>
+		Record<string, ContainerStats>
+	>({})
+	const [cpuHistoryByKey, setCpuHistoryByKey] = useState<
+		Record<string, number[]>
 	>({})
 	const [pendingKey, setPendingKey] = useState<string | null>(null)
-	const [pendingBulkAction, setPendingBulkAction] = useState<BulkAction | null>(
-		null,
-	)
+	const [pendingBulkAction, setPendingBulkAction] =
+		useState<ContainerAction | null>(null)
 	const [searchQuery, setSearchQuery] = useState('')
 	const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
 	const [selectedCluster, setSelectedCluster] = useState<string>('all')
 	const [lastUpdatedAt, setLastUpdatedAt] = useState<Date | null>(null)
+	const [isLiveSync, setIsLiveSync] = useState(false)
+	const [activityRefreshKey, setActivityRefreshKey] = useState(0)
+	const [volumeFilter, setVolumeFilter] = useState('')
+	const [networkFilter, setNetworkFilter] = useState('')
 	const [isLogsOpen, setIsLogsOpen] = useState(false)
 	const [logsContainer, setLogsContainer] = useState<ContainerItem | null>(null)
+	const [detailContainer, setDetailContainer] = useState<ContainerItem | null>(
+		null,
+	)
+	const [isDetailOpen, setIsDetailOpen] = useState(false)
+	const [terminalContainer, setTerminalContainer] =
+		useState<ContainerItem | null>(null)
+	const [isTerminalOpen, setIsTerminalOpen] = useState(false)
+	// Null while open means the sheet creates a new container.
+	const [specContainer, setSpecContainer] = useState<ContainerItem | null>(null)
+	const [isSpecOpen, setIsSpecOpen] = useState(false)
+	const [confirmation, setConfirmation] =
+		useState<DestructiveConfirmation | null>(null)
+	// Empty means the container's `kz.stop_timeout` label or Docker's default.
+	const [stopTimeout, setStopTimeout] = useState('')
+	const [stopSignal, setStopSignal] = useState('')
 	const [logsText, setLogsText] = useState('')
 	const [logsTail, setLogsTail] = useState(200)
 	const [isLogsLoading, setIsLogsLoading] = useState(false)
 	const [logsError, setLogsError] = useState<string | null>(null)
 	const logsScrollRef = useRef<HTMLDivElement | null>(null)
-	const [clusterActionSummary, setClusterActionSummary] = useState<{
-		cluster: string
-		action: ClusterAction
-		total: number
-		succeeded: number
-		failed: Array<{ id: string; name: string; error: string }>
-	} | null>(null)
+	const [isLiveTail, setIsLiveTail] = useState(false)
+	const [isLogsPaused, setIsLogsPaused] = useState(false)
+	const [isAutoScroll, setIsAutoScroll] = useState(true)
+	const [liveFrames, setLiveFrames] = useState<LogFrame[]>([])
+	const isLogsPausedRef = useRef(false)
+	const pausedFramesRef = useRef<LogFrame[]>([])
+	const [jobs, setJobs] = useState<Job[]>([])
+
+	const hostContainers = useMemo(
+		() =>
+			selectedHost === 'all'
+				? containers
+				: containers.filter(container => container.host === selectedHost),
+		[containers, selectedHost],
+	)
 
 	const summary = useMemo(() => {
 		let running = 0
 		let restarting = 0
 		let stopped = 0
+		let unhealthy = 0
 
-		for (const container of containers) {
+		for (const container of hostContainers) {
 			const state = container.state.toLowerCase()
 			const status = container.status.toLowerCase()
 
+			// Counted on top of the lifecycle buckets; unhealthy containers run.
+			if (isUnhealthy(container)) {
+				unhealthy += 1
+			}
+
 			if (state === 'restarting' || status.includes('restarting')) {
 				restarting += 1
 				continue
@@ -150,14 +259,26 @@ export function ContainerDashboard() {
 		}
 
 		return {
-			total: containers.length,
+			total: hostContainers.length,
 			running,
 			stopped,
 			restarting,
+			unhealthy,
 		}
-	}, [containers])
+	}, [hostContainers])
 
 	const isBusy = pendingKey !== null || pendingBulkAction !== null
+	const canOperate =
+		currentUser?.role === 'operator' || currentUser?.role === 'admin'
+	const canExec = currentUser?.role === 'admin'
+	// Host stats describe the machine the API runs on, which is only the
+	// container's Docker host when that host is reached over the local socket.
+	const detailHostTotals =
+		hostStats &&
+		hosts.find(host => host.name === detailContainer?.host)?.protocol ===
+			'socket'
+			? { totalMemBytes: hostStats.totalMemBytes, cpuCount: hostStats.cpuCount }
+			: null
 
 	const summaryCards = useMemo<SummaryCard[]>(
 		() => [
@@ -185,6 +306,12 @@ export function ContainerDashboard() {
 				filter: 'restarting',
 				icon: RotateCcw,
 			},
+			{
+				label: 'Unhealthy',
+				value: summary.unhealthy,
+				filter: 'unhealthy',
+				icon: HeartPulse,
+			},
 		],
 		[summary],
 	)
@@ -192,6 +319,10 @@ export function ContainerDashboard() {
 	const statusBadgeClassName = (container: ContainerItem) => {
 		const state = lifecycleState(container)
 
+		if (state === 'running' && isUnhealthy(container)) {
+			return 'border-amber-500/40 bg-amber-500/15 text-amber-700 dark:text-amber-300'
+		}
+
 		if (state === 'running') {
 			return 'border-emerald-500/40 bg-emerald-500/15 text-emerald-700 dark:text-emerald-300'
 		}
@@ -222,13 +353,17 @@ export function ContainerDashboard() {
 			return state === 'restarting' || status.includes('restarting')
 		}
 
+		if (filter === 'unhealthy') {
+			return isUnhealthy(container)
+		}
+
 		return state === 'exited' || state === 'stopped' || state === 'created'
 	}
 
 	const filteredContainers = useMemo(() => {
 		const normalizedQuery = searchQuery.trim().toLowerCase()
 
-		return containers
+		return hostContainers
 			.filter(container => {
 				const clusterMatch =
 					selectedCluster === 'all' ||
@@ -249,12 +384,12 @@ export function ContainerDashboard() {
 				return queryMatch && statusMatch
 			})
 			.sort((first, second) => first.name.localeCompare(second.name))
-	}, [containers, searchQuery, statusFilter, selectedCluster])
+	}, [hostContainers, searchQuery, statusFilter, selectedCluster])
 
 	const clusterStats = useMemo(() => {
 		const counts: Record<string, number> = {}
 
-		for (const container of containers) {
+		for (const container of hostContainers) {
 			const cluster = (container.cluster ?? 'other').toLowerCase()
 			counts[cluster] = (counts[cluster] ?? 0) + 1
 		}
@@ -264,13 +399,45 @@ export function ContainerDashboard() {
 			.sort((first, second) => first.name.localeCompare(second.name))
 
 		return {
-			total: containers.length,
+			total: hostContainers.length,
 			clusters,
 		}
-	}, [containers])
+	}, [hostContainers])
+
+	const hostSwitcher = (
+		<>
+			<p className='mb-2 text-xs font-medium uppercase tracking-widest text-muted-foreground'>
+				Hosts
+			</p>
+			<Select
+				value={selectedHost}
+				onChange={event => {
+					setSelectedHost(event.target.value)
+					setSelectedCluster('all')
+				}}
+				aria-label='Docker host'
+			>
+				<option value='all'>All hosts</option>
+				{hosts.map(host => (
+					<option key={host.name} value={host.name}>
+						{host.name}
+						{host.reachable ? '' : ' (unreachable)'}
+					</option>
+				))}
+			</Select>
+		</>
+	)
 
-	const activeClusterLabel =
-		selectedCluster === 'all' ? 'All clusters' : `Cluster: ${selectedCluster}`
+	const activeClusterLabel = [
+		hosts.length > 1
+			? selectedHost === 'all'
+				? 'All hosts'
+				: `Host: ${selectedHost}`
+			: null,
+		selectedCluster === 'all' ? 'All clusters' : `Cluster: ${selectedCluster}`,
+	]
+		.filter(Boolean)
+		.join(' · ')
 
 	const hostCpuPercent = useMemo(() => {
 		if (!hostStats) {
@@ -280,6 +447,11 @@ export function ContainerDashboard() {
 		return Math.min(100, Math.max(0, hostStats.cpuPercent))
 	}, [hostStats])
 
+	const isHostCpuStale =
+		hostStats !== null &&
+		hostStats.cpuSampleAgeMs !== null &&
+		hostStats.cpuSampleAgeMs > HOST_CPU_STALE_MS
+
 	const hostRamPercent = useMemo(() => {
 		if (!hostStats) {
 			return null
@@ -314,6 +486,10 @@ export function ContainerDashboard() {
 		setErrorMessage(null)
 		try {
 			const response = await fetch('/api/containers', { cache: 'no-store' })
+			if (response.status === 401) {
+				setCurrentUser(null)
+				return false
+			}
 			if (!response.ok) {
 				throw new Error('Unable to load containers')
 			}
@@ -329,6 +505,19 @@ export function ContainerDashboard() {
 		}
 	}
 
+	const fetchHosts = async () => {
+		try {
+			const response = await fetch('/api/hosts', { cache: 'no-store' })
+			if (!response.ok) {
+				throw new Error('Failed to load hosts')
+			}
+
+			setHosts((await response.json()) as DockerHost[])
+		} catch {
+			setHosts([])
+		}
+	}
+
 	const fetchHostStats = async () => {
 		try {
 			const response = await fetch('/api/stats/host', { cache: 'no-store' })
@@ -368,23 +557,52 @@ export function ContainerDashboard() {
 	const fetchVisibleContainerStats = async (
 		visibleContainers: ContainerItem[],
 	) => {
-		if (visibleContainers.length === 0) {
+		const idsByHost = new Map<string, string[]>()
+		for (const container of visibleContainers) {
+			if (container.state !== 'running') {
+				continue
+			}
+			idsByHost.set(container.host, [
+				...(idsByHost.get(container.host) ?? []),
+				container.id,
+			])
+		}
+
+		// One request per host (and per chunk of ids) instead of one per card.
+		const batches = [...idsByHost].flatMap(([host, ids]) =>
+			Array.from(
+				{ length: Math.ceil(ids.length / STATS_BATCH_SIZE) },
+				(_, index) => ({
+					host,
+					ids: ids.slice(
+						index * STATS_BATCH_SIZE,
+						(index + 1) * STATS_BATCH_SIZE,
+					),
+				}),
+			),
+		)
+		if (batches.length === 0) {
 			return
 		}
 
-		const updates: Record<string, ContainerStatsSnapshot> = {}
+		const updates: Record<string, ContainerStats> = {}
 
-		await runWithConcurrency(visibleContainers, 6, async container => {
+		await runWithConcurrency(batches, 4, async ({ host, ids }) => {
 			try {
-				const response = await fetch(`/api/containers/${container.id}/stats`, {
-					cache: 'no-store',
-				})
+				const response = await fetch(
+					`/api/containers/stats?ids=${encodeURIComponent(ids.join(','))}&${hostQuery(host)}`,
+					{ cache: 'no-store' },
+				)
 				if (!response.ok) {
 					return
 				}
 
-				const stats = (await response.json()) as ContainerStatsSnapshot
-				updates[container.id] = stats
+				const batch = (await response.json()) as {
+					stats: Record<string, ContainerStats>
+				}
+				for (const [id, stats] of Object.entries(batch.stats)) {
+					updates[containerKey({ host, id })] = stats
+				}
 			} catch {
 				return
 			}
@@ -395,6 +613,38 @@ export function ContainerDashboard() {
 		}
 	}
 
+	const fetchVisibleContainerHistory = async (
+		visibleContainers: ContainerItem[],
+	) => {
+		const running = visibleContainers.filter(
+			container => container.state === 'running',
+		)
+		if (running.length === 0) {
+			return
+		}
+
+		const updates: Record<string, number[]> = {}
+
+		await runWithConcurrency(running, 6, async container => {
+			try {
+				const history = await fetchStatsHistory(
+					containerMetricsTarget(container.host, container.id),
+					SPARKLINE_RANGE_SECONDS,
+					SPARKLINE_STEP_SECONDS,
+				)
+				updates[containerKey(container)] = history.points.map(
+					point => point.cpuPercent,
+				)
+			} catch {
+				return
+			}
+		})
+
+		if (Object.keys(updates).length > 0) {
+			setCpuHistoryByKey(previous => ({ ...previous, ...updates }))
+		}
+	}
+
 	const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(0)} MB`
 
 	const parseLogsPayload = async (response: Response) => {
@@ -466,6 +716,17 @@ export function ContainerDashboard() {
 
 	const formatClusterLabel = (cluster: string | null) => cluster ?? 'other'
 
+	const cardActions = (container: ContainerItem): ContainerAction[] => {
+		const state = container.state.toLowerCase()
+		if (state === 'paused') {
+			return ['unpause', 'kill', 'remove']
+		}
+
+		return state === 'running' || state === 'restarting'
+			? ['pause', 'kill', 'remove']
+			: ['remove']
+	}
+
 	const formatContainerUptime = (status: string) => {
 		const normalized = status.trim()
 		if (normalized.length === 0) {
@@ -486,6 +747,10 @@ export function ContainerDashboard() {
 
 	const shortId = (id: string) => id.slice(0, 12)
 
+	// Anonymous volumes are named by a 64 character hex id.
+	const formatVolumeName = (name: string) =>
+		/^[0-9a-f]{64}$/.test(name) ? shortId(name) : name
+
 	const copyContainerId = async (id: string) => {
 		try {
 			await navigator.clipboard.writeText(id)
@@ -496,17 +761,54 @@ export function ContainerDashboard() {
 	}
 
 	const refreshAll = async (showLoader = false) => {
-		await Promise.all([refreshContainers(showLoader), fetchHostStats()])
+		await Promise.all([
+			refreshContainers(showLoader),
+			fetchHosts(),
+			fetchHostStats(),
+		])
 		await fetchVisibleContainerStats(filteredContainers)
 	}
 
+	const applyContainerEvent = (event: ContainerEvent) => {
+		if (event.type === 'heartbeat') {
+			return
+		}
+
+		if (event.type === 'snapshot') {
+			setContainers(event.containers)
+			setIsLoading(false)
+		} else if (event.type === 'upsert') {
+			setContainers(previous => {
+				const index = previous.findIndex(
+					container =>
+						containerKey(container) === containerKey(event.container),
+				)
+				if (index === -1) {
+					return [...previous, event.container]
+				}
+
+				const next = [...previous]
+				next[index] = event.container
+				return next
+			})
+		} else {
+			setContainers(previous =>
+				previous.filter(
+					container => containerKey(container) !== containerKey(event),
+				),
+			)
+		}
+
+		setLastUpdatedAt(new Date())
+	}
+
 	const fetchContainerLogs = async (container: ContainerItem, tail: number) => {
 		setIsLogsLoading(true)
 		setLogsError(null)
 
 		try {
 			const response = await fetch(
-				`/api/containers/${container.id}/logs?tail=${tail}`,
+				`/api/containers/${container.id}/logs?tail=${tail}&${hostQuery(container.host)}`,
 				{ cache: 'no-store' },
 			)
 
@@ -529,43 +831,168 @@ export function ContainerDashboard() {
 		setLogsText('')
 		setLogsError(null)
 		setIsLogsOpen(true)
-		await fetchContainerLogs(container, logsTail)
+		if (!isLiveTail) {
+			await fetchContainerLogs(container, logsTail)
+		}
+	}
+
+	const appendLiveFrames = (frames: LogFrame[]) => {
+		setLiveFrames(previous =>
+			[...previous, ...frames].slice(-MAX_LIVE_LOG_FRAMES),
+		)
+	}
+
+	const toggleLiveTail = () => {
+		if (isLiveTail && logsContainer) {
+			void fetchContainerLogs(logsContainer, logsTail)
+		}
+		setIsLiveTail(!isLiveTail)
+	}
+
+	const toggleLogsPaused = () => {
+		const nextPaused = !isLogsPaused
+		isLogsPausedRef.current = nextPaused
+		setIsLogsPaused(nextPaused)
+
+		if (!nextPaused && pausedFramesRef.current.length > 0) {
+			appendLiveFrames(pausedFramesRef.current)
+			pausedFramesRef.current = []
+		}
 	}
 
+	const liveLogsText = useMemo(
+		() => liveFrames.map(frame => frame.text).join(''),
+		[liveFrames],
+	)
+
+	const visibleLogsText = isLiveTail ? liveLogsText : logsText
+
 	const copyLogs = async () => {
-		if (!logsText) {
+		if (!visibleLogsText) {
 			return
 		}
 
 		try {
-			await navigator.clipboard.writeText(logsText)
+			await navigator.clipboard.writeText(visibleLogsText)
 			toast.success('Logs copied')
 		} catch {
 			toast.error('Failed to copy logs')
 		}
 	}
 
+	const checkSession = async () => {
+		try {
+			const response = await fetch('/api/auth/me', { cache: 'no-store' })
+			setCurrentUser(
+				response.ok ? ((await response.json()) as SessionUser) : null,
+			)
+		} catch {
+			setCurrentUser(null)
+		} finally {
+			setIsSessionChecked(true)
+		}
+	}
+
+	const logout = async () => {
+		try {
+			await fetch('/api/auth/logout', { method: 'POST' })
+		} finally {
+			setCurrentUser(null)
+			setContainers([])
+			setContainerStatsById({})
+		}
+	}
+
 	useEffect(() => {
-		void refreshAll(true)
+		void checkSession()
 	}, [])
 
+	useEffect(() => {
+		if (!currentUser) {
+			return
+		}
+
+		void refreshAll(true)
+		void fetchJobs()
+	}, [currentUser])
+
+	// Stats only need refetching when the set of visible containers changes,
+	// not on every state delta pushed by the events stream.
+	const visibleContainerIds = useMemo(
+		() => filteredContainers.map(containerKey).join(','),
+		[filteredContainers],
+	)
+
 	useEffect(() => {
 		void fetchVisibleContainerStats(filteredContainers)
-	}, [filteredContainers])
+	}, [visibleContainerIds])
 
+	// History only gains a point per sampler interval, so sparklines refresh
+	// on a slower cadence than the live stats badges.
 	useEffect(() => {
-		if (pendingKey !== null || pendingBulkAction !== null) {
+		if (!currentUser) {
 			return
 		}
 
+		void fetchVisibleContainerHistory(filteredContainers)
 		const intervalId = setInterval(() => {
-			void refreshAll()
+			void fetchVisibleContainerHistory(filteredContainers)
+		}, SPARKLINE_STEP_SECONDS * 1000)
+
+		return () => {
+			clearInterval(intervalId)
+		}
+	}, [currentUser, visibleContainerIds])
+
+	useEffect(() => {
+		if (!currentUser) {
+			return
+		}
+
+		const source = new EventSource('/api/containers/events')
+
+		source.onopen = () => {
+			setIsLiveSync(true)
+		}
+
+		source.onmessage = event => {
+			applyContainerEvent(JSON.parse(event.data as string) as ContainerEvent)
+		}
+
+		// EventSource reconnects on its own; polling covers the gap meanwhile.
+		source.onerror = () => {
+			setIsLiveSync(false)
+		}
+
+		return () => {
+			source.close()
+			setIsLiveSync(false)
+		}
+	}, [currentUser])
+
+	useEffect(() => {
+		if (!currentUser || pendingKey !== null || pendingBulkAction !== null) {
+			return
+		}
+
+		const intervalId = setInterval(() => {
+			if (!isLiveSync) {
+				void refreshContainers()
+			}
+			void fetchHostStats()
+			void fetchVisibleContainerStats(filteredContainers)
 		}, 5000)
 
 		return () => {
 			clearInterval(intervalId)
 		}
-	}, [pendingKey, pendingBulkAction, filteredContainers])
+	}, [
+		currentUser,
+		isLiveSync,
+		pendingKey,
+		pendingBulkAction,
+		filteredContainers,
+	])
 
 	useEffect(() => {
 		const onKeyDown = (event: KeyboardEvent) => {
@@ -597,26 +1024,93 @@ export function ContainerDashboard() {
 	}, [filteredContainers])
 
 	useEffect(() => {
-		if (!isLogsOpen || !logsScrollRef.current) {
+		if (!isLogsOpen || !isAutoScroll || !logsScrollRef.current) {
 			return
 		}
 
 		logsScrollRef.current.scrollTop = logsScrollRef.current.scrollHeight
-	}, [logsText, isLogsOpen])
+	}, [logsText, liveFrames, isLogsOpen, isAutoScroll])
+
+	useEffect(() => {
+		if (!isLogsOpen || !logsContainer || !isLiveTail) {
+			return
+		}
+
+		setLiveFrames([])
+		setLogsError(null)
+		setIsLogsPaused(false)
+		isLogsPausedRef.current = false
+		pausedFramesRef.current = []
+
+		const source = new EventSource(
+			`/api/containers/${logsContainer.id}/logs/stream?tail=${logsTail}&${hostQuery(logsContainer.host)}`,
+		)
+
+		source.onmessage = event => {
+			const frame = JSON.parse(event.data as string) as LogFrame
+			if (isLogsPausedRef.current) {
+				pausedFramesRef.current.push(frame)
+				return
+			}
+
+			appendLiveFrames([frame])
+		}
+
+		// Reconnecting would replay the tail, so stop and let the user restart.
+		source.onerror = () => {
+			source.close()
+			setLogsError('Live tail disconnected. Toggle Live to reconnect.')
+		}
+
+		return () => {
+			source.close()
+		}
+	}, [isLogsOpen, logsContainer, isLiveTail, logsTail])
+
+	const stopOptionsFor = (action: ContainerAction) =>
+		action === 'stop' || action === 'restart'
+			? {
+					...(stopTimeout !== ''
+						? { timeoutSeconds: Number(stopTimeout) }
+						: {}),
+					...(stopSignal !== '' ? { signal: stopSignal } : {}),
+				}
+			: {}
 
 	const runAction = async (
-		id: string,
-		action: 'start' | 'stop' | 'restart',
+		container: ContainerItem,
+		action: ContainerAction,
+		body?: DestructiveActionOptions & { confirm: string },
 	) => {
-		const key = `${id}-${action}`
-		const containerName =
-			containers.find(container => container.id === id)?.name ?? 'Container'
+		const key = `${containerKey(container)}-${action}`
+		const containerName = container.name
 		setPendingKey(key)
 		setErrorMessage(null)
 		try {
-			const response = await fetch(`/api/containers/${id}/${action}`, {
-				method: 'POST',
-			})
+			const response = await fetch(
+				`/api/containers/${container.id}/${action}?${hostQuery(container.host)}`,
+				{
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify({ ...stopOptionsFor(action), ...body }),
+				},
+			)
+			if (response.status === 428 && isDestructiveAction(action)) {
+				const required = (await response.json()) as ConfirmationRequired
+				setConfirmation({
+					action,
+					subject: containerName,
+					expected: containerName,
+					targets: required.targets,
+					onConfirm: options =>
+						runAction(container, action, {
+							...options,
+							confirm: required.confirmationToken,
+						}),
+				})
+				return
+			}
+
 			if (!response.ok) {
 				throw new Error(`Failed to ${action} container`)
 			}
@@ -627,15 +1121,167 @@ export function ContainerDashboard() {
 			toast.error(`${containerName}: failed to ${action}`)
 		} finally {
 			setPendingKey(null)
+			setActivityRefreshKey(previous => previous + 1)
 		}
 	}
 
-	const runBulkAction = async (action: BulkAction) => {
-		if (action !== 'start') {
+	// Bulk and cluster routes are host-scoped, so the all-hosts view fans the
+	// request out and starts one job per host.
+	const postToHosts = async (
+		hostNames: string[],
+		path: string,
+		body?: string,
+	): Promise<Job[]> =>
+		Promise.all(
+			hostNames.map(async host => {
+				const response = await postToHost(host, path, body)
+				if (!response.ok) {
+					throw new Error(`Request failed on ${host}`)
+				}
+
+				return (await response.json()) as Job
+			}),
+		)
+
+	const postToHost = (host: string, path: string, body?: string) =>
+		fetch(`${path}?${hostQuery(host)}`, {
+			method: 'POST',
+			headers: body ? { 'content-type': 'application/json' } : undefined,
+			body,
+		})
+
+	const startJobs = (created: Job[]) => {
+		setJobs(previous => [...created, ...previous])
+		created.filter(job => job.status !== 'running').forEach(finishJob)
+	}
+
+	// Kill and remove answer 428 with the target list until confirmed; the
+	// confirmed retry carries each host's token, so a changed target list is
+	// rejected rather than acted on.
+	const postDestructiveToHosts = async (
+		action: DestructiveAction,
+		subject: string,
+		expected: string,
+		hostNames: string[],
+		path: string,
+		body: object,
+	) => {
+		const created: Job[] = []
+		const pending: Array<{ host: string; required: ConfirmationRequired }> = []
+
+		await Promise.all(
+			hostNames.map(async host => {
+				const response = await postToHost(host, path, JSON.stringify(body))
+				if (response.status === 428) {
+					pending.push({
+						host,
+						required: (await response.json()) as ConfirmationRequired,
+					})
+				} else if (response.ok) {
+					created.push((await response.json()) as Job)
+				} else {
+					throw new Error(`Request failed on ${host}`)
+				}
+			}),
+		)
+		startJobs(created)
+
+		if (pending.length === 0) {
+			return
+		}
+
+		setConfirmation({
+			action,
+			subject,
+			expected,
+			targets: pending.flatMap(item => item.required.targets),
+			onConfirm: async options => {
+				try {
+					const confirmed = await Promise.all(
+						pending.map(async ({ host, required }) => {
+							const response = await postToHost(
+								host,
+								path,
+								JSON.stringify({
+									...body,
+									...options,
+									confirm: required.confirmationToken,
+								}),
+							)
+							if (!response.ok) {
+								throw new Error(`Request failed on ${host}`)
+							}
+
+							return (await response.json()) as Job
+						}),
+					)
+					startJobs(confirmed)
+					toast.success(`${subject}: ${action} started`)
+				} catch {
+					toast.error(`${subject}: ${action} failed`)
+				}
+			},
+		})
+	}
+
+	const fetchJobs = async () => {
+		try {
+			const response = await fetch('/api/jobs', { cache: 'no-store' })
+			if (!response.ok) {
+				return
+			}
+
+			const allJobs = (await response.json()) as Job[]
+			setJobs(allJobs.filter(job => job.status === 'running'))
+		} catch {
+			return
+		}
+	}
+
+	const updateJob = (job: Job) => {
+		setJobs(previous => previous.map(item => (item.id === job.id ? job : item)))
+	}
+
+	const finishJob = (job: Job) => {
+		const failed = job.targets.filter(target => target.status === 'failed')
+		const succeeded = job.targets.filter(
+			target => target.status === 'succeeded',
+		)
+		const label = `${job.type.replace('.', ' ')}${job.cluster ? ` ${job.cluster}` : ''}`
+
+		if (job.status === 'failed') {
+			toast.error(`${label} failed: ${job.error ?? 'unknown error'}`)
+		} else if (failed.length > 0) {
+			toast.error(
+				`${label}: ${failed.length} of ${job.total} container(s) failed`,
+			)
+		} else {
+			toast.success(
+				`${label} ${job.status}: ${succeeded.length}/${job.total} succeeded`,
+			)
+		}
+
+		setActivityRefreshKey(previous => previous + 1)
+		void refreshAll()
+	}
+
+	const dismissJob = (id: string) => {
+		setJobs(previous => previous.filter(job => job.id !== id))
+	}
+
+	const targetHostNames = (items: ContainerItem[]) =>
+		selectedHost === 'all'
+			? [...new Set(items.map(container => container.host))]
+			: [selectedHost]
+
+	const runBulkAction = async (action: ContainerAction) => {
+		if (
+			action !== 'start' &&
+			action !== 'unpause' &&
+			!isDestructiveAction(action)
+		) {
 			const isConfirmed = window.confirm(
-				action === 'stop'
-					? 'Stop all containers (except protected)?'
-					: 'Restart all containers (except protected)?',
+				`${action[0].toUpperCase()}${action.slice(1)} all containers (except protected)?`,
 			)
 			if (!isConfirmed) {
 				return
@@ -645,32 +1291,26 @@ export function ContainerDashboard() {
 		setPendingBulkAction(action)
 		setErrorMessage(null)
 		try {
-			const response = await fetch(`/api/containers/bulk/${action}`, {
-				method: 'POST',
-				headers: {
-					'content-type': 'application/json',
-				},
-				body: JSON.stringify({ includeAll: true }),
-			})
-
-			if (!response.ok) {
-				throw new Error(`Failed to ${action} containers`)
-			}
-
-			const result = (await response.json()) as BulkActionResult
-			toast.success(
-				`Bulk ${action}: ${result.succeeded.length}/${result.total} succeeded`,
-			)
-			if (result.failed.length > 0) {
-				setErrorMessage(
-					`${result.failed.length} container(s) failed during bulk ${action}.`,
-				)
-				toast.error(
-					`Bulk ${action}: ${result.failed.length} container(s) failed`,
+			if (isDestructiveAction(action)) {
+				await postDestructiveToHosts(
+					action,
+					'all containers',
+					`${action} all`,
+					targetHostNames(hostContainers),
+					`/api/containers/bulk/${action}`,
+					{ includeAll: true },
 				)
+				return
 			}
 
-			await refreshContainers()
+			startJobs(
+				await postToHosts(
+					targetHostNames(hostContainers),
+					`/api/containers/bulk/${action}`,
+					JSON.stringify({ includeAll: true, ...stopOptionsFor(action) }),
+				),
+			)
+			toast.success(`Bulk ${action} started`)
 		} catch {
 			setErrorMessage(`Failed to ${action} containers. Please try again.`)
 			toast.error(`Bulk ${action} failed`)
@@ -679,16 +1319,18 @@ export function ContainerDashboard() {
 		}
 	}
 
-	const runClusterAction = async (action: ClusterAction) => {
+	const runClusterAction = async (action: ContainerAction) => {
 		if (selectedCluster === 'all') {
 			return
 		}
 
-		if (action !== 'start') {
+		if (
+			action !== 'start' &&
+			action !== 'unpause' &&
+			!isDestructiveAction(action)
+		) {
 			const isConfirmed = window.confirm(
-				action === 'stop'
-					? `Stop all containers in cluster "${selectedCluster}"?`
-					: `Restart all containers in cluster "${selectedCluster}"?`,
+				`${action[0].toUpperCase()}${action.slice(1)} all containers in cluster "${selectedCluster}"?`,
 			)
 			if (!isConfirmed) {
 				return
@@ -697,36 +1339,34 @@ export function ContainerDashboard() {
 
 		setPendingBulkAction(action)
 		setErrorMessage(null)
-		setClusterActionSummary(null)
 
 		try {
-			const response = await fetch(
-				`/api/clusters/${encodeURIComponent(selectedCluster)}/${action}`,
-				{ method: 'POST' },
+			const clusterContainers = hostContainers.filter(
+				container =>
+					(container.cluster ?? 'other').toLowerCase() ===
+					selectedCluster.toLowerCase(),
 			)
-
-			if (!response.ok) {
-				throw new Error(`Failed to ${action} cluster`)
+			const path = `/api/clusters/${encodeURIComponent(selectedCluster)}/${action}`
+			if (isDestructiveAction(action)) {
+				await postDestructiveToHosts(
+					action,
+					selectedCluster,
+					selectedCluster,
+					targetHostNames(clusterContainers),
+					path,
+					{},
+				)
+				return
 			}
 
-			const result = (await response.json()) as ClusterActionResult
-			setClusterActionSummary({
-				cluster: selectedCluster,
-				action,
-				total: result.total,
-				succeeded: result.succeeded.length,
-				failed: result.failed,
-			})
-
-			toast.success(
-				`${selectedCluster}: ${action} ${result.succeeded.length}/${result.total} succeeded`,
+			startJobs(
+				await postToHosts(
+					targetHostNames(clusterContainers),
+					path,
+					JSON.stringify(stopOptionsFor(action)),
+				),
 			)
-
-			if (result.failed.length > 0) {
-				toast.error(`${result.failed.length} container(s) failed`)
-			}
-
-			await refreshAll()
+			toast.success(`${selectedCluster}: ${action} started`)
 		} catch {
 			setErrorMessage(`Failed to ${action} cluster. Please try again.`)
 			toast.error(`Cluster ${action} failed`)
@@ -735,13 +1375,40 @@ export function ContainerDashboard() {
 		}
 	}
 
+	// Defined after startJobs, which it passes down.
+	const stacksList = (
+		<StacksList
+			host={selectedHost}
+			canOperate={canOperate}
+			refreshKey={activityRefreshKey}
+			onJobsStarted={startJobs}
+		/>
+	)
+
 	const navItems = [
 		{ href: '#overview', label: 'Overview', icon: Boxes },
 		{ href: '#containers', label: 'Containers', icon: Wrench },
 		{ href: '#system', label: 'System', icon: ScrollText },
+		{ href: '#images', label: 'Images', icon: Layers },
+		{ href: '#volumes', label: 'Volumes', icon: Database },
+		{ href: '#networks', label: 'Networks', icon: Network },
+		{ href: '#alerts', label: 'Alerts', icon: BellRing },
+		{ href: '#activity', label: 'Activity', icon: History },
 		{ href: '#settings', label: 'Settings', icon: Settings },
 	]
 
+	if (!isSessionChecked) {
+		return (
+			<div className='flex min-h-screen items-center justify-center bg-gray-50 dark:bg-zinc-950'>
+				<Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+			</div>
+		)
+	}
+
+	if (!currentUser) {
+		return <LoginScreen onLogin={setCurrentUser} />
+	}
+
 	return (
 		<div className='min-h-screen bg-gray-50 dark:bg-zinc-950'>
 			<div className='flex min-h-screen'>
@@ -768,6 +1435,10 @@ export function ContainerDashboard() {
 						})}
 					</nav>
 
+					{hosts.length > 1 && (
+						<div className='mt-6 border-t pt-4'>{hostSwitcher}</div>
+					)}
+
 					<div className='mt-6 border-t pt-4'>
 						<p className='mb-2 text-xs font-medium uppercase tracking-widest text-muted-foreground'>
 							Clusters
@@ -802,6 +1473,8 @@ export function ContainerDashboard() {
 							))}
 						</div>
 					</div>
+
+					<div className='mt-6 border-t pt-4'>{stacksList}</div>
 				</aside>
 
 				<div className='flex min-w-0 flex-1 flex-col'>
@@ -834,6 +1507,9 @@ export function ContainerDashboard() {
 												)
 											})}
 										</nav>
+										{hosts.length > 1 && (
+											<div className='mt-5 border-t pt-4'>{hostSwitcher}</div>
+										)}
 										<div className='mt-5 border-t pt-4'>
 											<p className='mb-2 text-xs font-medium uppercase tracking-widest text-muted-foreground'>
 												Clusters
@@ -868,6 +1544,7 @@ export function ContainerDashboard() {
 												))}
 											</div>
 										</div>
+										<div className='mt-5 border-t pt-4'>{stacksList}</div>
 									</SheetContent>
 								</Sheet>
 								<div className='min-w-0'>
@@ -895,11 +1572,12 @@ export function ContainerDashboard() {
 										{systemBadgeText}
 									</Badge>
 									<Badge variant='secondary' className='font-mono text-[11px]'>
-										Updated {lastUpdatedText}
+										{isLiveSync ? 'Live' : 'Polling'} · Updated{' '}
+										{lastUpdatedText}
 									</Badge>
 								</div>
 								<div className='hidden h-6 w-px bg-zinc-200 dark:bg-zinc-800 lg:block' />
-								{selectedCluster !== 'all' && (
+								{selectedCluster !== 'all' && canOperate && (
 									<>
 										<Button
 											size='sm'
@@ -927,9 +1605,24 @@ export function ContainerDashboard() {
 										>
 											Restart Cluster
 										</Button>
+										<MoreActionsSelect
+											actions={['pause', 'unpause', 'kill', 'remove']}
+											onSelect={action => void runClusterAction(action)}
+											disabled={isLoading || isBusy}
+										/>
 									</>
 								)}
+								<Badge variant='secondary' className='hidden sm:inline-flex'>
+									{currentUser.username} · {currentUser.role}
+								</Badge>
 								<ThemeToggle />
+								<IconButton
+									variant='outline'
+									size='sm'
+									aria-label='Sign out'
+									onClick={() => void logout()}
+									icon={<LogOut className='h-4 w-4' />}
+								/>
 								<IconButton
 									variant='outline'
 									size='sm'
@@ -947,39 +1640,6 @@ export function ContainerDashboard() {
 					</header>
 
 					<main className='mx-auto w-full max-w-7xl space-y-8 px-4 py-6 md:px-6'>
-						{clusterActionSummary && (
-							<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
-								<CardContent className='pt-6'>
-									<div className='flex flex-wrap items-center gap-2 text-sm'>
-										<Badge variant='secondary'>
-											{clusterActionSummary.cluster}
-										</Badge>
-										<p className='text-muted-foreground'>
-											Cluster {clusterActionSummary.action}:{' '}
-											{clusterActionSummary.succeeded}/
-											{clusterActionSummary.total} succeeded
-										</p>
-									</div>
-
-									{clusterActionSummary.failed.length > 0 && (
-										<details className='mt-3 rounded-md border p-2'>
-											<summary className='flex cursor-pointer list-none items-center justify-between text-xs text-muted-foreground'>
-												<span>
-													{clusterActionSummary.failed.length} failed containers
-												</span>
-												<ChevronDown className='h-4 w-4' />
-											</summary>
-											<div className='mt-2 space-y-1 text-xs text-muted-foreground'>
-												{clusterActionSummary.failed.map(item => (
-													<p key={item.id}>{item.name}</p>
-												))}
-											</div>
-										</details>
-									)}
-								</CardContent>
-							</Card>
-						)}
-
 						<section id='overview' className='space-y-4'>
 							<div>
 								<h2 className='text-lg font-semibold tracking-tight'>
@@ -990,8 +1650,8 @@ export function ContainerDashboard() {
 								</p>
 							</div>
 							{isLoading ? (
-								<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
-									{Array.from({ length: 4 }).map((_, index) => (
+								<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-5'>
+									{Array.from({ length: 5 }).map((_, index) => (
 										<Card
 											key={`summary-skeleton-${index}`}
 											className='h-full border-zinc-200/60 shadow-sm dark:border-zinc-800'
@@ -1006,7 +1666,7 @@ export function ContainerDashboard() {
 									))}
 								</div>
 							) : (
-								<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
+								<div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-5'>
 									{summaryCards.map(card => {
 										const Icon = card.icon
 										const isActive = statusFilter === card.filter
@@ -1044,49 +1704,100 @@ export function ContainerDashboard() {
 								</div>
 							)}
 
-							<div className='flex flex-wrap items-center gap-3 border-t border-zinc-200/60 pt-4 dark:border-zinc-800'>
-								<Button
-									size='sm'
-									className='min-w-24'
-									onClick={() => runBulkAction('start')}
-									disabled={isLoading || isBusy}
-								>
-									{pendingBulkAction === 'start' && (
-										<Loader2 className='mr-2 h-4 w-4 animate-spin' />
-									)}
-									{pendingBulkAction === 'start'
-										? 'Starting all...'
-										: 'Start All'}
-								</Button>
-								<Button
-									size='sm'
-									variant='destructive'
-									className='min-w-24'
-									onClick={() => runBulkAction('stop')}
-									disabled={isLoading || isBusy}
-								>
-									{pendingBulkAction === 'stop' && (
-										<Loader2 className='mr-2 h-4 w-4 animate-spin' />
-									)}
-									{pendingBulkAction === 'stop'
-										? 'Stopping all...'
-										: 'Stop All'}
-								</Button>
-								<Button
-									size='sm'
-									variant='secondary'
-									className='min-w-24'
-									onClick={() => runBulkAction('restart')}
-									disabled={isLoading || isBusy}
-								>
-									{pendingBulkAction === 'restart' && (
-										<Loader2 className='mr-2 h-4 w-4 animate-spin' />
-									)}
-									{pendingBulkAction === 'restart'
-										? 'Restarting all...'
-										: 'Restart All'}
-								</Button>
-							</div>
+							{canOperate && (
+								<div className='flex flex-wrap items-center gap-3 border-t border-zinc-200/60 pt-4 dark:border-zinc-800'>
+									<Button
+										size='sm'
+										className='min-w-24'
+										onClick={() => runBulkAction('start')}
+										disabled={isLoading || isBusy}
+									>
+										{pendingBulkAction === 'start' && (
+											<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+										)}
+										{pendingBulkAction === 'start'
+											? 'Starting all...'
+											: 'Start All'}
+									</Button>
+									<Button
+										size='sm'
+										variant='destructive'
+										className='min-w-24'
+										onClick={() => runBulkAction('stop')}
+										disabled={isLoading || isBusy}
+									>
+										{pendingBulkAction === 'stop' && (
+											<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+										)}
+										{pendingBulkAction === 'stop'
+											? 'Stopping all...'
+											: 'Stop All'}
+									</Button>
+									<Button
+										size='sm'
+										variant='secondary'
+										className='min-w-24'
+										onClick={() => runBulkAction('restart')}
+										disabled={isLoading || isBusy}
+									>
+										{pendingBulkAction === 'restart' && (
+											<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+										)}
+										{pendingBulkAction === 'restart'
+											? 'Restarting all...'
+											: 'Restart All'}
+									</Button>
+									<MoreActionsSelect
+										actions={['pause', 'unpause', 'kill', 'remove']}
+										onSelect={action => void runBulkAction(action)}
+										disabled={isLoading || isBusy}
+									/>
+									<Button
+										size='sm'
+										variant='outline'
+										onClick={() => {
+											setSpecContainer(null)
+											setIsSpecOpen(true)
+										}}
+									>
+										<Plus className='mr-2 h-4 w-4' />
+										New container
+									</Button>
+									<div
+										className='flex items-center gap-2 sm:ml-auto'
+										title='Applies to every stop and restart, including single containers and clusters'
+									>
+										<span className='text-xs text-muted-foreground'>
+											Stop grace
+										</span>
+										<Select
+											value={stopTimeout}
+											onChange={event => setStopTimeout(event.target.value)}
+											aria-label='Stop timeout'
+											className='h-8 w-32'
+										>
+											<option value=''>Label/default</option>
+											<option value='0'>Immediate</option>
+											<option value='10'>10s</option>
+											<option value='30'>30s</option>
+											<option value='60'>60s</option>
+											<option value='120'>120s</option>
+										</Select>
+										<Select
+											value={stopSignal}
+											onChange={event => setStopSignal(event.target.value)}
+											aria-label='Stop signal'
+											className='h-8 w-32'
+										>
+											<option value=''>Default signal</option>
+											<option value='SIGTERM'>SIGTERM</option>
+											<option value='SIGINT'>SIGINT</option>
+											<option value='SIGQUIT'>SIGQUIT</option>
+											<option value='SIGHUP'>SIGHUP</option>
+										</Select>
+									</div>
+								</div>
+							)}
 						</section>
 
 						<section
@@ -1119,6 +1830,7 @@ export function ContainerDashboard() {
 									<option value='running'>Running</option>
 									<option value='stopped'>Exited/Stopped</option>
 									<option value='restarting'>Restarting</option>
+									<option value='unhealthy'>Unhealthy</option>
 								</Select>
 								<p className='text-sm text-muted-foreground lg:ml-auto'>
 									Matched: {filteredContainers.length}
@@ -1176,16 +1888,15 @@ export function ContainerDashboard() {
 										const startDisabled = state !== 'stopped' || isBusy
 										const stopDisabled = state === 'stopped' || isBusy
 										const restartDisabled = state !== 'running' || isBusy
-										const stats = containerStatsById[container.id]
-										const isStartPending =
-											pendingKey === `${container.id}-start`
-										const isStopPending = pendingKey === `${container.id}-stop`
-										const isRestartPending =
-											pendingKey === `${container.id}-restart`
+										const key = containerKey(container)
+										const stats = containerStatsById[key]
+										const isStartPending = pendingKey === `${key}-start`
+										const isStopPending = pendingKey === `${key}-stop`
+										const isRestartPending = pendingKey === `${key}-restart`
 
 										return (
 											<Card
-												key={container.id}
+												key={key}
 												className='overflow-hidden border-zinc-200/60 shadow-sm transition hover:border-zinc-300 hover:shadow-md dark:border-zinc-800 dark:hover:border-zinc-700'
 											>
 												<CardHeader>
@@ -1210,10 +1921,59 @@ export function ContainerDashboard() {
 															<Server className='mr-1 h-3.5 w-3.5' />
 															{formatClusterLabel(container.cluster)}
 														</Badge>
+														{hosts.length > 1 && (
+															<Badge variant='secondary'>
+																<HardDrive className='mr-1 h-3.5 w-3.5' />
+																{container.host}
+															</Badge>
+														)}
 														<Badge variant='secondary'>
 															<Clock3 className='mr-1 h-3.5 w-3.5' />
 															{formatContainerUptime(container.status)}
 														</Badge>
+														{container.health.status && (
+															<Badge
+																variant='secondary'
+																className={cn(
+																	isUnhealthy(container) &&
+																		'bg-amber-500/15 text-amber-700 dark:text-amber-300',
+																)}
+																title={
+																	container.health.lastOutput ??
+																	'No probe output yet'
+																}
+															>
+																<HeartPulse className='mr-1 h-3.5 w-3.5' />
+																{container.health.status}
+																{container.health.failingStreak > 0 &&
+																	` · ${container.health.failingStreak} failing`}
+																{isAutohealEnabled(container) && ' · autoheal'}
+															</Badge>
+														)}
+														{container.networkNames.map(name => (
+															<a
+																key={`network-${name}`}
+																href='#networks'
+																onClick={() => setNetworkFilter(name)}
+															>
+																<Badge variant='secondary'>
+																	<Network className='mr-1 h-3.5 w-3.5' />
+																	{name}
+																</Badge>
+															</a>
+														))}
+														{container.volumeNames.map(name => (
+															<a
+																key={`volume-${name}`}
+																href='#volumes'
+																onClick={() => setVolumeFilter(name)}
+															>
+																<Badge variant='secondary'>
+																	<Database className='mr-1 h-3.5 w-3.5' />
+																	{formatVolumeName(name)}
+																</Badge>
+															</a>
+														))}
 														<div className='inline-flex items-center gap-1 rounded-full border border-zinc-200/70 bg-zinc-100 px-2 py-0.5 font-mono text-[11px] text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300'>
 															<span>{shortId(container.id)}</span>
 															<IconButton
@@ -1241,56 +2001,150 @@ export function ContainerDashboard() {
 															<Badge
 																variant='secondary'
 																className='bg-zinc-100 text-zinc-700 dark:bg-zinc-900 dark:text-zinc-300'
+																title={`Without ${formatMb(stats.memCacheBytes)} page cache`}
 															>
 																<MemoryStick className='mr-1 h-3.5 w-3.5' />
 																{formatMb(stats.memUsageBytes)}
 															</Badge>
+															{stats.networks.length > 0 && (
+																<Badge
+																	variant='secondary'
+																	className='bg-zinc-100 text-zinc-700 dark:bg-zinc-900 dark:text-zinc-300'
+																	title={`Received ${formatByteSize(stats.netRxBytes)}, sent ${formatByteSize(stats.netTxBytes)}`}
+																>
+																	<Network className='mr-1 h-3.5 w-3.5' />
+																	{`↓ ${formatByteRate(stats.netRxBytesPerSecond)} ↑ ${formatByteRate(stats.netTxBytesPerSecond)}`}
+																</Badge>
+															)}
+															<Badge
+																variant='secondary'
+																className='bg-zinc-100 text-zinc-700 dark:bg-zinc-900 dark:text-zinc-300'
+																title='Block I/O read and written since start'
+															>
+																<HardDrive className='mr-1 h-3.5 w-3.5' />
+																{`R ${formatByteSize(stats.blockReadBytes)} · W ${formatByteSize(stats.blockWriteBytes)}`}
+															</Badge>
+															{stats.throttling &&
+																stats.throttling.throttledPercent > 0 && (
+																	<Badge
+																		variant='secondary'
+																		className='border-amber-500/40 bg-amber-500/15 text-amber-700 dark:text-amber-300'
+																		title='Share of CPU periods throttled by the CPU quota'
+																	>
+																		throttled{' '}
+																		{stats.throttling.throttledPercent.toFixed(
+																			0,
+																		)}
+																		%
+																	</Badge>
+																)}
+														</div>
+													)}
+
+													{(cpuHistoryByKey[key]?.length ?? 0) > 1 && (
+														<div title='CPU, last 30 minutes'>
+															<Sparkline
+																values={cpuHistoryByKey[key]}
+																max={100}
+																className='text-sky-600 dark:text-sky-400'
+															/>
 														</div>
 													)}
 
 													<div className='flex flex-wrap gap-2'>
+														{canOperate && (
+															<>
+																<Button
+																	size='sm'
+																	className='min-w-20'
+																	onClick={() => runAction(container, 'start')}
+																	disabled={startDisabled}
+																>
+																	{isStartPending && (
+																		<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+																	)}
+																	{isStartPending ? 'Starting...' : 'Start'}
+																</Button>
+																<Button
+																	size='sm'
+																	variant='destructive'
+																	className='min-w-20'
+																	onClick={() => runAction(container, 'stop')}
+																	disabled={stopDisabled}
+																>
+																	{isStopPending && (
+																		<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+																	)}
+																	{isStopPending ? 'Stopping...' : 'Stop'}
+																</Button>
+																<Button
+																	size='sm'
+																	variant='secondary'
+																	className='min-w-20'
+																	onClick={() =>
+																		runAction(container, 'restart')
+																	}
+																	disabled={restartDisabled}
+																>
+																	{isRestartPending && (
+																		<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+																	)}
+																	{isRestartPending
+																		? 'Restarting...'
+																		: 'Restart'}
+																</Button>
+																<MoreActionsSelect
+																	actions={cardActions(container)}
+																	onSelect={action =>
+																		void runAction(container, action)
+																	}
+																	disabled={isBusy}
+																/>
+																<Button
+																	size='sm'
+																	variant='outline'
+																	className='min-w-20'
+																	onClick={() => {
+																		setSpecContainer(container)
+																		setIsSpecOpen(true)
+																	}}
+																	disabled={isBusy}
+																>
+																	Edit
+																</Button>
+															</>
+														)}
 														<Button
 															size='sm'
+															variant='outline'
 															className='min-w-20'
-															onClick={() => runAction(container.id, 'start')}
-															disabled={startDisabled}
-														>
-															{isStartPending && (
-																<Loader2 className='mr-2 h-4 w-4 animate-spin' />
-															)}
-															{isStartPending ? 'Starting...' : 'Start'}
-														</Button>
-														<Button
-															size='sm'
-															variant='destructive'
-															className='min-w-20'
-															onClick={() => runAction(container.id, 'stop')}
-															disabled={stopDisabled}
-														>
-															{isStopPending && (
-																<Loader2 className='mr-2 h-4 w-4 animate-spin' />
-															)}
-															{isStopPending ? 'Stopping...' : 'Stop'}
-														</Button>
-														<Button
-															size='sm'
-															variant='secondary'
-															className='min-w-20'
-															onClick={() => runAction(container.id, 'restart')}
-															disabled={restartDisabled}
+															onClick={() => void openLogs(container)}
 														>
-															{isRestartPending && (
-																<Loader2 className='mr-2 h-4 w-4 animate-spin' />
-															)}
-															{isRestartPending ? 'Restarting...' : 'Restart'}
+															Logs
 														</Button>
+														{canExec && container.state === 'running' && (
+															<Button
+																size='sm'
+																variant='outline'
+																className='min-w-20'
+																onClick={() => {
+																	setTerminalContainer(container)
+																	setIsTerminalOpen(true)
+																}}
+															>
+																Terminal
+															</Button>
+														)}
 														<Button
 															size='sm'
 															variant='outline'
 															className='min-w-20'
-															onClick={() => void openLogs(container)}
+															onClick={() => {
+																setDetailContainer(container)
+																setIsDetailOpen(true)
+															}}
 														>
-															Logs
+															Details
 														</Button>
 													</div>
 												</CardContent>
@@ -1331,8 +2185,22 @@ export function ContainerDashboard() {
 													className='h-2 rounded-full'
 												/>
 												<p className='text-xs text-muted-foreground'>
-													{hostStats.usedMemPercent.toFixed(1)}%
+													{formatMemory(hostStats.availableMemBytes)} available
+													(incl. reclaimable cache) •{' '}
+													{hostStats.swapTotalBytes > 0
+														? `swap ${formatMemory(hostStats.swapUsedBytes)} / ${formatMemory(hostStats.swapTotalBytes)}`
+														: 'no swap'}
 												</p>
+												{hostStats.cgroup && (
+													<p className='text-xs text-muted-foreground'>
+														API cgroup v{hostStats.cgroup.version}:{' '}
+														{hostStats.cgroup.memLimitBytes !== null
+															? `${formatMemory(hostStats.cgroup.memUsageBytes ?? 0)} of ${formatMemory(hostStats.cgroup.memLimitBytes)} limit`
+															: 'no memory limit'}
+														{hostStats.cgroup.cpuLimit !== null &&
+															`, ${hostStats.cgroup.cpuLimit.toFixed(2)} CPUs`}
+													</p>
+												)}
 											</>
 										) : (
 											<p className='text-sm text-muted-foreground'>
@@ -1356,14 +2224,60 @@ export function ContainerDashboard() {
 													<p className='text-2xl font-semibold'>
 														{hostCpuPercent?.toFixed(1)}%
 													</p>
-													<p className='font-mono text-xs text-muted-foreground'>
-														System-wide
+													<p
+														className={cn(
+															'font-mono text-xs text-muted-foreground',
+															isHostCpuStale &&
+																'text-amber-600 dark:text-amber-400',
+														)}
+														title='Age of the backend CPU sample'
+													>
+														{hostStats.cpuSampleAgeMs === null
+															? 'Sampling...'
+															: isHostCpuStale
+																? `Stale: sampled ${Math.round(hostStats.cpuSampleAgeMs / 1000)}s ago`
+																: 'System-wide'}
 													</p>
 												</div>
 												<Progress
 													value={hostCpuPercent ?? 0}
 													className='h-2 rounded-full'
 												/>
+												{hostStats.perCpuPercent.length > 0 && (
+													<div
+														className='flex h-6 items-end gap-0.5'
+														title='Usage per core'
+													>
+														{hostStats.perCpuPercent.map((percent, index) => (
+															<div
+																key={index}
+																className='flex-1 rounded-sm bg-primary/70'
+																style={{
+																	height: `${Math.max(Math.min(percent, 100), 4)}%`,
+																}}
+																title={`CPU ${index}: ${percent.toFixed(1)}%`}
+															/>
+														))}
+													</div>
+												)}
+												<div className='flex items-center justify-between'>
+													<p className='text-xs text-muted-foreground'>
+														Load (1m / 5m / 15m)
+													</p>
+													<p
+														className={cn(
+															'font-mono text-xs',
+															hostStats.loadAverage.oneMinute >
+																hostStats.cpuCount &&
+																'text-amber-600 dark:text-amber-400',
+														)}
+														title={`${hostStats.cpuCount} CPUs`}
+													>
+														{hostStats.loadAverage.oneMinute.toFixed(2)} /{' '}
+														{hostStats.loadAverage.fiveMinutes.toFixed(2)} /{' '}
+														{hostStats.loadAverage.fifteenMinutes.toFixed(2)}
+													</p>
+												</div>
 												<div className='flex items-center justify-between'>
 													<p className='text-xs text-muted-foreground'>
 														Host uptime
@@ -1384,27 +2298,157 @@ export function ContainerDashboard() {
 									</CardContent>
 								</Card>
 							</div>
+							{hostStats && <HostResourcesPanel stats={hostStats} />}
+						</section>
+
+						<section
+							id='images'
+							className='space-y-4 border-t border-zinc-200/60 pt-6 dark:border-zinc-800'
+						>
+							<div>
+								<h2 className='text-lg font-semibold tracking-tight'>Images</h2>
+								<p className='text-sm text-muted-foreground'>
+									Disk usage, dangling layers and the containers using each
+									image.
+								</p>
+							</div>
+							<ImagesPanel
+								host={selectedHost}
+								hostNames={hosts.map(host => host.name)}
+								canOperate={canOperate}
+								refreshKey={activityRefreshKey}
+								onJobsStarted={startJobs}
+							/>
+						</section>
+
+						<section
+							id='volumes'
+							className='space-y-4 border-t border-zinc-200/60 pt-6 dark:border-zinc-800'
+						>
+							<div>
+								<h2 className='text-lg font-semibold tracking-tight'>
+									Volumes
+								</h2>
+								<p className='text-sm text-muted-foreground'>
+									Named and anonymous volumes and the containers mounting them.
+								</p>
+							</div>
+							<VolumesPanel
+								host={selectedHost}
+								hostNames={hosts.map(host => host.name)}
+								canOperate={canOperate}
+								filter={volumeFilter}
+								onFilterChange={setVolumeFilter}
+								refreshKey={activityRefreshKey}
+							/>
+						</section>
+
+						<section
+							id='networks'
+							className='space-y-4 border-t border-zinc-200/60 pt-6 dark:border-zinc-800'
+						>
+							<div>
+								<h2 className='text-lg font-semibold tracking-tight'>
+									Networks
+								</h2>
+								<p className='text-sm text-muted-foreground'>
+									Networks, their subnets and attached containers.
+								</p>
+							</div>
+							<NetworksPanel
+								host={selectedHost}
+								canOperate={canOperate}
+								filter={networkFilter}
+								onFilterChange={setNetworkFilter}
+								refreshKey={activityRefreshKey}
+							/>
+						</section>
+
+						<section
+							id='alerts'
+							className='space-y-4 border-t border-zinc-200/60 pt-6 dark:border-zinc-800'
+						>
+							<div>
+								<h2 className='text-lg font-semibold tracking-tight'>Alerts</h2>
+								<p className='text-sm text-muted-foreground'>
+									Threshold rules on container and host metrics.
+								</p>
+							</div>
+							<AlertsPanel canOperate={canOperate} />
+						</section>
+
+						<section
+							id='activity'
+							className='space-y-4 border-t border-zinc-200/60 pt-6 dark:border-zinc-800'
+						>
+							<div>
+								<h2 className='text-lg font-semibold tracking-tight'>
+									Activity
+								</h2>
+								<p className='text-sm text-muted-foreground'>
+									Audit trail of container actions.
+								</p>
+							</div>
+							<ActivityPanel refreshKey={activityRefreshKey} />
 						</section>
 
 						<section
 							id='settings'
 							className='space-y-4 border-t border-zinc-200/60 pt-6 dark:border-zinc-800'
 						>
-							<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
-								<CardHeader>
-									<CardTitle className='text-sm'>Settings</CardTitle>
-								</CardHeader>
-								<CardContent>
-									<p className='text-sm text-muted-foreground'>
-										Settings panel placeholder.
-									</p>
-								</CardContent>
-							</Card>
+							<div>
+								<h2 className='text-lg font-semibold tracking-tight'>
+									Settings
+								</h2>
+								<p className='text-sm text-muted-foreground'>
+									How containers are grouped into clusters.
+								</p>
+							</div>
+							<ClusterRulesPanel canOperate={canOperate} />
 						</section>
 					</main>
 				</div>
 			</div>
 
+			<JobsTray
+				jobs={jobs}
+				canOperate={canOperate}
+				onJobUpdate={updateJob}
+				onJobFinished={finishJob}
+				onDismiss={dismissJob}
+			/>
+
+			<ContainerDetailSheet
+				container={detailContainer}
+				canOperate={canOperate}
+				hostTotals={detailHostTotals}
+				open={isDetailOpen}
+				onOpenChange={setIsDetailOpen}
+			/>
+
+			<ConfirmActionDialog
+				confirmation={confirmation}
+				onClose={() => setConfirmation(null)}
+			/>
+
+			<ContainerTerminalSheet
+				container={terminalContainer}
+				open={isTerminalOpen}
+				onOpenChange={setIsTerminalOpen}
+			/>
+
+			<ContainerSpecSheet
+				container={specContainer}
+				host={selectedHost}
+				hostNames={hosts.map(host => host.name)}
+				open={isSpecOpen}
+				onOpenChange={setIsSpecOpen}
+				onSaved={() => {
+					setActivityRefreshKey(previous => previous + 1)
+					void refreshContainers()
+				}}
+			/>
+
 			<Sheet open={isLogsOpen} onOpenChange={setIsLogsOpen}>
 				<SheetContent className='h-full w-full max-w-4xl border-l border-zinc-800 bg-[#0b0f14] p-0 text-zinc-100 [&>button]:opacity-100 [&>button]:text-zinc-200 [&>button]:hover:bg-white/10 [&>button]:hover:text-zinc-100 [&>button]:focus:ring-zinc-500'>
 					<div className='flex h-full flex-col'>
@@ -1427,7 +2471,7 @@ export function ContainerDashboard() {
 											? void fetchContainerLogs(logsContainer, logsTail)
 											: undefined
 									}
-									disabled={!logsContainer || isLogsLoading}
+									disabled={!logsContainer || isLogsLoading || isLiveTail}
 								>
 									Refresh
 								</Button>
@@ -1450,11 +2494,51 @@ export function ContainerDashboard() {
 									variant='outline'
 									className='border-zinc-700 bg-zinc-900/40 text-zinc-100 hover:bg-zinc-900 hover:text-zinc-100'
 									onClick={() => void copyLogs()}
-									disabled={!logsText}
+									disabled={!visibleLogsText}
 								>
 									<Copy className='mr-2 h-4 w-4' />
 									Copy
 								</Button>
+								<Button
+									size='sm'
+									variant='outline'
+									className={cn(
+										'border-zinc-700 bg-zinc-900/40 text-zinc-100 hover:bg-zinc-900 hover:text-zinc-100',
+										isLiveTail && 'border-emerald-500/60 text-emerald-300',
+									)}
+									onClick={toggleLiveTail}
+									disabled={!logsContainer}
+								>
+									<Radio className='mr-2 h-4 w-4' />
+									{isLiveTail ? 'Live' : 'Live off'}
+								</Button>
+								{isLiveTail && (
+									<Button
+										size='sm'
+										variant='outline'
+										className='border-zinc-700 bg-zinc-900/40 text-zinc-100 hover:bg-zinc-900 hover:text-zinc-100'
+										onClick={toggleLogsPaused}
+									>
+										{isLogsPaused ? (
+											<Play className='mr-2 h-4 w-4' />
+										) : (
+											<Pause className='mr-2 h-4 w-4' />
+										)}
+										{isLogsPaused ? 'Resume' : 'Pause'}
+									</Button>
+								)}
+								<Button
+									size='sm'
+									variant='outline'
+									className={cn(
+										'border-zinc-700 bg-zinc-900/40 text-zinc-100 hover:bg-zinc-900 hover:text-zinc-100',
+										isAutoScroll && 'border-sky-500/60 text-sky-300',
+									)}
+									onClick={() => setIsAutoScroll(!isAutoScroll)}
+								>
+									<ArrowDownToLine className='mr-2 h-4 w-4' />
+									Autoscroll
+								</Button>
 							</div>
 						</div>
 
@@ -1462,7 +2546,33 @@ export function ContainerDashboard() {
 							ref={logsScrollRef}
 							className='mx-5 mb-5 flex-1 overflow-auto rounded-md border border-zinc-800 bg-[#0b0f14] p-3 font-mono'
 						>
-							{isLogsLoading ? (
+							{isLiveTail ? (
+								<>
+									<pre className='whitespace-pre-wrap text-xs leading-relaxed'>
+										{liveFrames.length === 0 ? (
+											<span className='text-zinc-400'>
+												Waiting for output...
+											</span>
+										) : (
+											liveFrames.map((frame, index) => (
+												<span
+													key={index}
+													className={
+														frame.stream === 'stderr'
+															? 'text-rose-300'
+															: 'text-zinc-200'
+													}
+												>
+													{frame.text}
+												</span>
+											))
+										)}
+									</pre>
+									{logsError && (
+										<p className='mt-2 text-sm text-zinc-300'>{logsError}</p>
+									)}
+								</>
+							) : isLogsLoading ? (
 								<p className='text-sm text-zinc-400'>Loading logs...</p>
 							) : logsError ? (
 								<p className='text-sm text-zinc-300'>{logsError}</p>
@@ -1478,3 +2588,42 @@ export function ContainerDashboard() {
 		</div>
 	)
 }
+
+const moreActionLabels: Record<ContainerAction, string> = {
+	start: 'Start',
+	stop: 'Stop',
+	restart: 'Restart',
+	pause: 'Pause',
+	unpause: 'Unpause',
+	kill: 'Kill...',
+	remove: 'Remove...',
+}
+
+function MoreActionsSelect({
+	actions,
+	onSelect,
+	disabled,
+}: {
+	actions: ContainerAction[]
+	onSelect: (action: ContainerAction) => void
+	disabled?: boolean
+}) {
+	return (
+		<Select
+			value=''
+			onChange={event => onSelect(event.target.value as ContainerAction)}
+			disabled={disabled}
+			aria-label='More actions'
+			className='h-8 w-28'
+		>
+			<option value='' disabled>
+				More...
+			</option>
+			{actions.map(action => (
+				<option key={action} value={action}>
+					{moreActionLabels[action]}
+				</option>
+			))}
+		</Select>
+	)
+}
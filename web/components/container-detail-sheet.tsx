@@ -0,0 +1,547 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, RefreshCw } from 'lucide-react'
+import type { ContainerItem } from '@/components/container-dashboard'
+import {
+	ContainerLimitsEditor,
+	type ContainerLimits,
+	type HostTotals,
+} from '@/components/container-limits-editor'
+import { MetricsChart } from '@/components/metrics-chart'
+import { Badge } from '@/components/ui/badge'
+import { IconButton } from '@/components/ui/icon-button'
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from '@/components/ui/sheet'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import {
+	type ContainerStats,
+	containerMetricsTarget,
+	formatByteRate,
+	formatByteSize,
+} from '@/lib/metrics'
+import { cn } from '@/lib/utils'
+
+interface ContainerDetail extends ContainerItem {
+	imageId: string
+	createdAt: string
+	startedAt: string | null
+	finishedAt: string | null
+	exitCode: number | null
+	error: string | null
+	oomKilled: boolean
+	restartCount: number
+	restartPolicy: {
+		name: string
+		maximumRetryCount: number
+	}
+	command: string[]
+	entrypoint: string[]
+	workingDir: string | null
+	user: string | null
+	hostname: string | null
+	networkMode: string | null
+	ports: Array<{
+		containerPort: number
+		protocol: string
+		hostIp: string | null
+		hostPort: number | null
+	}>
+	mounts: Array<{
+		type: string
+		name: string | null
+		source: string
+		destination: string
+		mode: string
+		readOnly: boolean
+	}>
+	env: Array<{ name: string; value: string; masked: boolean }>
+	networks: Array<{
+		name: string
+		ipAddress: string | null
+		gateway: string | null
+		macAddress: string | null
+		aliases: string[]
+	}>
+	health: {
+		status: string | null
+		failingStreak: number
+		lastOutput: string | null
+		lastExitCode: number | null
+		check: {
+			test: string[]
+			intervalSeconds: number | null
+			timeoutSeconds: number | null
+			retries: number | null
+		} | null
+	}
+	limits: ContainerLimits
+}
+
+interface ContainerDetailSheetProps {
+	container: ContainerItem | null
+	canOperate: boolean
+	/** Memory and CPU count of the container's Docker host, when known. */
+	hostTotals: HostTotals | null
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+const formatTimestamp = (value: string | null) =>
+	value ? new Date(value).toLocaleString() : '—'
+
+const healthBadgeClassName = (status: string | null) => {
+	if (status === 'healthy') {
+		return 'border-emerald-500/40 bg-emerald-500/15 text-emerald-700 dark:text-emerald-300'
+	}
+
+	if (status === 'unhealthy') {
+		return 'border-rose-500/40 bg-rose-500/15 text-rose-700 dark:text-rose-300'
+	}
+
+	return 'border-amber-500/40 bg-amber-500/15 text-amber-700 dark:text-amber-300'
+}
+
+function DetailSection({
+	title,
+	children,
+}: {
+	title: string
+	children: React.ReactNode
+}) {
+	return (
+		<section className='space-y-2'>
+			<h3 className='text-xs font-medium uppercase tracking-widest text-muted-foreground'>
+				{title}
+			</h3>
+			{children}
+		</section>
+	)
+}
+
+function DetailRow({
+	label,
+	value,
+}: {
+	label: string
+	value: React.ReactNode
+}) {
+	return (
+		<div className='flex items-start justify-between gap-4 py-1 text-sm'>
+			<span className='shrink-0 text-muted-foreground'>{label}</span>
+			<span className='min-w-0 break-all text-right font-mono text-xs'>
+				{value}
+			</span>
+		</div>
+	)
+}
+
+export function ContainerDetailSheet({
+	container,
+	canOperate,
+	hostTotals,
+	open,
+	onOpenChange,
+}: ContainerDetailSheetProps) {
+	const [detail, setDetail] = useState<ContainerDetail | null>(null)
+	const [stats, setStats] = useState<ContainerStats | null>(null)
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+	// Live usage is optional; a stopped container has none to show.
+	const fetchStats = async (target: ContainerItem) => {
+		try {
+			const response = await fetch(
+				`/api/containers/${target.id}/stats?host=${encodeURIComponent(target.host)}`,
+				{ cache: 'no-store' },
+			)
+			setStats(response.ok ? ((await response.json()) as ContainerStats) : null)
+		} catch {
+			setStats(null)
+		}
+	}
+
+	const fetchDetail = async (target: ContainerItem) => {
+		setIsLoading(true)
+		setErrorMessage(null)
+		if (target.state === 'running') {
+			void fetchStats(target)
+		}
+		try {
+			const response = await fetch(
+				`/api/containers/${target.id}?host=${encodeURIComponent(target.host)}`,
+				{ cache: 'no-store' },
+			)
+			if (!response.ok) {
+				throw new Error('Failed to load container details')
+			}
+
+			setDetail((await response.json()) as ContainerDetail)
+		} catch {
+			setDetail(null)
+			setErrorMessage('Container details unavailable')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		if (open && container) {
+			setDetail(null)
+			setStats(null)
+			void fetchDetail(container)
+		}
+	}, [open, container?.host, container?.id])
+
+	return (
+		<Sheet open={open} onOpenChange={onOpenChange}>
+			<SheetContent className='h-full w-full max-w-2xl overflow-y-auto'>
+				<SheetHeader className='pr-8'>
+					<div className='flex items-center justify-between gap-3'>
+						<SheetTitle className='truncate'>
+							{container ? container.name : 'Container'}
+						</SheetTitle>
+						<IconButton
+							variant='outline'
+							size='sm'
+							aria-label='Refresh details'
+							onClick={() => container && void fetchDetail(container)}
+							disabled={!container || isLoading}
+							icon={
+								<RefreshCw
+									className={cn('h-4 w-4', isLoading && 'animate-spin')}
+								/>
+							}
+						/>
+					</div>
+					<SheetDescription className='font-mono text-xs'>
+						{container
+							? `${container.host} · ${container.id.slice(0, 12)}`
+							: ''}
+					</SheetDescription>
+				</SheetHeader>
+
+				{errorMessage ? (
+					<p className='mt-6 text-sm text-destructive'>{errorMessage}</p>
+				) : !detail ? (
+					<div className='mt-6 flex items-center gap-2 text-sm text-muted-foreground'>
+						<Loader2 className='h-4 w-4 animate-spin' />
+						Loading...
+					</div>
+				) : (
+					<div className='mt-6 space-y-6'>
+						<DetailSection title='Overview'>
+							<div className='divide-y rounded-md border px-3'>
+								<DetailRow label='Image' value={detail.image} />
+								<DetailRow
+									label='Image ID'
+									value={detail.imageId.slice(0, 19)}
+								/>
+								<DetailRow label='State' value={detail.status} />
+								<DetailRow
+									label='Exit code'
+									value={
+										detail.exitCode === null
+											? '—'
+											: `${detail.exitCode}${detail.oomKilled ? ' (OOM killed)' : ''}`
+									}
+								/>
+								{detail.error && (
+									<DetailRow label='Error' value={detail.error} />
+								)}
+								<DetailRow
+									label='Created'
+									value={formatTimestamp(detail.createdAt)}
+								/>
+								<DetailRow
+									label='Started'
+									value={formatTimestamp(detail.startedAt)}
+								/>
+								<DetailRow
+									label='Finished'
+									value={formatTimestamp(detail.finishedAt)}
+								/>
+								<DetailRow
+									label='Restart policy'
+									value={
+										detail.restartPolicy.maximumRetryCount > 0
+											? `${detail.restartPolicy.name} (max ${detail.restartPolicy.maximumRetryCount})`
+											: detail.restartPolicy.name
+									}
+								/>
+								<DetailRow label='Restarts' value={detail.restartCount} />
+								<DetailRow
+									label='Command'
+									value={
+										[...detail.entrypoint, ...detail.command].join(' ') || '—'
+									}
+								/>
+								<DetailRow
+									label='Working dir'
+									value={detail.workingDir ?? '—'}
+								/>
+								<DetailRow label='User' value={detail.user ?? '—'} />
+								<DetailRow label='Hostname' value={detail.hostname ?? '—'} />
+							</div>
+						</DetailSection>
+
+						{stats && (
+							<DetailSection title='Live usage'>
+								<div className='divide-y rounded-md border px-3'>
+									<DetailRow
+										label='CPU'
+										value={`${stats.cpuPercent.toFixed(1)}%`}
+									/>
+									{stats.perCpuPercent.length > 0 && (
+										<DetailRow
+											label='Per CPU'
+											value={stats.perCpuPercent
+												.map(
+													(percent, index) =>
+														`${index}: ${percent.toFixed(0)}%`,
+												)
+												.join(' · ')}
+										/>
+									)}
+									{stats.throttling && (
+										<DetailRow
+											label='Throttled'
+											value={`${stats.throttling.throttledPercent.toFixed(1)}% of periods · ${stats.throttling.throttledPeriods}/${stats.throttling.periods} total · ${(stats.throttling.throttledTimeNanos / 1e9).toFixed(1)}s`}
+										/>
+									)}
+									<DetailRow
+										label='Memory'
+										value={`${formatByteSize(stats.memUsageBytes)} of ${formatByteSize(stats.memLimitBytes)} (${stats.memPercent.toFixed(1)}%)`}
+									/>
+									<DetailRow
+										label='Page cache'
+										value={formatByteSize(stats.memCacheBytes)}
+									/>
+									<DetailRow
+										label='Block I/O'
+										value={`read ${formatByteSize(stats.blockReadBytes)} · written ${formatByteSize(stats.blockWriteBytes)}`}
+									/>
+									<DetailRow label='PIDs' value={stats.pids ?? '—'} />
+								</div>
+								{stats.networks.length > 0 && (
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>Interface</TableHead>
+												<TableHead>Received</TableHead>
+												<TableHead>Sent</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{stats.networks.map(network => (
+												<TableRow key={network.interface}>
+													<TableCell className='font-mono text-xs'>
+														{network.interface}
+													</TableCell>
+													<TableCell className='font-mono text-xs'>
+														{formatByteSize(network.rxBytes)} ·{' '}
+														{formatByteRate(network.rxBytesPerSecond)}
+													</TableCell>
+													<TableCell className='font-mono text-xs'>
+														{formatByteSize(network.txBytes)} ·{' '}
+														{formatByteRate(network.txBytesPerSecond)}
+													</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+								)}
+							</DetailSection>
+						)}
+
+						<DetailSection title='Resource limits'>
+							<ContainerLimitsEditor
+								host={detail.host}
+								id={detail.id}
+								limits={detail.limits}
+								canOperate={canOperate}
+								hostTotals={hostTotals}
+								onUpdated={limits =>
+									setDetail(previous =>
+										previous ? { ...previous, limits } : previous,
+									)
+								}
+							/>
+						</DetailSection>
+
+						<DetailSection title='Resource history'>
+							<MetricsChart
+								target={containerMetricsTarget(detail.host, detail.id)}
+							/>
+						</DetailSection>
+
+						<DetailSection title='Health'>
+							<div className='space-y-2 rounded-md border p-3 text-sm'>
+								<div className='flex items-center gap-2'>
+									<Badge
+										variant='secondary'
+										className={healthBadgeClassName(detail.health.status)}
+									>
+										{detail.health.status ?? 'no health check'}
+									</Badge>
+									{detail.health.failingStreak > 0 && (
+										<span className='text-xs text-muted-foreground'>
+											{detail.health.failingStreak} failing in a row
+										</span>
+									)}
+								</div>
+								{detail.health.check && (
+									<p className='font-mono text-xs text-muted-foreground'>
+										{detail.health.check.test.join(' ')}
+										{detail.health.check.intervalSeconds !== null &&
+											` · every ${detail.health.check.intervalSeconds}s`}
+										{detail.health.check.retries !== null &&
+											` · ${detail.health.check.retries} retries`}
+									</p>
+								)}
+								{detail.health.lastOutput && (
+									<pre className='max-h-32 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 font-mono text-xs'>
+										{detail.health.lastOutput}
+									</pre>
+								)}
+							</div>
+						</DetailSection>
+
+						<DetailSection title='Ports'>
+							{detail.ports.length === 0 ? (
+								<p className='text-sm text-muted-foreground'>No ports.</p>
+							) : (
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Container</TableHead>
+											<TableHead>Host</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{detail.ports.map(port => (
+											<TableRow
+												key={`${port.containerPort}/${port.protocol}-${port.hostIp}-${port.hostPort}`}
+											>
+												<TableCell className='font-mono text-xs'>
+													{port.containerPort}/{port.protocol}
+												</TableCell>
+												<TableCell className='font-mono text-xs'>
+													{port.hostPort === null
+														? 'not published'
+														: `${port.hostIp ?? '0.0.0.0'}:${port.hostPort}`}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							)}
+						</DetailSection>
+
+						<DetailSection title='Mounts'>
+							{detail.mounts.length === 0 ? (
+								<p className='text-sm text-muted-foreground'>No mounts.</p>
+							) : (
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Type</TableHead>
+											<TableHead>Source</TableHead>
+											<TableHead>Destination</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{detail.mounts.map(mount => (
+											<TableRow key={mount.destination}>
+												<TableCell>
+													<Badge variant='secondary'>{mount.type}</Badge>
+												</TableCell>
+												<TableCell className='max-w-48 break-all font-mono text-xs'>
+													{mount.name ?? mount.source}
+												</TableCell>
+												<TableCell className='break-all font-mono text-xs'>
+													{mount.destination}
+													{mount.readOnly && (
+														<span className='ml-1 text-muted-foreground'>
+															(ro)
+														</span>
+													)}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							)}
+						</DetailSection>
+
+						<DetailSection title='Networks'>
+							{detail.networks.length === 0 ? (
+								<p className='text-sm text-muted-foreground'>
+									{detail.networkMode ?? 'No networks.'}
+								</p>
+							) : (
+								<div className='space-y-2'>
+									{detail.networks.map(network => (
+										<div
+											key={network.name}
+											className='divide-y rounded-md border px-3'
+										>
+											<DetailRow label='Network' value={network.name} />
+											<DetailRow label='IP' value={network.ipAddress ?? '—'} />
+											<DetailRow
+												label='Gateway'
+												value={network.gateway ?? '—'}
+											/>
+											{network.aliases.length > 0 && (
+												<DetailRow
+													label='Aliases'
+													value={network.aliases.join(', ')}
+												/>
+											)}
+										</div>
+									))}
+								</div>
+							)}
+						</DetailSection>
+
+						<DetailSection title='Environment'>
+							{detail.env.length === 0 ? (
+								<p className='text-sm text-muted-foreground'>No variables.</p>
+							) : (
+								<div className='divide-y rounded-md border px-3'>
+									{detail.env.map(variable => (
+										<DetailRow
+											key={variable.name}
+											label={variable.name}
+											value={
+												<span
+													className={cn(
+														variable.masked && 'text-muted-foreground',
+													)}
+												>
+													{variable.value}
+												</span>
+											}
+										/>
+									))}
+								</div>
+							)}
+						</DetailSection>
+					</div>
+				)}
+			</SheetContent>
+		</Sheet>
+	)
+}
@@ -0,0 +1,324 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+export interface ContainerLimits {
+	memoryBytes: number | null
+	memorySwapBytes: number | null
+	cpuShares: number | null
+	cpuQuota: number | null
+	cpuPeriod: number | null
+	cpusetCpus: string | null
+	pidsLimit: number | null
+	cpus: number | null
+}
+
+type LimitField = Exclude<keyof ContainerLimits, 'cpus'>
+
+export interface HostTotals {
+	totalMemBytes: number
+	cpuCount: number
+}
+
+// Docker refuses memory limits below 6 MiB.
+const MIN_MEMORY_MB = 6
+const DEFAULT_CPU_PERIOD = 100000
+
+const MB = 1024 ** 2
+
+type LimitsForm = Record<LimitField, string>
+
+const toForm = (limits: ContainerLimits): LimitsForm => ({
+	memoryBytes: limits.memoryBytes ? String(limits.memoryBytes / MB) : '',
+	memorySwapBytes:
+		limits.memorySwapBytes === -1
+			? '-1'
+			: limits.memorySwapBytes
+				? String(limits.memorySwapBytes / MB)
+				: '',
+	cpuShares: limits.cpuShares ? String(limits.cpuShares) : '',
+	cpuQuota: limits.cpuQuota ? String(limits.cpuQuota) : '',
+	cpuPeriod: limits.cpuPeriod ? String(limits.cpuPeriod) : '',
+	cpusetCpus: limits.cpusetCpus ?? '',
+	pidsLimit: limits.pidsLimit ? String(limits.pidsLimit) : '',
+})
+
+const fields: Array<{
+	field: LimitField
+	label: string
+	placeholder: string
+	inputMode: 'numeric' | 'text'
+}> = [
+	{
+		field: 'memoryBytes',
+		label: 'Memory (MB)',
+		placeholder: 'Unlimited',
+		inputMode: 'numeric',
+	},
+	{
+		field: 'memorySwapBytes',
+		label: 'Memory + swap (MB)',
+		placeholder: 'Default, -1 for unlimited',
+		inputMode: 'numeric',
+	},
+	{
+		field: 'cpuShares',
+		label: 'CPU shares',
+		placeholder: '1024',
+		inputMode: 'numeric',
+	},
+	{
+		field: 'cpuQuota',
+		label: 'CPU quota (µs)',
+		placeholder: 'Unlimited',
+		inputMode: 'numeric',
+	},
+	{
+		field: 'cpuPeriod',
+		label: 'CPU period (µs)',
+		placeholder: String(DEFAULT_CPU_PERIOD),
+		inputMode: 'numeric',
+	},
+	{
+		field: 'cpusetCpus',
+		label: 'CPUs allowed',
+		placeholder: 'All, e.g. 0-3 or 0,2',
+		inputMode: 'text',
+	},
+	{
+		field: 'pidsLimit',
+		label: 'PIDs limit',
+		placeholder: 'Unlimited',
+		inputMode: 'numeric',
+	},
+]
+
+const parseNumber = (value: string) =>
+	value.trim() ? Number(value.trim()) : null
+
+/**
+ * Returns the request body with only the changed fields (`null` removes a
+ * limit), or an error message. Host totals, when known, bound memory and CPU.
+ */
+const toUpdate = (
+	form: LimitsForm,
+	current: LimitsForm,
+	hostTotals: HostTotals | null,
+): { body: Partial<Record<LimitField, number | string | null>> } | string => {
+	const body: Partial<Record<LimitField, number | string | null>> = {}
+	const memoryMb = parseNumber(form.memoryBytes)
+	const swapMb = parseNumber(form.memorySwapBytes)
+	const quota = parseNumber(form.cpuQuota)
+	const period = parseNumber(form.cpuPeriod) ?? DEFAULT_CPU_PERIOD
+
+	for (const { field, label } of fields) {
+		const value = form[field].trim()
+		if (value === current[field]) {
+			continue
+		}
+		if (field === 'cpusetCpus') {
+			body[field] = value || null
+			continue
+		}
+
+		const parsed = parseNumber(value)
+		if (parsed !== null && !Number.isFinite(parsed)) {
+			return `${label} must be a number`
+		}
+		body[field] =
+			parsed === null
+				? null
+				: field === 'memoryBytes' || field === 'memorySwapBytes'
+					? parsed === -1
+						? -1
+						: Math.round(parsed * MB)
+					: Math.round(parsed)
+	}
+
+	if (Object.keys(body).length === 0) {
+		return 'Nothing changed'
+	}
+	if (current.memoryBytes && memoryMb === null) {
+		return 'The memory limit cannot be removed; recreate the container without one'
+	}
+	if (memoryMb !== null && memoryMb < MIN_MEMORY_MB) {
+		return `Memory must be at least ${MIN_MEMORY_MB} MB`
+	}
+	if (swapMb !== null && swapMb !== -1) {
+		if (memoryMb === null) {
+			return 'Memory + swap needs a memory limit'
+		}
+		if (swapMb < memoryMb) {
+			return 'Memory + swap cannot be below the memory limit'
+		}
+	}
+	if (hostTotals) {
+		if (memoryMb !== null && memoryMb * MB > hostTotals.totalMemBytes) {
+			return `Memory exceeds the host's ${Math.floor(hostTotals.totalMemBytes / MB)} MB`
+		}
+		if (quota !== null && quota / period > hostTotals.cpuCount) {
+			return `The quota allows ${(quota / period).toFixed(2)} CPUs but the host has ${hostTotals.cpuCount}`
+		}
+		const highestCpu = Math.max(
+			-1,
+			...form.cpusetCpus
+				.split(/[,-]/)
+				.filter(part => part.trim().length > 0)
+				.map(part => Number.parseInt(part, 10)),
+		)
+		if (highestCpu >= hostTotals.cpuCount) {
+			return `CPU ${highestCpu} does not exist; the host has CPUs 0-${hostTotals.cpuCount - 1}`
+		}
+	}
+
+	return { body }
+}
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+interface ContainerLimitsEditorProps {
+	host: string
+	id: string
+	limits: ContainerLimits
+	canOperate: boolean
+	/** Totals of the Docker host, when the dashboard knows them. */
+	hostTotals: HostTotals | null
+	onUpdated: (limits: ContainerLimits) => void
+}
+
+/**
+ * Resource limits of a container. Operators edit them in place; changes
+ * apply to the running container without a restart.
+ */
+export function ContainerLimitsEditor({
+	host,
+	id,
+	limits,
+	canOperate,
+	hostTotals,
+	onUpdated,
+}: ContainerLimitsEditorProps) {
+	const current = toForm(limits)
+	const [form, setForm] = useState<LimitsForm>(current)
+	const [isSaving, setIsSaving] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+	useEffect(() => {
+		setForm(toForm(limits))
+		setErrorMessage(null)
+	}, [limits])
+
+	const isDirty = fields.some(
+		({ field }) => form[field].trim() !== current[field],
+	)
+
+	const save = async () => {
+		const update = toUpdate(form, current, hostTotals)
+		if (typeof update === 'string') {
+			setErrorMessage(update)
+			return
+		}
+
+		setIsSaving(true)
+		setErrorMessage(null)
+		try {
+			const response = await fetch(
+				`/api/containers/${encodeURIComponent(id)}/limits?host=${encodeURIComponent(host)}`,
+				{
+					method: 'PUT',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify(update.body),
+				},
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, 'Update failed'))
+			}
+
+			const result = (await response.json()) as {
+				limits: ContainerLimits
+				warnings: string[]
+			}
+			toast.success('Limits updated')
+			for (const warning of result.warnings) {
+				toast.warning(warning)
+			}
+			onUpdated(result.limits)
+		} catch (error) {
+			setErrorMessage(error instanceof Error ? error.message : 'Update failed')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<form
+			className='space-y-3 rounded-md border p-3'
+			onSubmit={event => {
+				event.preventDefault()
+				void save()
+			}}
+		>
+			<div className='grid gap-3 sm:grid-cols-2'>
+				{fields.map(({ field, label, placeholder, inputMode }) => (
+					<label key={field} className='block space-y-1'>
+						<span className='text-xs text-muted-foreground'>{label}</span>
+						<Input
+							value={form[field]}
+							placeholder={placeholder}
+							inputMode={inputMode}
+							disabled={!canOperate}
+							className='font-mono'
+							onChange={event =>
+								setForm(previous => ({
+									...previous,
+									[field]: event.target.value,
+								}))
+							}
+						/>
+					</label>
+				))}
+			</div>
+			<p className='text-xs text-muted-foreground'>
+				{limits.cpus !== null &&
+					`Created with --cpus ${limits.cpus}, which excludes a CPU quota. `}
+				{hostTotals
+					? `Host: ${Math.floor(hostTotals.totalMemBytes / MB)} MB memory, ${hostTotals.cpuCount} CPUs.`
+					: 'Host totals unknown; Docker checks the values.'}
+			</p>
+			{errorMessage && (
+				<p className='text-xs text-destructive'>{errorMessage}</p>
+			)}
+			{canOperate && (
+				<div className='flex gap-2'>
+					<Button type='submit' size='sm' disabled={!isDirty || isSaving}>
+						{isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+						Apply limits
+					</Button>
+					<Button
+						type='button'
+						size='sm'
+						variant='outline'
+						disabled={!isDirty || isSaving}
+						onClick={() => {
+							setForm(current)
+							setErrorMessage(null)
+						}}
+					>
+						Reset
+					</Button>
+				</div>
+			)}
+		</form>
+	)
+}
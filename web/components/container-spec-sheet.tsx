@@ -0,0 +1,673 @@
+'use client'
+
+import { type ReactNode, useEffect, useState } from 'react'
+import { Loader2, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ContainerItem } from '@/components/container-dashboard'
+import { Button } from '@/components/ui/button'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from '@/components/ui/sheet'
+
+type RestartPolicyName = 'no' | 'always' | 'unless-stopped' | 'on-failure'
+
+type PortProtocol = 'tcp' | 'udp' | 'sctp'
+
+interface ContainerSpec {
+	image: string
+	name?: string
+	command?: string[]
+	env?: Record<string, string>
+	ports?: Array<{
+		containerPort: number
+		protocol?: PortProtocol
+		hostPort?: number | null
+		hostIp?: string
+	}>
+	mounts?: Array<{ source: string; target: string; readOnly?: boolean }>
+	networks?: string[]
+	restartPolicy?: RestartPolicyName
+	labels?: Record<string, string>
+	memoryBytes?: number | null
+	cpus?: number | null
+	start?: boolean
+}
+
+interface ContainerSpecResult {
+	host: string
+	id: string
+	name: string
+	warnings: string[]
+}
+
+interface PortRow {
+	hostIp: string
+	hostPort: string
+	containerPort: string
+	protocol: PortProtocol
+}
+
+interface MountRow {
+	source: string
+	target: string
+	readOnly: boolean
+}
+
+interface PairRow {
+	key: string
+	value: string
+}
+
+// Form state keeps every field as typed text; it is parsed on submit.
+interface SpecForm {
+	image: string
+	name: string
+	command: string[] | undefined
+	ports: PortRow[]
+	env: PairRow[]
+	mounts: MountRow[]
+	networks: string
+	restartPolicy: RestartPolicyName
+	cluster: string
+	labels: PairRow[]
+	memoryMb: string
+	cpus: string
+	start: boolean
+}
+
+const CLUSTER_LABEL = 'kz.cluster'
+
+const restartPolicies: RestartPolicyName[] = [
+	'no',
+	'always',
+	'unless-stopped',
+	'on-failure',
+]
+
+const emptyForm: SpecForm = {
+	image: '',
+	name: '',
+	command: undefined,
+	ports: [],
+	env: [],
+	mounts: [],
+	networks: '',
+	restartPolicy: 'unless-stopped',
+	cluster: '',
+	labels: [],
+	memoryMb: '',
+	cpus: '',
+	start: true,
+}
+
+const toPairs = (record: Record<string, string> = {}) =>
+	Object.entries(record).map(([key, value]) => ({ key, value }))
+
+const fromPairs = (rows: PairRow[]) =>
+	Object.fromEntries(
+		rows
+			.filter(row => row.key.trim().length > 0)
+			.map(row => [row.key.trim(), row.value]),
+	)
+
+const toForm = (spec: ContainerSpec): SpecForm => {
+	const { [CLUSTER_LABEL]: cluster = '', ...labels } = spec.labels ?? {}
+
+	return {
+		image: spec.image,
+		name: spec.name ?? '',
+		command: spec.command,
+		ports: (spec.ports ?? []).map(port => ({
+			hostIp: port.hostIp ?? '',
+			hostPort: port.hostPort ? String(port.hostPort) : '',
+			containerPort: String(port.containerPort),
+			protocol: port.protocol ?? 'tcp',
+		})),
+		env: toPairs(spec.env),
+		mounts: (spec.mounts ?? []).map(mount => ({
+			source: mount.source,
+			target: mount.target,
+			readOnly: mount.readOnly ?? false,
+		})),
+		networks: (spec.networks ?? []).join(', '),
+		restartPolicy: spec.restartPolicy ?? 'no',
+		cluster,
+		labels: toPairs(labels),
+		memoryMb: spec.memoryBytes
+			? String(Math.round(spec.memoryBytes / 1024 ** 2))
+			: '',
+		cpus: spec.cpus ? String(spec.cpus) : '',
+		start: spec.start ?? true,
+	}
+}
+
+const toSpec = (form: SpecForm): ContainerSpec => {
+	const labels = fromPairs(form.labels)
+	if (form.cluster.trim()) {
+		labels[CLUSTER_LABEL] = form.cluster.trim()
+	}
+
+	return {
+		image: form.image.trim(),
+		name: form.name.trim() || undefined,
+		command: form.command,
+		env: fromPairs(form.env),
+		ports: form.ports
+			.filter(port => port.containerPort.trim().length > 0)
+			.map(port => ({
+				containerPort: Number(port.containerPort),
+				protocol: port.protocol,
+				hostPort: port.hostPort.trim() ? Number(port.hostPort) : null,
+				hostIp: port.hostIp.trim() || undefined,
+			})),
+		mounts: form.mounts
+			.filter(mount => mount.source.trim() && mount.target.trim())
+			.map(mount => ({
+				source: mount.source.trim(),
+				target: mount.target.trim(),
+				readOnly: mount.readOnly,
+			})),
+		networks: form.networks
+			.split(',')
+			.map(network => network.trim())
+			.filter(network => network.length > 0),
+		restartPolicy: form.restartPolicy,
+		labels,
+		memoryBytes: form.memoryMb.trim()
+			? Number(form.memoryMb) * 1024 ** 2
+			: null,
+		cpus: form.cpus.trim() ? Number(form.cpus) : null,
+		start: form.start,
+	}
+}
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+interface ContainerSpecSheetProps {
+	/** Container to recreate, or null to create a new one. */
+	container: ContainerItem | null
+	/** Selected host, or `all`; new containers go to the chosen host. */
+	host: string
+	hostNames: string[]
+	open: boolean
+	onOpenChange: (open: boolean) => void
+	onSaved: (result: ContainerSpecResult) => void
+}
+
+/**
+ * Form for creating a container, or for recreating one with changes. For a
+ * recreate the form starts from the container's current configuration; the
+ * API swaps the containers and restores the old one if the new one fails.
+ */
+export function ContainerSpecSheet({
+	container,
+	host,
+	hostNames,
+	open,
+	onOpenChange,
+	onSaved,
+}: ContainerSpecSheetProps) {
+	const [form, setForm] = useState<SpecForm>(emptyForm)
+	const [targetHost, setTargetHost] = useState('')
+	const [isLoading, setIsLoading] = useState(false)
+	const [isSaving, setIsSaving] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+	const actionHost = container
+		? container.host
+		: host === 'all'
+			? targetHost || hostNames[0] || ''
+			: host
+
+	useEffect(() => {
+		if (!open) {
+			return
+		}
+
+		setErrorMessage(null)
+		if (!container) {
+			setForm(emptyForm)
+			return
+		}
+
+		let isCancelled = false
+		setForm(emptyForm)
+		setIsLoading(true)
+		const loadSpec = async () => {
+			try {
+				const response = await fetch(
+					`/api/containers/${encodeURIComponent(container.id)}/spec?host=${encodeURIComponent(container.host)}`,
+					{ cache: 'no-store' },
+				)
+				if (!response.ok) {
+					throw new Error(
+						await readErrorMessage(response, 'Failed to read configuration'),
+					)
+				}
+
+				const spec = (await response.json()) as ContainerSpec
+				if (!isCancelled) {
+					setForm(toForm(spec))
+				}
+			} catch (error) {
+				if (!isCancelled) {
+					setErrorMessage(
+						error instanceof Error
+							? error.message
+							: 'Failed to read configuration',
+					)
+				}
+			} finally {
+				if (!isCancelled) {
+					setIsLoading(false)
+				}
+			}
+		}
+
+		void loadSpec()
+
+		return () => {
+			isCancelled = true
+		}
+	}, [open, container])
+
+	const update = (changes: Partial<SpecForm>) =>
+		setForm(previous => ({ ...previous, ...changes }))
+
+	const submit = async () => {
+		if (
+			container &&
+			!window.confirm(
+				`Stop, remove and recreate ${container.name} with this configuration?`,
+			)
+		) {
+			return
+		}
+
+		setIsSaving(true)
+		setErrorMessage(null)
+		try {
+			const path = container
+				? `/api/containers/${encodeURIComponent(container.id)}/recreate`
+				: '/api/containers'
+			const response = await fetch(
+				`${path}?host=${encodeURIComponent(actionHost)}`,
+				{
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify(toSpec(form)),
+				},
+			)
+			if (!response.ok) {
+				throw new Error(
+					await readErrorMessage(
+						response,
+						container ? 'Recreate failed' : 'Create failed',
+					),
+				)
+			}
+
+			const result = (await response.json()) as ContainerSpecResult
+			toast.success(
+				container ? `${result.name} recreated` : `${result.name} created`,
+			)
+			for (const warning of result.warnings) {
+				toast.warning(warning)
+			}
+			onSaved(result)
+			onOpenChange(false)
+		} catch (error) {
+			setErrorMessage(error instanceof Error ? error.message : 'Save failed')
+		} finally {
+			setIsSaving(false)
+		}
+	}
+
+	return (
+		<Sheet open={open} onOpenChange={onOpenChange}>
+			<SheetContent className='w-full max-w-2xl overflow-y-auto'>
+				<SheetHeader>
+					<SheetTitle>
+						{container ? `Recreate · ${container.name}` : 'New container'}
+					</SheetTitle>
+					<SheetDescription>
+						{container
+							? `Edit the configuration read from ${container.host}; the old container is restored if the new one fails.`
+							: 'Pulls the image if it is missing, then creates the container.'}
+					</SheetDescription>
+				</SheetHeader>
+
+				{isLoading ? (
+					<Loader2 className='mt-6 h-4 w-4 animate-spin text-muted-foreground' />
+				) : (
+					<form
+						className='mt-5 space-y-5 text-sm'
+						onSubmit={event => {
+							event.preventDefault()
+							void submit()
+						}}
+					>
+						<div className='grid gap-3 md:grid-cols-2'>
+							<Field label='Image'>
+								<Input
+									required
+									placeholder='nginx:latest'
+									value={form.image}
+									onChange={event => update({ image: event.target.value })}
+								/>
+							</Field>
+							<Field label='Name'>
+								<Input
+									placeholder='Generated if empty'
+									value={form.name}
+									onChange={event => update({ name: event.target.value })}
+								/>
+							</Field>
+							{!container && host === 'all' && (
+								<Field label='Host'>
+									<Select
+										value={actionHost}
+										onChange={event => setTargetHost(event.target.value)}
+									>
+										{hostNames.map(name => (
+											<option key={name} value={name}>
+												{name}
+											</option>
+										))}
+									</Select>
+								</Field>
+							)}
+							<Field label='Cluster (kz.cluster)'>
+								<Input
+									placeholder='None'
+									value={form.cluster}
+									onChange={event => update({ cluster: event.target.value })}
+								/>
+							</Field>
+						</div>
+
+						<RowList
+							label='Ports'
+							onAdd={() =>
+								update({
+									ports: [
+										...form.ports,
+										{
+											hostIp: '',
+											hostPort: '',
+											containerPort: '',
+											protocol: 'tcp',
+										},
+									],
+								})
+							}
+							rows={form.ports}
+							onChange={ports => update({ ports })}
+							render={(port, change) => (
+								<>
+									<Input
+										placeholder='Host IP'
+										value={port.hostIp}
+										onChange={event => change({ hostIp: event.target.value })}
+									/>
+									<Input
+										placeholder='Host port'
+										inputMode='numeric'
+										value={port.hostPort}
+										onChange={event => change({ hostPort: event.target.value })}
+									/>
+									<Input
+										placeholder='Container port'
+										inputMode='numeric'
+										value={port.containerPort}
+										onChange={event =>
+											change({ containerPort: event.target.value })
+										}
+									/>
+									<Select
+										value={port.protocol}
+										aria-label='Protocol'
+										onChange={event =>
+											change({ protocol: event.target.value as PortProtocol })
+										}
+									>
+										<option value='tcp'>tcp</option>
+										<option value='udp'>udp</option>
+										<option value='sctp'>sctp</option>
+									</Select>
+								</>
+							)}
+						/>
+
+						<RowList
+							label='Environment'
+							onAdd={() =>
+								update({ env: [...form.env, { key: '', value: '' }] })
+							}
+							rows={form.env}
+							onChange={env => update({ env })}
+							render={(row, change) => (
+								<>
+									<Input
+										placeholder='NAME'
+										className='font-mono'
+										value={row.key}
+										onChange={event => change({ key: event.target.value })}
+									/>
+									<Input
+										placeholder='value'
+										className='font-mono'
+										value={row.value}
+										onChange={event => change({ value: event.target.value })}
+									/>
+								</>
+							)}
+						/>
+
+						<RowList
+							label='Volumes'
+							onAdd={() =>
+								update({
+									mounts: [
+										...form.mounts,
+										{ source: '', target: '', readOnly: false },
+									],
+								})
+							}
+							rows={form.mounts}
+							onChange={mounts => update({ mounts })}
+							render={(mount, change) => (
+								<>
+									<Input
+										placeholder='Volume or /host/path'
+										value={mount.source}
+										onChange={event => change({ source: event.target.value })}
+									/>
+									<Input
+										placeholder='/container/path'
+										value={mount.target}
+										onChange={event => change({ target: event.target.value })}
+									/>
+									<label className='flex shrink-0 items-center gap-1.5 text-xs'>
+										<input
+											type='checkbox'
+											checked={mount.readOnly}
+											onChange={event =>
+												change({ readOnly: event.target.checked })
+											}
+										/>
+										read-only
+									</label>
+								</>
+							)}
+						/>
+
+						<div className='grid gap-3 md:grid-cols-2'>
+							<Field label='Networks'>
+								<Input
+									placeholder='bridge, comma separated'
+									value={form.networks}
+									onChange={event => update({ networks: event.target.value })}
+								/>
+							</Field>
+							<Field label='Restart policy'>
+								<Select
+									value={form.restartPolicy}
+									onChange={event =>
+										update({
+											restartPolicy: event.target.value as RestartPolicyName,
+										})
+									}
+								>
+									{restartPolicies.map(policy => (
+										<option key={policy} value={policy}>
+											{policy}
+										</option>
+									))}
+								</Select>
+							</Field>
+							<Field label='Memory limit (MB)'>
+								<Input
+									inputMode='numeric'
+									placeholder='Unlimited'
+									value={form.memoryMb}
+									onChange={event => update({ memoryMb: event.target.value })}
+								/>
+							</Field>
+							<Field label='CPUs'>
+								<Input
+									inputMode='decimal'
+									placeholder='Unlimited'
+									value={form.cpus}
+									onChange={event => update({ cpus: event.target.value })}
+								/>
+							</Field>
+						</div>
+
+						<RowList
+							label='Labels'
+							onAdd={() =>
+								update({ labels: [...form.labels, { key: '', value: '' }] })
+							}
+							rows={form.labels}
+							onChange={labels => update({ labels })}
+							render={(row, change) => (
+								<>
+									<Input
+										placeholder='key'
+										className='font-mono'
+										value={row.key}
+										onChange={event => change({ key: event.target.value })}
+									/>
+									<Input
+										placeholder='value'
+										className='font-mono'
+										value={row.value}
+										onChange={event => change({ value: event.target.value })}
+									/>
+								</>
+							)}
+						/>
+
+						<label className='flex items-center gap-2'>
+							<input
+								type='checkbox'
+								checked={form.start}
+								onChange={event => update({ start: event.target.checked })}
+							/>
+							Start after {container ? 'recreating' : 'creating'}
+						</label>
+
+						{errorMessage && (
+							<p className='rounded-md border border-destructive/40 p-3 text-xs text-destructive'>
+								{errorMessage}
+							</p>
+						)}
+
+						<Button
+							type='submit'
+							variant={container ? 'destructive' : 'default'}
+							disabled={isSaving || !form.image.trim() || !actionHost}
+						>
+							{isSaving && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+							{container ? 'Recreate' : 'Create'}
+						</Button>
+					</form>
+				)}
+			</SheetContent>
+		</Sheet>
+	)
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+	return (
+		<label className='block space-y-1'>
+			<span className='text-xs text-muted-foreground'>{label}</span>
+			{children}
+		</label>
+	)
+}
+
+interface RowListProps<Row> {
+	label: string
+	rows: Row[]
+	onAdd: () => void
+	onChange: (rows: Row[]) => void
+	render: (row: Row, change: (changes: Partial<Row>) => void) => ReactNode
+}
+
+// Editable list of rows, such as ports or environment variables.
+function RowList<Row>({
+	label,
+	rows,
+	onAdd,
+	onChange,
+	render,
+}: RowListProps<Row>) {
+	return (
+		<div className='space-y-2'>
+			<div className='flex items-center justify-between'>
+				<span className='text-xs text-muted-foreground'>{label}</span>
+				<Button type='button' size='sm' variant='outline' onClick={onAdd}>
+					<Plus className='mr-1 h-3.5 w-3.5' />
+					Add
+				</Button>
+			</div>
+			{rows.map((row, index) => (
+				<div key={index} className='flex items-center gap-2'>
+					{render(row, changes =>
+						onChange(
+							rows.map((current, currentIndex) =>
+								currentIndex === index ? { ...current, ...changes } : current,
+							),
+						),
+					)}
+					<IconButton
+						type='button'
+						variant='outline'
+						size='sm'
+						aria-label={`Remove ${label.toLowerCase()} row`}
+						onClick={() =>
+							onChange(rows.filter((_, currentIndex) => currentIndex !== index))
+						}
+						icon={<X className='h-3.5 w-3.5' />}
+					/>
+				</div>
+			))}
+		</div>
+	)
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import '@xterm/xterm/css/xterm.css'
+import type { ContainerItem } from '@/components/container-dashboard'
+import { IconButton } from '@/components/ui/icon-button'
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from '@/components/ui/sheet'
+
+type TerminalStatus = 'connecting' | 'connected' | 'closed'
+
+interface ExecTicket {
+	ticket: string
+	expiresAt: string
+}
+
+interface ContainerTerminalSheetProps {
+	container: ContainerItem | null
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+const statusLabel: Record<TerminalStatus, string> = {
+	connecting: 'Connecting...',
+	connected: 'Connected',
+	closed: 'Disconnected',
+}
+
+const readErrorMessage = async (response: Response) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? 'Failed to open terminal'
+	} catch {
+		return 'Failed to open terminal'
+	}
+}
+
+/**
+ * Interactive shell in a container. A ticket is requested over HTTP (the
+ * session cookie stays on the server) and redeemed by the exec WebSocket.
+ */
+export function ContainerTerminalSheet({
+	container,
+	open,
+	onOpenChange,
+}: ContainerTerminalSheetProps) {
+	// The sheet content mounts in a portal after opening, so the terminal's
+	// host element is tracked as state rather than a ref.
+	const [element, setElement] = useState<HTMLDivElement | null>(null)
+	const [status, setStatus] = useState<TerminalStatus>('connecting')
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [session, setSession] = useState(0)
+
+	useEffect(() => {
+		if (!open || !container || !element) {
+			return
+		}
+
+		let isDisposed = false
+		let socket: WebSocket | null = null
+		const cleanups: Array<() => void> = []
+
+		const connect = async () => {
+			setStatus('connecting')
+			setErrorMessage(null)
+
+			// xterm touches the DOM on import, so it is loaded on the client only.
+			const [{ Terminal }, { FitAddon }] = await Promise.all([
+				import('@xterm/xterm'),
+				import('@xterm/addon-fit'),
+			])
+			if (isDisposed) {
+				return
+			}
+
+			const terminal = new Terminal({
+				cursorBlink: true,
+				fontFamily:
+					'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+				fontSize: 13,
+				theme: { background: '#0b0f14' },
+			})
+			const fitAddon = new FitAddon()
+			terminal.loadAddon(fitAddon)
+			terminal.open(element)
+			fitAddon.fit()
+			cleanups.push(() => terminal.dispose())
+
+			const response = await fetch(
+				`/api/containers/${container.id}/exec?host=${encodeURIComponent(container.host)}`,
+				{ method: 'POST' },
+			)
+			if (!response.ok) {
+				setErrorMessage(await readErrorMessage(response))
+				setStatus('closed')
+				return
+			}
+
+			const { ticket } = (await response.json()) as ExecTicket
+			if (isDisposed) {
+				return
+			}
+
+			const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws'
+			socket = new WebSocket(
+				`${protocol}://${window.location.host}/api/exec/socket?ticket=${encodeURIComponent(ticket)}`,
+			)
+			socket.binaryType = 'arraybuffer'
+			const send = (message: object) => {
+				if (socket?.readyState === WebSocket.OPEN) {
+					socket.send(JSON.stringify(message))
+				}
+			}
+
+			socket.onopen = () => {
+				setStatus('connected')
+				send({ type: 'resize', cols: terminal.cols, rows: terminal.rows })
+				terminal.focus()
+			}
+			socket.onmessage = event => {
+				terminal.write(
+					typeof event.data === 'string'
+						? event.data
+						: new Uint8Array(event.data as ArrayBuffer),
+				)
+			}
+			socket.onclose = event => {
+				setStatus('closed')
+				if (event.code !== 1000 && event.reason) {
+					setErrorMessage(event.reason)
+				}
+				terminal.write('\r\n\x1b[90m[session closed]\x1b[0m\r\n')
+			}
+
+			const input = terminal.onData(data => send({ type: 'input', data }))
+			const resize = terminal.onResize(({ cols, rows }) =>
+				send({ type: 'resize', cols, rows }),
+			)
+			const observer = new ResizeObserver(() => fitAddon.fit())
+			observer.observe(element)
+			cleanups.push(
+				() => input.dispose(),
+				() => resize.dispose(),
+				() => observer.disconnect(),
+			)
+		}
+
+		connect().catch(() => {
+			if (!isDisposed) {
+				setErrorMessage('Failed to open terminal')
+				setStatus('closed')
+			}
+		})
+
+		return () => {
+			isDisposed = true
+			socket?.close()
+			for (const cleanup of cleanups.reverse()) {
+				cleanup()
+			}
+		}
+	}, [open, container?.host, container?.id, element, session])
+
+	return (
+		<Sheet open={open} onOpenChange={onOpenChange}>
+			<SheetContent className='h-full w-full max-w-4xl border-l border-zinc-800 bg-[#0b0f14] p-0 text-zinc-100 [&>button]:opacity-100 [&>button]:text-zinc-200 [&>button]:hover:bg-white/10 [&>button]:hover:text-zinc-100 [&>button]:focus:ring-zinc-500'>
+				<div className='flex h-full flex-col'>
+					<div className='border-b border-zinc-800 px-5 py-4'>
+						<div className='flex items-center justify-between gap-3 pr-8'>
+							<SheetHeader className='space-y-0'>
+								<SheetTitle className='text-zinc-100'>
+									Terminal {container ? `· ${container.name}` : ''}
+								</SheetTitle>
+								<SheetDescription className='text-zinc-400'>
+									{errorMessage ?? statusLabel[status]}
+								</SheetDescription>
+							</SheetHeader>
+							<IconButton
+								variant='outline'
+								size='sm'
+								aria-label='Reconnect'
+								className='border-zinc-700 bg-zinc-900/40 text-zinc-100 hover:bg-zinc-900 hover:text-zinc-100'
+								onClick={() => setSession(session + 1)}
+								disabled={status !== 'closed'}
+								icon={<RotateCcw className='h-4 w-4' />}
+							/>
+						</div>
+					</div>
+					<div className='min-h-0 flex-1 p-3'>
+						<div ref={setElement} className='h-full w-full' />
+					</div>
+				</div>
+			</SheetContent>
+		</Sheet>
+	)
+}
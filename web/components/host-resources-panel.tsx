@@ -0,0 +1,191 @@
+'use client'
+
+import { Container, HardDrive, Network } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { type HostStats, formatByteRate, formatByteSize } from '@/lib/metrics'
+import { cn } from '@/lib/utils'
+
+// Same threshold the dashboard uses to warn about host RAM.
+const isNearlyFull = (percent: number) => percent > 90
+
+interface HostResourcesPanelProps {
+	stats: HostStats
+}
+
+/** Disks, network interfaces and Docker's disk usage of the API's host. */
+export function HostResourcesPanel({ stats }: HostResourcesPanelProps) {
+	const dockerDisk = stats.dockerDisk
+
+	return (
+		<div className='grid gap-4 lg:grid-cols-2'>
+			<Card className='border-zinc-200/60 shadow-sm lg:col-span-2 dark:border-zinc-800'>
+				<CardHeader className='pb-2'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<HardDrive className='h-4 w-4 text-muted-foreground' />
+						Disks
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{stats.disks.length === 0 ? (
+						<p className='text-sm text-muted-foreground'>
+							No mounted filesystems reported.
+						</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Mount</TableHead>
+									<TableHead>Used</TableHead>
+									<TableHead className='w-40'>Space</TableHead>
+									<TableHead>Inodes</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{stats.disks.map(disk => (
+									<TableRow key={disk.mount}>
+										<TableCell>
+											<p className='font-mono text-xs'>{disk.mount}</p>
+											<p className='text-xs text-muted-foreground'>
+												{disk.device} · {disk.fsType}
+											</p>
+										</TableCell>
+										<TableCell className='font-mono text-xs'>
+											{formatByteSize(disk.usedBytes)} /{' '}
+											{formatByteSize(disk.totalBytes)}
+											<p className='text-muted-foreground'>
+												{formatByteSize(disk.availableBytes)} free
+											</p>
+										</TableCell>
+										<TableCell>
+											<div className='space-y-1'>
+												<Progress
+													value={disk.usedPercent}
+													className={cn(
+														'h-2 rounded-full',
+														isNearlyFull(disk.usedPercent) &&
+															'[&>div]:bg-amber-500',
+													)}
+												/>
+												<p className='text-xs text-muted-foreground'>
+													{disk.usedPercent.toFixed(1)}%
+												</p>
+											</div>
+										</TableCell>
+										<TableCell
+											className={cn(
+												'font-mono text-xs',
+												isNearlyFull(disk.inodesPercent) &&
+													'text-amber-600 dark:text-amber-400',
+											)}
+										>
+											{disk.inodesTotal > 0
+												? `${disk.inodesPercent.toFixed(1)}% of ${disk.inodesTotal.toLocaleString()}`
+												: '—'}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+				<CardHeader className='pb-2'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<Network className='h-4 w-4 text-muted-foreground' />
+						Network
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{stats.networks.length === 0 ? (
+						<p className='text-sm text-muted-foreground'>
+							No network interfaces reported.
+						</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Interface</TableHead>
+									<TableHead>Receive</TableHead>
+									<TableHead>Transmit</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{stats.networks.map(network => (
+									<TableRow key={network.interface}>
+										<TableCell className='font-mono text-xs'>
+											{network.interface}
+										</TableCell>
+										<TableCell className='font-mono text-xs'>
+											{formatByteRate(network.rxBytesPerSecond)}
+											<p className='text-muted-foreground'>
+												{formatByteSize(network.rxBytes)} total
+											</p>
+										</TableCell>
+										<TableCell className='font-mono text-xs'>
+											{formatByteRate(network.txBytesPerSecond)}
+											<p className='text-muted-foreground'>
+												{formatByteSize(network.txBytes)} total
+											</p>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+				<CardHeader className='pb-2'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<Container className='h-4 w-4 text-muted-foreground' />
+						Docker disk usage
+					</CardTitle>
+				</CardHeader>
+				<CardContent className='space-y-3'>
+					{dockerDisk ? (
+						<>
+							<div className='flex items-end justify-between gap-3'>
+								<p className='text-2xl font-semibold'>
+									{formatByteSize(dockerDisk.totalBytes)}
+								</p>
+								<p className='font-mono text-xs text-muted-foreground'>
+									{dockerDisk.host}
+								</p>
+							</div>
+							<dl className='grid grid-cols-2 gap-x-4 gap-y-1 text-xs'>
+								{[
+									{ label: 'Images', bytes: dockerDisk.imagesBytes },
+									{ label: 'Containers', bytes: dockerDisk.containersBytes },
+									{ label: 'Volumes', bytes: dockerDisk.volumesBytes },
+									{ label: 'Build cache', bytes: dockerDisk.buildCacheBytes },
+								].map(({ label, bytes }) => (
+									<div key={label} className='flex justify-between gap-2'>
+										<dt className='text-muted-foreground'>{label}</dt>
+										<dd className='font-mono'>{formatByteSize(bytes)}</dd>
+									</div>
+								))}
+							</dl>
+						</>
+					) : (
+						<p className='text-sm text-muted-foreground'>
+							Unavailable; the API has no local Docker socket host or Docker did
+							not answer.
+						</p>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
@@ -0,0 +1,375 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+	Download,
+	Eraser,
+	Layers,
+	Loader2,
+	RefreshCw,
+	Trash2,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import type { Job } from '@/components/jobs-tray'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+interface ImageItem {
+	host: string
+	id: string
+	tags: string[]
+	digests: string[]
+	sizeBytes: number
+	createdAt: string
+	dangling: boolean
+	usedBy: string[]
+}
+
+const formatBytes = (bytes: number) => {
+	if (bytes >= 1024 ** 3) {
+		return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+	}
+
+	return `${(bytes / 1024 ** 2).toFixed(0)} MB`
+}
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+interface ImagesPanelProps {
+	/** Selected host, or `all`. */
+	host: string
+	hostNames: string[]
+	canOperate: boolean
+	refreshKey?: number
+	onJobsStarted: (jobs: Job[]) => void
+}
+
+/**
+ * Images per host, largest first, with the containers using them. Pulls run
+ * as jobs and show up in the jobs tray.
+ */
+export function ImagesPanel({
+	host,
+	hostNames,
+	canOperate,
+	refreshKey = 0,
+	onJobsStarted,
+}: ImagesPanelProps) {
+	const [images, setImages] = useState<ImageItem[]>([])
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [reference, setReference] = useState('')
+	const [targetHost, setTargetHost] = useState('')
+	const [pendingKey, setPendingKey] = useState<string | null>(null)
+	const [showDanglingOnly, setShowDanglingOnly] = useState(false)
+
+	// Pull and prune act on one host; in the all-hosts view it is picked here.
+	const actionHost = host === 'all' ? targetHost || hostNames[0] || '' : host
+
+	const fetchImages = async () => {
+		setIsLoading(true)
+		try {
+			const query = host === 'all' ? '' : `?host=${encodeURIComponent(host)}`
+			const response = await fetch(`/api/images${query}`, { cache: 'no-store' })
+			if (!response.ok) {
+				throw new Error('Failed to load images')
+			}
+
+			setImages((await response.json()) as ImageItem[])
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Images unavailable')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		void fetchImages()
+	}, [host, refreshKey])
+
+	const visibleImages = useMemo(
+		() =>
+			images
+				.filter(image => !showDanglingOnly || image.dangling)
+				.sort((left, right) => right.sizeBytes - left.sizeBytes),
+		[images, showDanglingOnly],
+	)
+	const totalBytes = visibleImages.reduce(
+		(sum, image) => sum + image.sizeBytes,
+		0,
+	)
+	const danglingCount = images.filter(image => image.dangling).length
+
+	const pullImage = async () => {
+		const image = reference.trim()
+		if (!image || !actionHost) {
+			return
+		}
+
+		setPendingKey('pull')
+		try {
+			const response = await fetch(
+				`/api/images/pull?host=${encodeURIComponent(actionHost)}`,
+				{
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify({ image }),
+				},
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, 'Pull failed'))
+			}
+
+			onJobsStarted([(await response.json()) as Job])
+			setReference('')
+			toast.success(`Pulling ${image}`)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Pull failed')
+		} finally {
+			setPendingKey(null)
+		}
+	}
+
+	const removeImage = async (image: ImageItem) => {
+		const label = image.tags[0] ?? image.id.slice(7, 19)
+		const isForced = image.usedBy.length > 0 || image.tags.length > 1
+		const isConfirmed = window.confirm(
+			isForced
+				? `Force-remove ${label}? It is used by ${image.usedBy.length} container(s) or has several tags.`
+				: `Remove ${label}?`,
+		)
+		if (!isConfirmed) {
+			return
+		}
+
+		setPendingKey(`${image.host}/${image.id}`)
+		try {
+			const response = await fetch(
+				`/api/images/${encodeURIComponent(image.id)}?host=${encodeURIComponent(image.host)}&force=${isForced}`,
+				{ method: 'DELETE' },
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, 'Remove failed'))
+			}
+
+			toast.success(`${label} removed`)
+			await fetchImages()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Remove failed')
+		} finally {
+			setPendingKey(null)
+		}
+	}
+
+	const pruneImages = async () => {
+		if (
+			!actionHost ||
+			!window.confirm(`Remove dangling images on ${actionHost}?`)
+		) {
+			return
+		}
+
+		setPendingKey('prune')
+		try {
+			const response = await fetch(
+				`/api/images/prune?host=${encodeURIComponent(actionHost)}`,
+				{ method: 'POST' },
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, 'Prune failed'))
+			}
+
+			const result = (await response.json()) as {
+				deleted: string[]
+				spaceReclaimedBytes: number
+			}
+			toast.success(
+				`Pruned ${result.deleted.length} image(s), reclaimed ${formatBytes(result.spaceReclaimedBytes)}`,
+			)
+			await fetchImages()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Prune failed')
+		} finally {
+			setPendingKey(null)
+		}
+	}
+
+	return (
+		<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+			<CardHeader className='pb-3'>
+				<div className='flex items-center justify-between gap-3'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<Layers className='h-4 w-4 text-muted-foreground' />
+						{visibleImages.length} images · {formatBytes(totalBytes)}
+					</CardTitle>
+					<div className='flex items-center gap-2'>
+						<label className='flex items-center gap-2 text-xs text-muted-foreground'>
+							<input
+								type='checkbox'
+								checked={showDanglingOnly}
+								onChange={event => setShowDanglingOnly(event.target.checked)}
+							/>
+							Dangling only ({danglingCount})
+						</label>
+						<IconButton
+							variant='outline'
+							size='sm'
+							aria-label='Refresh images'
+							onClick={() => void fetchImages()}
+							disabled={isLoading}
+							icon={
+								<RefreshCw
+									className={cn('h-4 w-4', isLoading && 'animate-spin')}
+								/>
+							}
+						/>
+					</div>
+				</div>
+				{canOperate && (
+					<form
+						className='flex flex-col gap-2 pt-2 md:flex-row'
+						onSubmit={event => {
+							event.preventDefault()
+							void pullImage()
+						}}
+					>
+						{host === 'all' && (
+							<Select
+								value={actionHost}
+								onChange={event => setTargetHost(event.target.value)}
+								aria-label='Host'
+								className='md:w-40'
+							>
+								{hostNames.map(name => (
+									<option key={name} value={name}>
+										{name}
+									</option>
+								))}
+							</Select>
+						)}
+						<Input
+							placeholder='Image to pull, e.g. nginx:1.27'
+							value={reference}
+							onChange={event => setReference(event.target.value)}
+							className='md:max-w-sm'
+						/>
+						<Button
+							type='submit'
+							size='sm'
+							className='h-9'
+							disabled={!reference.trim() || pendingKey !== null}
+						>
+							{pendingKey === 'pull' ? (
+								<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+							) : (
+								<Download className='mr-2 h-4 w-4' />
+							)}
+							Pull
+						</Button>
+						<Button
+							type='button'
+							size='sm'
+							variant='outline'
+							className='h-9 md:ml-auto'
+							onClick={() => void pruneImages()}
+							disabled={pendingKey !== null}
+						>
+							<Eraser className='mr-2 h-4 w-4' />
+							Prune dangling
+						</Button>
+					</form>
+				)}
+			</CardHeader>
+			<CardContent>
+				{errorMessage ? (
+					<p className='text-sm text-destructive'>{errorMessage}</p>
+				) : visibleImages.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						{isLoading ? 'Loading...' : 'No images.'}
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Image</TableHead>
+								<TableHead>Size</TableHead>
+								<TableHead>Created</TableHead>
+								<TableHead>In use by</TableHead>
+								{canOperate && <TableHead className='w-10' />}
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{visibleImages.map(image => (
+								<TableRow key={`${image.host}/${image.id}`}>
+									<TableCell className='max-w-xs'>
+										{image.dangling ? (
+											<Badge variant='secondary'>dangling</Badge>
+										) : (
+											<p className='truncate font-mono text-xs'>
+												{image.tags.join(', ')}
+											</p>
+										)}
+										<p className='font-mono text-[11px] text-muted-foreground'>
+											{host === 'all' && `${image.host} · `}
+											{image.id.slice(7, 19)}
+										</p>
+									</TableCell>
+									<TableCell className='whitespace-nowrap text-xs'>
+										{formatBytes(image.sizeBytes)}
+									</TableCell>
+									<TableCell className='whitespace-nowrap text-xs text-muted-foreground'>
+										{new Date(image.createdAt).toLocaleDateString()}
+									</TableCell>
+									<TableCell className='max-w-xs'>
+										<p className='truncate text-xs text-muted-foreground'>
+											{image.usedBy.length > 0 ? image.usedBy.join(', ') : '—'}
+										</p>
+									</TableCell>
+									{canOperate && (
+										<TableCell>
+											<IconButton
+												variant='outline'
+												size='sm'
+												aria-label='Remove image'
+												onClick={() => void removeImage(image)}
+												disabled={pendingKey !== null}
+												icon={
+													pendingKey === `${image.host}/${image.id}` ? (
+														<Loader2 className='h-3.5 w-3.5 animate-spin' />
+													) : (
+														<Trash2 className='h-3.5 w-3.5' />
+													)
+												}
+											/>
+										</TableCell>
+									)}
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
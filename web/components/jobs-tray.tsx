@@ -0,0 +1,340 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ChevronDown, ListChecks, Loader2, Square, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+
+export type JobStatus = 'running' | 'completed' | 'cancelled' | 'failed'
+
+type JobTargetStatus =
+	'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'cancelled'
+
+export interface Job {
+	id: string
+	type: string
+	host: string
+	cluster: string | null
+	status: JobStatus
+	cancelRequested: boolean
+	createdAt: string
+	total: number
+	done: number
+	targets: Array<{
+		id: string
+		name: string
+		tier: number | null
+		status: JobTargetStatus
+		step: string | null
+		error: string | null
+	}>
+	error: string | null
+}
+
+type JobEvent =
+	| { type: 'update'; job: Job }
+	| { type: 'output'; lines: string[] }
+	| { type: 'heartbeat' }
+
+const statusBadgeClassName: Record<JobStatus, string> = {
+	running: 'border-sky-500/40 bg-sky-500/15 text-sky-700 dark:text-sky-300',
+	completed:
+		'border-emerald-500/40 bg-emerald-500/15 text-emerald-700 dark:text-emerald-300',
+	cancelled:
+		'border-amber-500/40 bg-amber-500/15 text-amber-700 dark:text-amber-300',
+	failed: 'border-rose-500/40 bg-rose-500/15 text-rose-700 dark:text-rose-300',
+}
+
+const targetStatusClassName: Record<JobTargetStatus, string> = {
+	pending: 'text-muted-foreground',
+	running: 'text-sky-600 dark:text-sky-400',
+	succeeded: 'text-emerald-600 dark:text-emerald-400',
+	failed: 'text-destructive',
+	skipped: 'text-muted-foreground',
+	cancelled: 'text-amber-600 dark:text-amber-400',
+}
+
+const describeJob = (job: Job) => {
+	const [scope, action] = job.type.split('.')
+	if (scope === 'cluster') {
+		return `${action} ${job.cluster}`
+	}
+
+	return scope === 'image' || scope === 'stack'
+		? `${action} ${job.targets[0]?.name ?? ''}`
+		: `${action} all`
+}
+
+interface JobsTrayProps {
+	jobs: Job[]
+	canOperate: boolean
+	onJobUpdate: (job: Job) => void
+	onJobFinished: (job: Job) => void
+	onDismiss: (id: string) => void
+}
+
+/**
+ * Floating tray with the progress of background bulk and cluster jobs. Each
+ * running job is followed over its own event stream until it finishes.
+ */
+export function JobsTray({
+	jobs,
+	canOperate,
+	onJobUpdate,
+	onJobFinished,
+	onDismiss,
+}: JobsTrayProps) {
+	const [isCollapsed, setIsCollapsed] = useState(false)
+	const [outputById, setOutputById] = useState<Record<string, string[]>>({})
+	const sourcesRef = useRef(new Map<string, EventSource>())
+	const callbacksRef = useRef({ onJobUpdate, onJobFinished })
+	callbacksRef.current = { onJobUpdate, onJobFinished }
+
+	useEffect(() => {
+		const sources = sourcesRef.current
+		const ids = new Set(jobs.map(job => job.id))
+		setOutputById(previous =>
+			Object.keys(previous).every(id => ids.has(id))
+				? previous
+				: Object.fromEntries(
+						Object.entries(previous).filter(([id]) => ids.has(id)),
+					),
+		)
+
+		for (const job of jobs) {
+			if (job.status !== 'running' || sources.has(job.id)) {
+				continue
+			}
+
+			const source = new EventSource(
+				`/api/jobs/${encodeURIComponent(job.id)}/events`,
+			)
+			sources.set(job.id, source)
+
+			source.onmessage = event => {
+				const payload = JSON.parse(event.data as string) as JobEvent
+				if (payload.type === 'output') {
+					setOutputById(previous => ({
+						...previous,
+						[job.id]: [...(previous[job.id] ?? []), ...payload.lines],
+					}))
+					return
+				}
+
+				if (payload.type !== 'update') {
+					return
+				}
+
+				callbacksRef.current.onJobUpdate(payload.job)
+				if (payload.job.status !== 'running') {
+					source.close()
+					sources.delete(job.id)
+					callbacksRef.current.onJobFinished(payload.job)
+				}
+			}
+
+			// A closed stream means the job is gone (API restart or pruned).
+			source.onerror = () => {
+				if (source.readyState === EventSource.CLOSED) {
+					sources.delete(job.id)
+				}
+			}
+		}
+	}, [jobs])
+
+	useEffect(() => {
+		const sources = sourcesRef.current
+
+		return () => {
+			for (const source of sources.values()) {
+				source.close()
+			}
+			sources.clear()
+		}
+	}, [])
+
+	const cancelJob = async (job: Job) => {
+		try {
+			const response = await fetch(
+				`/api/jobs/${encodeURIComponent(job.id)}/cancel`,
+				{ method: 'POST' },
+			)
+			if (!response.ok) {
+				throw new Error('Cancel failed')
+			}
+
+			onJobUpdate((await response.json()) as Job)
+		} catch {
+			toast.error('Failed to cancel job')
+		}
+	}
+
+	if (jobs.length === 0) {
+		return null
+	}
+
+	const runningCount = jobs.filter(job => job.status === 'running').length
+
+	return (
+		<Card className='fixed bottom-4 right-4 z-40 w-[22rem] max-w-[calc(100vw-2rem)] border-zinc-200/60 shadow-lg dark:border-zinc-800'>
+			<CardHeader className='py-3'>
+				<div className='flex items-center justify-between gap-3'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						{runningCount > 0 ? (
+							<Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+						) : (
+							<ListChecks className='h-4 w-4 text-muted-foreground' />
+						)}
+						Jobs
+						{runningCount > 0 && (
+							<span className='text-xs font-normal text-muted-foreground'>
+								{runningCount} running
+							</span>
+						)}
+					</CardTitle>
+					<IconButton
+						variant='outline'
+						size='sm'
+						aria-label={isCollapsed ? 'Expand jobs' : 'Collapse jobs'}
+						onClick={() => setIsCollapsed(!isCollapsed)}
+						icon={
+							<ChevronDown
+								className={cn(
+									'h-4 w-4 transition-transform',
+									isCollapsed && 'rotate-180',
+								)}
+							/>
+						}
+					/>
+				</div>
+			</CardHeader>
+			{!isCollapsed && (
+				<CardContent className='max-h-[50vh] space-y-3 overflow-y-auto pb-4'>
+					{jobs.map(job => (
+						<div key={job.id} className='space-y-2 rounded-md border p-2'>
+							<div className='flex items-center justify-between gap-2'>
+								<div className='min-w-0'>
+									<p className='truncate text-sm font-medium capitalize'>
+										{describeJob(job)}
+									</p>
+									<p className='text-xs text-muted-foreground'>
+										{job.host} · {job.done}/{job.total} done
+									</p>
+								</div>
+								<div className='flex shrink-0 items-center gap-1.5'>
+									<Badge
+										variant='secondary'
+										className={statusBadgeClassName[job.status]}
+									>
+										{job.status === 'running' && job.cancelRequested
+											? 'cancelling'
+											: job.status}
+									</Badge>
+									{job.status === 'running' ? (
+										canOperate && (
+											<IconButton
+												variant='outline'
+												size='sm'
+												aria-label='Cancel remaining targets'
+												disabled={job.cancelRequested}
+												onClick={() => void cancelJob(job)}
+												icon={<Square className='h-3.5 w-3.5' />}
+											/>
+										)
+									) : (
+										<IconButton
+											variant='outline'
+											size='sm'
+											aria-label='Dismiss job'
+											onClick={() => onDismiss(job.id)}
+											icon={<X className='h-3.5 w-3.5' />}
+										/>
+									)}
+								</div>
+							</div>
+							<Progress
+								value={job.total > 0 ? (job.done / job.total) * 100 : 100}
+								className='h-1.5'
+							/>
+							{job.error && (
+								<p className='text-xs text-destructive'>{job.error}</p>
+							)}
+							{job.targets.length > 0 && (
+								<details>
+									<summary className='cursor-pointer list-none text-xs text-muted-foreground'>
+										Containers
+									</summary>
+									<ul className='mt-1 space-y-0.5 text-xs'>
+										{job.targets.map(target => (
+											<li
+												key={target.id}
+												className='flex items-center justify-between gap-2'
+											>
+												<span className='truncate'>
+													{target.tier !== null && (
+														<span className='font-mono text-muted-foreground'>
+															T{target.tier}{' '}
+														</span>
+													)}
+													{target.name}
+												</span>
+												<span
+													className={cn(
+														'shrink-0',
+														targetStatusClassName[target.status],
+													)}
+													title={target.error ?? undefined}
+												>
+													{target.step ?? target.status}
+												</span>
+											</li>
+										))}
+									</ul>
+								</details>
+							)}
+							{outputById[job.id] && (
+								<details open={job.status === 'running'}>
+									<summary className='cursor-pointer list-none text-xs text-muted-foreground'>
+										Output
+									</summary>
+									<JobOutput lines={outputById[job.id]} />
+								</details>
+							)}
+						</div>
+					))}
+				</CardContent>
+			)}
+		</Card>
+	)
+}
+
+// Keeps the newest line in view unless the user scrolled up to read.
+function JobOutput({ lines }: { lines: string[] }) {
+	const outputRef = useRef<HTMLPreElement | null>(null)
+	const isPinnedRef = useRef(true)
+
+	useEffect(() => {
+		const element = outputRef.current
+		if (element && isPinnedRef.current) {
+			element.scrollTop = element.scrollHeight
+		}
+	}, [lines])
+
+	return (
+		<pre
+			ref={outputRef}
+			onScroll={event => {
+				const element = event.currentTarget
+				isPinnedRef.current =
+					element.scrollHeight - element.scrollTop - element.clientHeight < 8
+			}}
+			className='mt-1 max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-zinc-950 p-2 font-mono text-[11px] leading-4 text-zinc-200'
+		>
+			{lines.join('\n')}
+		</pre>
+	)
+}
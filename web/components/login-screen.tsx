@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, LogIn } from 'lucide-react'
+import { ThemeToggle } from '@/components/theme-toggle'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+export type UserRole = 'viewer' | 'operator' | 'admin'
+
+export interface SessionUser {
+	username: string
+	role: UserRole
+}
+
+interface LoginScreenProps {
+	onLogin: (user: SessionUser) => void
+}
+
+export function LoginScreen({ onLogin }: LoginScreenProps) {
+	const [username, setUsername] = useState('')
+	const [password, setPassword] = useState('')
+	const [isSubmitting, setIsSubmitting] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+	const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault()
+		setIsSubmitting(true)
+		setErrorMessage(null)
+
+		try {
+			const response = await fetch('/api/auth/login', {
+				method: 'POST',
+				headers: {
+					'content-type': 'application/json',
+				},
+				body: JSON.stringify({ username, password }),
+			})
+
+			if (response.status === 401) {
+				throw new Error('Invalid username or password.')
+			}
+
+			if (!response.ok) {
+				throw new Error('Login failed. Please try again.')
+			}
+
+			const user = (await response.json()) as SessionUser
+			setPassword('')
+			onLogin(user)
+		} catch (error) {
+			setErrorMessage(
+				error instanceof Error
+					? error.message
+					: 'Login failed. Please try again.',
+			)
+		} finally {
+			setIsSubmitting(false)
+		}
+	}
+
+	return (
+		<div className='flex min-h-screen items-center justify-center bg-gray-50 px-4 dark:bg-zinc-950'>
+			<div className='absolute right-4 top-4'>
+				<ThemeToggle />
+			</div>
+			<Card className='w-full max-w-sm border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+				<CardHeader>
+					<p className='text-xs uppercase tracking-widest text-muted-foreground'>
+						KZ Admin
+					</p>
+					<CardTitle className='text-lg'>Sign in to the dashboard</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<form className='space-y-3' onSubmit={event => void submit(event)}>
+						<Input
+							placeholder='Username'
+							autoComplete='username'
+							value={username}
+							onChange={event => setUsername(event.target.value)}
+							autoFocus
+						/>
+						<Input
+							type='password'
+							placeholder='Password'
+							autoComplete='current-password'
+							value={password}
+							onChange={event => setPassword(event.target.value)}
+						/>
+						{errorMessage && (
+							<p className='text-sm text-destructive'>{errorMessage}</p>
+						)}
+						<Button
+							type='submit'
+							className='w-full'
+							disabled={
+								isSubmitting || username.length === 0 || password.length === 0
+							}
+						>
+							{isSubmitting ? (
+								<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+							) : (
+								<LogIn className='mr-2 h-4 w-4' />
+							)}
+							Sign in
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
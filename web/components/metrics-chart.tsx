@@ -0,0 +1,220 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Select } from '@/components/ui/select'
+import {
+	fetchStatsHistory,
+	type StatsHistory,
+	type StatsHistoryPoint,
+} from '@/lib/metrics'
+import { cn } from '@/lib/utils'
+
+const RANGES = [
+	{ label: 'Last hour', seconds: 3600 },
+	{ label: 'Last 6 hours', seconds: 6 * 3600 },
+	{ label: 'Last 24 hours', seconds: 24 * 3600 },
+	{ label: 'Last 7 days', seconds: 7 * 24 * 3600 },
+]
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 120
+
+const formatBytes = (bytes: number) => {
+	if (bytes >= 1024 ** 3) {
+		return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+	}
+
+	return `${(bytes / 1024 ** 2).toFixed(0)} MB`
+}
+
+interface SeriesChartProps {
+	title: string
+	points: StatsHistoryPoint[]
+	value: (point: StatsHistoryPoint) => number
+	format: (value: number) => string
+	max?: number
+	className?: string
+}
+
+function SeriesChart({
+	title,
+	points,
+	value,
+	format,
+	max,
+	className,
+}: SeriesChartProps) {
+	const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+	const values = points.map(value)
+	const upper = Math.max(max ?? 0, ...values, 1)
+	const step = values.length > 1 ? CHART_WIDTH / (values.length - 1) : 0
+	const toY = (item: number) => CHART_HEIGHT - (item / upper) * CHART_HEIGHT
+	const line = values
+		.map(
+			(item, index) => `${(index * step).toFixed(1)},${toY(item).toFixed(1)}`,
+		)
+		.join(' ')
+	const hovered = hoverIndex === null ? null : points[hoverIndex]
+	const latest = values[values.length - 1]
+	const peak = values.length > 0 ? Math.max(...values) : null
+
+	return (
+		<div className='space-y-1'>
+			<div className='flex items-baseline justify-between gap-3 text-xs'>
+				<span className='font-medium'>{title}</span>
+				<span className='font-mono text-muted-foreground'>
+					{hovered
+						? `${format(value(hovered))} · ${new Date(hovered.timestamp).toLocaleString()}`
+						: latest === undefined
+							? 'no data'
+							: `now ${format(latest)} · peak ${format(peak ?? 0)}`}
+				</span>
+			</div>
+			<svg
+				viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+				preserveAspectRatio='none'
+				className={cn('h-28 w-full rounded-md border bg-muted/30', className)}
+				onMouseLeave={() => setHoverIndex(null)}
+				onMouseMove={event => {
+					if (values.length === 0) {
+						return
+					}
+
+					const bounds = event.currentTarget.getBoundingClientRect()
+					const ratio = (event.clientX - bounds.left) / bounds.width
+					setHoverIndex(
+						Math.min(
+							values.length - 1,
+							Math.max(0, Math.round(ratio * (values.length - 1))),
+						),
+					)
+				}}
+			>
+				{[0.25, 0.5, 0.75].map(fraction => (
+					<line
+						key={fraction}
+						x1={0}
+						x2={CHART_WIDTH}
+						y1={CHART_HEIGHT * fraction}
+						y2={CHART_HEIGHT * fraction}
+						className='stroke-border'
+						strokeDasharray='4 4'
+						vectorEffect='non-scaling-stroke'
+					/>
+				))}
+				{values.length > 1 && (
+					<>
+						<polygon
+							points={`0,${CHART_HEIGHT} ${line} ${CHART_WIDTH},${CHART_HEIGHT}`}
+							className='fill-current opacity-10'
+						/>
+						<polyline
+							points={line}
+							fill='none'
+							stroke='currentColor'
+							strokeWidth={1.5}
+							vectorEffect='non-scaling-stroke'
+						/>
+					</>
+				)}
+				{hoverIndex !== null && values.length > 1 && (
+					<line
+						x1={hoverIndex * step}
+						x2={hoverIndex * step}
+						y1={0}
+						y2={CHART_HEIGHT}
+						className='stroke-muted-foreground'
+						vectorEffect='non-scaling-stroke'
+					/>
+				)}
+			</svg>
+			<div className='flex justify-between font-mono text-[10px] text-muted-foreground'>
+				<span>
+					{points[0] ? new Date(points[0].timestamp).toLocaleString() : ''}
+				</span>
+				<span>max {format(upper)}</span>
+			</div>
+		</div>
+	)
+}
+
+interface MetricsChartProps {
+	target: string
+}
+
+export function MetricsChart({ target }: MetricsChartProps) {
+	const [rangeSeconds, setRangeSeconds] = useState(RANGES[0].seconds)
+	const [history, setHistory] = useState<StatsHistory | null>(null)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+	useEffect(() => {
+		let isCancelled = false
+
+		const load = async () => {
+			try {
+				const next = await fetchStatsHistory(target, rangeSeconds)
+				if (!isCancelled) {
+					setHistory(next)
+					setErrorMessage(null)
+				}
+			} catch {
+				if (!isCancelled) {
+					setErrorMessage('Metrics history unavailable')
+				}
+			}
+		}
+
+		void load()
+		const intervalId = setInterval(() => void load(), 30000)
+
+		return () => {
+			isCancelled = true
+			clearInterval(intervalId)
+		}
+	}, [target, rangeSeconds])
+
+	const points = history?.points ?? []
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex items-center justify-between gap-3'>
+				<p className='text-xs text-muted-foreground'>
+					{history ? `${history.stepSeconds}s resolution` : 'Loading...'}
+				</p>
+				<Select
+					value={String(rangeSeconds)}
+					onChange={event => setRangeSeconds(Number(event.target.value))}
+					className='h-8 w-36 text-xs'
+					aria-label='History range'
+				>
+					{RANGES.map(range => (
+						<option key={range.seconds} value={range.seconds}>
+							{range.label}
+						</option>
+					))}
+				</Select>
+			</div>
+			{errorMessage ? (
+				<p className='text-sm text-destructive'>{errorMessage}</p>
+			) : (
+				<>
+					<SeriesChart
+						title='CPU'
+						points={points}
+						value={point => point.cpuPercent}
+						format={item => `${item.toFixed(1)}%`}
+						max={100}
+						className='text-sky-600 dark:text-sky-400'
+					/>
+					<SeriesChart
+						title='Memory'
+						points={points}
+						value={point => point.memUsageBytes}
+						format={formatBytes}
+						className='text-violet-600 dark:text-violet-400'
+					/>
+				</>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,436 @@
+'use client'
+
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { Link2, Loader2, Network, RefreshCw, Unlink, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+interface NetworkContainer {
+	containerId: string
+	containerName: string
+	ipv4Address: string | null
+	aliases: string[]
+}
+
+interface NetworkItem {
+	host: string
+	id: string
+	name: string
+	driver: string
+	scope: string
+	internal: boolean
+	createdAt: string | null
+	subnets: string[]
+	containers: NetworkContainer[]
+}
+
+interface NetworkDetail extends NetworkItem {
+	gateways: string[]
+	labels: Record<string, string>
+	options: Record<string, string>
+}
+
+// Docker's predefined networks; containers are usually not moved in or out.
+const BUILTIN_NETWORKS = new Set(['bridge', 'host', 'none'])
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+interface NetworksPanelProps {
+	/** Selected host, or `all`. */
+	host: string
+	canOperate: boolean
+	/** Name filter, set when following a link from a container card. */
+	filter: string
+	onFilterChange: (filter: string) => void
+	refreshKey?: number
+}
+
+/**
+ * Networks per host with their attached containers. A row expands into the
+ * network's details, where operators connect and disconnect containers.
+ */
+export function NetworksPanel({
+	host,
+	canOperate,
+	filter,
+	onFilterChange,
+	refreshKey = 0,
+}: NetworksPanelProps) {
+	const [networks, setNetworks] = useState<NetworkItem[]>([])
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [expandedKey, setExpandedKey] = useState<string | null>(null)
+	const [detail, setDetail] = useState<NetworkDetail | null>(null)
+	const [containerName, setContainerName] = useState('')
+	const [aliases, setAliases] = useState('')
+	const [pendingKey, setPendingKey] = useState<string | null>(null)
+
+	const fetchNetworks = async () => {
+		setIsLoading(true)
+		try {
+			const query = host === 'all' ? '' : `?host=${encodeURIComponent(host)}`
+			const response = await fetch(`/api/networks${query}`, {
+				cache: 'no-store',
+			})
+			if (!response.ok) {
+				throw new Error('Failed to load networks')
+			}
+
+			setNetworks((await response.json()) as NetworkItem[])
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Networks unavailable')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		void fetchNetworks()
+	}, [host, refreshKey])
+
+	const visibleNetworks = useMemo(() => {
+		const query = filter.trim().toLowerCase()
+
+		return networks
+			.filter(
+				network =>
+					!query ||
+					network.name.toLowerCase().includes(query) ||
+					network.containers.some(container =>
+						container.containerName.toLowerCase().includes(query),
+					),
+			)
+			.sort((left, right) => left.name.localeCompare(right.name))
+	}, [networks, filter])
+
+	const loadDetail = async (network: NetworkItem) => {
+		const response = await fetch(
+			`/api/networks/${encodeURIComponent(network.id)}?host=${encodeURIComponent(network.host)}`,
+			{ cache: 'no-store' },
+		)
+		if (!response.ok) {
+			throw new Error(await readErrorMessage(response, 'Inspect failed'))
+		}
+
+		setDetail((await response.json()) as NetworkDetail)
+	}
+
+	const toggleNetwork = async (network: NetworkItem) => {
+		const key = `${network.host}/${network.id}`
+		if (expandedKey === key) {
+			setExpandedKey(null)
+			return
+		}
+
+		setExpandedKey(key)
+		setDetail(null)
+		setContainerName('')
+		setAliases('')
+		try {
+			await loadDetail(network)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Inspect failed')
+			setExpandedKey(null)
+		}
+	}
+
+	const runAction = async (
+		network: NetworkItem,
+		action: 'connect' | 'disconnect',
+		container: string,
+	) => {
+		if (
+			action === 'disconnect' &&
+			!window.confirm(`Disconnect ${container} from ${network.name}?`)
+		) {
+			return
+		}
+
+		setPendingKey(`${action}/${container}`)
+		try {
+			const response = await fetch(
+				`/api/networks/${encodeURIComponent(network.id)}/${action}?host=${encodeURIComponent(network.host)}`,
+				{
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify(
+						action === 'connect'
+							? {
+									container,
+									aliases: aliases
+										.split(',')
+										.map(alias => alias.trim())
+										.filter(alias => alias.length > 0),
+								}
+							: { container },
+					),
+				},
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, `${action} failed`))
+			}
+
+			toast.success(
+				action === 'connect'
+					? `${container} connected to ${network.name}`
+					: `${container} disconnected from ${network.name}`,
+			)
+			setContainerName('')
+			setAliases('')
+			await Promise.all([loadDetail(network), fetchNetworks()])
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : `${action} failed`)
+		} finally {
+			setPendingKey(null)
+		}
+	}
+
+	return (
+		<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+			<CardHeader className='pb-3'>
+				<div className='flex items-center justify-between gap-3'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<Network className='h-4 w-4 text-muted-foreground' />
+						{networks.length} networks
+					</CardTitle>
+					<IconButton
+						variant='outline'
+						size='sm'
+						aria-label='Refresh networks'
+						onClick={() => void fetchNetworks()}
+						disabled={isLoading}
+						icon={
+							<RefreshCw
+								className={cn('h-4 w-4', isLoading && 'animate-spin')}
+							/>
+						}
+					/>
+				</div>
+				<div className='pt-2'>
+					<div className='relative md:max-w-sm'>
+						<Input
+							placeholder='Filter by network or container'
+							value={filter}
+							onChange={event => onFilterChange(event.target.value)}
+						/>
+						{filter && (
+							<button
+								type='button'
+								aria-label='Clear filter'
+								className='absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground'
+								onClick={() => onFilterChange('')}
+							>
+								<X className='h-4 w-4' />
+							</button>
+						)}
+					</div>
+				</div>
+			</CardHeader>
+			<CardContent>
+				{errorMessage ? (
+					<p className='text-sm text-destructive'>{errorMessage}</p>
+				) : visibleNetworks.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						{isLoading ? 'Loading...' : 'No networks.'}
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Network</TableHead>
+								<TableHead>Driver</TableHead>
+								<TableHead>Subnet</TableHead>
+								<TableHead>Containers</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{visibleNetworks.map(network => {
+								const key = `${network.host}/${network.id}`
+
+								return (
+									<Fragment key={key}>
+										<TableRow
+											className='cursor-pointer'
+											onClick={() => void toggleNetwork(network)}
+										>
+											<TableCell className='max-w-xs'>
+												<p className='truncate font-mono text-xs'>
+													{network.name}
+												</p>
+												<p className='font-mono text-[11px] text-muted-foreground'>
+													{host === 'all' && `${network.host} · `}
+													{network.id.slice(0, 12)}
+												</p>
+											</TableCell>
+											<TableCell className='text-xs'>
+												{network.driver}
+												{network.internal && (
+													<Badge variant='secondary' className='ml-2'>
+														internal
+													</Badge>
+												)}
+											</TableCell>
+											<TableCell className='font-mono text-xs text-muted-foreground'>
+												{network.subnets.join(', ') || '—'}
+											</TableCell>
+											<TableCell className='max-w-xs'>
+												<p className='truncate text-xs text-muted-foreground'>
+													{network.containers
+														.map(container => container.containerName)
+														.join(', ') || '—'}
+												</p>
+											</TableCell>
+										</TableRow>
+										{expandedKey === key && (
+											<TableRow>
+												<TableCell colSpan={4} className='bg-muted/40'>
+													{detail ? (
+														<div className='space-y-3 text-xs'>
+															<dl className='grid gap-x-4 gap-y-1 md:grid-cols-[8rem_1fr]'>
+																<dt className='text-muted-foreground'>Scope</dt>
+																<dd>{detail.scope}</dd>
+																<dt className='text-muted-foreground'>
+																	Gateway
+																</dt>
+																<dd className='font-mono'>
+																	{detail.gateways.join(', ') || '—'}
+																</dd>
+																{Object.entries({
+																	...detail.options,
+																	...detail.labels,
+																}).map(([name, value]) => (
+																	<Fragment key={name}>
+																		<dt className='truncate text-muted-foreground'>
+																			{name}
+																		</dt>
+																		<dd className='break-all font-mono'>
+																			{value}
+																		</dd>
+																	</Fragment>
+																))}
+															</dl>
+															<ul className='space-y-1'>
+																{detail.containers.map(container => (
+																	<li
+																		key={container.containerId}
+																		className='flex items-center justify-between gap-2'
+																	>
+																		<span className='truncate'>
+																			{container.containerName}
+																			<span className='ml-2 font-mono text-muted-foreground'>
+																				{container.ipv4Address ?? 'no address'}
+																				{container.aliases.length > 0 &&
+																					` · ${container.aliases.join(', ')}`}
+																			</span>
+																		</span>
+																		{canOperate && (
+																			<IconButton
+																				variant='outline'
+																				size='sm'
+																				aria-label={`Disconnect ${container.containerName}`}
+																				disabled={pendingKey !== null}
+																				onClick={() =>
+																					void runAction(
+																						network,
+																						'disconnect',
+																						container.containerName,
+																					)
+																				}
+																				icon={
+																					pendingKey ===
+																					`disconnect/${container.containerName}` ? (
+																						<Loader2 className='h-3.5 w-3.5 animate-spin' />
+																					) : (
+																						<Unlink className='h-3.5 w-3.5' />
+																					)
+																				}
+																			/>
+																		)}
+																	</li>
+																))}
+															</ul>
+															{canOperate &&
+																!BUILTIN_NETWORKS.has(network.name) && (
+																	<form
+																		className='flex flex-col gap-2 md:flex-row'
+																		onSubmit={event => {
+																			event.preventDefault()
+																			void runAction(
+																				network,
+																				'connect',
+																				containerName.trim(),
+																			)
+																		}}
+																	>
+																		<Input
+																			placeholder='Container name or id'
+																			value={containerName}
+																			onChange={event =>
+																				setContainerName(event.target.value)
+																			}
+																			className='md:max-w-xs'
+																		/>
+																		<Input
+																			placeholder='Aliases, comma separated'
+																			value={aliases}
+																			onChange={event =>
+																				setAliases(event.target.value)
+																			}
+																			className='md:max-w-xs'
+																		/>
+																		<Button
+																			type='submit'
+																			size='sm'
+																			className='h-9'
+																			disabled={
+																				!containerName.trim() ||
+																				pendingKey !== null
+																			}
+																		>
+																			{pendingKey?.startsWith('connect/') ? (
+																				<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+																			) : (
+																				<Link2 className='mr-2 h-4 w-4' />
+																			)}
+																			Connect
+																		</Button>
+																	</form>
+																)}
+														</div>
+													) : (
+														<Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+													)}
+												</TableCell>
+											</TableRow>
+										)}
+									</Fragment>
+								)
+							})}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
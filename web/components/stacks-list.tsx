@@ -0,0 +1,330 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowDownToLine, Loader2, Play, RotateCcw, Square } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Job } from '@/components/jobs-tray'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from '@/components/ui/sheet'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+type StackStatus = 'running' | 'partial' | 'stopped' | 'missing' | 'invalid'
+
+type StackAction = 'up' | 'down' | 'pull' | 'redeploy'
+
+interface StackContainer {
+	id: string
+	name: string
+	state: string
+	status: string
+}
+
+interface Stack {
+	name: string
+	project: string
+	host: string
+	file: string
+	status: StackStatus
+	services: Array<{
+		name: string
+		image: string | null
+		desiredReplicas: number
+		runningReplicas: number
+		status: Exclude<StackStatus, 'invalid'>
+		containers: StackContainer[]
+	}>
+	orphans: StackContainer[]
+	error: string | null
+}
+
+const statusDotClassName: Record<StackStatus, string> = {
+	running: 'bg-emerald-500',
+	partial: 'bg-amber-500',
+	stopped: 'bg-zinc-400',
+	missing: 'bg-zinc-300 dark:bg-zinc-600',
+	invalid: 'bg-rose-500',
+}
+
+const stackActions: Array<{
+	action: StackAction
+	label: string
+	icon: typeof Play
+}> = [
+	{ action: 'up', label: 'Up', icon: Play },
+	{ action: 'pull', label: 'Pull', icon: ArrowDownToLine },
+	{ action: 'redeploy', label: 'Redeploy', icon: RotateCcw },
+	{ action: 'down', label: 'Down', icon: Square },
+]
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+const countReplicas = (stack: Stack) =>
+	stack.services.reduce(
+		(total, service) => ({
+			running:
+				total.running +
+				Math.min(service.runningReplicas, service.desiredReplicas),
+			desired: total.desired + service.desiredReplicas,
+		}),
+		{ running: 0, desired: 0 },
+	)
+
+interface StacksListProps {
+	/** Selected host, or `all` for the default host. */
+	host: string
+	canOperate: boolean
+	refreshKey?: number
+	onJobsStarted: (jobs: Job[]) => void
+}
+
+/**
+ * Sidebar list of compose stacks with their desired versus running replicas.
+ * A stack opens a sheet with its services and the compose actions; the
+ * command output streams into the jobs tray.
+ */
+export function StacksList({
+	host,
+	canOperate,
+	refreshKey = 0,
+	onJobsStarted,
+}: StacksListProps) {
+	const [stacks, setStacks] = useState<Stack[]>([])
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [selectedName, setSelectedName] = useState<string | null>(null)
+	const [pendingAction, setPendingAction] = useState<StackAction | null>(null)
+
+	const query = host === 'all' ? '' : `?host=${encodeURIComponent(host)}`
+
+	const fetchStacks = async () => {
+		try {
+			const response = await fetch(`/api/stacks${query}`, {
+				cache: 'no-store',
+			})
+			if (!response.ok) {
+				throw new Error('Failed to load stacks')
+			}
+
+			setStacks((await response.json()) as Stack[])
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Stacks unavailable')
+		}
+	}
+
+	useEffect(() => {
+		void fetchStacks()
+	}, [host, refreshKey])
+
+	const selected = stacks.find(stack => stack.name === selectedName) ?? null
+
+	const runAction = async (stack: Stack, action: StackAction) => {
+		if (
+			(action === 'down' || action === 'redeploy') &&
+			!window.confirm(
+				action === 'down'
+					? `Stop and remove the containers of ${stack.name}?`
+					: `Pull and recreate every container of ${stack.name}?`,
+			)
+		) {
+			return
+		}
+
+		setPendingAction(action)
+		try {
+			const response = await fetch(
+				`/api/stacks/${encodeURIComponent(stack.name)}/${action}${query}`,
+				{ method: 'POST' },
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, `${action} failed`))
+			}
+
+			onJobsStarted([(await response.json()) as Job])
+			toast.success(`${stack.name}: ${action} started`)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : `${action} failed`)
+		} finally {
+			setPendingAction(null)
+		}
+	}
+
+	return (
+		<>
+			<p className='mb-2 text-xs font-medium uppercase tracking-widest text-muted-foreground'>
+				Stacks
+			</p>
+			{errorMessage ? (
+				<p className='px-3 text-xs text-destructive'>{errorMessage}</p>
+			) : stacks.length === 0 ? (
+				<p className='px-3 text-xs text-muted-foreground'>
+					No compose stacks found.
+				</p>
+			) : (
+				<div className='space-y-1'>
+					{stacks.map(stack => {
+						const replicas = countReplicas(stack)
+
+						return (
+							<button
+								type='button'
+								key={stack.name}
+								onClick={() => setSelectedName(stack.name)}
+								className='flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground'
+							>
+								<span className='flex min-w-0 items-center gap-2'>
+									<span
+										className={cn(
+											'h-2 w-2 shrink-0 rounded-full',
+											statusDotClassName[stack.status],
+										)}
+									/>
+									<span className='truncate'>{stack.name}</span>
+								</span>
+								<Badge variant='secondary'>
+									{stack.status === 'invalid'
+										? 'invalid'
+										: `${replicas.running}/${replicas.desired}`}
+								</Badge>
+							</button>
+						)
+					})}
+				</div>
+			)}
+
+			<Sheet
+				open={selected !== null}
+				onOpenChange={open => {
+					if (!open) {
+						setSelectedName(null)
+					}
+				}}
+			>
+				<SheetContent className='w-full max-w-2xl overflow-y-auto'>
+					{selected && (
+						<div className='space-y-5'>
+							<SheetHeader>
+								<SheetTitle>Stack · {selected.name}</SheetTitle>
+								<SheetDescription>
+									{selected.file} · project {selected.project} on{' '}
+									{selected.host} · {selected.status}
+								</SheetDescription>
+							</SheetHeader>
+
+							{canOperate && (
+								<div className='flex flex-wrap gap-2'>
+									{stackActions.map(({ action, label, icon: Icon }) => (
+										<Button
+											key={action}
+											size='sm'
+											variant={action === 'down' ? 'destructive' : 'outline'}
+											disabled={
+												pendingAction !== null || selected.status === 'invalid'
+											}
+											onClick={() => void runAction(selected, action)}
+										>
+											{pendingAction === action ? (
+												<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+											) : (
+												<Icon className='mr-2 h-4 w-4' />
+											)}
+											{label}
+										</Button>
+									))}
+								</div>
+							)}
+
+							{selected.error ? (
+								<pre className='whitespace-pre-wrap rounded-md border border-destructive/40 p-3 text-xs text-destructive'>
+									{selected.error}
+								</pre>
+							) : (
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Service</TableHead>
+											<TableHead>Image</TableHead>
+											<TableHead>Running</TableHead>
+											<TableHead>Containers</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{selected.services.map(service => (
+											<TableRow key={service.name}>
+												<TableCell className='font-medium'>
+													<span className='flex items-center gap-2'>
+														<span
+															className={cn(
+																'h-2 w-2 shrink-0 rounded-full',
+																statusDotClassName[service.status],
+															)}
+														/>
+														{service.name}
+													</span>
+												</TableCell>
+												<TableCell className='max-w-[12rem] truncate font-mono text-xs'>
+													{service.image ?? 'build'}
+												</TableCell>
+												<TableCell className='text-xs'>
+													{service.runningReplicas}/{service.desiredReplicas}
+												</TableCell>
+												<TableCell className='text-xs text-muted-foreground'>
+													{service.containers.length > 0
+														? service.containers
+																.map(
+																	container =>
+																		`${container.name} (${container.state})`,
+																)
+																.join(', ')
+														: 'not created'}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							)}
+
+							{selected.orphans.length > 0 && (
+								<div className='space-y-1'>
+									<p className='text-sm font-medium'>Orphaned containers</p>
+									<p className='text-xs text-muted-foreground'>
+										In the project but no longer in the compose file; up and
+										redeploy remove them.
+									</p>
+									<ul className='text-xs'>
+										{selected.orphans.map(container => (
+											<li key={container.id}>
+												{container.name} · {container.status}
+											</li>
+										))}
+									</ul>
+								</div>
+							)}
+						</div>
+					)}
+				</SheetContent>
+			</Sheet>
+		</>
+	)
+}
@@ -0,0 +1,53 @@
+import { cn } from '@/lib/utils'
+
+interface SparklineProps extends Omit<
+	React.SVGAttributes<SVGSVGElement>,
+	'values'
+> {
+	values: number[]
+	max?: number
+}
+
+export function Sparkline({
+	values,
+	max,
+	className,
+	...props
+}: SparklineProps) {
+	const width = 100
+	const height = 24
+	const upper = Math.max(max ?? 0, ...values, 1)
+	const step = values.length > 1 ? width / (values.length - 1) : width
+	const points = values
+		.map(
+			(value, index) =>
+				`${(index * step).toFixed(2)},${(height - (value / upper) * height).toFixed(2)}`,
+		)
+		.join(' ')
+
+	return (
+		<svg
+			viewBox={`0 0 ${width} ${height}`}
+			preserveAspectRatio='none'
+			className={cn('h-6 w-full text-primary', className)}
+			aria-hidden='true'
+			{...props}
+		>
+			{values.length > 1 && (
+				<>
+					<polygon
+						points={`0,${height} ${points} ${width},${height}`}
+						className='fill-current opacity-10'
+					/>
+					<polyline
+						points={points}
+						fill='none'
+						stroke='currentColor'
+						strokeWidth={1.5}
+						vectorEffect='non-scaling-stroke'
+					/>
+				</>
+			)}
+		</svg>
+	)
+}
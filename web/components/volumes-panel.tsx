@@ -0,0 +1,436 @@
+'use client'
+
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { Database, Eraser, Loader2, RefreshCw, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+	ConfirmActionDialog,
+	type DestructiveConfirmation,
+} from '@/components/confirm-action-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+interface VolumeItem {
+	host: string
+	name: string
+	driver: string
+	mountpoint: string
+	scope: string
+	createdAt: string | null
+	labels: Record<string, string>
+	usedBy: Array<{
+		containerId: string
+		containerName: string
+		destination: string
+		readOnly: boolean
+	}>
+}
+
+interface VolumeDetail extends VolumeItem {
+	options: Record<string, string>
+	sizeBytes: number | null
+}
+
+const formatBytes = (bytes: number) => {
+	if (bytes >= 1024 ** 3) {
+		return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+	}
+
+	return `${(bytes / 1024 ** 2).toFixed(0)} MB`
+}
+
+const readErrorMessage = async (response: Response, fallback: string) => {
+	try {
+		const payload = (await response.json()) as { message?: string }
+		return payload.message ?? fallback
+	} catch {
+		return fallback
+	}
+}
+
+// Anonymous volumes are named by a 64 character hex id.
+const isAnonymous = (name: string) => /^[0-9a-f]{64}$/.test(name)
+
+interface VolumesPanelProps {
+	/** Selected host, or `all`. */
+	host: string
+	hostNames: string[]
+	canOperate: boolean
+	/** Name filter, set when following a link from a container card. */
+	filter: string
+	onFilterChange: (filter: string) => void
+	refreshKey?: number
+}
+
+/**
+ * Volumes per host with the containers mounting them. Unused volumes are
+ * listed first; a row expands into the volume's details.
+ */
+export function VolumesPanel({
+	host,
+	hostNames,
+	canOperate,
+	filter,
+	onFilterChange,
+	refreshKey = 0,
+}: VolumesPanelProps) {
+	const [volumes, setVolumes] = useState<VolumeItem[]>([])
+	const [isLoading, setIsLoading] = useState(false)
+	const [errorMessage, setErrorMessage] = useState<string | null>(null)
+	const [targetHost, setTargetHost] = useState('')
+	const [isPruning, setIsPruning] = useState(false)
+	const [confirmation, setConfirmation] =
+		useState<DestructiveConfirmation | null>(null)
+	const [expandedKey, setExpandedKey] = useState<string | null>(null)
+	const [detail, setDetail] = useState<VolumeDetail | null>(null)
+
+	const actionHost = host === 'all' ? targetHost || hostNames[0] || '' : host
+
+	const fetchVolumes = async () => {
+		setIsLoading(true)
+		try {
+			const query = host === 'all' ? '' : `?host=${encodeURIComponent(host)}`
+			const response = await fetch(`/api/volumes${query}`, {
+				cache: 'no-store',
+			})
+			if (!response.ok) {
+				throw new Error('Failed to load volumes')
+			}
+
+			setVolumes((await response.json()) as VolumeItem[])
+			setErrorMessage(null)
+		} catch {
+			setErrorMessage('Volumes unavailable')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		void fetchVolumes()
+	}, [host, refreshKey])
+
+	const visibleVolumes = useMemo(() => {
+		const query = filter.trim().toLowerCase()
+
+		return volumes
+			.filter(
+				volume =>
+					!query ||
+					volume.name.toLowerCase().includes(query) ||
+					volume.usedBy.some(usage =>
+						usage.containerName.toLowerCase().includes(query),
+					),
+			)
+			.sort(
+				(left, right) =>
+					Number(left.usedBy.length > 0) - Number(right.usedBy.length > 0) ||
+					left.name.localeCompare(right.name),
+			)
+	}, [volumes, filter])
+	const unusedCount = volumes.filter(
+		volume => volume.usedBy.length === 0,
+	).length
+
+	const toggleVolume = async (volume: VolumeItem) => {
+		const key = `${volume.host}/${volume.name}`
+		if (expandedKey === key) {
+			setExpandedKey(null)
+			return
+		}
+
+		setExpandedKey(key)
+		setDetail(null)
+		try {
+			const response = await fetch(
+				`/api/volumes/${encodeURIComponent(volume.name)}?host=${encodeURIComponent(volume.host)}`,
+				{ cache: 'no-store' },
+			)
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, 'Inspect failed'))
+			}
+
+			setDetail((await response.json()) as VolumeDetail)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Inspect failed')
+			setExpandedKey(null)
+		}
+	}
+
+	const pruneVolumes = async (includeNamed: boolean, confirm?: string) => {
+		if (!actionHost) {
+			return
+		}
+
+		// Named volumes hold data, so pruning them goes through the typed
+		// confirmation; anonymous ones only ask once.
+		if (
+			!includeNamed &&
+			!window.confirm(`Remove unused anonymous volumes on ${actionHost}?`)
+		) {
+			return
+		}
+
+		setIsPruning(true)
+		try {
+			const response = await fetch(
+				`/api/volumes/prune?host=${encodeURIComponent(actionHost)}`,
+				{
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify({ includeNamed, confirm }),
+				},
+			)
+			if (response.status === 428) {
+				const required = (await response.json()) as {
+					confirmationToken: string
+					targets: Array<{ id: string; name: string }>
+				}
+				setConfirmation({
+					action: 'prune',
+					subject: `unused volumes on ${actionHost}`,
+					expected: actionHost,
+					targets: required.targets,
+					onConfirm: () => pruneVolumes(true, required.confirmationToken),
+				})
+				return
+			}
+
+			if (!response.ok) {
+				throw new Error(await readErrorMessage(response, 'Prune failed'))
+			}
+
+			const result = (await response.json()) as {
+				deleted: string[]
+				spaceReclaimedBytes: number
+			}
+			toast.success(
+				`Pruned ${result.deleted.length} volume(s), reclaimed ${formatBytes(result.spaceReclaimedBytes)}`,
+			)
+			await fetchVolumes()
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Prune failed')
+		} finally {
+			setIsPruning(false)
+		}
+	}
+
+	return (
+		<Card className='border-zinc-200/60 shadow-sm dark:border-zinc-800'>
+			<CardHeader className='pb-3'>
+				<div className='flex items-center justify-between gap-3'>
+					<CardTitle className='flex items-center gap-2 text-sm'>
+						<Database className='h-4 w-4 text-muted-foreground' />
+						{volumes.length} volumes · {unusedCount} unused
+					</CardTitle>
+					<IconButton
+						variant='outline'
+						size='sm'
+						aria-label='Refresh volumes'
+						onClick={() => void fetchVolumes()}
+						disabled={isLoading}
+						icon={
+							<RefreshCw
+								className={cn('h-4 w-4', isLoading && 'animate-spin')}
+							/>
+						}
+					/>
+				</div>
+				<div className='flex flex-col gap-2 pt-2 md:flex-row'>
+					<div className='relative md:max-w-sm md:flex-1'>
+						<Input
+							placeholder='Filter by volume or container'
+							value={filter}
+							onChange={event => onFilterChange(event.target.value)}
+						/>
+						{filter && (
+							<button
+								type='button'
+								aria-label='Clear filter'
+								className='absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground'
+								onClick={() => onFilterChange('')}
+							>
+								<X className='h-4 w-4' />
+							</button>
+						)}
+					</div>
+					{canOperate && (
+						<div className='flex gap-2 md:ml-auto'>
+							{host === 'all' && (
+								<Select
+									value={actionHost}
+									onChange={event => setTargetHost(event.target.value)}
+									aria-label='Host'
+									className='md:w-40'
+								>
+									{hostNames.map(name => (
+										<option key={name} value={name}>
+											{name}
+										</option>
+									))}
+								</Select>
+							)}
+							<Button
+								size='sm'
+								variant='outline'
+								className='h-9'
+								onClick={() => void pruneVolumes(false)}
+								disabled={isPruning}
+							>
+								{isPruning ? (
+									<Loader2 className='mr-2 h-4 w-4 animate-spin' />
+								) : (
+									<Eraser className='mr-2 h-4 w-4' />
+								)}
+								Prune anonymous
+							</Button>
+							<Button
+								size='sm'
+								variant='outline'
+								className='h-9'
+								onClick={() => void pruneVolumes(true)}
+								disabled={isPruning}
+							>
+								Prune all unused
+							</Button>
+						</div>
+					)}
+				</div>
+			</CardHeader>
+			<CardContent>
+				{errorMessage ? (
+					<p className='text-sm text-destructive'>{errorMessage}</p>
+				) : visibleVolumes.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						{isLoading ? 'Loading...' : 'No volumes.'}
+					</p>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Volume</TableHead>
+								<TableHead>Driver</TableHead>
+								<TableHead>Mounted by</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{visibleVolumes.map(volume => {
+								const key = `${volume.host}/${volume.name}`
+
+								return (
+									<Fragment key={key}>
+										<TableRow
+											className='cursor-pointer'
+											onClick={() => void toggleVolume(volume)}
+										>
+											<TableCell className='max-w-xs'>
+												<p className='truncate font-mono text-xs'>
+													{isAnonymous(volume.name)
+														? volume.name.slice(0, 12)
+														: volume.name}
+												</p>
+												<p className='text-[11px] text-muted-foreground'>
+													{host === 'all' && `${volume.host} · `}
+													{isAnonymous(volume.name) ? 'anonymous' : 'named'}
+												</p>
+											</TableCell>
+											<TableCell className='text-xs'>{volume.driver}</TableCell>
+											<TableCell className='max-w-xs'>
+												{volume.usedBy.length === 0 ? (
+													<Badge variant='secondary'>unused</Badge>
+												) : (
+													<p className='truncate text-xs text-muted-foreground'>
+														{volume.usedBy
+															.map(
+																usage =>
+																	`${usage.containerName}:${usage.destination}${usage.readOnly ? ' (ro)' : ''}`,
+															)
+															.join(', ')}
+													</p>
+												)}
+											</TableCell>
+										</TableRow>
+										{expandedKey === key && (
+											<TableRow>
+												<TableCell colSpan={3} className='bg-muted/40'>
+													{detail ? (
+														<dl className='grid gap-x-4 gap-y-1 text-xs md:grid-cols-[8rem_1fr]'>
+															<dt className='text-muted-foreground'>Name</dt>
+															<dd className='break-all font-mono'>
+																{detail.name}
+															</dd>
+															<dt className='text-muted-foreground'>
+																Mountpoint
+															</dt>
+															<dd className='break-all font-mono'>
+																{detail.mountpoint}
+															</dd>
+															<dt className='text-muted-foreground'>Scope</dt>
+															<dd>{detail.scope}</dd>
+															{detail.createdAt && (
+																<>
+																	<dt className='text-muted-foreground'>
+																		Created
+																	</dt>
+																	<dd>
+																		{new Date(
+																			detail.createdAt,
+																		).toLocaleString()}
+																	</dd>
+																</>
+															)}
+															{detail.sizeBytes !== null && (
+																<>
+																	<dt className='text-muted-foreground'>
+																		Size
+																	</dt>
+																	<dd>{formatBytes(detail.sizeBytes)}</dd>
+																</>
+															)}
+															{Object.entries({
+																...detail.options,
+																...detail.labels,
+															}).map(([name, value]) => (
+																<Fragment key={name}>
+																	<dt className='truncate text-muted-foreground'>
+																		{name}
+																	</dt>
+																	<dd className='break-all font-mono'>
+																		{value}
+																	</dd>
+																</Fragment>
+															))}
+														</dl>
+													) : (
+														<Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />
+													)}
+												</TableCell>
+											</TableRow>
+										)}
+									</Fragment>
+								)
+							})}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+			<ConfirmActionDialog
+				confirmation={confirmation}
+				onClose={() => setConfirmation(null)}
+			/>
+		</Card>
+	)
+}
@@ -0,0 +1,10 @@
+/**
+ * Maps the `?host=` query parameter of a proxy request to the backend's
+ * host-scoped route prefix. Without it the backend uses its default host
+ * (or, for listings, every host).
+ */
+export function hostScope(request: Request): string {
+	const host = new URL(request.url).searchParams.get('host')?.trim()
+
+	return host ? `/hosts/${encodeURIComponent(host)}` : ''
+}
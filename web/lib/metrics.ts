@@ -0,0 +1,144 @@
+export interface StatsHistoryPoint {
+	timestamp: string
+	cpuPercent: number
+	memUsageBytes: number
+	memPercent: number
+	pids: number | null
+}
+
+/** Live stats of one container, as `GET /containers/:id/stats` returns them. */
+export interface ContainerStats {
+	cpuPercent: number
+	perCpuPercent: number[]
+	memUsageBytes: number
+	memCacheBytes: number
+	memLimitBytes: number
+	memPercent: number
+	pids: number | null
+	networks: Array<{
+		interface: string
+		rxBytes: number
+		txBytes: number
+		rxBytesPerSecond: number | null
+		txBytesPerSecond: number | null
+	}>
+	netRxBytes: number
+	netTxBytes: number
+	netRxBytesPerSecond: number | null
+	netTxBytesPerSecond: number | null
+	blockReadBytes: number
+	blockWriteBytes: number
+	throttling: {
+		periods: number
+		throttledPeriods: number
+		throttledTimeNanos: number
+		throttledPercent: number
+	} | null
+}
+
+/** Stats of the machine the API runs on, as `GET /stats/host` returns them. */
+export interface HostStats {
+	cpuPercent: number
+	perCpuPercent: number[]
+	cpuSampleAgeMs: number | null
+	cpuCount: number
+	loadAverage: {
+		oneMinute: number
+		fiveMinutes: number
+		fifteenMinutes: number
+	}
+	totalMemBytes: number
+	freeMemBytes: number
+	availableMemBytes: number
+	usedMemBytes: number
+	usedMemPercent: number
+	swapTotalBytes: number
+	swapUsedBytes: number
+	swapPercent: number
+	uptimeSeconds: number
+	disks: Array<{
+		mount: string
+		device: string
+		fsType: string
+		totalBytes: number
+		usedBytes: number
+		availableBytes: number
+		usedPercent: number
+		inodesTotal: number
+		inodesUsed: number
+		inodesPercent: number
+	}>
+	networks: Array<{
+		interface: string
+		rxBytes: number
+		txBytes: number
+		rxBytesPerSecond: number | null
+		txBytesPerSecond: number | null
+	}>
+	cgroup: {
+		version: 1 | 2
+		memLimitBytes: number | null
+		memUsageBytes: number | null
+		cpuLimit: number | null
+	} | null
+	dockerDisk: {
+		host: string
+		imagesBytes: number
+		containersBytes: number
+		volumesBytes: number
+		buildCacheBytes: number
+		totalBytes: number
+	} | null
+}
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB']
+
+export const formatByteSize = (bytes: number) => {
+	let value = bytes
+	let unit = 0
+	while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+		value /= 1024
+		unit += 1
+	}
+
+	return `${value.toFixed(unit === 0 || value >= 100 ? 0 : 1)} ${BYTE_UNITS[unit]}`
+}
+
+/** Rates are unknown until a second stats read, shown as a dash. */
+export const formatByteRate = (bytesPerSecond: number | null) =>
+	bytesPerSecond === null ? '—' : `${formatByteSize(bytesPerSecond)}/s`
+
+export interface StatsHistory {
+	target: string
+	from: string
+	to: string
+	stepSeconds: number
+	points: StatsHistoryPoint[]
+}
+
+/** Matches the series names the backend sampler records containers under. */
+export const containerMetricsTarget = (host: string, id: string) =>
+	`container:${host}/${id}`
+
+export async function fetchStatsHistory(
+	target: string,
+	rangeSeconds: number,
+	stepSeconds?: number,
+): Promise<StatsHistory> {
+	const params = new URLSearchParams({
+		target,
+		from: new Date(Date.now() - rangeSeconds * 1000).toISOString(),
+	})
+	if (stepSeconds) {
+		params.set('step', String(stepSeconds))
+	}
+
+	const response = await fetch(`/api/stats/history?${params.toString()}`, {
+		cache: 'no-store',
+	})
+	if (!response.ok) {
+		throw new Error('Failed to load stats history')
+	}
+
+	return (await response.json()) as StatsHistory
+}
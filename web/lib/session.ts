@@ -0,0 +1,14 @@
+import { cookies } from 'next/headers'
+
+export const SESSION_COOKIE = 'kz_session'
+
+/**
+ * Builds the Authorization header the backend expects from the httpOnly
+ * session cookie set by `/api/auth/login`.
+ */
+export async function sessionHeaders(): Promise<Record<string, string>> {
+	const cookieStore = await cookies()
+	const token = cookieStore.get(SESSION_COOKIE)?.value
+
+	return token ? { authorization: `Bearer ${token}` } : {}
+}
@@ -1,7 +1,17 @@
 import type { NextConfig } from 'next'
 
+const BACKEND =
+	process.env.BACKEND_URL ||
+	process.env.NEXT_PUBLIC_API_BASE ||
+	'http://localhost:3001'
+
 const nextConfig: NextConfig = {
 	output: 'standalone',
+	// Route handlers cannot upgrade connections, so the terminal WebSocket is
+	// proxied by a rewrite. Rewrites are resolved at build time.
+	async rewrites() {
+		return [{ source: '/api/exec/socket', destination: `${BACKEND}/exec` }]
+	},
 }
 
 export default nextConfig